@@ -100,6 +100,50 @@ async function main() {
   });
   console.log(`Created provider: ${paypalProvider.name}`);
 
+  const bankTransferProvider = await prisma.paymentProvider.upsert({
+    where: { code: 'bank_transfer' },
+    update: {},
+    create: {
+      name: 'Bank Transfer',
+      code: 'bank_transfer',
+      status: ProviderStatus.ACTIVE,
+      // ACH in USD, SEPA in EUR
+      supportedCurrencies: [Currency.USD, Currency.EUR],
+      supportedMethods: [PaymentMethodType.BANK_TRANSFER],
+      config: {
+        webhookEndpoint: '/webhooks/bank-transfer',
+        webhookSecret: 'whsec_bank_transfer_demo',
+        // Two days, as for a standard ACH or SEPA Core debit
+        settlementDelayMs: 2 * 24 * 60 * 60 * 1000,
+      },
+      isActive: true,
+    },
+  });
+  console.log(`Created provider: ${bankTransferProvider.name}`);
+
+  const cryptoProvider = await prisma.paymentProvider.upsert({
+    where: { code: 'crypto' },
+    update: {},
+    create: {
+      name: 'Crypto',
+      code: 'crypto',
+      status: ProviderStatus.ACTIVE,
+      // Settles in the merchant's currency at the quoted rate
+      supportedCurrencies: [Currency.USD, Currency.EUR, Currency.GBP],
+      supportedMethods: [PaymentMethodType.CRYPTO],
+      config: {
+        webhookEndpoint: '/webhooks/crypto',
+        webhookSecret: 'whsec_crypto_demo',
+        quoteValidityMinutes: 15,
+        // Overrides each asset's own confirmation count and block time
+        requiredConfirmations: 3,
+        blockTimeMs: 60 * 1000,
+      },
+      isActive: true,
+    },
+  });
+  console.log(`Created provider: ${cryptoProvider.name}`);
+
   // Create sample merchant
   const demoMerchant = await prisma.merchant.upsert({
     where: { email: 'merchant@demo.com' },
@@ -173,6 +217,46 @@ async function main() {
   });
   console.log(`Created PayPal config for ${demoMerchant.name}`);
 
+  await prisma.merchantProviderConfig.upsert({
+    where: {
+      merchantId_providerId: {
+        merchantId: demoMerchant.id,
+        providerId: bankTransferProvider.id,
+      },
+    },
+    update: {},
+    create: {
+      merchantId: demoMerchant.id,
+      providerId: bankTransferProvider.id,
+      credentials: {},
+      settings: {
+        statementDescriptor: 'DEMO STORE',
+      },
+      priority: 3,
+      isActive: true,
+    },
+  });
+  console.log(`Created Bank Transfer config for ${demoMerchant.name}`);
+
+  await prisma.merchantProviderConfig.upsert({
+    where: {
+      merchantId_providerId: {
+        merchantId: demoMerchant.id,
+        providerId: cryptoProvider.id,
+      },
+    },
+    update: {},
+    create: {
+      merchantId: demoMerchant.id,
+      providerId: cryptoProvider.id,
+      credentials: {},
+      settings: {},
+      priority: 4,
+      isActive: true,
+    },
+  });
+  console.log(`Created Crypto config for ${demoMerchant.name}`);
+
   // Create sample customer
   const demoCustomer = await prisma.customer.upsert({
     where: {
@@ -4,9 +4,11 @@ import cors from 'cors';
 import morgan from 'morgan';
 import { config } from './config/index.js';
 import routes from './routes/index.js';
+import { hostedPageRoutes } from './modules/payment-link/index.js';
 import {
   requestIdMiddleware,
   rateLimiter,
+  idempotencyMiddleware,
   notFoundHandler,
   errorHandler,
 } from './shared/middleware/index.js';
@@ -22,7 +24,7 @@ export function createApp(): Express {
       origin: config.env.CORS_ORIGIN,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'Idempotency-Key'],
     })
   );
 
@@ -39,16 +41,27 @@ export function createApp(): Express {
     })
   );
 
-  // Body parsing
+  // Body parsing; batch uploads carry hundreds of rows, so they get a larger limit
+  app.use(
+    '/api/v1/payment-batches',
+    express.json({ limit: '2mb' }),
+    express.text({ type: 'text/csv', limit: '2mb' })
+  );
   app.use(express.json({ limit: '10kb' }));
   app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 
   // Rate limiting
   app.use(rateLimiter);
 
+  // Replay retried POST/PATCH requests that carry an Idempotency-Key
+  app.use(idempotencyMiddleware);
+
   // API routes
   app.use('/api/v1', routes);
 
+  // Customer-facing pages behind payment links
+  app.use('/pay', hostedPageRoutes);
+
   // 404 handler
   app.use(notFoundHandler);
 
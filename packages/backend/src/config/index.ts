@@ -10,6 +10,7 @@ const envSchema = z.object({
   ENCRYPTION_KEY: z.string().min(32),
   RATE_LIMIT_WINDOW_MS: z.string().transform(Number).default('900000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
+  IDEMPOTENCY_KEY_TTL_SECONDS: z.string().transform(Number).default('86400'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
 
   // FX Service
@@ -22,6 +23,78 @@ const envSchema = z.object({
   // Provider Simulation
   PROVIDER_SIMULATE_LATENCY_MS: z.string().transform(Number).default('100'),
   PROVIDER_FAILURE_RATE: z.string().transform(Number).default('0.02'),
+  PROVIDER_SIMULATION_INTERVAL_MS: z.string().transform(Number).default('10000'),
+  PROVIDER_ADAPTER_CACHE_SIZE: z.string().transform(Number).default('500'),
+
+  // Authorization Expiry
+  AUTHORIZATION_EXPIRY_HOURS: z.string().transform(Number).default('168'),
+  AUTHORIZATION_SWEEP_INTERVAL_MS: z.string().transform(Number).default('300000'),
+  AUTHORIZATION_SWEEP_BATCH_SIZE: z.string().transform(Number).default('100'),
+
+  // Merchant Webhooks
+  MERCHANT_WEBHOOK_MAX_ATTEMPTS: z.string().transform(Number).default('8'),
+  MERCHANT_WEBHOOK_RETRY_BASE_MS: z.string().transform(Number).default('30000'),
+  MERCHANT_WEBHOOK_TIMEOUT_MS: z.string().transform(Number).default('10000'),
+  MERCHANT_WEBHOOK_POLL_INTERVAL_MS: z.string().transform(Number).default('15000'),
+
+  // Payouts
+  PAYOUT_SYNC_INTERVAL_MS: z.string().transform(Number).default('60000'),
+  PAYOUT_SYNC_BATCH_SIZE: z.string().transform(Number).default('100'),
+
+  // Subscriptions
+  SUBSCRIPTION_BILLING_INTERVAL_MS: z.string().transform(Number).default('300000'),
+  SUBSCRIPTION_BILLING_BATCH_SIZE: z.string().transform(Number).default('100'),
+  SUBSCRIPTION_RETRY_SCHEDULE_HOURS: z
+    .string()
+    .transform((value) => value.split(',').map(Number))
+    .default('24,72,168'),
+
+  // Payment Links
+  PUBLIC_BASE_URL: z.string().url().default('http://localhost:3000'),
+
+  // Payment Batches
+  PAYMENT_BATCH_POLL_INTERVAL_MS: z.string().transform(Number).default('5000'),
+  PAYMENT_BATCH_CONCURRENCY: z.string().transform(Number).default('5'),
+  PAYMENT_BATCH_CHUNK_SIZE: z.string().transform(Number).default('100'),
+  PAYMENT_BATCH_MAX_ROWS: z.string().transform(Number).default('1000'),
+
+  // Async Payments
+  PAYMENT_QUEUE_WORKERS: z.string().transform(Number).default('4'),
+  PAYMENT_QUEUE_POLL_INTERVAL_MS: z.string().transform(Number).default('1000'),
+  PAYMENT_QUEUE_VISIBILITY_TIMEOUT_MS: z.string().transform(Number).default('120000'),
+  PAYMENT_QUEUE_MAX_ATTEMPTS: z.string().transform(Number).default('5'),
+  PAYMENT_QUEUE_RETRY_DELAY_MS: z.string().transform(Number).default('5000'),
+
+  // Payment Exports
+  PAYMENT_EXPORT_DIR: z.string().default('exports'),
+  PAYMENT_EXPORT_POLL_INTERVAL_MS: z.string().transform(Number).default('5000'),
+  PAYMENT_EXPORT_FETCH_SIZE: z.string().transform(Number).default('500'),
+  PAYMENT_EXPORT_TTL_HOURS: z.string().transform(Number).default('24'),
+
+  // Payment Retries
+  PAYMENT_RETRY_POLL_INTERVAL_MS: z.string().transform(Number).default('30000'),
+  PAYMENT_RETRY_BATCH_SIZE: z.string().transform(Number).default('20'),
+  PAYMENT_RETRY_DEFAULT_CODES: z
+    .string()
+    .transform((value) => value.split(',').map((code) => code.trim()).filter(Boolean))
+    .default('NETWORK_ERROR,TIMEOUT,RATE_LIMITED,PROVIDER_UNAVAILABLE'),
+  PAYMENT_RETRY_DEFAULT_MAX_ATTEMPTS: z.string().transform(Number).default('3'),
+  PAYMENT_RETRY_DEFAULT_BACKOFF_MINUTES: z
+    .string()
+    .transform((value) => value.split(',').map(Number))
+    .default('15,60,240'),
+
+  // Circuit Breaker
+  CIRCUIT_BREAKER_WINDOW_MS: z.string().transform(Number).default('60000'),
+  CIRCUIT_BREAKER_MIN_REQUESTS: z.string().transform(Number).default('10'),
+  CIRCUIT_BREAKER_FAILURE_RATE: z.string().transform(Number).default('0.5'),
+  CIRCUIT_BREAKER_COOLDOWN_MS: z.string().transform(Number).default('30000'),
+  CIRCUIT_BREAKER_HALF_OPEN_SUCCESSES: z.string().transform(Number).default('3'),
+  CIRCUIT_BREAKER_HALF_OPEN_PROBES: z.string().transform(Number).default('3'),
+  CIRCUIT_BREAKER_PER_MERCHANT: z
+    .string()
+    .transform((value) => value === 'true')
+    .default('false'),
 });
 
 const parseEnv = () => {
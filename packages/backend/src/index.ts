@@ -8,6 +8,15 @@ import {
   disconnectRedis,
 } from './shared/database/index.js';
 import { logger } from './shared/utils/logger.js';
+import { authorizationExpiryService } from './modules/payment/authorization-expiry.service.js';
+import { paymentWorkerService } from './modules/payment/payment-worker.service.js';
+import { paymentRetryWorkerService } from './modules/payment/payment-retry-worker.service.js';
+import { providerSimulationService } from './modules/provider/provider-simulation.service.js';
+import { merchantWebhookService } from './modules/merchant-webhook/merchant-webhook.service.js';
+import { payoutService } from './modules/payout/payout.service.js';
+import { subscriptionService } from './modules/subscription/subscription.service.js';
+import { paymentBatchService } from './modules/payment-batch/payment-batch.service.js';
+import { paymentExportService } from './modules/payment-export/payment-export.service.js';
 
 const app = createApp();
 
@@ -26,10 +35,31 @@ async function startServer(): Promise<void> {
       });
     });
 
+    // Start background jobs
+    authorizationExpiryService.start();
+    merchantWebhookService.start();
+    payoutService.start();
+    subscriptionService.start();
+    paymentBatchService.start();
+    paymentExportService.start();
+    paymentWorkerService.start();
+    paymentRetryWorkerService.start();
+    providerSimulationService.start();
+
     // Graceful shutdown handlers
     const gracefulShutdown = async (signal: string) => {
       logger.info(`Received ${signal}, starting graceful shutdown...`);
 
+      authorizationExpiryService.stop();
+      merchantWebhookService.stop();
+      payoutService.stop();
+      subscriptionService.stop();
+      paymentBatchService.stop();
+      paymentExportService.stop();
+      paymentWorkerService.stop();
+      paymentRetryWorkerService.stop();
+      providerSimulationService.stop();
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
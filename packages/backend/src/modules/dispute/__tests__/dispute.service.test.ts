@@ -0,0 +1,271 @@
+import { DisputeService } from '../dispute.service';
+
+jest.mock('../../../shared/database/prisma', () => {
+  const prisma: any = {
+    dispute: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+jest.mock('../../ledger/ledger.service', () => ({
+  ledgerService: {
+    recordDisputeOpened: jest.fn(),
+    recordDisputeReversal: jest.fn(),
+  },
+}));
+
+jest.mock('../../provider/provider.service', () => ({
+  providerService: { getAdapter: jest.fn() },
+}));
+
+jest.mock('../../merchant-webhook/merchant-webhook.service', () => ({
+  merchantWebhookService: { publish: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { ledgerService } from '../../ledger/ledger.service';
+import { providerService } from '../../provider/provider.service';
+import { merchantWebhookService } from '../../merchant-webhook/merchant-webhook.service';
+import { ProviderError } from '../../provider/provider.types';
+
+const transaction = {
+  id: 'txn-1',
+  merchantId: 'm-1',
+  providerId: 'prov-1',
+  amount: 5000n,
+  currency: 'USD',
+} as any;
+
+const baseDispute = {
+  id: 'dsp-1',
+  transactionId: 'txn-1',
+  merchantId: 'm-1',
+  providerId: 'prov-1',
+  providerDisputeId: 'dp_123',
+  reason: 'fraudulent',
+  amount: 5000n,
+  currency: 'USD',
+  status: 'NEEDS_RESPONSE',
+  dueBy: new Date(Date.now() + 7 * 86400000),
+  evidence: null,
+  evidenceSubmittedAt: null,
+  closedAt: null,
+  metadata: {},
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const reported = {
+  providerDisputeId: 'dp_123',
+  status: 'needs_response' as const,
+  reason: 'fraudulent',
+  amount: 5000n,
+  currency: 'USD' as const,
+  dueBy: baseDispute.dueBy,
+};
+
+describe('DisputeService', () => {
+  let service: DisputeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (DisputeService as any).instance = null;
+    service = DisputeService.getInstance();
+
+    (prisma.dispute.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseDispute, ...data })
+    );
+    (prisma.dispute.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseDispute, ...data })
+    );
+  });
+
+  describe('recordProviderDispute', () => {
+    it('should open a dispute and debit the merchant', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const result = await service.recordProviderDispute('prov-1', transaction, reported);
+
+      expect(prisma.dispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionId: 'txn-1',
+          merchantId: 'm-1',
+          providerDisputeId: 'dp_123',
+          status: 'NEEDS_RESPONSE',
+        }),
+      });
+      expect(ledgerService.recordDisputeOpened).toHaveBeenCalledWith('txn-1', 5000n, 'USD', prisma);
+      expect(ledgerService.recordDisputeReversal).not.toHaveBeenCalled();
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'dispute.opened', expect.objectContaining({
+        id: 'dsp-1',
+        amount: '5000',
+      }));
+      expect(result.status).toBe('NEEDS_RESPONSE');
+    });
+
+    it('should return the funds when a dispute is won', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue(baseDispute);
+      (prisma.dispute.findUniqueOrThrow as jest.Mock).mockResolvedValue({ ...baseDispute, status: 'UNDER_REVIEW' });
+
+      const result = await service.recordProviderDispute('prov-1', transaction, { ...reported, status: 'won' });
+
+      expect(ledgerService.recordDisputeReversal).toHaveBeenCalledWith('txn-1', 5000n, 'USD', prisma);
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dsp-1' },
+        data: expect.objectContaining({ status: 'WON', closedAt: expect.any(Date) }),
+      });
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'dispute.closed', expect.anything());
+      expect(result.status).toBe('WON');
+    });
+
+    it('should keep the debit when a dispute is lost', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue(baseDispute);
+      (prisma.dispute.findUniqueOrThrow as jest.Mock).mockResolvedValue(baseDispute);
+
+      await service.recordProviderDispute('prov-1', transaction, { ...reported, status: 'lost' });
+
+      expect(ledgerService.recordDisputeReversal).not.toHaveBeenCalled();
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dsp-1' },
+        data: expect.objectContaining({ status: 'LOST' }),
+      });
+    });
+
+    it('should ignore updates after the dispute is closed', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue(baseDispute);
+      (prisma.dispute.findUniqueOrThrow as jest.Mock).mockResolvedValue({ ...baseDispute, status: 'LOST' });
+
+      const result = await service.recordProviderDispute('prov-1', transaction, { ...reported, status: 'under_review' });
+
+      expect(prisma.dispute.update).not.toHaveBeenCalled();
+      expect(merchantWebhookService.publish).not.toHaveBeenCalled();
+      expect(result.status).toBe('LOST');
+    });
+
+    it('should debit and reverse in one step when first seen as won', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await service.recordProviderDispute('prov-1', transaction, { ...reported, status: 'won' });
+
+      expect(ledgerService.recordDisputeOpened).toHaveBeenCalled();
+      expect(ledgerService.recordDisputeReversal).toHaveBeenCalled();
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'dispute.opened', expect.anything());
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'dispute.closed', expect.anything());
+    });
+  });
+
+  describe('submitEvidence', () => {
+    const adapter = { submitDisputeEvidence: jest.fn() };
+    const evidence = { productDescription: 'Annual plan', shippingTrackingNumber: '1Z999' };
+
+    beforeEach(() => {
+      (providerService.getAdapter as jest.Mock).mockResolvedValue(adapter);
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue({
+        ...baseDispute,
+        provider: { code: 'stripe' },
+      });
+      (prisma.dispute.findUniqueOrThrow as jest.Mock).mockResolvedValue(baseDispute);
+    });
+
+    it('should send evidence to the provider and move the dispute under review', async () => {
+      adapter.submitDisputeEvidence.mockResolvedValue({
+        success: true,
+        providerDisputeId: 'dp_123',
+        status: 'under_review',
+        rawResponse: { id: 'dp_123' },
+      });
+
+      const result = await service.submitEvidence('dsp-1', { evidence });
+
+      expect(providerService.getAdapter).toHaveBeenCalledWith('stripe', 'm-1');
+      expect(adapter.submitDisputeEvidence).toHaveBeenCalledWith({ providerDisputeId: 'dp_123', evidence });
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dsp-1' },
+        data: expect.objectContaining({
+          status: 'UNDER_REVIEW',
+          evidence,
+          evidenceSubmittedAt: expect.any(Date),
+        }),
+      });
+      expect(result.status).toBe('UNDER_REVIEW');
+    });
+
+    it('should keep an outcome a webhook recorded while the evidence was being sent', async () => {
+      adapter.submitDisputeEvidence.mockResolvedValue({
+        success: true,
+        providerDisputeId: 'dp_123',
+        status: 'under_review',
+        rawResponse: { id: 'dp_123' },
+      });
+      (prisma.dispute.findUniqueOrThrow as jest.Mock).mockResolvedValue({ ...baseDispute, status: 'WON' });
+
+      await service.submitEvidence('dsp-1', { evidence });
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.dispute.update).toHaveBeenCalledWith({
+        where: { id: 'dsp-1' },
+        data: expect.objectContaining({ status: 'WON', evidence }),
+      });
+      expect(ledgerService.recordDisputeReversal).not.toHaveBeenCalled();
+      expect(merchantWebhookService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should close the dispute when the provider decides it on submission', async () => {
+      adapter.submitDisputeEvidence.mockResolvedValue({
+        success: true,
+        providerDisputeId: 'dp_123',
+        status: 'won',
+        rawResponse: { id: 'dp_123' },
+      });
+
+      const result = await service.submitEvidence('dsp-1', { evidence });
+
+      expect(result.status).toBe('WON');
+      expect(ledgerService.recordDisputeReversal).toHaveBeenCalledWith('txn-1', 5000n, 'USD', prisma);
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith(
+        'm-1', 'dispute.closed', expect.objectContaining({ status: 'WON' })
+      );
+    });
+
+    it('should reject evidence once the dispute is under review', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue({
+        ...baseDispute,
+        status: 'UNDER_REVIEW',
+        provider: { code: 'stripe' },
+      });
+
+      await expect(service.submitEvidence('dsp-1', { evidence })).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+      expect(adapter.submitDisputeEvidence).not.toHaveBeenCalled();
+    });
+
+    it('should reject evidence after the deadline', async () => {
+      (prisma.dispute.findUnique as jest.Mock).mockResolvedValue({
+        ...baseDispute,
+        dueBy: new Date(Date.now() - 1000),
+        provider: { code: 'stripe' },
+      });
+
+      await expect(service.submitEvidence('dsp-1', { evidence })).rejects.toMatchObject({ code: 'EVIDENCE_OVERDUE' });
+    });
+
+    it('should surface provider rejections without changing the dispute', async () => {
+      adapter.submitDisputeEvidence.mockRejectedValue(new ProviderError('Dispute dp_123 not found', 'NOT_FOUND'));
+
+      await expect(service.submitEvidence('dsp-1', { evidence })).rejects.toMatchObject({ code: 'PROVIDER_ERROR' });
+      expect(prisma.dispute.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import { DisputeStatus } from '@prisma/client';
+import { disputeService } from './dispute.service.js';
+import {
+  DisputeIdParam,
+  ListDisputesQuery,
+  SubmitDisputeEvidenceBody,
+} from './dispute.schemas.js';
+import { DisputeResponse } from './dispute.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+
+export class DisputeController {
+  async getById(
+    req: Request<DisputeIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const dispute = await disputeService.getDispute(req.params.id);
+
+      if (!dispute) {
+        throw AppError.notFound(`Dispute with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatDispute(dispute),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListDisputesQuery;
+
+      const result = await disputeService.listDisputes({
+        merchantId: query.merchantId,
+        transactionId: query.transactionId,
+        status: query.status as DisputeStatus | undefined,
+        dueBefore: query.dueBefore,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.disputes.map((dispute) => this.formatDispute(dispute)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async submitEvidence(
+    req: Request<DisputeIdParam, unknown, SubmitDisputeEvidenceBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const dispute = await disputeService.submitEvidence(req.params.id, {
+        evidence: req.body.evidence,
+      });
+
+      res.json({
+        success: true,
+        data: this.formatDispute(dispute),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatDispute(dispute: DisputeResponse) {
+    return {
+      id: dispute.id,
+      transactionId: dispute.transactionId,
+      merchantId: dispute.merchantId,
+      providerId: dispute.providerId,
+      providerDisputeId: dispute.providerDisputeId,
+      reason: dispute.reason,
+      amount: dispute.amount.toString(),
+      currency: dispute.currency,
+      status: dispute.status,
+      dueBy: dispute.dueBy?.toISOString(),
+      evidence: dispute.evidence,
+      evidenceSubmittedAt: dispute.evidenceSubmittedAt?.toISOString(),
+      closedAt: dispute.closedAt?.toISOString(),
+      metadata: dispute.metadata,
+      createdAt: dispute.createdAt.toISOString(),
+      updatedAt: dispute.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const disputeController = new DisputeController();
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { disputeController } from './dispute.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  disputeIdParamSchema,
+  listDisputesQuerySchema,
+  submitDisputeEvidenceBodySchema,
+} from './dispute.schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/v1/disputes
+ * List disputes, most urgent deadline first
+ */
+router.get(
+  '/',
+  validateRequest({ query: listDisputesQuerySchema }),
+  disputeController.list.bind(disputeController)
+);
+
+/**
+ * GET /api/v1/disputes/:id
+ * Get a dispute by ID
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: disputeIdParamSchema }),
+  disputeController.getById.bind(disputeController)
+);
+
+/**
+ * POST /api/v1/disputes/:id/evidence
+ * Submit evidence contesting a dispute to the provider
+ */
+router.post(
+  '/:id/evidence',
+  validateRequest({ params: disputeIdParamSchema, body: submitDisputeEvidenceBodySchema }),
+  disputeController.submitEvidence.bind(disputeController)
+);
+
+export { router as disputeRoutes };
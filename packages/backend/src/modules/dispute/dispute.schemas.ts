@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+const disputeStatusEnum = z.enum(['NEEDS_RESPONSE', 'UNDER_REVIEW', 'WON', 'LOST']);
+
+export const disputeIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const listDisputesQuerySchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  transactionId: z.string().uuid().optional(),
+  status: disputeStatusEnum.optional(),
+  dueBefore: z.coerce.date().optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const submitDisputeEvidenceBodySchema = z.object({
+  evidence: z
+    .object({
+      productDescription: z.string().max(20000).optional(),
+      customerCommunication: z.string().max(20000).optional(),
+      refundPolicy: z.string().max(20000).optional(),
+      shippingCarrier: z.string().max(100).optional(),
+      shippingTrackingNumber: z.string().max(100).optional(),
+      uncategorizedText: z.string().max(20000).optional(),
+    })
+    .refine((evidence) => Object.values(evidence).some(Boolean), {
+      message: 'At least one piece of evidence is required',
+    }),
+});
+
+export type DisputeIdParam = z.infer<typeof disputeIdParamSchema>;
+export type ListDisputesQuery = z.infer<typeof listDisputesQuerySchema>;
+export type SubmitDisputeEvidenceBody = z.infer<typeof submitDisputeEvidenceBodySchema>;
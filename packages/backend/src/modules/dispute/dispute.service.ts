@@ -0,0 +1,329 @@
+import { Dispute, DisputeStatus, Prisma, Transaction } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { providerService } from '../provider/provider.service.js';
+import { ProviderError, ProcessedDispute, DisputeEvidence } from '../provider/provider.types.js';
+import { merchantWebhookService } from '../merchant-webhook/merchant-webhook.service.js';
+import { MerchantWebhookEventType } from '../merchant-webhook/merchant-webhook.types.js';
+import {
+  DisputeError,
+  DisputeListResponse,
+  DisputeResponse,
+  ListDisputesFilter,
+  SubmitDisputeEvidenceRequest,
+} from './dispute.types.js';
+
+const STATUS_MAP: Record<ProcessedDispute['status'], DisputeStatus> = {
+  needs_response: DisputeStatus.NEEDS_RESPONSE,
+  under_review: DisputeStatus.UNDER_REVIEW,
+  won: DisputeStatus.WON,
+  lost: DisputeStatus.LOST,
+};
+
+const CLOSED_STATUSES: DisputeStatus[] = [DisputeStatus.WON, DisputeStatus.LOST];
+
+export class DisputeService {
+  private static instance: DisputeService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): DisputeService {
+    if (!DisputeService.instance) {
+      DisputeService.instance = new DisputeService();
+    }
+    return DisputeService.instance;
+  }
+
+  /**
+   * Record a chargeback reported by a provider webhook. The disputed amount is
+   * debited from the merchant when the dispute is first seen and credited back
+   * if it is won; later events only move the status forward.
+   */
+  async recordProviderDispute(
+    providerId: string,
+    transaction: Transaction,
+    dispute: ProcessedDispute
+  ): Promise<DisputeResponse> {
+    const existing = await prisma.dispute.findUnique({
+      where: { providerDisputeId: dispute.providerDisputeId },
+    });
+
+    if (!existing) {
+      return this.openDispute(providerId, transaction, dispute);
+    }
+
+    return this.updateDispute(existing.id, STATUS_MAP[dispute.status], dispute.dueBy);
+  }
+
+  async getDispute(id: string): Promise<DisputeResponse | null> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id },
+    });
+
+    return dispute ? this.toResponse(dispute) : null;
+  }
+
+  async listDisputes(filter: ListDisputesFilter): Promise<DisputeListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.DisputeWhereInput = {};
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.transactionId) where.transactionId = filter.transactionId;
+    if (filter.status) where.status = filter.status;
+    if (filter.dueBefore) where.dueBy = { lte: filter.dueBefore };
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        skip,
+        take: limit,
+        // Most urgent first; disputes without a deadline sort last
+        orderBy: [{ dueBy: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      disputes: disputes.map((dispute) => this.toResponse(dispute)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Send evidence contesting a dispute to the provider that reported it.
+   */
+  async submitEvidence(id: string, request: SubmitDisputeEvidenceRequest): Promise<DisputeResponse> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id },
+      include: { provider: true },
+    });
+
+    if (!dispute) {
+      throw DisputeError.notFound(id);
+    }
+
+    if (dispute.status !== DisputeStatus.NEEDS_RESPONSE) {
+      throw DisputeError.invalidStatus(id, dispute.status);
+    }
+
+    if (dispute.dueBy && dispute.dueBy <= new Date()) {
+      throw DisputeError.evidenceOverdue(id, dispute.dueBy);
+    }
+
+    const adapter = await providerService.getAdapter(dispute.provider.code, dispute.merchantId);
+
+    let result;
+    try {
+      result = await adapter.submitDisputeEvidence({
+        providerDisputeId: dispute.providerDisputeId,
+        evidence: request.evidence,
+      });
+    } catch (error) {
+      logger.error('Provider rejected dispute evidence', {
+        disputeId: id,
+        provider: dispute.provider.code,
+        error: (error as Error).message,
+      });
+
+      if (error instanceof ProviderError) {
+        throw DisputeError.providerError(error.message, id);
+      }
+      throw error;
+    }
+
+    const reportedStatus = STATUS_MAP[result.status];
+
+    // A webhook may have settled the dispute while the provider had the
+    // evidence; its outcome stands
+    const { updated, closed } = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM disputes WHERE id = ${id} FOR UPDATE`;
+
+      const current = await tx.dispute.findUniqueOrThrow({ where: { id } });
+      const alreadyClosed = CLOSED_STATUSES.includes(current.status);
+      const status = alreadyClosed ? current.status : reportedStatus;
+      const closesNow = !alreadyClosed && CLOSED_STATUSES.includes(status);
+
+      if (closesNow && status === DisputeStatus.WON) {
+        await ledgerService.recordDisputeReversal(current.transactionId, current.amount, current.currency, tx);
+      }
+
+      const record = await tx.dispute.update({
+        where: { id },
+        data: {
+          status,
+          evidence: request.evidence as object,
+          evidenceSubmittedAt: new Date(),
+          closedAt: closesNow ? new Date() : undefined,
+          metadata: {
+            ...(current.metadata as Record<string, unknown>),
+            evidenceResponse: result.rawResponse,
+          } as object,
+        },
+      });
+
+      return { updated: record, closed: closesNow };
+    });
+
+    logger.info('Dispute evidence submitted', {
+      disputeId: id,
+      providerDisputeId: dispute.providerDisputeId,
+      status: updated.status,
+    });
+
+    if (closed) {
+      await this.publishDisputeEvent('dispute.closed', updated);
+    }
+
+    return this.toResponse(updated);
+  }
+
+  private async openDispute(
+    providerId: string,
+    transaction: Transaction,
+    dispute: ProcessedDispute
+  ): Promise<DisputeResponse> {
+    const status = STATUS_MAP[dispute.status];
+    const closed = CLOSED_STATUSES.includes(status);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const record = await tx.dispute.create({
+        data: {
+          transactionId: transaction.id,
+          merchantId: transaction.merchantId,
+          providerId,
+          providerDisputeId: dispute.providerDisputeId,
+          reason: dispute.reason,
+          amount: dispute.amount,
+          currency: dispute.currency,
+          status,
+          dueBy: dispute.dueBy,
+          closedAt: closed ? new Date() : undefined,
+        },
+      });
+
+      await ledgerService.recordDisputeOpened(transaction.id, dispute.amount, dispute.currency, tx);
+
+      // The opening event can arrive after the outcome; book the reversal in the same step
+      if (status === DisputeStatus.WON) {
+        await ledgerService.recordDisputeReversal(transaction.id, dispute.amount, dispute.currency, tx);
+      }
+
+      return record;
+    });
+
+    logger.info('Dispute opened', {
+      disputeId: created.id,
+      transactionId: transaction.id,
+      providerDisputeId: created.providerDisputeId,
+      amount: created.amount.toString(),
+      reason: created.reason,
+    });
+
+    await this.publishDisputeEvent('dispute.opened', created);
+    if (closed) {
+      await this.publishDisputeEvent('dispute.closed', created);
+    }
+
+    return this.toResponse(created);
+  }
+
+  private async updateDispute(id: string, status: DisputeStatus, dueBy?: Date): Promise<DisputeResponse> {
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM disputes WHERE id = ${id} FOR UPDATE`;
+
+      const current = await tx.dispute.findUniqueOrThrow({ where: { id } });
+
+      // Outcomes are final; a late update event must not reopen the dispute
+      if (CLOSED_STATUSES.includes(current.status) || current.status === status) {
+        return { dispute: current, changed: false, closed: false };
+      }
+
+      const closed = CLOSED_STATUSES.includes(status);
+      if (status === DisputeStatus.WON) {
+        await ledgerService.recordDisputeReversal(current.transactionId, current.amount, current.currency, tx);
+      }
+
+      const updated = await tx.dispute.update({
+        where: { id },
+        data: {
+          status,
+          dueBy: dueBy ?? current.dueBy,
+          closedAt: closed ? new Date() : undefined,
+        },
+      });
+
+      return { dispute: updated, changed: true, closed };
+    });
+
+    if (!result.changed) {
+      logger.debug('Dispute already up to date', {
+        disputeId: id,
+        status: result.dispute.status,
+        reportedStatus: status,
+      });
+      return this.toResponse(result.dispute);
+    }
+
+    logger.info('Dispute status updated', {
+      disputeId: id,
+      status,
+    });
+
+    if (result.closed) {
+      await this.publishDisputeEvent('dispute.closed', result.dispute);
+    }
+
+    return this.toResponse(result.dispute);
+  }
+
+  private async publishDisputeEvent(type: MerchantWebhookEventType, dispute: Dispute): Promise<void> {
+    try {
+      await merchantWebhookService.publish(dispute.merchantId, type, {
+        id: dispute.id,
+        transactionId: dispute.transactionId,
+        reason: dispute.reason,
+        status: dispute.status,
+        amount: dispute.amount.toString(),
+        currency: dispute.currency,
+        dueBy: dispute.dueBy?.toISOString() ?? null,
+      });
+    } catch (error) {
+      logger.error('Failed to publish dispute webhook event', {
+        disputeId: dispute.id,
+        type,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private toResponse(dispute: Dispute): DisputeResponse {
+    return {
+      id: dispute.id,
+      transactionId: dispute.transactionId,
+      merchantId: dispute.merchantId,
+      providerId: dispute.providerId,
+      providerDisputeId: dispute.providerDisputeId,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      status: dispute.status,
+      dueBy: dispute.dueBy ?? undefined,
+      evidence: (dispute.evidence as DisputeEvidence | null) ?? undefined,
+      evidenceSubmittedAt: dispute.evidenceSubmittedAt ?? undefined,
+      closedAt: dispute.closedAt ?? undefined,
+      metadata: dispute.metadata as Record<string, unknown>,
+      createdAt: dispute.createdAt,
+      updatedAt: dispute.updatedAt,
+    };
+  }
+}
+
+export const disputeService = DisputeService.getInstance();
@@ -0,0 +1,82 @@
+import { Currency, DisputeStatus } from '@prisma/client';
+import type { DisputeEvidence } from '../provider/provider.types.js';
+
+export interface SubmitDisputeEvidenceRequest {
+  evidence: DisputeEvidence;
+}
+
+export interface DisputeResponse {
+  id: string;
+  transactionId: string;
+  merchantId: string;
+  providerId: string;
+  providerDisputeId: string;
+  reason: string;
+  amount: bigint;
+  currency: Currency;
+  status: DisputeStatus;
+  /** Deadline for submitting evidence to the provider */
+  dueBy?: Date;
+  evidence?: DisputeEvidence;
+  evidenceSubmittedAt?: Date;
+  closedAt?: Date;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ListDisputesFilter {
+  merchantId?: string;
+  transactionId?: string;
+  status?: DisputeStatus;
+  /** Only disputes whose evidence is due on or before this date */
+  dueBefore?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface DisputeListResponse {
+  disputes: DisputeResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class DisputeError extends Error {
+  public readonly code: string;
+  public readonly disputeId?: string;
+
+  constructor(message: string, code: string, disputeId?: string) {
+    super(message);
+    this.name = 'DisputeError';
+    this.code = code;
+    this.disputeId = disputeId;
+  }
+
+  static notFound(disputeId: string): DisputeError {
+    return new DisputeError(`Dispute ${disputeId} not found`, 'NOT_FOUND', disputeId);
+  }
+
+  static invalidStatus(disputeId: string, status: DisputeStatus): DisputeError {
+    return new DisputeError(
+      `Dispute ${disputeId} is ${status.toLowerCase()} and no longer accepts evidence`,
+      'INVALID_STATUS',
+      disputeId
+    );
+  }
+
+  static evidenceOverdue(disputeId: string, dueBy: Date): DisputeError {
+    return new DisputeError(
+      `Evidence for dispute ${disputeId} was due by ${dueBy.toISOString()}`,
+      'EVIDENCE_OVERDUE',
+      disputeId
+    );
+  }
+
+  static providerError(message: string, disputeId: string): DisputeError {
+    return new DisputeError(message, 'PROVIDER_ERROR', disputeId);
+  }
+}
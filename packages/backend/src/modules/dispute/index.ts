@@ -0,0 +1,5 @@
+export * from './dispute.types.js';
+export * from './dispute.schemas.js';
+export { disputeService, DisputeService } from './dispute.service.js';
+export { disputeController, DisputeController } from './dispute.controller.js';
+export { disputeRoutes } from './dispute.routes.js';
@@ -0,0 +1,131 @@
+import { FraudService } from '../fraud.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    transaction: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: { increment: jest.fn(), setExpiry: jest.fn() },
+}));
+
+jest.mock('../../transaction-state/transaction-state.service', () => ({
+  transactionStateService: { transition: jest.fn() },
+}));
+
+jest.mock('../../payment/payment.service', () => ({
+  paymentService: {
+    cancelPayment: jest.fn(),
+    refundPayment: jest.fn(),
+    releaseRemainingAuthorization: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { transactionStateService } from '../../transaction-state/transaction-state.service';
+import { paymentService } from '../../payment/payment.service';
+
+const flagged = (status: string) => ({
+  id: 'txn-1',
+  status,
+  metadata: { fraudFlags: [{ rule: 'HIGH_AMOUNT', severity: 'high' }] },
+});
+
+describe('FraudService', () => {
+  let service: FraudService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FraudService as any).instance = null;
+    service = FraudService.getInstance();
+
+    (prisma.transaction.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'txn-1', status: 'CANCELLED', ...data })
+    );
+  });
+
+  describe('reviewTransaction', () => {
+    it('should void an authorized payment at the provider when rejected', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(flagged('PENDING'));
+
+      const result = await service.reviewTransaction('txn-1', 'reject', 'Stolen card', 'analyst-1');
+
+      expect(paymentService.cancelPayment).toHaveBeenCalledWith('txn-1', 'Stolen card');
+      expect(paymentService.refundPayment).not.toHaveBeenCalled();
+      expect(transactionStateService.transition).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1' },
+        data: {
+          metadata: expect.objectContaining({
+            fraudReview: expect.objectContaining({ action: 'reject', reviewedBy: 'analyst-1' }),
+          }),
+        },
+      });
+      expect(result).toEqual({ transactionId: 'txn-1', action: 'reject', newStatus: 'CANCELLED' });
+    });
+
+    it('should refund a captured payment when rejected', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(flagged('COMPLETED'));
+      (prisma.transaction.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'txn-1', status: 'REFUNDED', ...data })
+      );
+
+      const result = await service.reviewTransaction('txn-1', 'reject');
+
+      expect(paymentService.refundPayment).toHaveBeenCalledWith('txn-1', { reason: 'Rejected in fraud review' });
+      expect(paymentService.cancelPayment).not.toHaveBeenCalled();
+      expect(result.newStatus).toBe('REFUNDED');
+    });
+
+    it('should release the uncaptured rest before refunding a partially captured payment', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(flagged('PARTIALLY_CAPTURED'));
+
+      await service.reviewTransaction('txn-1', 'reject');
+
+      expect(paymentService.releaseRemainingAuthorization).toHaveBeenCalledWith('txn-1', 'Rejected in fraud review');
+      expect(paymentService.refundPayment).toHaveBeenCalledWith('txn-1', { reason: 'Rejected in fraud review' });
+    });
+
+    it('should not record the review when the provider reversal fails', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(flagged('COMPLETED'));
+      (paymentService.refundPayment as jest.Mock).mockRejectedValue(new Error('provider down'));
+
+      await expect(service.reviewTransaction('txn-1', 'reject')).rejects.toThrow('provider down');
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to reject a payment awaiting settlement at the provider', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...flagged('PROCESSING'),
+        providerTransactionId: 'ach_123',
+      });
+
+      await expect(service.reviewTransaction('txn-1', 'reject')).rejects.toMatchObject({
+        code: 'AWAITING_SETTLEMENT',
+      });
+      expect(transactionStateService.transition).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave an approved payment in its status', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(flagged('COMPLETED'));
+      (transactionStateService.transition as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED' });
+
+      const result = await service.reviewTransaction('txn-1', 'approve');
+
+      expect(transactionStateService.transition).toHaveBeenCalledWith(
+        expect.objectContaining({ from: 'COMPLETED', to: 'COMPLETED' })
+      );
+      expect(paymentService.refundPayment).not.toHaveBeenCalled();
+      expect(result.newStatus).toBe('COMPLETED');
+    });
+  });
+});
@@ -31,6 +31,8 @@ export class FraudController {
       const result = await fraudService.getFlaggedTransactions({
         status: query.status,
         minRiskScore: query.minRiskScore,
+        search: query.q,
+        cursor: query.cursor,
         page: query.page,
         limit: query.limit,
       });
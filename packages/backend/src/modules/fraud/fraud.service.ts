@@ -1,8 +1,19 @@
-import { Prisma } from '@prisma/client';
+import { Currency, Prisma, Transaction, TransactionStatus } from '@prisma/client';
 import { prisma } from '../../shared/database/prisma.js';
 import { cacheService } from '../../shared/cache/cache.service.js';
 import { logger } from '../../shared/utils/logger.js';
+import {
+  decodeCursor,
+  keysetWhere,
+  toCursorPage,
+  CursorPagination,
+  KEYSET_ORDER_BY,
+} from '../../shared/utils/cursor.js';
+import { compileSearchQuery, SearchSchema } from '../../shared/utils/search-query.js';
 import { AppError } from '../../shared/errors/app-error.js';
+import { transactionStateService } from '../transaction-state/transaction-state.service.js';
+import { paymentService } from '../payment/payment.service.js';
+import { TransactionStateError } from '../transaction-state/transaction-state.types.js';
 import type {
   FraudCheckRequest,
   FraudCheckResult,
@@ -16,6 +27,34 @@ const HIGH_AMOUNT_THRESHOLD = 500000; // $5000 in cents
 const VELOCITY_THRESHOLD = 3; // max txns per minute from same IP
 const VELOCITY_WINDOW_SECONDS = 60;
 
+// Rejecting these voids the authorization at the provider
+const VOIDABLE_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.REQUIRES_ACTION,
+];
+
+// Rejecting these refunds the captured funds
+const REFUNDABLE_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PARTIALLY_CAPTURED,
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+];
+
+// Fields accepted by the flagged transaction search query
+const FLAGGED_SEARCH_SCHEMA: SearchSchema = {
+  fields: {
+    id: { type: 'string' },
+    merchantId: { type: 'string' },
+    customerId: { type: 'string' },
+    status: { type: 'enum', values: Object.values(TransactionStatus) },
+    currency: { type: 'enum', values: Object.values(Currency) },
+    amount: { type: 'bigint' },
+    createdAt: { type: 'date' },
+  },
+  jsonField: 'metadata',
+  aliases: { riskScore: 'metadata.riskScore' },
+};
+
 export class FraudService {
   private static instance: FraudService | null = null;
 
@@ -98,11 +137,9 @@ export class FraudService {
 
   async getFlaggedTransactions(filter: FlaggedTransactionsFilter): Promise<{
     transactions: FlaggedTransaction[];
-    pagination: { page: number; limit: number; total: number; totalPages: number };
+    pagination: CursorPagination | { page: number; limit: number; total: number; totalPages: number };
   }> {
-    const page = filter.page ?? 1;
     const limit = filter.limit ?? 20;
-    const skip = (page - 1) * limit;
 
     const where: Prisma.TransactionWhereInput = {
       metadata: {
@@ -115,42 +152,54 @@ export class FraudService {
       where.status = filter.status as Prisma.EnumTransactionStatusFilter;
     }
 
-    const [transactions, total] = await Promise.all([
-      prisma.transaction.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      }),
-      prisma.transaction.count({ where }),
-    ]);
-
-    let flagged: FlaggedTransaction[] = transactions.map((t) => {
-      const meta = t.metadata as Record<string, unknown> | null;
+    // Filtered in the query so that pages stay full and cursors stay valid
+    const conditions: Prisma.TransactionWhereInput[] = [];
+    if (filter.minRiskScore !== undefined) {
+      conditions.push({ metadata: { path: ['riskScore'], gte: filter.minRiskScore } });
+    }
+    if (filter.search) {
+      conditions.push(...compileSearchQuery<Prisma.TransactionWhereInput>(filter.search, FLAGGED_SEARCH_SCHEMA));
+    }
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    if (filter.page !== undefined) {
+      const page = filter.page;
+      const skip = (page - 1) * limit;
+
+      const [transactions, total] = await Promise.all([
+        prisma.transaction.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: KEYSET_ORDER_BY,
+        }),
+        prisma.transaction.count({ where }),
+      ]);
+
       return {
-        id: t.id,
-        transactionId: t.id,
-        amount: t.amount.toString(),
-        currency: t.currency,
-        status: t.status,
-        riskScore: (meta?.riskScore as number) ?? 0,
-        flags: (meta?.fraudFlags as FraudFlag[]) ?? [],
-        createdAt: t.createdAt.toISOString(),
+        transactions: transactions.map((t) => this.toFlaggedTransaction(t)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
       };
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: filter.cursor ? { AND: [where, keysetWhere(decodeCursor(filter.cursor))] } : where,
+      take: limit + 1,
+      orderBy: KEYSET_ORDER_BY,
     });
 
-    if (filter.minRiskScore !== undefined) {
-      flagged = flagged.filter((t) => t.riskScore >= filter.minRiskScore!);
-    }
+    const { items, pagination } = toCursorPage(transactions, limit);
 
     return {
-      transactions: flagged,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      transactions: items.map((t) => this.toFlaggedTransaction(t)),
+      pagination,
     };
   }
 
@@ -173,23 +222,62 @@ export class FraudService {
       throw AppError.badRequest(`Transaction ${transactionId} has no fraud flags`);
     }
 
-    const newStatus = action === 'approve' ? 'COMPLETED' : 'FAILED';
-
-    await prisma.transaction.update({
-      where: { id: transactionId },
-      data: {
-        status: newStatus,
-        metadata: {
-          ...(meta ?? {}),
-          fraudReview: {
-            action,
-            reason,
-            reviewedBy,
-            reviewedAt: new Date().toISOString(),
-          },
-        },
+    const reviewedMetadata = {
+      ...(meta ?? {}),
+      fraudReview: {
+        action,
+        reason,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
       },
-    });
+    } as object;
+
+    // A bank debit or crypto deposit already with the provider can't be stopped from
+    // here; failing it locally would let the funds settle against a FAILED payment
+    if (
+      action === 'reject' &&
+      transaction.status === TransactionStatus.PROCESSING &&
+      transaction.providerTransactionId
+    ) {
+      throw AppError.conflict(
+        `Transaction ${transactionId} is awaiting settlement at the provider; reject it once it settles`,
+        'AWAITING_SETTLEMENT'
+      );
+    }
+
+    let updated: Transaction;
+    if (
+      action === 'reject' &&
+      (VOIDABLE_STATUSES.includes(transaction.status) || REFUNDABLE_STATUSES.includes(transaction.status))
+    ) {
+      await this.reversePayment(transaction, reason ?? 'Rejected in fraud review');
+
+      updated = await prisma.transaction.update({
+        where: { id: transactionId },
+        data: { metadata: reviewedMetadata },
+      });
+    } else {
+      // Approval clears the flag and leaves the payment where it is; rejection fails it
+      const targetStatus = action === 'approve' ? transaction.status : TransactionStatus.FAILED;
+
+      try {
+        updated = await transactionStateService.transition({
+          transactionId,
+          from: transaction.status,
+          to: targetStatus,
+          reason: action === 'reject' ? reason ?? 'Rejected in fraud review' : undefined,
+          metadata: { reviewedBy },
+          data: { metadata: reviewedMetadata },
+        });
+      } catch (error) {
+        if (error instanceof TransactionStateError && error.code !== 'NOT_FOUND') {
+          throw AppError.conflict(error.message, error.code);
+        }
+        throw error;
+      }
+    }
+
+    const newStatus = updated.status;
 
     logger.info('Fraud review completed', {
       transactionId,
@@ -200,6 +288,37 @@ export class FraudService {
 
     return { transactionId, action, newStatus };
   }
+
+  /**
+   * Hand a rejected payment's money back: void an open authorization at the
+   * provider, or refund what has been captured, releasing any uncaptured rest.
+   */
+  private async reversePayment(transaction: Transaction, reason: string): Promise<void> {
+    if (VOIDABLE_STATUSES.includes(transaction.status)) {
+      await paymentService.cancelPayment(transaction.id, reason);
+      return;
+    }
+
+    if (transaction.status === TransactionStatus.PARTIALLY_CAPTURED) {
+      await paymentService.releaseRemainingAuthorization(transaction.id, reason);
+    }
+
+    await paymentService.refundPayment(transaction.id, { reason });
+  }
+
+  private toFlaggedTransaction(t: Transaction): FlaggedTransaction {
+    const meta = t.metadata as Record<string, unknown> | null;
+    return {
+      id: t.id,
+      transactionId: t.id,
+      amount: t.amount.toString(),
+      currency: t.currency,
+      status: t.status,
+      riskScore: (meta?.riskScore as number) ?? 0,
+      flags: (meta?.fraudFlags as FraudFlag[]) ?? [],
+      createdAt: t.createdAt.toISOString(),
+    };
+  }
 }
 
 export const fraudService = FraudService.getInstance();
@@ -45,6 +45,10 @@ export interface FlaggedTransaction {
 export interface FlaggedTransactionsFilter {
   status?: string;
   minRiskScore?: number;
+  /** Search query such as `riskScore>=80 currency:USD amount>500000` */
+  search?: string;
+  cursor?: string;
+  /** Switches to offset pagination with a total count */
   page?: number;
   limit?: number;
 }
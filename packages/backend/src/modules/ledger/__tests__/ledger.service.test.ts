@@ -89,6 +89,45 @@ describe('LedgerService', () => {
     });
   });
 
+  describe('recordRefund', () => {
+    it("should take the refund out of the merchant's payable balance", async () => {
+      (mockPrisma.transaction.findUnique as jest.Mock).mockResolvedValue({ id: 'refund-1' });
+      (mockPrisma.ledgerEntry.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'entry', balance: null, createdAt: new Date(), ...data })
+      );
+      (mockPrisma.$transaction as jest.Mock).mockImplementation((operations: Promise<unknown>[]) =>
+        Promise.all(operations)
+      );
+
+      const entries = await service.recordRefund('refund-1', 2500n, 'USD', 'merchant-1');
+
+      expect(entries.map((e) => [e.accountCode, e.entryType, e.amount])).toEqual([
+        [AccountCode.MERCHANT_PAYABLE, 'DEBIT', 2500n],
+        [AccountCode.CASH, 'CREDIT', 2500n],
+      ]);
+      expect(entries.map((e) => e.accountCode)).not.toContain(AccountCode.REFUND_PAYABLE);
+    });
+  });
+
+  describe('recordTransfer', () => {
+    it('should move payable balance between merchants through the clearing account', async () => {
+      (mockPrisma.transaction.findUnique as jest.Mock).mockResolvedValue({ id: 'txn-1' });
+      (mockPrisma.ledgerEntry.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'entry', balance: null, createdAt: new Date(), ...data })
+      );
+
+      const entries = await service.recordTransfer('payment-1', 'transfer-1', 800n, 'USD', mockPrisma as any);
+
+      expect(entries.map((e) => [e.transactionId, e.accountCode, e.entryType])).toEqual([
+        ['payment-1', AccountCode.MERCHANT_PAYABLE, 'DEBIT'],
+        ['payment-1', AccountCode.TRANSFERS_CLEARING, 'CREDIT'],
+        ['transfer-1', AccountCode.TRANSFERS_CLEARING, 'DEBIT'],
+        ['transfer-1', AccountCode.MERCHANT_PAYABLE, 'CREDIT'],
+      ]);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAccountBalance', () => {
     it('should compute balance from grouped entries', async () => {
       (mockPrisma.ledgerEntry.groupBy as jest.Mock).mockResolvedValue([
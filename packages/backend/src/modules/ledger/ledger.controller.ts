@@ -56,6 +56,8 @@ export class LedgerController {
         currency: query.currency as Currency | undefined,
         fromDate: query.fromDate ? new Date(query.fromDate) : undefined,
         toDate: query.toDate ? new Date(query.toDate) : undefined,
+        search: query.q,
+        cursor: query.cursor,
         page: query.page,
         limit: query.limit,
       });
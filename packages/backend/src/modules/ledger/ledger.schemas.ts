@@ -25,8 +25,14 @@ export const listLedgerEntriesQuerySchema = z.object({
   currency: currencyEnum.optional(),
   fromDate: z.string().datetime().optional(),
   toDate: z.string().datetime().optional(),
-  page: z.coerce.number().int().positive().default(1),
+  q: z.string().max(500).optional(),
+  cursor: z.string().max(200).optional(),
+  // Without a page number results are paginated by cursor
+  page: z.coerce.number().int().positive().optional(),
   limit: z.coerce.number().int().positive().max(100).default(20),
+}).refine((query) => !(query.cursor && query.page), {
+  message: 'Use either cursor or page, not both',
+  path: ['cursor'],
 });
 
 export const accountCodeParamSchema = z.object({
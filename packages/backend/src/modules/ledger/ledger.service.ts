@@ -1,6 +1,13 @@
-import { Currency, LedgerEntryType, Prisma } from '@prisma/client';
+import { Currency, LedgerEntry, LedgerEntryType, Prisma } from '@prisma/client';
 import { prisma } from '../../shared/database/prisma.js';
 import { logger } from '../../shared/utils/logger.js';
+import {
+  decodeCursor,
+  keysetWhere,
+  toCursorPage,
+  KEYSET_ORDER_BY,
+} from '../../shared/utils/cursor.js';
+import { compileSearchQuery, SearchSchema } from '../../shared/utils/search-query.js';
 import {
   CreateLedgerEntryRequest,
   LedgerEntryResponse,
@@ -12,6 +19,21 @@ import {
   AccountCode,
 } from './ledger.types.js';
 
+// Fields accepted by the ledger entry list search query
+const LEDGER_SEARCH_SCHEMA: SearchSchema = {
+  fields: {
+    transactionId: { type: 'string' },
+    accountCode: { type: 'string' },
+    entryType: { type: 'enum', values: Object.values(LedgerEntryType) },
+    currency: { type: 'enum', values: Object.values(Currency) },
+    amount: { type: 'bigint' },
+    description: { type: 'text' },
+    createdAt: { type: 'date' },
+  },
+  jsonField: 'metadata',
+  textFields: ['description'],
+};
+
 export class LedgerService {
   private static instance: LedgerService | null = null;
 
@@ -30,10 +52,11 @@ export class LedgerService {
    */
   async recordEntries(
     transactionId: string,
-    entries: CreateLedgerEntryRequest[]
+    entries: CreateLedgerEntryRequest[],
+    tx?: Prisma.TransactionClient
   ): Promise<LedgerEntryResponse[]> {
     // Validate transaction exists
-    const transaction = await prisma.transaction.findUnique({
+    const transaction = await (tx ?? prisma).transaction.findUnique({
       where: { id: transactionId },
     });
 
@@ -49,22 +72,30 @@ export class LedgerService {
       entryCount: entries.length,
     });
 
-    // Create all entries in a transaction
-    const created = await prisma.$transaction(
-      entries.map((entry) =>
-        prisma.ledgerEntry.create({
-          data: {
-            transactionId: entry.transactionId,
-            accountCode: entry.accountCode,
-            entryType: entry.entryType,
-            amount: entry.amount,
-            currency: entry.currency,
-            description: entry.description,
-            metadata: (entry.metadata ?? {}) as object,
-          },
-        })
-      )
-    );
+    const toCreateArgs = (entry: CreateLedgerEntryRequest) => ({
+      data: {
+        transactionId: entry.transactionId,
+        accountCode: entry.accountCode,
+        entryType: entry.entryType,
+        amount: entry.amount,
+        currency: entry.currency,
+        description: entry.description,
+        metadata: (entry.metadata ?? {}) as object,
+      },
+    });
+
+    // Create all entries atomically, joining the caller's transaction when given one
+    let created: LedgerEntry[];
+    if (tx) {
+      created = [];
+      for (const entry of entries) {
+        created.push(await tx.ledgerEntry.create(toCreateArgs(entry)));
+      }
+    } else {
+      created = await prisma.$transaction(
+        entries.map((entry) => prisma.ledgerEntry.create(toCreateArgs(entry)))
+      );
+    }
 
     logger.info('Ledger entries recorded', {
       transactionId,
@@ -107,6 +138,8 @@ export class LedgerService {
 
   /**
    * Automatically generate ledger entries for a refund.
+   * The refunded amount comes out of the merchant's payable balance, not
+   * REFUND_PAYABLE, so the balance available for payouts goes down with it.
    */
   async recordRefund(
     transactionId: string,
@@ -117,7 +150,7 @@ export class LedgerService {
     const entries: CreateLedgerEntryRequest[] = [
       {
         transactionId,
-        accountCode: AccountCode.REFUND_PAYABLE,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
         entryType: 'DEBIT' as LedgerEntryType,
         amount,
         currency,
@@ -136,6 +169,204 @@ export class LedgerService {
     return this.recordEntries(transactionId, entries);
   }
 
+  /**
+   * Move a payout amount out of the merchant's payable balance while it is in transit.
+   */
+  async recordPayoutInitiated(
+    transactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const entries: CreateLedgerEntryRequest[] = [
+      {
+        transactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Payout initiated to merchant',
+      },
+      {
+        transactionId,
+        accountCode: AccountCode.PAYOUTS_IN_TRANSIT,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Payout in transit',
+      },
+    ];
+
+    return this.recordEntries(transactionId, entries, tx);
+  }
+
+  /**
+   * Settle an in-transit payout once the funds have arrived.
+   */
+  async recordPayoutPaid(
+    transactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const entries: CreateLedgerEntryRequest[] = [
+      {
+        transactionId,
+        accountCode: AccountCode.PAYOUTS_IN_TRANSIT,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Payout settled',
+      },
+      {
+        transactionId,
+        accountCode: AccountCode.CASH,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Cash outflow for payout',
+      },
+    ];
+
+    return this.recordEntries(transactionId, entries, tx);
+  }
+
+  /**
+   * Return a failed payout to the merchant's payable balance.
+   */
+  async recordPayoutFailed(
+    transactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const entries: CreateLedgerEntryRequest[] = [
+      {
+        transactionId,
+        accountCode: AccountCode.PAYOUTS_IN_TRANSIT,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Payout failed',
+      },
+      {
+        transactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Failed payout returned to merchant balance',
+      },
+    ];
+
+    return this.recordEntries(transactionId, entries, tx);
+  }
+
+  /**
+   * Take a disputed amount out of the merchant's payable balance when the provider
+   * withdraws it for a chargeback.
+   */
+  async recordDisputeOpened(
+    transactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const entries: CreateLedgerEntryRequest[] = [
+      {
+        transactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Dispute debited from merchant balance',
+      },
+      {
+        transactionId,
+        accountCode: AccountCode.CASH,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Cash withdrawn by provider for dispute',
+      },
+    ];
+
+    return this.recordEntries(transactionId, entries, tx);
+  }
+
+  /**
+   * Return a disputed amount to the merchant after the dispute is won.
+   */
+  async recordDisputeReversal(
+    transactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const entries: CreateLedgerEntryRequest[] = [
+      {
+        transactionId,
+        accountCode: AccountCode.CASH,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Cash returned by provider for won dispute',
+      },
+      {
+        transactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: 'Won dispute returned to merchant balance',
+      },
+    ];
+
+    return this.recordEntries(transactionId, entries, tx);
+  }
+
+  /**
+   * Move part of a payment's proceeds from the charging merchant to a split recipient.
+   * Each side is posted on its own transaction through a clearing account so both
+   * merchants' payable balances stay traceable.
+   */
+  async recordTransfer(
+    paymentTransactionId: string,
+    transferTransactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    return this.recordClearingPair(
+      paymentTransactionId,
+      transferTransactionId,
+      amount,
+      currency,
+      'Split transfer',
+      tx
+    );
+  }
+
+  /**
+   * Pull a refunded share back from a split recipient to the charging merchant.
+   */
+  async recordTransferReversal(
+    paymentTransactionId: string,
+    transferTransactionId: string,
+    amount: bigint,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    return this.recordClearingPair(
+      transferTransactionId,
+      paymentTransactionId,
+      amount,
+      currency,
+      'Split transfer reversal',
+      tx
+    );
+  }
+
   /**
    * Automatically generate ledger entries for an FX conversion spread.
    */
@@ -179,12 +410,10 @@ export class LedgerService {
   }
 
   /**
-   * List ledger entries with filters and pagination.
+   * List ledger entries newest first, by cursor unless a page number is given.
    */
   async listEntries(filter: ListLedgerEntriesFilter): Promise<LedgerEntryListResponse> {
-    const page = filter.page ?? 1;
     const limit = filter.limit ?? 20;
-    const skip = (page - 1) * limit;
 
     const where: Prisma.LedgerEntryWhereInput = {};
 
@@ -197,25 +426,46 @@ export class LedgerService {
       if (filter.fromDate) where.createdAt.gte = filter.fromDate;
       if (filter.toDate) where.createdAt.lte = filter.toDate;
     }
+    if (filter.search) {
+      where.AND = compileSearchQuery<Prisma.LedgerEntryWhereInput>(filter.search, LEDGER_SEARCH_SCHEMA);
+    }
 
-    const [entries, total] = await Promise.all([
-      prisma.ledgerEntry.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      }),
-      prisma.ledgerEntry.count({ where }),
-    ]);
+    if (filter.page !== undefined) {
+      const page = filter.page;
+      const skip = (page - 1) * limit;
+
+      const [entries, total] = await Promise.all([
+        prisma.ledgerEntry.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: KEYSET_ORDER_BY,
+        }),
+        prisma.ledgerEntry.count({ where }),
+      ]);
+
+      return {
+        entries: entries.map((e) => this.toLedgerEntryResponse(e)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    }
+
+    const entries = await prisma.ledgerEntry.findMany({
+      where: filter.cursor ? { AND: [where, keysetWhere(decodeCursor(filter.cursor))] } : where,
+      take: limit + 1,
+      orderBy: KEYSET_ORDER_BY,
+    });
+
+    const { items, pagination } = toCursorPage(entries, limit);
 
     return {
-      entries: entries.map((e) => this.toLedgerEntryResponse(e)),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      entries: items.map((e) => this.toLedgerEntryResponse(e)),
+      pagination,
     };
   }
 
@@ -268,6 +518,33 @@ export class LedgerService {
     return balances;
   }
 
+  /**
+   * Get the amount the platform owes a merchant in a currency (MERCHANT_PAYABLE credits minus debits).
+   */
+  async getMerchantPayableBalance(
+    merchantId: string,
+    currency: Currency,
+    tx?: Prisma.TransactionClient
+  ): Promise<bigint> {
+    const entries = await (tx ?? prisma).ledgerEntry.groupBy({
+      by: ['entryType'],
+      where: {
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        currency,
+        transaction: { merchantId },
+      },
+      _sum: { amount: true },
+    });
+
+    let balance = 0n;
+    for (const entry of entries) {
+      const sum = entry._sum.amount ?? 0n;
+      balance += entry.entryType === 'CREDIT' ? sum : -sum;
+    }
+
+    return balance;
+  }
+
   /**
    * Get a full ledger summary across all accounts.
    */
@@ -337,6 +614,55 @@ export class LedgerService {
     };
   }
 
+  private async recordClearingPair(
+    fromTransactionId: string,
+    toTransactionId: string,
+    amount: bigint,
+    currency: Currency,
+    description: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<LedgerEntryResponse[]> {
+    const debited = await this.recordEntries(fromTransactionId, [
+      {
+        transactionId: fromTransactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: `${description} sent`,
+      },
+      {
+        transactionId: fromTransactionId,
+        accountCode: AccountCode.TRANSFERS_CLEARING,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: `${description} sent`,
+      },
+    ], tx);
+
+    const credited = await this.recordEntries(toTransactionId, [
+      {
+        transactionId: toTransactionId,
+        accountCode: AccountCode.TRANSFERS_CLEARING,
+        entryType: 'DEBIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: `${description} received`,
+      },
+      {
+        transactionId: toTransactionId,
+        accountCode: AccountCode.MERCHANT_PAYABLE,
+        entryType: 'CREDIT' as LedgerEntryType,
+        amount,
+        currency,
+        description: `${description} received`,
+      },
+    ], tx);
+
+    return [...debited, ...credited];
+  }
+
   private validateBalance(
     transactionId: string,
     entries: CreateLedgerEntryRequest[]
@@ -1,4 +1,5 @@
 import { Currency, LedgerEntryType } from '@prisma/client';
+import type { CursorPagination } from '../../shared/utils/cursor.js';
 
 // Standard account codes for double-entry bookkeeping
 export enum AccountCode {
@@ -12,6 +13,8 @@ export enum AccountCode {
   ACCOUNTS_PAYABLE = '2000',
   MERCHANT_PAYABLE = '2100',
   REFUND_PAYABLE = '2200',
+  PAYOUTS_IN_TRANSIT = '2300',
+  TRANSFERS_CLEARING = '2400',
 
   // Revenue accounts (3xxx)
   PAYMENT_REVENUE = '3000',
@@ -69,13 +72,17 @@ export interface ListLedgerEntriesFilter {
   currency?: Currency;
   fromDate?: Date;
   toDate?: Date;
+  /** Search query such as `accountCode:1200 amount>=10000 metadata.payoutId:abc` */
+  search?: string;
+  cursor?: string;
+  /** Switches to offset pagination with a total count */
   page?: number;
   limit?: number;
 }
 
 export interface LedgerEntryListResponse {
   entries: LedgerEntryResponse[];
-  pagination: {
+  pagination: CursorPagination | {
     page: number;
     limit: number;
     total: number;
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { MerchantWebhookService } from '../merchant-webhook.service';
+import { MerchantWebhookError } from '../merchant-webhook.types';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    merchant: { findUnique: jest.fn() },
+    transaction: { findUnique: jest.fn() },
+    webhookEndpoint: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    webhookDelivery: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      MERCHANT_WEBHOOK_MAX_ATTEMPTS: 3,
+      MERCHANT_WEBHOOK_RETRY_BASE_MS: 1000,
+      MERCHANT_WEBHOOK_TIMEOUT_MS: 5000,
+      MERCHANT_WEBHOOK_POLL_INTERVAL_MS: 15000,
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+
+const endpoint = {
+  id: 'ep-1',
+  merchantId: 'm-1',
+  url: 'https://merchant.example.com/hooks',
+  secret: 'whsec_test',
+  eventTypes: ['payment.succeeded'],
+  description: null,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const delivery = {
+  id: 'del-1',
+  endpointId: 'ep-1',
+  eventId: 'evt_1',
+  eventType: 'payment.succeeded',
+  payload: { id: 'evt_1', type: 'payment.succeeded', data: {} },
+  status: 'PENDING',
+  attempts: 0,
+  responseStatus: null,
+  responseBody: null,
+  lastError: null,
+  nextAttemptAt: new Date(),
+  deliveredAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  endpoint,
+};
+
+describe('MerchantWebhookService', () => {
+  let service: MerchantWebhookService;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (MerchantWebhookService as any).instance = null;
+    service = MerchantWebhookService.getInstance();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  describe('createEndpoint', () => {
+    it('should generate a signing secret and return it once', async () => {
+      (prisma.merchant.findUnique as jest.Mock).mockResolvedValue({ id: 'm-1' });
+      (prisma.webhookEndpoint.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...endpoint, ...data })
+      );
+
+      const result = await service.createEndpoint({
+        merchantId: 'm-1',
+        url: endpoint.url,
+        eventTypes: ['payment.succeeded', 'payment.succeeded'],
+      });
+
+      expect(result.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(result.eventTypes).toEqual(['payment.succeeded']);
+    });
+
+    it('should throw when merchant not found', async () => {
+      (prisma.merchant.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        service.createEndpoint({ merchantId: 'bad', url: endpoint.url, eventTypes: ['payment.failed'] })
+      ).rejects.toThrow(MerchantWebhookError);
+    });
+  });
+
+  describe('sign', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const body = '{"id":"evt_1"}';
+      const expected = crypto.createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+      expect(service.sign('whsec_test', 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+    });
+  });
+
+  describe('publishTransactionStatus', () => {
+    it('should create a delivery for each subscribed endpoint', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        id: 'txn-1', merchantId: 'm-1', customerId: null, parentTransactionId: null,
+        type: 'PAYMENT', status: 'COMPLETED', amount: 5000n, currency: 'USD',
+        capturedAmount: 5000n, refundedAmount: 0n, failureReason: null, metadata: {},
+        createdAt: new Date(), updatedAt: new Date(),
+      });
+      (prisma.webhookEndpoint.findMany as jest.Mock).mockResolvedValue([{ id: 'ep-1' }]);
+      (prisma.$transaction as jest.Mock).mockImplementation((ops: unknown[]) => Promise.all(ops));
+      (prisma.webhookDelivery.create as jest.Mock).mockResolvedValue({ id: 'del-1' });
+      (prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await service.publishTransactionStatus('txn-1', 'COMPLETED');
+
+      expect(prisma.webhookEndpoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { merchantId: 'm-1', isActive: true, eventTypes: { has: 'payment.succeeded' } },
+      }));
+      const { data } = (prisma.webhookDelivery.create as jest.Mock).mock.calls[0][0];
+      expect(data.eventType).toBe('payment.succeeded');
+      expect(data.payload.data).toEqual(expect.objectContaining({ id: 'txn-1', amount: '5000' }));
+    });
+
+    it('should ignore statuses without a merchant event', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        id: 'txn-1', merchantId: 'm-1', type: 'PAYMENT',
+      });
+
+      await service.publishTransactionStatus('txn-1', 'PROCESSING');
+
+      expect(prisma.webhookEndpoint.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when publishing fails', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      await expect(service.publishTransactionStatus('txn-1', 'COMPLETED')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('attemptDelivery', () => {
+    beforeEach(() => {
+      (prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue(delivery);
+    });
+
+    it('should send a signed request and mark the delivery succeeded', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('ok') });
+
+      await service.attemptDelivery('del-1');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(endpoint.url);
+      expect(init.headers['X-Webhook-Signature']).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', attempts: 1, nextAttemptAt: null }),
+      });
+    });
+
+    it('should schedule a retry with exponential backoff on failure', async () => {
+      (prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({ ...delivery, attempts: 1 });
+      fetchMock.mockResolvedValue({ ok: false, status: 500, text: () => Promise.resolve('error') });
+
+      const before = Date.now();
+      await service.attemptDelivery('del-1');
+
+      const { data } = (prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0];
+      expect(data.status).toBe('PENDING');
+      expect(data.lastError).toBe('Endpoint responded with HTTP 500');
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      (prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({ ...delivery, attempts: 2 });
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await service.attemptDelivery('del-1');
+
+      expect(prisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'del-1' },
+        data: expect.objectContaining({ status: 'FAILED', attempts: 3, nextAttemptAt: null }),
+      });
+    });
+
+    it('should skip deliveries claimed by another worker', async () => {
+      (prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await service.attemptDelivery('del-1');
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should reject redelivery to an inactive endpoint', async () => {
+      (prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValue({
+        ...delivery, endpoint: { isActive: false },
+      });
+
+      await expect(service.redeliver('del-1')).rejects.toThrow('inactive');
+      expect(prisma.webhookDelivery.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,5 @@
+export * from './merchant-webhook.types.js';
+export * from './merchant-webhook.schemas.js';
+export { merchantWebhookService, MerchantWebhookService } from './merchant-webhook.service.js';
+export { merchantWebhookController, MerchantWebhookController } from './merchant-webhook.controller.js';
+export { merchantWebhookRoutes } from './merchant-webhook.routes.js';
@@ -0,0 +1,223 @@
+import { Request, Response, NextFunction } from 'express';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { merchantWebhookService } from './merchant-webhook.service.js';
+import {
+  CreateWebhookEndpointBody,
+  UpdateWebhookEndpointBody,
+  WebhookEndpointIdParam,
+  WebhookDeliveryIdParam,
+  ListWebhookEndpointsQuery,
+  ListWebhookDeliveriesQuery,
+} from './merchant-webhook.schemas.js';
+import { WebhookEndpointResponse, WebhookDeliveryResponse } from './merchant-webhook.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+
+export class MerchantWebhookController {
+  async createEndpoint(
+    req: Request<unknown, unknown, CreateWebhookEndpointBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const endpoint = await merchantWebhookService.createEndpoint({
+        merchantId: req.body.merchantId,
+        url: req.body.url,
+        eventTypes: req.body.eventTypes,
+        description: req.body.description,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...this.formatEndpoint(endpoint),
+          secret: endpoint.secret,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getEndpoint(
+    req: Request<WebhookEndpointIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const endpoint = await merchantWebhookService.getEndpoint(req.params.id);
+
+      if (!endpoint) {
+        throw AppError.notFound(`Webhook endpoint ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatEndpoint(endpoint),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listEndpoints(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListWebhookEndpointsQuery;
+
+      const result = await merchantWebhookService.listEndpoints({
+        merchantId: query.merchantId,
+        isActive: query.isActive,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.endpoints.map((e) => this.formatEndpoint(e)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateEndpoint(
+    req: Request<WebhookEndpointIdParam, unknown, UpdateWebhookEndpointBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const endpoint = await merchantWebhookService.updateEndpoint(req.params.id, {
+        url: req.body.url,
+        eventTypes: req.body.eventTypes,
+        description: req.body.description,
+        isActive: req.body.isActive,
+      });
+
+      res.json({
+        success: true,
+        data: this.formatEndpoint(endpoint),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deactivateEndpoint(
+    req: Request<WebhookEndpointIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const endpoint = await merchantWebhookService.deactivateEndpoint(req.params.id);
+
+      res.json({
+        success: true,
+        data: this.formatEndpoint(endpoint),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listDeliveries(
+    req: Request<WebhookEndpointIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListWebhookDeliveriesQuery;
+
+      const result = await merchantWebhookService.listDeliveries({
+        endpointId: req.params.id,
+        status: query.status as WebhookDeliveryStatus | undefined,
+        eventType: query.eventType,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.deliveries.map((d) => this.formatDelivery(d)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDelivery(
+    req: Request<WebhookDeliveryIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const delivery = await merchantWebhookService.getDelivery(req.params.deliveryId);
+
+      if (!delivery) {
+        throw AppError.notFound(`Webhook delivery ${req.params.deliveryId} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatDelivery(delivery),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async redeliver(
+    req: Request<WebhookDeliveryIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const delivery = await merchantWebhookService.redeliver(req.params.deliveryId);
+
+      res.status(202).json({
+        success: true,
+        data: this.formatDelivery(delivery),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatEndpoint(endpoint: WebhookEndpointResponse) {
+    return {
+      id: endpoint.id,
+      merchantId: endpoint.merchantId,
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      description: endpoint.description,
+      isActive: endpoint.isActive,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+    };
+  }
+
+  private formatDelivery(delivery: WebhookDeliveryResponse) {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      lastError: delivery.lastError,
+      nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      createdAt: delivery.createdAt.toISOString(),
+      updatedAt: delivery.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const merchantWebhookController = new MerchantWebhookController();
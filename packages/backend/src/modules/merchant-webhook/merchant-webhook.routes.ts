@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { merchantWebhookController } from './merchant-webhook.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createWebhookEndpointBodySchema,
+  updateWebhookEndpointBodySchema,
+  webhookEndpointIdParamSchema,
+  webhookDeliveryIdParamSchema,
+  listWebhookEndpointsQuerySchema,
+  listWebhookDeliveriesQuerySchema,
+} from './merchant-webhook.schemas.js';
+
+const router = Router();
+
+// ── Delivery Routes ──
+
+/**
+ * GET /api/v1/webhook-endpoints/deliveries/:deliveryId
+ * Get a webhook delivery with its last response
+ */
+router.get(
+  '/deliveries/:deliveryId',
+  validateRequest({ params: webhookDeliveryIdParamSchema }),
+  merchantWebhookController.getDelivery.bind(merchantWebhookController)
+);
+
+/**
+ * POST /api/v1/webhook-endpoints/deliveries/:deliveryId/redeliver
+ * Send the delivery's event to its endpoint again
+ */
+router.post(
+  '/deliveries/:deliveryId/redeliver',
+  validateRequest({ params: webhookDeliveryIdParamSchema }),
+  merchantWebhookController.redeliver.bind(merchantWebhookController)
+);
+
+// ── Endpoint Routes ──
+
+/**
+ * POST /api/v1/webhook-endpoints
+ * Register a webhook endpoint for a merchant
+ */
+router.post(
+  '/',
+  validateRequest({ body: createWebhookEndpointBodySchema }),
+  merchantWebhookController.createEndpoint.bind(merchantWebhookController)
+);
+
+/**
+ * GET /api/v1/webhook-endpoints
+ * List webhook endpoints
+ */
+router.get(
+  '/',
+  validateRequest({ query: listWebhookEndpointsQuerySchema }),
+  merchantWebhookController.listEndpoints.bind(merchantWebhookController)
+);
+
+/**
+ * GET /api/v1/webhook-endpoints/:id
+ * Get a webhook endpoint by ID
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: webhookEndpointIdParamSchema }),
+  merchantWebhookController.getEndpoint.bind(merchantWebhookController)
+);
+
+/**
+ * PATCH /api/v1/webhook-endpoints/:id
+ * Update a webhook endpoint's URL, subscriptions or status
+ */
+router.patch(
+  '/:id',
+  validateRequest({ params: webhookEndpointIdParamSchema, body: updateWebhookEndpointBodySchema }),
+  merchantWebhookController.updateEndpoint.bind(merchantWebhookController)
+);
+
+/**
+ * DELETE /api/v1/webhook-endpoints/:id
+ * Deactivate a webhook endpoint
+ */
+router.delete(
+  '/:id',
+  validateRequest({ params: webhookEndpointIdParamSchema }),
+  merchantWebhookController.deactivateEndpoint.bind(merchantWebhookController)
+);
+
+/**
+ * GET /api/v1/webhook-endpoints/:id/deliveries
+ * List the delivery log for an endpoint
+ */
+router.get(
+  '/:id/deliveries',
+  validateRequest({ params: webhookEndpointIdParamSchema, query: listWebhookDeliveriesQuerySchema }),
+  merchantWebhookController.listDeliveries.bind(merchantWebhookController)
+);
+
+export { router as merchantWebhookRoutes };
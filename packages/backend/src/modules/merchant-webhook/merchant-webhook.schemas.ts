@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { MERCHANT_WEBHOOK_EVENT_TYPES } from './merchant-webhook.types.js';
+
+const eventTypeEnum = z.enum(MERCHANT_WEBHOOK_EVENT_TYPES);
+
+const deliveryStatusEnum = z.enum(['PENDING', 'SUCCEEDED', 'FAILED']);
+
+export const createWebhookEndpointBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  url: z.string().url().max(2048),
+  eventTypes: z.array(eventTypeEnum).min(1),
+  description: z.string().max(500).optional(),
+});
+
+export const updateWebhookEndpointBodySchema = z.object({
+  url: z.string().url().max(2048).optional(),
+  eventTypes: z.array(eventTypeEnum).min(1).optional(),
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const webhookEndpointIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const webhookDeliveryIdParamSchema = z.object({
+  deliveryId: z.string().uuid(),
+});
+
+export const listWebhookEndpointsQuerySchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  isActive: z.preprocess((val) => val === 'true' || val === true, z.boolean()).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const listWebhookDeliveriesQuerySchema = z.object({
+  status: deliveryStatusEnum.optional(),
+  eventType: eventTypeEnum.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type CreateWebhookEndpointBody = z.infer<typeof createWebhookEndpointBodySchema>;
+export type UpdateWebhookEndpointBody = z.infer<typeof updateWebhookEndpointBodySchema>;
+export type WebhookEndpointIdParam = z.infer<typeof webhookEndpointIdParamSchema>;
+export type WebhookDeliveryIdParam = z.infer<typeof webhookDeliveryIdParamSchema>;
+export type ListWebhookEndpointsQuery = z.infer<typeof listWebhookEndpointsQuerySchema>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
@@ -0,0 +1,593 @@
+import { Prisma, Transaction, TransactionStatus, TransactionType, WebhookDeliveryStatus } from '@prisma/client';
+import crypto from 'crypto';
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import {
+  MerchantWebhookEvent,
+  MerchantWebhookEventType,
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+  WebhookEndpointResponse,
+  WebhookEndpointWithSecretResponse,
+  ListWebhookEndpointsFilter,
+  WebhookEndpointListResponse,
+  WebhookDeliveryResponse,
+  ListWebhookDeliveriesFilter,
+  WebhookDeliveryListResponse,
+  MerchantWebhookError,
+} from './merchant-webhook.types.js';
+
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+// Transaction status changes that merchants can subscribe to, per transaction type
+const STATUS_EVENT_MAP: Partial<Record<TransactionType, Partial<Record<TransactionStatus, MerchantWebhookEventType>>>> = {
+  [TransactionType.PAYMENT]: {
+    [TransactionStatus.REQUIRES_ACTION]: 'payment.requires_action',
+    [TransactionStatus.COMPLETED]: 'payment.succeeded',
+    [TransactionStatus.FAILED]: 'payment.failed',
+    [TransactionStatus.CANCELLED]: 'payment.cancelled',
+    [TransactionStatus.PARTIALLY_REFUNDED]: 'payment.refunded',
+    [TransactionStatus.REFUNDED]: 'payment.refunded',
+  },
+  [TransactionType.REFUND]: {
+    [TransactionStatus.COMPLETED]: 'refund.created',
+  },
+  [TransactionType.PAYOUT]: {
+    [TransactionStatus.COMPLETED]: 'payout.paid',
+    [TransactionStatus.FAILED]: 'payout.failed',
+  },
+};
+
+export class MerchantWebhookService {
+  private static instance: MerchantWebhookService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MerchantWebhookService {
+    if (!MerchantWebhookService.instance) {
+      MerchantWebhookService.instance = new MerchantWebhookService();
+    }
+    return MerchantWebhookService.instance;
+  }
+
+  // ── Endpoints ──
+
+  async createEndpoint(request: CreateWebhookEndpointRequest): Promise<WebhookEndpointWithSecretResponse> {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: request.merchantId },
+      select: { id: true },
+    });
+
+    if (!merchant) {
+      throw MerchantWebhookError.merchantNotFound(request.merchantId);
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        merchantId: request.merchantId,
+        url: request.url,
+        secret: this.generateSecret(),
+        eventTypes: [...new Set(request.eventTypes)],
+        description: request.description ?? null,
+      },
+    });
+
+    logger.info('Webhook endpoint created', {
+      endpointId: endpoint.id,
+      merchantId: endpoint.merchantId,
+      eventTypes: endpoint.eventTypes,
+    });
+
+    // The signing secret is only returned once, at creation
+    return { ...this.toEndpointResponse(endpoint), secret: endpoint.secret };
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpointResponse | null> {
+    const endpoint = await prisma.webhookEndpoint.findUnique({
+      where: { id },
+    });
+
+    return endpoint ? this.toEndpointResponse(endpoint) : null;
+  }
+
+  async listEndpoints(filter: ListWebhookEndpointsFilter): Promise<WebhookEndpointListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WebhookEndpointWhereInput = {};
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.isActive !== undefined) where.isActive = filter.isActive;
+
+    const [endpoints, total] = await Promise.all([
+      prisma.webhookEndpoint.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.webhookEndpoint.count({ where }),
+    ]);
+
+    return {
+      endpoints: endpoints.map((e) => this.toEndpointResponse(e)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async updateEndpoint(
+    id: string,
+    request: UpdateWebhookEndpointRequest
+  ): Promise<WebhookEndpointResponse> {
+    const existing = await prisma.webhookEndpoint.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw MerchantWebhookError.endpointNotFound(id);
+    }
+
+    const updated = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(request.url !== undefined && { url: request.url }),
+        ...(request.eventTypes !== undefined && { eventTypes: [...new Set(request.eventTypes)] }),
+        ...(request.description !== undefined && { description: request.description }),
+        ...(request.isActive !== undefined && { isActive: request.isActive }),
+      },
+    });
+
+    logger.info('Webhook endpoint updated', { endpointId: id });
+
+    return this.toEndpointResponse(updated);
+  }
+
+  async deactivateEndpoint(id: string): Promise<WebhookEndpointResponse> {
+    const existing = await prisma.webhookEndpoint.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw MerchantWebhookError.endpointNotFound(id);
+    }
+
+    const updated = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    logger.info('Webhook endpoint deactivated', { endpointId: id });
+
+    return this.toEndpointResponse(updated);
+  }
+
+  // ── Deliveries ──
+
+  async listDeliveries(filter: ListWebhookDeliveriesFilter): Promise<WebhookDeliveryListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WebhookDeliveryWhereInput = { endpointId: filter.endpointId };
+    if (filter.status) where.status = filter.status;
+    if (filter.eventType) where.eventType = filter.eventType;
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map((d) => this.toDeliveryResponse(d)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getDelivery(id: string): Promise<WebhookDeliveryResponse | null> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+
+    return delivery ? this.toDeliveryResponse(delivery) : null;
+  }
+
+  /**
+   * Send a previously delivered (or failed) event again as a new delivery,
+   * keeping the original delivery log intact.
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDeliveryResponse> {
+    const original = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: { select: { isActive: true } } },
+    });
+
+    if (!original) {
+      throw MerchantWebhookError.deliveryNotFound(deliveryId);
+    }
+
+    if (!original.endpoint.isActive) {
+      throw MerchantWebhookError.endpointInactive(original.endpointId);
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload as object,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    logger.info('Webhook delivery queued for redelivery', {
+      deliveryId: delivery.id,
+      originalDeliveryId: deliveryId,
+    });
+
+    await this.attemptDelivery(delivery.id);
+
+    const attempted = await prisma.webhookDelivery.findUnique({
+      where: { id: delivery.id },
+    });
+
+    return this.toDeliveryResponse(attempted ?? delivery);
+  }
+
+  // ── Publishing ──
+
+  /**
+   * Publish the merchant-facing event for a transaction status change, if any.
+   * Never throws: webhook fan-out must not break the payment flow.
+   */
+  async publishTransactionStatus(transactionId: string, status: TransactionStatus): Promise<void> {
+    try {
+      const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+      });
+
+      if (!transaction) {
+        return;
+      }
+
+      const eventType = STATUS_EVENT_MAP[transaction.type]?.[status];
+      if (!eventType) {
+        return;
+      }
+
+      await this.publish(transaction.merchantId, eventType, this.formatTransaction(transaction));
+    } catch (error) {
+      logger.error('Failed to publish transaction webhook event', {
+        transactionId,
+        status,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  async publish(
+    merchantId: string,
+    type: MerchantWebhookEventType,
+    data: Record<string, unknown>
+  ): Promise<MerchantWebhookEvent | null> {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: {
+        merchantId,
+        isActive: true,
+        eventTypes: { has: type },
+      },
+      select: { id: true },
+    });
+
+    if (endpoints.length === 0) {
+      return null;
+    }
+
+    const event: MerchantWebhookEvent = {
+      id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    const deliveries = await prisma.$transaction(
+      endpoints.map((endpoint) =>
+        prisma.webhookDelivery.create({
+          data: {
+            endpointId: endpoint.id,
+            eventId: event.id,
+            eventType: type,
+            payload: event as unknown as object,
+            nextAttemptAt: new Date(),
+          },
+        })
+      )
+    );
+
+    logger.debug('Merchant webhook event published', {
+      eventId: event.id,
+      type,
+      merchantId,
+      deliveries: deliveries.length,
+    });
+
+    // First attempt happens right away; the poller picks up anything that fails
+    for (const delivery of deliveries) {
+      void this.attemptDelivery(delivery.id).catch((error: Error) => {
+        logger.error('Webhook delivery attempt failed', {
+          deliveryId: delivery.id,
+          error: error.message,
+        });
+      });
+    }
+
+    return event;
+  }
+
+  // ── Delivery worker ──
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.MERCHANT_WEBHOOK_POLL_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.processDueDeliveries().catch((error: Error) => {
+        logger.error('Webhook delivery poll failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Merchant webhook delivery worker started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async processDueDeliveries(): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+      },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery.id);
+    }
+
+    return due.length;
+  }
+
+  async attemptDelivery(deliveryId: string): Promise<void> {
+    const timeoutMs = config.env.MERCHANT_WEBHOOK_TIMEOUT_MS;
+    const now = new Date();
+
+    // Claim the delivery by pushing its next attempt past the request timeout,
+    // so other instances polling at the same time skip it
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: now },
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + timeoutMs * 2) },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    });
+
+    if (!delivery) {
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let lastError: string | null = null;
+
+    if (delivery.endpoint.isActive) {
+      try {
+        const response = await fetch(delivery.endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'PaymentOrchestrator-Webhooks/1.0',
+            'X-Webhook-Id': delivery.eventId,
+            'X-Webhook-Event': delivery.eventType,
+            'X-Webhook-Timestamp': timestamp.toString(),
+            'X-Webhook-Signature': this.sign(delivery.endpoint.secret, timestamp, body),
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        responseStatus = response.status;
+        responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+        if (!response.ok) {
+          lastError = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (error) {
+        lastError = (error as Error).message;
+      }
+    } else {
+      lastError = 'Endpoint is inactive';
+    }
+
+    const succeeded = lastError === null;
+    const exhausted = !succeeded &&
+      (attempts >= config.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS || !delivery.endpoint.isActive);
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts,
+        responseStatus,
+        responseBody,
+        lastError,
+        status: succeeded
+          ? WebhookDeliveryStatus.SUCCEEDED
+          : exhausted
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: succeeded || exhausted
+          ? null
+          : new Date(Date.now() + this.getRetryDelayMs(attempts)),
+        deliveredAt: succeeded ? new Date() : null,
+      },
+    });
+
+    if (succeeded) {
+      logger.info('Webhook delivered', {
+        deliveryId,
+        endpointId: delivery.endpointId,
+        eventType: delivery.eventType,
+        attempts,
+      });
+    } else {
+      logger.warn('Webhook delivery failed', {
+        deliveryId,
+        endpointId: delivery.endpointId,
+        eventType: delivery.eventType,
+        attempts,
+        willRetry: !exhausted,
+        error: lastError,
+      });
+    }
+  }
+
+  /**
+   * Signature merchants verify: HMAC-SHA256 over `${timestamp}.${body}`.
+   * The timestamp is signed too so captured payloads cannot be replayed later.
+   */
+  sign(secret: string, timestamp: number, body: string): string {
+    const digest = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  private getRetryDelayMs(attempts: number): number {
+    const delay = config.env.MERCHANT_WEBHOOK_RETRY_BASE_MS * Math.pow(2, attempts - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_MS);
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private formatTransaction(transaction: Transaction): Record<string, unknown> {
+    return {
+      id: transaction.id,
+      merchantId: transaction.merchantId,
+      customerId: transaction.customerId,
+      parentTransactionId: transaction.parentTransactionId,
+      type: transaction.type,
+      status: transaction.status,
+      amount: transaction.amount.toString(),
+      currency: transaction.currency,
+      capturedAmount: transaction.capturedAmount.toString(),
+      refundedAmount: transaction.refundedAmount.toString(),
+      failureReason: transaction.failureReason,
+      nextAction: transaction.nextAction,
+      metadata: transaction.metadata,
+      createdAt: transaction.createdAt.toISOString(),
+      updatedAt: transaction.updatedAt.toISOString(),
+    };
+  }
+
+  private toEndpointResponse(endpoint: {
+    id: string;
+    merchantId: string;
+    url: string;
+    eventTypes: string[];
+    description: string | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): WebhookEndpointResponse {
+    return {
+      id: endpoint.id,
+      merchantId: endpoint.merchantId,
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      description: endpoint.description,
+      isActive: endpoint.isActive,
+      createdAt: endpoint.createdAt,
+      updatedAt: endpoint.updatedAt,
+    };
+  }
+
+  private toDeliveryResponse(delivery: {
+    id: string;
+    endpointId: string;
+    eventId: string;
+    eventType: string;
+    payload: unknown;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    responseStatus: number | null;
+    responseBody: string | null;
+    lastError: string | null;
+    nextAttemptAt: Date | null;
+    deliveredAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload as Record<string, unknown>,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      lastError: delivery.lastError,
+      nextAttemptAt: delivery.nextAttemptAt,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+      updatedAt: delivery.updatedAt,
+    };
+  }
+}
+
+export const merchantWebhookService = MerchantWebhookService.getInstance();
@@ -0,0 +1,144 @@
+import { WebhookDeliveryStatus } from '@prisma/client';
+
+export const MERCHANT_WEBHOOK_EVENT_TYPES = [
+  'payment.requires_action',
+  'payment.succeeded',
+  'payment.failed',
+  'payment.cancelled',
+  'payment.refunded',
+  'refund.created',
+  'dispute.opened',
+  'dispute.closed',
+  'payout.paid',
+  'payout.failed',
+  'invoice.paid',
+  'invoice.payment_failed',
+] as const;
+
+export type MerchantWebhookEventType = (typeof MERCHANT_WEBHOOK_EVENT_TYPES)[number];
+
+export interface MerchantWebhookEvent {
+  id: string;
+  type: MerchantWebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface CreateWebhookEndpointRequest {
+  merchantId: string;
+  url: string;
+  eventTypes: MerchantWebhookEventType[];
+  description?: string;
+}
+
+export interface UpdateWebhookEndpointRequest {
+  url?: string;
+  eventTypes?: MerchantWebhookEventType[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface WebhookEndpointResponse {
+  id: string;
+  merchantId: string;
+  url: string;
+  eventTypes: string[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookEndpointWithSecretResponse extends WebhookEndpointResponse {
+  secret: string;
+}
+
+export interface ListWebhookEndpointsFilter {
+  merchantId?: string;
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface WebhookEndpointListResponse {
+  endpoints: WebhookEndpointResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ListWebhookDeliveriesFilter {
+  endpointId: string;
+  status?: WebhookDeliveryStatus;
+  eventType?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface WebhookDeliveryListResponse {
+  deliveries: WebhookDeliveryResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class MerchantWebhookError extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'MerchantWebhookError';
+    this.code = code;
+  }
+
+  static endpointNotFound(id: string): MerchantWebhookError {
+    return new MerchantWebhookError(
+      `Webhook endpoint ${id} not found`,
+      'ENDPOINT_NOT_FOUND'
+    );
+  }
+
+  static deliveryNotFound(id: string): MerchantWebhookError {
+    return new MerchantWebhookError(
+      `Webhook delivery ${id} not found`,
+      'DELIVERY_NOT_FOUND'
+    );
+  }
+
+  static merchantNotFound(merchantId: string): MerchantWebhookError {
+    return new MerchantWebhookError(
+      `Merchant ${merchantId} not found`,
+      'MERCHANT_NOT_FOUND'
+    );
+  }
+
+  static endpointInactive(id: string): MerchantWebhookError {
+    return new MerchantWebhookError(
+      `Webhook endpoint ${id} is inactive`,
+      'ENDPOINT_INACTIVE'
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { PaymentBatchService } from '../payment-batch.service';
+
+jest.mock('../../../shared/database/prisma', () => {
+  const prisma: any = {
+    merchant: { findUnique: jest.fn() },
+    customer: { findMany: jest.fn() },
+    transaction: { findMany: jest.fn() },
+    paymentBatch: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    paymentBatchItem: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  };
+  prisma.$transaction = jest.fn((fn: (tx: unknown) => unknown) => fn(prisma));
+  return { prisma };
+});
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../../payment/payment.service', () => ({
+  paymentService: { createPayment: jest.fn(), refundPayment: jest.fn(), cancelPayment: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PAYMENT_BATCH_POLL_INTERVAL_MS: 5000,
+      PAYMENT_BATCH_CONCURRENCY: 2,
+      PAYMENT_BATCH_CHUNK_SIZE: 100,
+      PAYMENT_BATCH_MAX_ROWS: 3,
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { paymentService } from '../../payment/payment.service';
+import { AppError } from '../../../shared/errors/app-error';
+
+const MERCHANT_ID = '7d3c2c4e-0f7b-4a55-9a4b-1d2f0c7e9a01';
+const CUSTOMER_ID = '0b6f1c7a-2f3e-4d1a-8c9b-5e4d3c2b1a00';
+const PAYMENT_ID = 'c1a2b3c4-d5e6-4f70-8a9b-0c1d2e3f4a5b';
+
+const baseBatch = {
+  id: 'batch-1',
+  merchantId: MERCHANT_ID,
+  type: 'PAYMENT',
+  status: 'PENDING',
+  totalRows: 1,
+  startedAt: null,
+  completedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const baseItem = {
+  id: 'item-1',
+  batchId: 'batch-1',
+  rowNumber: 1,
+  idempotencyKey: 'key-1',
+  input: { customerId: CUSTOMER_ID, amount: '1500', currency: 'USD' },
+  status: 'PENDING',
+  transactionId: null,
+  transactionStatus: null,
+  duplicate: false,
+  errorCode: null,
+  errorMessage: null,
+  processedAt: null,
+};
+
+describe('PaymentBatchService', () => {
+  let service: PaymentBatchService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentBatchService as any).instance = null;
+    service = PaymentBatchService.getInstance();
+
+    (prisma.merchant.findUnique as jest.Mock).mockResolvedValue({ id: MERCHANT_ID, isActive: true });
+    (prisma.customer.findMany as jest.Mock).mockResolvedValue([{ id: CUSTOMER_ID }]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([{ id: PAYMENT_ID }]);
+    (prisma.paymentBatch.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseBatch, ...data })
+    );
+    (prisma.paymentBatchItem.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+  });
+
+  describe('createBatch', () => {
+    it('should queue one item per row with a stable idempotency key', async () => {
+      const rows = [
+        { customerId: CUSTOMER_ID, amount: '1500', currency: 'USD' },
+        { customerId: CUSTOMER_ID, amount: '2500', currency: 'USD', idempotencyKey: 'inv-42' },
+      ];
+
+      const result = await service.createBatch({ merchantId: MERCHANT_ID, type: 'PAYMENT', rows });
+      const again = await service.createBatch({ merchantId: MERCHANT_ID, type: 'PAYMENT', rows });
+
+      const firstItems = (prisma.paymentBatchItem.createMany as jest.Mock).mock.calls[0][0].data;
+      const secondItems = (prisma.paymentBatchItem.createMany as jest.Mock).mock.calls[1][0].data;
+
+      expect(firstItems).toHaveLength(2);
+      expect(firstItems[0]).toMatchObject({
+        rowNumber: 1,
+        input: { customerId: CUSTOMER_ID, amount: '1500', currency: 'USD' },
+      });
+      expect(firstItems[0].idempotencyKey).toBe(secondItems[0].idempotencyKey);
+      expect(firstItems[0].idempotencyKey).not.toBe(firstItems[1].idempotencyKey);
+      expect(result).toMatchObject({ status: 'PENDING', totalRows: 2, pendingRows: 2 });
+      expect(again.totalRows).toBe(2);
+    });
+
+    it('should reject the whole batch with every invalid row listed', async () => {
+      (prisma.customer.findMany as jest.Mock).mockResolvedValue([]);
+
+      const error = await service
+        .createBatch({
+          merchantId: MERCHANT_ID,
+          type: 'PAYMENT',
+          rows: [
+            { customerId: CUSTOMER_ID, amount: '1500', currency: 'USD' },
+            { customerId: CUSTOMER_ID, amount: '-5', currency: 'XXX' },
+          ],
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect((error as AppError).code).toBe('INVALID_BATCH_ROWS');
+      expect((error as AppError).details).toEqual(expect.arrayContaining([
+        { row: 1, field: 'customerId', message: `Customer ${CUSTOMER_ID} not found` },
+        expect.objectContaining({ row: 2, field: 'amount' }),
+        expect.objectContaining({ row: 2, field: 'currency' }),
+      ]));
+      expect(prisma.paymentBatch.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject repeated rows within one file', async () => {
+      const row = { paymentId: PAYMENT_ID, amount: '500' };
+
+      await expect(
+        service.createBatch({ merchantId: MERCHANT_ID, type: 'REFUND', rows: [row, row] })
+      ).rejects.toMatchObject({
+        code: 'INVALID_BATCH_ROWS',
+        details: [expect.objectContaining({ row: 2, message: expect.stringContaining('Duplicates row 1') })],
+      });
+    });
+
+    it('should reject batches over the row limit', async () => {
+      const rows = Array.from({ length: 4 }, () => ({ paymentId: PAYMENT_ID }));
+
+      await expect(
+        service.createBatch({ merchantId: MERCHANT_ID, type: 'REFUND', rows })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+  });
+
+  describe('runPendingBatches', () => {
+    beforeEach(() => {
+      (prisma.paymentBatch.findMany as jest.Mock).mockResolvedValue([baseBatch]);
+      (prisma.paymentBatchItem.findMany as jest.Mock).mockResolvedValue([baseItem]);
+      (prisma.paymentBatchItem.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.paymentBatchItem.count as jest.Mock).mockResolvedValue(0);
+    });
+
+    it('should charge pending rows and complete the batch', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED', type: 'PAYMENT' });
+
+      const result = await service.runPendingBatches();
+
+      expect(paymentService.createPayment).toHaveBeenCalledWith(expect.objectContaining({
+        merchantId: MERCHANT_ID,
+        customerId: CUSTOMER_ID,
+        amount: 1500n,
+        currency: 'USD',
+        idempotencyKey: 'batch_item_item-1',
+        metadata: { paymentBatchId: 'batch-1', paymentBatchRow: 1 },
+      }));
+      expect(prisma.paymentBatchItem.update).toHaveBeenLastCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', transactionId: 'txn-1', transactionStatus: 'COMPLETED' }),
+      });
+      expect(prisma.paymentBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      });
+      expect(result).toEqual({ processed: 1, completedBatches: 1 });
+      expect(cacheService.releaseLock).toHaveBeenCalledWith('payment-batch-processing', 'lock-token');
+    });
+
+    it('should record declines as failed rows and keep going', async () => {
+      (prisma.paymentBatchItem.findMany as jest.Mock).mockResolvedValue([
+        baseItem,
+        { ...baseItem, id: 'item-2', rowNumber: 2, idempotencyKey: 'key-2' },
+      ]);
+      (paymentService.createPayment as jest.Mock)
+        .mockImplementation(({ idempotencyKey }) => Promise.resolve(
+          idempotencyKey === 'batch_item_item-1'
+            ? { id: 'txn-1', status: 'FAILED', type: 'PAYMENT', failureReason: 'card_declined' }
+            : { id: 'txn-2', status: 'COMPLETED', type: 'PAYMENT' }
+        ));
+
+      await service.runPendingBatches();
+
+      expect(prisma.paymentBatchItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorCode: 'card_declined', transactionId: 'txn-1' }),
+      });
+      expect(prisma.paymentBatchItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-2' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', transactionId: 'txn-2' }),
+      });
+    });
+
+    it('should reuse an earlier result instead of refunding twice', async () => {
+      (prisma.paymentBatch.findMany as jest.Mock).mockResolvedValue([{ ...baseBatch, type: 'REFUND' }]);
+      (prisma.paymentBatchItem.findMany as jest.Mock).mockResolvedValue([
+        { ...baseItem, input: { paymentId: PAYMENT_ID } },
+      ]);
+      (prisma.paymentBatchItem.findFirst as jest.Mock).mockResolvedValue({
+        ...baseItem,
+        id: 'item-0',
+        status: 'SUCCEEDED',
+        transactionId: 'refund-1',
+        transactionStatus: 'COMPLETED',
+      });
+
+      await service.runPendingBatches();
+
+      expect(paymentService.refundPayment).not.toHaveBeenCalled();
+      expect(prisma.paymentBatchItem.update).toHaveBeenLastCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED', transactionId: 'refund-1', duplicate: true }),
+      });
+    });
+
+    it('should record errors thrown by the payment service on the row', async () => {
+      (prisma.paymentBatch.findMany as jest.Mock).mockResolvedValue([{ ...baseBatch, type: 'REFUND' }]);
+      (prisma.paymentBatchItem.findMany as jest.Mock).mockResolvedValue([
+        { ...baseItem, input: { paymentId: PAYMENT_ID, amount: '900' } },
+      ]);
+      (paymentService.refundPayment as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('Refund exceeds balance'), { code: 'REFUND_EXCEEDS_BALANCE' })
+      );
+
+      await service.runPendingBatches();
+
+      expect(paymentService.refundPayment).toHaveBeenCalledWith(PAYMENT_ID, { amount: 900n, reason: undefined });
+      expect(prisma.paymentBatchItem.update).toHaveBeenLastCalledWith({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorCode: 'REFUND_EXCEEDS_BALANCE' }),
+      });
+    });
+
+    it('should mark rows left mid-flight by a crashed run as failed', async () => {
+      (prisma.paymentBatch.findMany as jest.Mock).mockResolvedValue([]);
+
+      await service.runPendingBatches();
+
+      expect(prisma.paymentBatchItem.updateMany).toHaveBeenCalledWith({
+        where: { status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'FAILED', errorCode: 'INTERRUPTED' }),
+      });
+    });
+
+    it('should skip the run when another instance holds the lock', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+      const result = await service.runPendingBatches();
+
+      expect(result).toEqual({ processed: 0, completedBatches: 0 });
+      expect(prisma.paymentBatch.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
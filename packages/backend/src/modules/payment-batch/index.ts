@@ -0,0 +1,5 @@
+export * from './payment-batch.types.js';
+export * from './payment-batch.schemas.js';
+export { paymentBatchService, PaymentBatchService } from './payment-batch.service.js';
+export { paymentBatchController, PaymentBatchController } from './payment-batch.controller.js';
+export { paymentBatchRoutes } from './payment-batch.routes.js';
@@ -0,0 +1,187 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentBatchItemStatus, PaymentBatchStatus, PaymentBatchType } from '@prisma/client';
+import { paymentBatchService } from './payment-batch.service.js';
+import {
+  createPaymentBatchBodySchema,
+  uploadPaymentBatchQuerySchema,
+  PaymentBatchIdParam,
+  ListPaymentBatchesQuery,
+  ListPaymentBatchItemsQuery,
+  PaymentBatchResultsQuery,
+} from './payment-batch.schemas.js';
+import { PaymentBatchItemResponse, PaymentBatchResponse } from './payment-batch.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+import { parseCsv, toCsv } from '../../shared/utils/csv.js';
+
+// Input columns echoed back in the result file, per batch type
+const INPUT_COLUMNS: Record<PaymentBatchType, string[]> = {
+  PAYMENT: ['customerId', 'paymentMethodId', 'amount', 'currency', 'description', 'idempotencyKey'],
+  REFUND: ['paymentId', 'amount', 'reason', 'idempotencyKey'],
+};
+
+const RESULT_COLUMNS = [
+  'rowNumber', 'status', 'transactionId', 'transactionStatus', 'duplicate', 'errorCode', 'errorMessage',
+];
+
+export class PaymentBatchController {
+  /**
+   * Accepts either a JSON body with rows or a text/csv upload with merchantId
+   * and type in the query string.
+   */
+  async create(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const input = typeof req.body === 'string'
+        ? { ...uploadPaymentBatchQuerySchema.parse(req.query), rows: parseCsv(req.body) }
+        : createPaymentBatchBodySchema.parse(req.body);
+
+      const batch = await paymentBatchService.createBatch({
+        merchantId: input.merchantId,
+        type: input.type as PaymentBatchType,
+        rows: input.rows,
+      });
+
+      res.status(202).json({
+        success: true,
+        data: this.formatBatch(batch),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getById(
+    req: Request<PaymentBatchIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const batch = await paymentBatchService.getBatch(req.params.id);
+
+      if (!batch) {
+        throw AppError.notFound(`Payment batch with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatBatch(batch),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListPaymentBatchesQuery;
+
+      const result = await paymentBatchService.listBatches({
+        merchantId: query.merchantId,
+        status: query.status as PaymentBatchStatus | undefined,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.batches.map((batch) => this.formatBatch(batch)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listItems(
+    req: Request<PaymentBatchIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListPaymentBatchItemsQuery;
+
+      const result = await paymentBatchService.listItems(req.params.id, {
+        status: query.status as PaymentBatchItemStatus | undefined,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.items.map((item) => this.formatItem(item)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async downloadResults(
+    req: Request<PaymentBatchIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as PaymentBatchResultsQuery;
+      const { batch, items } = await paymentBatchService.getResults(req.params.id);
+
+      if (query.format === 'json') {
+        res.json({ success: true, data: items.map((item) => this.formatItem(item)) });
+        return;
+      }
+
+      const inputColumns = INPUT_COLUMNS[batch.type];
+      const csv = toCsv(
+        [...RESULT_COLUMNS, ...inputColumns],
+        items.map((item) => ({ ...item.input, ...this.formatItem(item) }))
+      );
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=payment-batch-${batch.id}.csv`);
+      res.send(csv);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatBatch(batch: PaymentBatchResponse) {
+    return {
+      id: batch.id,
+      merchantId: batch.merchantId,
+      type: batch.type,
+      status: batch.status,
+      totalRows: batch.totalRows,
+      pendingRows: batch.pendingRows,
+      succeededRows: batch.succeededRows,
+      failedRows: batch.failedRows,
+      startedAt: batch.startedAt?.toISOString(),
+      completedAt: batch.completedAt?.toISOString(),
+      createdAt: batch.createdAt.toISOString(),
+      updatedAt: batch.updatedAt.toISOString(),
+    };
+  }
+
+  private formatItem(item: PaymentBatchItemResponse) {
+    return {
+      id: item.id,
+      rowNumber: item.rowNumber,
+      status: item.status,
+      transactionId: item.transactionId,
+      transactionStatus: item.transactionStatus,
+      duplicate: item.duplicate,
+      errorCode: item.errorCode,
+      errorMessage: item.errorMessage,
+      processedAt: item.processedAt?.toISOString(),
+      input: item.input,
+    };
+  }
+}
+
+export const paymentBatchController = new PaymentBatchController();
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { paymentBatchController } from './payment-batch.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  paymentBatchIdParamSchema,
+  listPaymentBatchesQuerySchema,
+  listPaymentBatchItemsQuerySchema,
+  paymentBatchResultsQuerySchema,
+} from './payment-batch.schemas.js';
+
+const router = Router();
+
+/**
+ * POST /api/v1/payment-batches
+ * Queue a batch of payments or refunds from a JSON array or a CSV upload
+ */
+router.post(
+  '/',
+  paymentBatchController.create.bind(paymentBatchController)
+);
+
+/**
+ * GET /api/v1/payment-batches
+ * List payment batches with filters
+ */
+router.get(
+  '/',
+  validateRequest({ query: listPaymentBatchesQuerySchema }),
+  paymentBatchController.list.bind(paymentBatchController)
+);
+
+/**
+ * GET /api/v1/payment-batches/:id
+ * Get batch status and row counts
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: paymentBatchIdParamSchema }),
+  paymentBatchController.getById.bind(paymentBatchController)
+);
+
+/**
+ * GET /api/v1/payment-batches/:id/items
+ * Per-row results and errors
+ */
+router.get(
+  '/:id/items',
+  validateRequest({ params: paymentBatchIdParamSchema, query: listPaymentBatchItemsQuerySchema }),
+  paymentBatchController.listItems.bind(paymentBatchController)
+);
+
+/**
+ * GET /api/v1/payment-batches/:id/results
+ * Download every row with its outcome as CSV or JSON
+ */
+router.get(
+  '/:id/results',
+  validateRequest({ params: paymentBatchIdParamSchema, query: paymentBatchResultsQuerySchema }),
+  paymentBatchController.downloadResults.bind(paymentBatchController)
+);
+
+export { router as paymentBatchRoutes };
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+const currencyEnum = z.enum([
+  'USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+]);
+
+const batchTypeEnum = z.enum(['PAYMENT', 'REFUND']);
+
+const batchStatusEnum = z.enum(['PENDING', 'PROCESSING', 'COMPLETED']);
+
+const batchItemStatusEnum = z.enum(['PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED']);
+
+// Rows arrive either as JSON or as CSV strings, so numbers are coerced
+export const paymentBatchPaymentRowSchema = z.object({
+  customerId: z.string().uuid(),
+  paymentMethodId: z.string().uuid().optional(),
+  amount: z.coerce.bigint().positive('Amount must be positive'),
+  currency: currencyEnum,
+  description: z.string().max(500).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  idempotencyKey: z.string().max(64).optional(),
+});
+
+export const paymentBatchRefundRowSchema = z.object({
+  paymentId: z.string().uuid(),
+  amount: z.coerce.bigint().positive('Amount must be positive').optional(),
+  reason: z.string().max(500).optional(),
+  idempotencyKey: z.string().max(64).optional(),
+});
+
+export const createPaymentBatchBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  type: batchTypeEnum,
+  rows: z.array(z.record(z.unknown())).min(1, 'Batch has no rows'),
+});
+
+// A CSV upload carries only the rows; the rest comes from the query string
+export const uploadPaymentBatchQuerySchema = z.object({
+  merchantId: z.string().uuid(),
+  type: batchTypeEnum,
+});
+
+export const paymentBatchIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const listPaymentBatchesQuerySchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  status: batchStatusEnum.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const listPaymentBatchItemsQuerySchema = z.object({
+  status: batchItemStatusEnum.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+export const paymentBatchResultsQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export type PaymentBatchPaymentRowInput = z.infer<typeof paymentBatchPaymentRowSchema>;
+export type PaymentBatchRefundRowInput = z.infer<typeof paymentBatchRefundRowSchema>;
+export type CreatePaymentBatchBody = z.infer<typeof createPaymentBatchBodySchema>;
+export type UploadPaymentBatchQuery = z.infer<typeof uploadPaymentBatchQuerySchema>;
+export type PaymentBatchIdParam = z.infer<typeof paymentBatchIdParamSchema>;
+export type ListPaymentBatchesQuery = z.infer<typeof listPaymentBatchesQuerySchema>;
+export type ListPaymentBatchItemsQuery = z.infer<typeof listPaymentBatchItemsQuerySchema>;
+export type PaymentBatchResultsQuery = z.infer<typeof paymentBatchResultsQuerySchema>;
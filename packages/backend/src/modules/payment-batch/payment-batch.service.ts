@@ -0,0 +1,674 @@
+import {
+  PaymentBatch,
+  PaymentBatchItem,
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+  PaymentBatchType,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import crypto from 'crypto';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { AppError } from '../../shared/errors/app-error.js';
+import { config } from '../../config/index.js';
+import { paymentService } from '../payment/payment.service.js';
+import { PaymentResponse } from '../payment/payment.types.js';
+import {
+  paymentBatchPaymentRowSchema,
+  paymentBatchRefundRowSchema,
+} from './payment-batch.schemas.js';
+import {
+  BatchRunResult,
+  CreatePaymentBatchRequest,
+  ListPaymentBatchesFilter,
+  ListPaymentBatchItemsFilter,
+  PaymentBatchError,
+  PaymentBatchItemListResponse,
+  PaymentBatchItemResponse,
+  PaymentBatchListResponse,
+  PaymentBatchPaymentRow,
+  PaymentBatchRefundRow,
+  PaymentBatchResponse,
+  PaymentBatchRowError,
+} from './payment-batch.types.js';
+
+const PROCESSING_LOCK_KEY = 'payment-batch-processing';
+
+// Covers one chunk of rows, each a provider round trip including fallbacks
+const PROCESSING_LOCK_TTL_MS = 10 * 60 * 1000;
+
+// Payment statuses that count as a successful row
+const SUCCEEDED_TRANSACTION_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PROCESSING,
+  TransactionStatus.COMPLETED,
+];
+
+interface ValidatedRows {
+  rows: Array<{ idempotencyKey: string; input: Record<string, unknown> }>;
+  errors: PaymentBatchRowError[];
+}
+
+interface ItemOutcome {
+  status: PaymentBatchItemStatus;
+  transactionId?: string;
+  transactionStatus?: TransactionStatus;
+  duplicate?: boolean;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export class PaymentBatchService {
+  private static instance: PaymentBatchService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentBatchService {
+    if (!PaymentBatchService.instance) {
+      PaymentBatchService.instance = new PaymentBatchService();
+    }
+    return PaymentBatchService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.PAYMENT_BATCH_POLL_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.runPendingBatches().catch((error: Error) => {
+        logger.error('Payment batch run failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Payment batch processing started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Validate every row and queue the batch. Nothing is charged or refunded
+   * unless the whole batch is valid; processing happens in the background.
+   */
+  async createBatch(request: CreatePaymentBatchRequest): Promise<PaymentBatchResponse> {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: request.merchantId },
+    });
+
+    if (!merchant || !merchant.isActive) {
+      throw PaymentBatchError.merchantNotFound(request.merchantId);
+    }
+
+    if (request.rows.length === 0) {
+      throw PaymentBatchError.invalidRequest('Batch has no rows');
+    }
+
+    if (request.rows.length > config.env.PAYMENT_BATCH_MAX_ROWS) {
+      throw PaymentBatchError.invalidRequest(
+        `Batch has ${request.rows.length} rows; the limit is ${config.env.PAYMENT_BATCH_MAX_ROWS}`
+      );
+    }
+
+    const { rows, errors } = request.type === PaymentBatchType.PAYMENT
+      ? await this.validatePaymentRows(request.merchantId, request.rows)
+      : await this.validateRefundRows(request.merchantId, request.rows);
+
+    if (errors.length > 0) {
+      throw AppError.badRequest(
+        `Batch has ${errors.length} invalid row${errors.length === 1 ? '' : 's'}`,
+        'INVALID_BATCH_ROWS',
+        errors
+      );
+    }
+
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.paymentBatch.create({
+        data: {
+          merchantId: request.merchantId,
+          type: request.type,
+          totalRows: rows.length,
+        },
+      });
+
+      await tx.paymentBatchItem.createMany({
+        data: rows.map((row, index) => ({
+          batchId: created.id,
+          rowNumber: index + 1,
+          idempotencyKey: row.idempotencyKey,
+          input: row.input as Prisma.InputJsonValue,
+        })),
+      });
+
+      return created;
+    });
+
+    logger.info('Payment batch created', {
+      batchId: batch.id,
+      merchantId: batch.merchantId,
+      type: batch.type,
+      totalRows: batch.totalRows,
+    });
+
+    return this.toResponse(batch, { [PaymentBatchItemStatus.PENDING]: rows.length });
+  }
+
+  async getBatch(id: string): Promise<PaymentBatchResponse | null> {
+    const batch = await prisma.paymentBatch.findUnique({
+      where: { id },
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    return this.toResponse(batch, await this.countItems(id));
+  }
+
+  async listBatches(filter: ListPaymentBatchesFilter): Promise<PaymentBatchListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentBatchWhereInput = {};
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.status) where.status = filter.status;
+
+    const [batches, total] = await Promise.all([
+      prisma.paymentBatch.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.paymentBatch.count({ where }),
+    ]);
+
+    const counts = await Promise.all(batches.map((batch) => this.countItems(batch.id)));
+
+    return {
+      batches: batches.map((batch, index) => this.toResponse(batch, counts[index] ?? {})),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async listItems(batchId: string, filter: ListPaymentBatchItemsFilter): Promise<PaymentBatchItemListResponse> {
+    await this.requireBatch(batchId);
+
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 100;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.PaymentBatchItemWhereInput = { batchId };
+    if (filter.status) where.status = filter.status;
+
+    const [items, total] = await Promise.all([
+      prisma.paymentBatchItem.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { rowNumber: 'asc' },
+      }),
+      prisma.paymentBatchItem.count({ where }),
+    ]);
+
+    return {
+      items: items.map((item) => this.toItemResponse(item)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Every row of a batch with its outcome, for the downloadable result file.
+   */
+  async getResults(batchId: string): Promise<{ batch: PaymentBatch; items: PaymentBatchItemResponse[] }> {
+    const batch = await this.requireBatch(batchId);
+
+    const items = await prisma.paymentBatchItem.findMany({
+      where: { batchId },
+      orderBy: { rowNumber: 'asc' },
+    });
+
+    return { batch, items: items.map((item) => this.toItemResponse(item)) };
+  }
+
+  /**
+   * Work through queued batches a chunk at a time, oldest first. Runs are
+   * serialized across instances so a row key is never processed twice at once.
+   */
+  async runPendingBatches(): Promise<BatchRunResult> {
+    const result: BatchRunResult = { processed: 0, completedBatches: 0 };
+
+    const lockToken = await cacheService.acquireLock(PROCESSING_LOCK_KEY, PROCESSING_LOCK_TTL_MS);
+
+    if (!lockToken) {
+      logger.debug('Payment batches already being processed on another instance');
+      return result;
+    }
+
+    try {
+      // Rows left mid-flight by a crashed run may or may not have reached the provider
+      await this.failInterruptedItems();
+
+      let budget = config.env.PAYMENT_BATCH_CHUNK_SIZE;
+
+      const batches = await prisma.paymentBatch.findMany({
+        where: { status: { in: [PaymentBatchStatus.PENDING, PaymentBatchStatus.PROCESSING] } },
+        orderBy: { createdAt: 'asc' },
+        take: 10,
+      });
+
+      for (const batch of batches) {
+        if (budget <= 0) {
+          break;
+        }
+
+        const processed = await this.processBatch(batch, budget);
+        budget -= processed;
+        result.processed += processed;
+
+        const remaining = await prisma.paymentBatchItem.count({
+          where: { batchId: batch.id, status: PaymentBatchItemStatus.PENDING },
+        });
+
+        if (remaining === 0) {
+          await prisma.paymentBatch.update({
+            where: { id: batch.id },
+            data: { status: PaymentBatchStatus.COMPLETED, completedAt: new Date() },
+          });
+          result.completedBatches++;
+
+          logger.info('Payment batch completed', { batchId: batch.id });
+        }
+      }
+
+      if (result.processed > 0) {
+        logger.info('Payment batch run finished', { ...result });
+      }
+
+      return result;
+    } finally {
+      await cacheService.releaseLock(PROCESSING_LOCK_KEY, lockToken);
+    }
+  }
+
+  private async processBatch(batch: PaymentBatch, limit: number): Promise<number> {
+    if (batch.status === PaymentBatchStatus.PENDING) {
+      await prisma.paymentBatch.update({
+        where: { id: batch.id },
+        data: { status: PaymentBatchStatus.PROCESSING, startedAt: new Date() },
+      });
+    }
+
+    const items = await prisma.paymentBatchItem.findMany({
+      where: { batchId: batch.id, status: PaymentBatchItemStatus.PENDING },
+      orderBy: { rowNumber: 'asc' },
+      take: limit,
+    });
+
+    await this.mapWithConcurrency(items, config.env.PAYMENT_BATCH_CONCURRENCY, (item) =>
+      this.processItem(batch, item)
+    );
+
+    return items.length;
+  }
+
+  private async processItem(batch: PaymentBatch, item: PaymentBatchItem): Promise<void> {
+    await prisma.paymentBatchItem.update({
+      where: { id: item.id },
+      data: { status: PaymentBatchItemStatus.PROCESSING },
+    });
+
+    let outcome: ItemOutcome;
+    try {
+      outcome = (await this.findEarlierOutcome(item)) ?? (batch.type === PaymentBatchType.PAYMENT
+        ? await this.chargeRow(batch, item)
+        : await this.refundRow(item));
+    } catch (error) {
+      outcome = {
+        status: PaymentBatchItemStatus.FAILED,
+        errorCode: (error as { code?: string }).code ?? 'PROCESSING_ERROR',
+        errorMessage: (error as Error).message,
+      };
+    }
+
+    await prisma.paymentBatchItem.update({
+      where: { id: item.id },
+      data: {
+        status: outcome.status,
+        transactionId: outcome.transactionId,
+        transactionStatus: outcome.transactionStatus,
+        duplicate: outcome.duplicate ?? false,
+        errorCode: outcome.errorCode,
+        errorMessage: outcome.errorMessage,
+        processedAt: new Date(),
+      },
+    });
+
+    if (outcome.status === PaymentBatchItemStatus.FAILED) {
+      logger.warn('Payment batch row failed', {
+        batchId: batch.id,
+        rowNumber: item.rowNumber,
+        errorCode: outcome.errorCode,
+      });
+    }
+  }
+
+  /**
+   * A re-uploaded row reuses the result of the earlier row with the same key
+   * instead of charging or refunding again. Failed rows may be retried.
+   */
+  private async findEarlierOutcome(item: PaymentBatchItem): Promise<ItemOutcome | null> {
+    const earlier = await prisma.paymentBatchItem.findFirst({
+      where: {
+        idempotencyKey: item.idempotencyKey,
+        status: PaymentBatchItemStatus.SUCCEEDED,
+        id: { not: item.id },
+      },
+      orderBy: { processedAt: 'asc' },
+    });
+
+    if (!earlier) {
+      return null;
+    }
+
+    return {
+      status: PaymentBatchItemStatus.SUCCEEDED,
+      transactionId: earlier.transactionId ?? undefined,
+      transactionStatus: earlier.transactionStatus ?? undefined,
+      duplicate: true,
+    };
+  }
+
+  private async chargeRow(batch: PaymentBatch, item: PaymentBatchItem): Promise<ItemOutcome> {
+    const row: PaymentBatchPaymentRow = paymentBatchPaymentRowSchema.parse(item.input);
+
+    const payment = await paymentService.createPayment({
+      merchantId: batch.merchantId,
+      customerId: row.customerId,
+      paymentMethodId: row.paymentMethodId,
+      amount: row.amount,
+      currency: row.currency,
+      description: row.description,
+      metadata: {
+        ...row.metadata,
+        paymentBatchId: batch.id,
+        paymentBatchRow: item.rowNumber,
+      },
+      idempotencyKey: `batch_item_${item.id}`,
+    });
+
+    // Nobody is present to complete a 3-D Secure challenge for a batch charge
+    if (payment.status === TransactionStatus.REQUIRES_ACTION) {
+      const cancelled = await paymentService.cancelPayment(payment.id, 'authentication_required');
+      return this.toFailedOutcome(cancelled, 'authentication_required');
+    }
+
+    return this.toOutcome(payment);
+  }
+
+  private async refundRow(item: PaymentBatchItem): Promise<ItemOutcome> {
+    const row: PaymentBatchRefundRow = paymentBatchRefundRowSchema.parse(item.input);
+
+    const refund = await paymentService.refundPayment(row.paymentId, {
+      amount: row.amount,
+      reason: row.reason,
+    });
+
+    return this.toOutcome(refund);
+  }
+
+  private toOutcome(transaction: PaymentResponse): ItemOutcome {
+    if (!SUCCEEDED_TRANSACTION_STATUSES.includes(transaction.status)) {
+      return this.toFailedOutcome(transaction, transaction.failureReason ?? 'failed');
+    }
+
+    return {
+      status: PaymentBatchItemStatus.SUCCEEDED,
+      transactionId: transaction.id,
+      transactionStatus: transaction.status,
+    };
+  }
+
+  private toFailedOutcome(transaction: PaymentResponse, reason: string): ItemOutcome {
+    return {
+      status: PaymentBatchItemStatus.FAILED,
+      transactionId: transaction.id,
+      transactionStatus: transaction.status,
+      errorCode: reason,
+      errorMessage: `${transaction.type === TransactionType.REFUND ? 'Refund' : 'Payment'} ${transaction.status.toLowerCase()}: ${reason}`,
+    };
+  }
+
+  private async failInterruptedItems(): Promise<void> {
+    const { count } = await prisma.paymentBatchItem.updateMany({
+      where: { status: PaymentBatchItemStatus.PROCESSING },
+      data: {
+        status: PaymentBatchItemStatus.FAILED,
+        errorCode: 'INTERRUPTED',
+        errorMessage: 'Processing was interrupted; check the transaction before retrying this row',
+        processedAt: new Date(),
+      },
+    });
+
+    if (count > 0) {
+      logger.warn('Marked interrupted payment batch rows as failed', { count });
+    }
+  }
+
+  private async validatePaymentRows(
+    merchantId: string,
+    rawRows: Array<Record<string, unknown>>
+  ): Promise<ValidatedRows> {
+    const errors: PaymentBatchRowError[] = [];
+    const parsed = rawRows.map((raw, index) => {
+      const result = paymentBatchPaymentRowSchema.safeParse(raw);
+      if (!result.success) {
+        errors.push(...this.toRowErrors(index + 1, result.error));
+        return null;
+      }
+      return result.data;
+    });
+
+    const customerIds = [...new Set(parsed.flatMap((row) => (row ? [row.customerId] : [])))];
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: customerIds }, merchantId },
+      select: { id: true },
+    });
+    const knownCustomers = new Set(customers.map((customer) => customer.id));
+
+    parsed.forEach((row, index) => {
+      if (row && !knownCustomers.has(row.customerId)) {
+        errors.push({ row: index + 1, field: 'customerId', message: `Customer ${row.customerId} not found` });
+      }
+    });
+
+    return this.keyRows(merchantId, PaymentBatchType.PAYMENT, parsed, errors, (row) => [
+      row.customerId,
+      row.paymentMethodId ?? null,
+      row.amount.toString(),
+      row.currency,
+      row.description ?? null,
+    ]);
+  }
+
+  private async validateRefundRows(
+    merchantId: string,
+    rawRows: Array<Record<string, unknown>>
+  ): Promise<ValidatedRows> {
+    const errors: PaymentBatchRowError[] = [];
+    const parsed = rawRows.map((raw, index) => {
+      const result = paymentBatchRefundRowSchema.safeParse(raw);
+      if (!result.success) {
+        errors.push(...this.toRowErrors(index + 1, result.error));
+        return null;
+      }
+      return result.data;
+    });
+
+    const paymentIds = [...new Set(parsed.flatMap((row) => (row ? [row.paymentId] : [])))];
+    const payments = await prisma.transaction.findMany({
+      where: { id: { in: paymentIds }, merchantId, type: TransactionType.PAYMENT },
+      select: { id: true },
+    });
+    const knownPayments = new Set(payments.map((payment) => payment.id));
+
+    parsed.forEach((row, index) => {
+      if (row && !knownPayments.has(row.paymentId)) {
+        errors.push({ row: index + 1, field: 'paymentId', message: `Payment ${row.paymentId} not found` });
+      }
+    });
+
+    return this.keyRows(merchantId, PaymentBatchType.REFUND, parsed, errors, (row) => [
+      row.paymentId,
+      row.amount?.toString() ?? null,
+      row.reason ?? null,
+    ]);
+  }
+
+  /**
+   * Give each row a merchant-scoped idempotency key, from its own key when it
+   * has one or from its content otherwise, and reject repeats within the file.
+   */
+  private keyRows<T extends { idempotencyKey?: string; amount?: bigint }>(
+    merchantId: string,
+    type: PaymentBatchType,
+    parsed: Array<T | null>,
+    errors: PaymentBatchRowError[],
+    identity: (row: T) => unknown[]
+  ): ValidatedRows {
+    const seen = new Map<string, number>();
+    const rows: ValidatedRows['rows'] = [];
+
+    parsed.forEach((row, index) => {
+      if (!row) {
+        return;
+      }
+
+      const source = row.idempotencyKey !== undefined ? ['key', row.idempotencyKey] : ['row', ...identity(row)];
+      const idempotencyKey = crypto
+        .createHash('sha256')
+        .update(JSON.stringify([merchantId, type, ...source]))
+        .digest('hex');
+
+      const firstRow = seen.get(idempotencyKey);
+      if (firstRow !== undefined) {
+        errors.push({
+          row: index + 1,
+          message: `Duplicates row ${firstRow}; give rows distinct idempotencyKey values to process both`,
+        });
+        return;
+      }
+      seen.set(idempotencyKey, index + 1);
+
+      rows.push({
+        idempotencyKey,
+        input: { ...row, amount: row.amount?.toString() },
+      });
+    });
+
+    return { rows, errors: errors.sort((a, b) => a.row - b.row) };
+  }
+
+  private toRowErrors(row: number, error: { errors: Array<{ path: Array<string | number>; message: string }> }): PaymentBatchRowError[] {
+    return error.errors.map((issue) => ({
+      row,
+      field: issue.path.join('.') || undefined,
+      message: issue.message,
+    }));
+  }
+
+  private async mapWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+      for (let item = items[next++]; item !== undefined; item = items[next++]) {
+        await fn(item);
+      }
+    });
+
+    await Promise.all(workers);
+  }
+
+  private async requireBatch(id: string): Promise<PaymentBatch> {
+    const batch = await prisma.paymentBatch.findUnique({
+      where: { id },
+    });
+
+    if (!batch) {
+      throw PaymentBatchError.notFound(id);
+    }
+
+    return batch;
+  }
+
+  private async countItems(batchId: string): Promise<Partial<Record<PaymentBatchItemStatus, number>>> {
+    const groups = await prisma.paymentBatchItem.groupBy({
+      by: ['status'],
+      where: { batchId },
+      _count: { _all: true },
+    });
+
+    return Object.fromEntries(groups.map((group) => [group.status, group._count._all]));
+  }
+
+  private toResponse(
+    batch: PaymentBatch,
+    counts: Partial<Record<PaymentBatchItemStatus, number>>
+  ): PaymentBatchResponse {
+    return {
+      id: batch.id,
+      merchantId: batch.merchantId,
+      type: batch.type,
+      status: batch.status,
+      totalRows: batch.totalRows,
+      pendingRows: (counts.PENDING ?? 0) + (counts.PROCESSING ?? 0),
+      succeededRows: counts.SUCCEEDED ?? 0,
+      failedRows: counts.FAILED ?? 0,
+      startedAt: batch.startedAt ?? undefined,
+      completedAt: batch.completedAt ?? undefined,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  private toItemResponse(item: PaymentBatchItem): PaymentBatchItemResponse {
+    return {
+      id: item.id,
+      batchId: item.batchId,
+      rowNumber: item.rowNumber,
+      input: item.input as Record<string, unknown>,
+      status: item.status,
+      transactionId: item.transactionId ?? undefined,
+      transactionStatus: item.transactionStatus ?? undefined,
+      duplicate: item.duplicate,
+      errorCode: item.errorCode ?? undefined,
+      errorMessage: item.errorMessage ?? undefined,
+      processedAt: item.processedAt ?? undefined,
+    };
+  }
+}
+
+export const paymentBatchService = PaymentBatchService.getInstance();
@@ -0,0 +1,131 @@
+import {
+  Currency,
+  PaymentBatchItemStatus,
+  PaymentBatchStatus,
+  PaymentBatchType,
+  TransactionStatus,
+} from '@prisma/client';
+
+export interface CreatePaymentBatchRequest {
+  merchantId: string;
+  type: PaymentBatchType;
+  /** Raw rows from a JSON array or parsed CSV; validated before the batch is accepted */
+  rows: Array<Record<string, unknown>>;
+}
+
+/** Charge a customer's saved payment method */
+export interface PaymentBatchPaymentRow {
+  customerId: string;
+  paymentMethodId?: string;
+  amount: bigint;
+  currency: Currency;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  idempotencyKey?: string;
+}
+
+/** Refund a payment, in full when amount is omitted */
+export interface PaymentBatchRefundRow {
+  paymentId: string;
+  amount?: bigint;
+  reason?: string;
+  idempotencyKey?: string;
+}
+
+export interface PaymentBatchRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface PaymentBatchResponse {
+  id: string;
+  merchantId: string;
+  type: PaymentBatchType;
+  status: PaymentBatchStatus;
+  totalRows: number;
+  pendingRows: number;
+  succeededRows: number;
+  failedRows: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentBatchItemResponse {
+  id: string;
+  batchId: string;
+  rowNumber: number;
+  input: Record<string, unknown>;
+  status: PaymentBatchItemStatus;
+  transactionId?: string;
+  transactionStatus?: TransactionStatus;
+  /** True when the row matched one already processed in an earlier batch */
+  duplicate: boolean;
+  errorCode?: string;
+  errorMessage?: string;
+  processedAt?: Date;
+}
+
+export interface ListPaymentBatchesFilter {
+  merchantId?: string;
+  status?: PaymentBatchStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface ListPaymentBatchItemsFilter {
+  status?: PaymentBatchItemStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaymentBatchListResponse {
+  batches: PaymentBatchResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PaymentBatchItemListResponse {
+  items: PaymentBatchItemResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface BatchRunResult {
+  processed: number;
+  completedBatches: number;
+}
+
+export class PaymentBatchError extends Error {
+  public readonly code: string;
+  public readonly batchId?: string;
+
+  constructor(message: string, code: string, batchId?: string) {
+    super(message);
+    this.name = 'PaymentBatchError';
+    this.code = code;
+    this.batchId = batchId;
+  }
+
+  static invalidRequest(message: string): PaymentBatchError {
+    return new PaymentBatchError(message, 'INVALID_REQUEST');
+  }
+
+  static notFound(batchId: string): PaymentBatchError {
+    return new PaymentBatchError(`Payment batch ${batchId} not found`, 'NOT_FOUND', batchId);
+  }
+
+  static merchantNotFound(merchantId: string): PaymentBatchError {
+    return new PaymentBatchError(`Merchant ${merchantId} not found`, 'MERCHANT_NOT_FOUND');
+  }
+}
@@ -0,0 +1,284 @@
+import { existsSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Writable } from 'stream';
+import { PaymentExportService } from '../payment-export.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    transaction: { findMany: jest.fn() },
+    paymentExport: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../../payment/payment.service', () => ({
+  toTransactionWhere: jest.fn((filter: { merchantId?: string }) => ({ merchantId: filter.merchantId })),
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PAYMENT_EXPORT_DIR: require('path').join(require('os').tmpdir(), 'payment-export-test'),
+      PAYMENT_EXPORT_POLL_INTERVAL_MS: 5000,
+      PAYMENT_EXPORT_FETCH_SIZE: 2,
+      PAYMENT_EXPORT_TTL_HOURS: 24,
+      PUBLIC_BASE_URL: 'https://api.example.com/',
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { AppError } from '../../../shared/errors/app-error';
+
+const EXPORT_DIR = path.join(os.tmpdir(), 'payment-export-test');
+const MERCHANT_ID = '7d3c2c4e-0f7b-4a55-9a4b-1d2f0c7e9a01';
+
+const baseTransaction = {
+  id: 'txn-1',
+  merchantId: MERCHANT_ID,
+  customerId: null,
+  providerId: 'provider-1',
+  paymentMethodId: null,
+  parentTransactionId: null,
+  type: 'PAYMENT',
+  status: 'COMPLETED',
+  amount: 123456n,
+  currency: 'USD',
+  convertedAmount: null,
+  convertedCurrency: null,
+  capturedAmount: 123456n,
+  refundedAmount: 0n,
+  providerTransactionId: 'pi_1',
+  description: null,
+  failureReason: null,
+  capturedAt: null,
+  refundedAt: null,
+  cancelledAt: null,
+  createdAt: new Date('2024-03-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T10:00:00.000Z'),
+  provider: { code: 'stripe' },
+};
+
+const baseExport = {
+  id: 'export-1',
+  format: 'CSV',
+  columns: ['id', 'amount', 'currency'],
+  amountFormat: 'decimal',
+  filters: { merchantId: MERCHANT_ID },
+  status: 'PENDING',
+  rowCount: 0,
+  fileSize: null,
+  errorMessage: null,
+  startedAt: null,
+  completedAt: null,
+  expiresAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function collect(): { out: Writable; text: () => string } {
+  const chunks: string[] = [];
+  const out = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  return { out, text: () => chunks.join('') };
+}
+
+describe('PaymentExportService', () => {
+  let service: PaymentExportService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentExportService as any).instance = null;
+    service = PaymentExportService.getInstance();
+    rmSync(EXPORT_DIR, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    rmSync(EXPORT_DIR, { recursive: true, force: true });
+  });
+
+  describe('writeExport', () => {
+    it('should page through transactions by cursor and write CSV with decimal amounts', async () => {
+      (prisma.transaction.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          baseTransaction,
+          {
+            ...baseTransaction,
+            id: 'txn-2',
+            amount: 5000n,
+            currency: 'JPY',
+            convertedAmount: 3350n,
+            convertedCurrency: 'USD',
+            provider: null,
+          },
+        ])
+        .mockResolvedValueOnce([
+          { ...baseTransaction, id: 'txn-3', status: 'FAILED', amount: 5n, failureReason: 'card_declined, do not retry' },
+        ]);
+      const { out, text } = collect();
+
+      const rowCount = await service.writeExport(out, {
+        format: 'CSV',
+        columns: ['id', 'amount', 'currency', 'convertedAmount', 'convertedCurrency', 'provider', 'failureReason'],
+        amountFormat: 'decimal',
+        filter: { merchantId: MERCHANT_ID },
+      });
+
+      expect(rowCount).toBe(3);
+      expect(text()).toBe([
+        'id,amount,currency,convertedAmount,convertedCurrency,provider,failureReason',
+        'txn-1,1234.56,USD,,,stripe,',
+        'txn-2,5000,JPY,33.50,USD,,',
+        'txn-3,0.05,USD,,,stripe,"card_declined, do not retry"',
+        '',
+      ].join('\n'));
+
+      expect(prisma.transaction.findMany).toHaveBeenCalledTimes(2);
+      expect(prisma.transaction.findMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        where: { merchantId: MERCHANT_ID },
+        take: 2,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }));
+      expect(prisma.transaction.findMany).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        cursor: { id: 'txn-2' },
+        skip: 1,
+      }));
+    });
+
+    it('should keep merchant-supplied text from running as a spreadsheet formula', async () => {
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce([
+        { ...baseTransaction, description: '=HYPERLINK("https://evil.example","Refund")' },
+        { ...baseTransaction, id: 'txn-2', description: '@SUM(A1)', failureReason: '-1+1' },
+      ]).mockResolvedValueOnce([]);
+      const { out, text } = collect();
+
+      await service.writeExport(out, {
+        format: 'CSV',
+        columns: ['id', 'amount', 'description', 'failureReason'],
+        amountFormat: 'decimal',
+        filter: { merchantId: MERCHANT_ID },
+      });
+
+      expect(text()).toBe([
+        'id,amount,description,failureReason',
+        `txn-1,1234.56,"'=HYPERLINK(""https://evil.example"",""Refund"")",`,
+        "txn-2,1234.56,'@SUM(A1),'-1+1",
+        '',
+      ].join('\n'));
+    });
+
+    it('should write NDJSON with amounts as exact strings', async () => {
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce([
+        { ...baseTransaction, amount: 9007199254740993n },
+      ]);
+      const { out, text } = collect();
+
+      await service.writeExport(out, {
+        format: 'NDJSON',
+        columns: ['id', 'amount', 'createdAt', 'customerId'],
+        amountFormat: 'minor',
+        filter: {},
+      });
+
+      expect(text()).toBe(
+        '{"id":"txn-1","amount":"9007199254740993","createdAt":"2024-03-01T10:00:00.000Z","customerId":null}\n'
+      );
+    });
+  });
+
+  describe('runPendingExports', () => {
+    it('should write pending exports to a file and mark them completed', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue('token');
+      (prisma.paymentExport.findMany as jest.Mock)
+        .mockResolvedValueOnce([baseExport])
+        .mockResolvedValueOnce([]);
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce([baseTransaction]);
+
+      const result = await service.runPendingExports();
+
+      expect(result).toEqual({ completed: 1, failed: 0, expired: 0 });
+      expect(readFileSync(path.join(EXPORT_DIR, 'export-1.csv'), 'utf8')).toBe(
+        'id,amount,currency\ntxn-1,1234.56,USD\n'
+      );
+      expect(prisma.paymentExport.update).toHaveBeenLastCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          rowCount: 1,
+          fileSize: 37n,
+          expiresAt: expect.any(Date),
+        }),
+      });
+      expect(cacheService.releaseLock).toHaveBeenCalledWith('payment-export-processing', 'token');
+    });
+
+    it('should mark the export failed and leave no partial file when the query fails', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue('token');
+      (prisma.paymentExport.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ ...baseExport, format: 'NDJSON' }])
+        .mockResolvedValueOnce([]);
+      (prisma.transaction.findMany as jest.Mock).mockRejectedValueOnce(new Error('Connection reset'));
+
+      const result = await service.runPendingExports();
+
+      expect(result).toEqual({ completed: 0, failed: 1, expired: 0 });
+      expect(existsSync(path.join(EXPORT_DIR, 'export-1.ndjson'))).toBe(false);
+      expect(prisma.paymentExport.update).toHaveBeenLastCalledWith({
+        where: { id: 'export-1' },
+        data: expect.objectContaining({ status: 'FAILED', errorMessage: 'Connection reset' }),
+      });
+    });
+
+    it('should skip the run when another instance holds the lock', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.runPendingExports()).resolves.toEqual({ completed: 0, failed: 0, expired: 0 });
+      expect(prisma.paymentExport.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExport', () => {
+    it('should include a download link once the export is completed', async () => {
+      (prisma.paymentExport.findUnique as jest.Mock).mockResolvedValue({
+        ...baseExport,
+        status: 'COMPLETED',
+        rowCount: 1,
+        fileSize: 37n,
+      });
+
+      const result = await service.getExport('export-1');
+
+      expect(result?.downloadUrl).toBe('https://api.example.com/api/v1/payment-exports/export-1/download');
+    });
+  });
+
+  describe('getDownload', () => {
+    it('should reject exports that are not completed', async () => {
+      (prisma.paymentExport.findUnique as jest.Mock).mockResolvedValue({ ...baseExport, status: 'EXPIRED' });
+
+      await expect(service.getDownload('export-1')).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,5 @@
+export * from './payment-export.types.js';
+export * from './payment-export.schemas.js';
+export { paymentExportService, PaymentExportService, toPaymentExportFilter } from './payment-export.service.js';
+export { paymentExportController, PaymentExportController } from './payment-export.controller.js';
+export { paymentExportRoutes } from './payment-export.routes.js';
@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentExportFormat } from '@prisma/client';
+import { paymentExportService, toPaymentExportFilter } from './payment-export.service.js';
+import {
+  CreatePaymentExportBody,
+  PaymentExportIdParam,
+  StreamPaymentExportQuery,
+} from './payment-export.schemas.js';
+import { DEFAULT_PAYMENT_EXPORT_COLUMNS, PaymentExportResponse } from './payment-export.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+import { logger } from '../../shared/utils/logger.js';
+
+const CONTENT_TYPES: Record<PaymentExportFormat, string> = {
+  CSV: 'text/csv; charset=utf-8',
+  NDJSON: 'application/x-ndjson; charset=utf-8',
+};
+
+export class PaymentExportController {
+  /**
+   * Streams the export as the response body; nothing is buffered, so the
+   * response has no Content-Length.
+   */
+  async stream(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as StreamPaymentExportQuery;
+      const format = query.format === 'ndjson' ? PaymentExportFormat.NDJSON : PaymentExportFormat.CSV;
+
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename=payments-${new Date().toISOString().slice(0, 10)}.${query.format}`
+      );
+
+      const rowCount = await paymentExportService.writeExport(res, {
+        format,
+        columns: query.columns ?? DEFAULT_PAYMENT_EXPORT_COLUMNS,
+        amountFormat: query.amountFormat,
+        filter: toPaymentExportFilter(query),
+      });
+
+      logger.info('Payment export streamed', { format, rowCount });
+    } catch (error) {
+      // Once rows have gone out the status is sent; the cut-off body is the only signal left
+      if (res.headersSent) {
+        logger.error('Payment export stream failed', { error: (error as Error).message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  async create(
+    req: Request<unknown, unknown, CreatePaymentExportBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const exported = await paymentExportService.createExport({
+        format: req.body.format === 'ndjson' ? PaymentExportFormat.NDJSON : PaymentExportFormat.CSV,
+        columns: req.body.columns ?? DEFAULT_PAYMENT_EXPORT_COLUMNS,
+        amountFormat: req.body.amountFormat,
+        filter: toPaymentExportFilter(req.body),
+      });
+
+      res.status(202).json({
+        success: true,
+        data: this.formatExport(exported),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getById(
+    req: Request<PaymentExportIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const exported = await paymentExportService.getExport(req.params.id);
+
+      if (!exported) {
+        throw AppError.notFound(`Payment export with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatExport(exported),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async download(
+    req: Request<PaymentExportIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const download = await paymentExportService.getDownload(req.params.id);
+
+      if (!download) {
+        throw AppError.notFound(`Payment export with ID ${req.params.id} not found`);
+      }
+
+      res.download(download.path, download.filename, (error) => {
+        if (error && !res.headersSent) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatExport(exported: PaymentExportResponse) {
+    return {
+      id: exported.id,
+      format: exported.format,
+      columns: exported.columns,
+      amountFormat: exported.amountFormat,
+      filters: exported.filters,
+      status: exported.status,
+      rowCount: exported.rowCount,
+      fileSize: exported.fileSize?.toString(),
+      errorMessage: exported.errorMessage,
+      downloadUrl: exported.downloadUrl,
+      startedAt: exported.startedAt?.toISOString(),
+      completedAt: exported.completedAt?.toISOString(),
+      expiresAt: exported.expiresAt?.toISOString(),
+      createdAt: exported.createdAt.toISOString(),
+      updatedAt: exported.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const paymentExportController = new PaymentExportController();
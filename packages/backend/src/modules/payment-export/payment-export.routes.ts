@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { paymentExportController } from './payment-export.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createPaymentExportBodySchema,
+  paymentExportIdParamSchema,
+  streamPaymentExportQuerySchema,
+} from './payment-export.schemas.js';
+
+const router = Router();
+
+/**
+ * GET /api/v1/payment-exports/stream
+ * Stream every transaction matching the payment list filters as CSV or NDJSON
+ */
+router.get(
+  '/stream',
+  validateRequest({ query: streamPaymentExportQuerySchema }),
+  paymentExportController.stream.bind(paymentExportController)
+);
+
+/**
+ * POST /api/v1/payment-exports
+ * Queue an export to a file for download once it is written
+ */
+router.post(
+  '/',
+  validateRequest({ body: createPaymentExportBodySchema }),
+  paymentExportController.create.bind(paymentExportController)
+);
+
+/**
+ * GET /api/v1/payment-exports/:id
+ * Get export status and its download link once ready
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: paymentExportIdParamSchema }),
+  paymentExportController.getById.bind(paymentExportController)
+);
+
+/**
+ * GET /api/v1/payment-exports/:id/download
+ * Download a completed export file
+ */
+router.get(
+  '/:id/download',
+  validateRequest({ params: paymentExportIdParamSchema }),
+  paymentExportController.download.bind(paymentExportController)
+);
+
+export { router as paymentExportRoutes };
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { PAYMENT_EXPORT_COLUMNS } from './payment-export.types.js';
+
+const currencyEnum = z.enum([
+  'USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+]);
+
+const transactionStatusEnum = z.enum([
+  'PENDING', 'PROCESSING', 'REQUIRES_ACTION', 'PARTIALLY_CAPTURED', 'COMPLETED', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED', 'CANCELLED',
+]);
+
+const transactionTypeEnum = z.enum([
+  'PAYMENT', 'REFUND', 'PAYOUT', 'TRANSFER',
+]);
+
+const exportFormatEnum = z.enum(['csv', 'ndjson']);
+
+const amountFormatEnum = z.enum(['minor', 'decimal']);
+
+const columnEnum = z.enum(PAYMENT_EXPORT_COLUMNS);
+
+// The same criteria as GET /payments, also used to read back a stored export's filters
+export const paymentExportFilterSchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  status: transactionStatusEnum.optional(),
+  type: transactionTypeEnum.optional(),
+  currency: currencyEnum.optional(),
+  fromDate: z.string().datetime().optional(),
+  toDate: z.string().datetime().optional(),
+  q: z.string().max(500).optional(),
+});
+
+// Columns come as a comma-separated list in the query string
+export const streamPaymentExportQuerySchema = paymentExportFilterSchema.extend({
+  format: exportFormatEnum.default('csv'),
+  columns: z
+    .string()
+    .transform((value) => value.split(',').map((column) => column.trim()).filter(Boolean))
+    .pipe(z.array(columnEnum).min(1))
+    .optional(),
+  amountFormat: amountFormatEnum.default('minor'),
+});
+
+export const createPaymentExportBodySchema = paymentExportFilterSchema.extend({
+  format: exportFormatEnum.default('csv'),
+  columns: z.array(columnEnum).min(1).optional(),
+  amountFormat: amountFormatEnum.default('minor'),
+});
+
+export const paymentExportIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export type PaymentExportFilterInput = z.infer<typeof paymentExportFilterSchema>;
+export type StreamPaymentExportQuery = z.infer<typeof streamPaymentExportQuerySchema>;
+export type CreatePaymentExportBody = z.infer<typeof createPaymentExportBodySchema>;
+export type PaymentExportIdParam = z.infer<typeof paymentExportIdParamSchema>;
@@ -0,0 +1,426 @@
+import {
+  Currency,
+  PaymentExport,
+  PaymentExportFormat,
+  PaymentExportStatus,
+  Prisma,
+  TransactionStatus,
+  TransactionType,
+} from '@prisma/client';
+import { createWriteStream } from 'fs';
+import { mkdir, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { escapeCsvValue, escapeSpreadsheetCsvValue } from '../../shared/utils/csv.js';
+import { formatMinorUnits } from '../../shared/utils/money.js';
+import { AppError } from '../../shared/errors/app-error.js';
+import { config } from '../../config/index.js';
+import { toTransactionWhere } from '../payment/payment.service.js';
+import { PaymentExportFilterInput, paymentExportFilterSchema } from './payment-export.schemas.js';
+import {
+  ExportRunResult,
+  PaymentExportAmountFormat,
+  PaymentExportColumn,
+  PaymentExportDownload,
+  PaymentExportFilter,
+  PaymentExportOptions,
+  PaymentExportResponse,
+  PaymentExportRow,
+} from './payment-export.types.js';
+
+const PROCESSING_LOCK_KEY = 'payment-export-processing';
+
+// Long enough for the largest export; an expired lock would let another
+// instance restart an export that is still being written
+const PROCESSING_LOCK_TTL_MS = 30 * 60 * 1000;
+
+const EXPORTS_PER_RUN = 5;
+
+const FILE_EXTENSIONS: Record<PaymentExportFormat, string> = {
+  CSV: 'csv',
+  NDJSON: 'ndjson',
+};
+
+type ExportedTransaction = Prisma.TransactionGetPayload<{
+  include: { provider: { select: { code: true } } };
+}>;
+
+/**
+ * Turn validated filter input into list filters. Also reads back the filters
+ * stored on a background export.
+ */
+export function toPaymentExportFilter(input: PaymentExportFilterInput): PaymentExportFilter {
+  return {
+    merchantId: input.merchantId,
+    customerId: input.customerId,
+    status: input.status as TransactionStatus | undefined,
+    type: input.type as TransactionType | undefined,
+    currency: input.currency as Currency | undefined,
+    fromDate: input.fromDate ? new Date(input.fromDate) : undefined,
+    toDate: input.toDate ? new Date(input.toDate) : undefined,
+    search: input.q,
+  };
+}
+
+export class PaymentExportService {
+  private static instance: PaymentExportService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentExportService {
+    if (!PaymentExportService.instance) {
+      PaymentExportService.instance = new PaymentExportService();
+    }
+    return PaymentExportService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.PAYMENT_EXPORT_POLL_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.runPendingExports().catch((error: Error) => {
+        logger.error('Payment export run failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Payment export processing started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Write every matching transaction to out, oldest first, and resolve with
+   * the number of rows written. Rows are read a page at a time through a
+   * cursor and only pulled as fast as out drains, so memory stays flat
+   * however many transactions match.
+   */
+  async writeExport(out: Writable, options: PaymentExportOptions): Promise<number> {
+    const progress = { rows: 0 };
+
+    await pipeline(Readable.from(this.renderChunks(options, progress)), out);
+
+    return progress.rows;
+  }
+
+  /**
+   * Queue an export to be written to a file in the background.
+   */
+  async createExport(options: PaymentExportOptions): Promise<PaymentExportResponse> {
+    // Reject a malformed search now rather than when the export runs
+    toTransactionWhere(options.filter);
+
+    const record = await prisma.paymentExport.create({
+      data: {
+        format: options.format,
+        columns: options.columns,
+        amountFormat: options.amountFormat,
+        filters: {
+          merchantId: options.filter.merchantId,
+          customerId: options.filter.customerId,
+          status: options.filter.status,
+          type: options.filter.type,
+          currency: options.filter.currency,
+          fromDate: options.filter.fromDate?.toISOString(),
+          toDate: options.filter.toDate?.toISOString(),
+          q: options.filter.search,
+        },
+      },
+    });
+
+    logger.info('Payment export created', {
+      exportId: record.id,
+      format: record.format,
+      filters: record.filters,
+    });
+
+    return this.toResponse(record);
+  }
+
+  async getExport(id: string): Promise<PaymentExportResponse | null> {
+    const record = await prisma.paymentExport.findUnique({
+      where: { id },
+    });
+
+    return record ? this.toResponse(record) : null;
+  }
+
+  /**
+   * Locate the file behind a completed export. Returns null when the export
+   * does not exist.
+   */
+  async getDownload(id: string): Promise<PaymentExportDownload | null> {
+    const record = await prisma.paymentExport.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    if (record.status !== PaymentExportStatus.COMPLETED) {
+      throw AppError.conflict(
+        `Payment export ${id} is ${record.status.toLowerCase()}`,
+        'EXPORT_NOT_AVAILABLE'
+      );
+    }
+
+    return {
+      path: this.filePath(record),
+      filename: `payments-${record.id}.${FILE_EXTENSIONS[record.format]}`,
+    };
+  }
+
+  /**
+   * Write queued exports to files, oldest first, then remove files past their
+   * expiry. Runs are serialized across instances.
+   */
+  async runPendingExports(): Promise<ExportRunResult> {
+    const result: ExportRunResult = { completed: 0, failed: 0, expired: 0 };
+
+    const lockToken = await cacheService.acquireLock(PROCESSING_LOCK_KEY, PROCESSING_LOCK_TTL_MS);
+
+    if (!lockToken) {
+      logger.debug('Payment exports already being processed on another instance');
+      return result;
+    }
+
+    try {
+      // An export left mid-write by a crashed run is written again from scratch
+      await prisma.paymentExport.updateMany({
+        where: { status: PaymentExportStatus.PROCESSING },
+        data: { status: PaymentExportStatus.PENDING },
+      });
+
+      const pending = await prisma.paymentExport.findMany({
+        where: { status: PaymentExportStatus.PENDING },
+        orderBy: { createdAt: 'asc' },
+        take: EXPORTS_PER_RUN,
+      });
+
+      for (const record of pending) {
+        if (await this.processExport(record)) {
+          result.completed++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      result.expired = await this.expireExports();
+
+      if (result.completed + result.failed + result.expired > 0) {
+        logger.info('Payment export run finished', { ...result });
+      }
+
+      return result;
+    } finally {
+      await cacheService.releaseLock(PROCESSING_LOCK_KEY, lockToken);
+    }
+  }
+
+  private async processExport(record: PaymentExport): Promise<boolean> {
+    const filePath = this.filePath(record);
+
+    await prisma.paymentExport.update({
+      where: { id: record.id },
+      data: { status: PaymentExportStatus.PROCESSING, startedAt: new Date() },
+    });
+
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+
+      const rowCount = await this.writeExport(createWriteStream(filePath), {
+        format: record.format,
+        columns: record.columns as PaymentExportColumn[],
+        amountFormat: record.amountFormat as PaymentExportAmountFormat,
+        filter: toPaymentExportFilter(paymentExportFilterSchema.parse(record.filters)),
+      });
+      const { size } = await stat(filePath);
+      const completedAt = new Date();
+
+      await prisma.paymentExport.update({
+        where: { id: record.id },
+        data: {
+          status: PaymentExportStatus.COMPLETED,
+          rowCount,
+          fileSize: BigInt(size),
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + config.env.PAYMENT_EXPORT_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+
+      logger.info('Payment export completed', { exportId: record.id, rowCount, fileSize: size });
+      return true;
+    } catch (error) {
+      await unlink(filePath).catch(() => undefined);
+
+      await prisma.paymentExport.update({
+        where: { id: record.id },
+        data: {
+          status: PaymentExportStatus.FAILED,
+          errorMessage: (error as Error).message,
+          completedAt: new Date(),
+        },
+      });
+
+      logger.error('Payment export failed', { exportId: record.id, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  private async expireExports(): Promise<number> {
+    const expired = await prisma.paymentExport.findMany({
+      where: { status: PaymentExportStatus.COMPLETED, expiresAt: { lte: new Date() } },
+    });
+
+    for (const record of expired) {
+      await unlink(this.filePath(record)).catch(() => undefined);
+
+      await prisma.paymentExport.update({
+        where: { id: record.id },
+        data: { status: PaymentExportStatus.EXPIRED },
+      });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Render the export a page of transactions at a time: the CSV header
+   * first, then one CSV line or JSON document per transaction.
+   */
+  private async *renderChunks(
+    options: PaymentExportOptions,
+    progress: { rows: number }
+  ): AsyncGenerator<string> {
+    const { format, columns } = options;
+
+    if (format === PaymentExportFormat.CSV) {
+      yield `${columns.map(escapeCsvValue).join(',')}\n`;
+    }
+
+    for await (const page of this.readTransactions(options.filter)) {
+      const lines = page.map((transaction) => {
+        const row = this.toRow(transaction, columns, options.amountFormat);
+        return format === PaymentExportFormat.CSV
+          ? columns.map((column) => escapeSpreadsheetCsvValue(row[column])).join(',')
+          : JSON.stringify(row);
+      });
+
+      progress.rows += page.length;
+      yield `${lines.join('\n')}\n`;
+    }
+  }
+
+  /**
+   * Page through matching transactions by (createdAt, id), continuing from
+   * the last row seen rather than an offset so each query stays cheap.
+   */
+  private async *readTransactions(filter: PaymentExportFilter): AsyncGenerator<ExportedTransaction[]> {
+    const where = toTransactionWhere(filter);
+    const take = config.env.PAYMENT_EXPORT_FETCH_SIZE;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await prisma.transaction.findMany({
+        where,
+        take,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        include: { provider: { select: { code: true } } },
+      });
+
+      if (page.length > 0) {
+        yield page;
+      }
+
+      const last = page[page.length - 1];
+      if (!last || page.length < take) {
+        return;
+      }
+      cursor = last.id;
+    }
+  }
+
+  private toRow(
+    transaction: ExportedTransaction,
+    columns: PaymentExportColumn[],
+    amountFormat: PaymentExportAmountFormat
+  ): PaymentExportRow {
+    const amount = (value: bigint | null, currency: Currency | null): string | null => {
+      if (value === null) {
+        return null;
+      }
+      return amountFormat === 'decimal'
+        ? formatMinorUnits(value, currency ?? transaction.currency)
+        : value.toString();
+    };
+
+    const values: Record<PaymentExportColumn, string | null> = {
+      id: transaction.id,
+      createdAt: transaction.createdAt.toISOString(),
+      updatedAt: transaction.updatedAt.toISOString(),
+      merchantId: transaction.merchantId,
+      customerId: transaction.customerId,
+      type: transaction.type,
+      status: transaction.status,
+      amount: amount(transaction.amount, transaction.currency),
+      currency: transaction.currency,
+      convertedAmount: amount(transaction.convertedAmount, transaction.convertedCurrency),
+      convertedCurrency: transaction.convertedCurrency,
+      capturedAmount: amount(transaction.capturedAmount, transaction.convertedCurrency ?? transaction.currency),
+      refundedAmount: amount(transaction.refundedAmount, transaction.convertedCurrency ?? transaction.currency),
+      provider: transaction.provider?.code ?? null,
+      providerTransactionId: transaction.providerTransactionId,
+      paymentMethodId: transaction.paymentMethodId,
+      parentTransactionId: transaction.parentTransactionId,
+      description: transaction.description,
+      failureReason: transaction.failureReason,
+      capturedAt: transaction.capturedAt?.toISOString() ?? null,
+      refundedAt: transaction.refundedAt?.toISOString() ?? null,
+      cancelledAt: transaction.cancelledAt?.toISOString() ?? null,
+    };
+
+    return Object.fromEntries(columns.map((column) => [column, values[column]]));
+  }
+
+  private filePath(record: PaymentExport): string {
+    return path.resolve(config.env.PAYMENT_EXPORT_DIR, `${record.id}.${FILE_EXTENSIONS[record.format]}`);
+  }
+
+  private toResponse(record: PaymentExport): PaymentExportResponse {
+    return {
+      id: record.id,
+      format: record.format,
+      columns: record.columns as PaymentExportColumn[],
+      amountFormat: record.amountFormat as PaymentExportAmountFormat,
+      filters: record.filters as Record<string, unknown>,
+      status: record.status,
+      rowCount: record.rowCount,
+      fileSize: record.fileSize ?? undefined,
+      errorMessage: record.errorMessage ?? undefined,
+      downloadUrl: record.status === PaymentExportStatus.COMPLETED
+        ? `${config.env.PUBLIC_BASE_URL.replace(/\/$/, '')}/api/v1/payment-exports/${record.id}/download`
+        : undefined,
+      startedAt: record.startedAt ?? undefined,
+      completedAt: record.completedAt ?? undefined,
+      expiresAt: record.expiresAt ?? undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
+
+export const paymentExportService = PaymentExportService.getInstance();
@@ -0,0 +1,94 @@
+import { PaymentExportFormat, PaymentExportStatus } from '@prisma/client';
+import { ListPaymentsFilter } from '../payment/payment.types.js';
+
+/** Every transaction field an export can include, in their default order */
+export const PAYMENT_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'merchantId',
+  'customerId',
+  'type',
+  'status',
+  'amount',
+  'currency',
+  'convertedAmount',
+  'convertedCurrency',
+  'capturedAmount',
+  'refundedAmount',
+  'provider',
+  'providerTransactionId',
+  'paymentMethodId',
+  'parentTransactionId',
+  'description',
+  'failureReason',
+  'capturedAt',
+  'refundedAt',
+  'cancelledAt',
+] as const;
+
+export type PaymentExportColumn = (typeof PAYMENT_EXPORT_COLUMNS)[number];
+
+export const DEFAULT_PAYMENT_EXPORT_COLUMNS: PaymentExportColumn[] = [
+  'id',
+  'createdAt',
+  'merchantId',
+  'customerId',
+  'type',
+  'status',
+  'amount',
+  'currency',
+  'convertedAmount',
+  'convertedCurrency',
+  'provider',
+  'failureReason',
+];
+
+/**
+ * minor: integer minor units as stored, e.g. "123456"
+ * decimal: exact major units for the row's currency, e.g. "1234.56"
+ */
+export type PaymentExportAmountFormat = 'minor' | 'decimal';
+
+/** The list filters without pagination; an export always covers every match */
+export type PaymentExportFilter = Omit<ListPaymentsFilter, 'cursor' | 'page' | 'limit'>;
+
+export interface PaymentExportOptions {
+  format: PaymentExportFormat;
+  columns: PaymentExportColumn[];
+  amountFormat: PaymentExportAmountFormat;
+  filter: PaymentExportFilter;
+}
+
+/** One exported row; amounts are strings so bigint values survive JSON */
+export type PaymentExportRow = Partial<Record<PaymentExportColumn, string | null>>;
+
+export interface PaymentExportResponse {
+  id: string;
+  format: PaymentExportFormat;
+  columns: PaymentExportColumn[];
+  amountFormat: PaymentExportAmountFormat;
+  filters: Record<string, unknown>;
+  status: PaymentExportStatus;
+  rowCount: number;
+  fileSize?: bigint;
+  errorMessage?: string;
+  /** Set once the file is ready, until it expires */
+  downloadUrl?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentExportDownload {
+  path: string;
+  filename: string;
+}
+
+export interface ExportRunResult {
+  completed: number;
+  failed: number;
+  expired: number;
+}
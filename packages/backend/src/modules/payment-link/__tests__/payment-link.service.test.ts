@@ -0,0 +1,217 @@
+import { PaymentLinkService } from '../payment-link.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    merchant: { findUnique: jest.fn() },
+    customer: { findUnique: jest.fn() },
+    transaction: { findUnique: jest.fn() },
+    paymentLink: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../../payment/payment.service', () => ({
+  paymentService: { createPayment: jest.fn(), getPayment: jest.fn(), confirmPayment: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: { env: { PUBLIC_BASE_URL: 'https://pay.example.com/' } },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { paymentService } from '../../payment/payment.service';
+
+const baseLink = {
+  id: 'link-1',
+  merchantId: 'm-1',
+  customerId: null,
+  transactionId: null,
+  amount: 2500n,
+  currency: 'USD',
+  description: 'Consulting, March',
+  allowedPaymentMethods: ['CARD'],
+  status: 'OPEN',
+  expiresAt: null,
+  paidAt: null,
+  metadata: { orderId: 'ord-1' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const card = {
+  type: 'CARD' as const,
+  cardNumber: '4242424242424242',
+  expiryMonth: 12,
+  expiryYear: 2030,
+  cvv: '123',
+};
+
+describe('PaymentLinkService', () => {
+  let service: PaymentLinkService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentLinkService as any).instance = null;
+    service = PaymentLinkService.getInstance();
+
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+    (prisma.merchant.findUnique as jest.Mock).mockResolvedValue({ id: 'm-1', isActive: true });
+    (prisma.paymentLink.findUnique as jest.Mock).mockResolvedValue(baseLink);
+    (prisma.paymentLink.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseLink, ...data })
+    );
+    (prisma.paymentLink.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseLink, ...data })
+    );
+  });
+
+  describe('createLink', () => {
+    it('should accept cards by default and return a shareable URL', async () => {
+      const result = await service.createLink({ merchantId: 'm-1', amount: 2500n, currency: 'USD' });
+
+      expect(prisma.paymentLink.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ allowedPaymentMethods: ['CARD'] }),
+      });
+      expect(result.url).toBe('https://pay.example.com/pay/link-1');
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.createLink({
+          merchantId: 'm-1', amount: 2500n, currency: 'USD', expiresAt: new Date(Date.now() - 1000),
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      expect(prisma.paymentLink.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payLink', () => {
+    it('should charge the link amount and mark it paid', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED' });
+      (prisma.paymentLink.findUnique as jest.Mock)
+        .mockResolvedValueOnce(baseLink)
+        .mockResolvedValueOnce({ ...baseLink, status: 'PAID', transactionId: 'txn-1' });
+
+      const result = await service.payLink('link-1', { paymentMethod: card });
+
+      expect(paymentService.createPayment).toHaveBeenCalledWith(expect.objectContaining({
+        merchantId: 'm-1',
+        amount: 2500n,
+        currency: 'USD',
+        paymentMethod: card,
+        returnUrl: 'https://pay.example.com/pay/link-1/complete',
+        metadata: { orderId: 'ord-1', paymentLinkId: 'link-1' },
+      }));
+      expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', status: 'OPEN' },
+        data: expect.objectContaining({ status: 'PAID', transactionId: 'txn-1' }),
+      });
+      expect(result.paymentLink.status).toBe('PAID');
+      expect(cacheService.releaseLock).toHaveBeenCalledWith('payment-link:link-1', 'lock-token');
+    });
+
+    it('should keep the link open after a decline', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({
+        id: 'txn-1', status: 'FAILED', failureReason: 'card_declined',
+      });
+
+      const result = await service.payLink('link-1', { paymentMethod: card });
+
+      expect(result.paymentLink.status).toBe('OPEN');
+      expect(prisma.paymentLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should remember a payment waiting on 3-D Secure', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'REQUIRES_ACTION' });
+
+      const result = await service.payLink('link-1', { paymentMethod: card });
+
+      expect(prisma.paymentLink.update).toHaveBeenCalledWith({
+        where: { id: 'link-1' },
+        data: { transactionId: 'txn-1' },
+      });
+      expect(result.paymentLink.status).toBe('OPEN');
+    });
+
+    it('should expire links past their expiry instead of charging', async () => {
+      (prisma.paymentLink.findUnique as jest.Mock).mockResolvedValue({
+        ...baseLink, expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.payLink('link-1', { paymentMethod: card })).rejects.toMatchObject({ code: 'NOT_OPEN' });
+      expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', status: 'OPEN' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('should reject payment methods the link does not allow', async () => {
+      await expect(
+        service.payLink('link-1', { paymentMethod: { type: 'CRYPTO', token: 'tok' } })
+      ).rejects.toMatchObject({ code: 'METHOD_NOT_ALLOWED' });
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second payment while one is in progress', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.payLink('link-1', { paymentMethod: card })).rejects.toMatchObject({
+        code: 'PAYMENT_IN_PROGRESS',
+      });
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLink', () => {
+    it('should mark the link paid once its payment completes elsewhere', async () => {
+      (prisma.paymentLink.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...baseLink, transactionId: 'txn-1' })
+        .mockResolvedValueOnce({ ...baseLink, transactionId: 'txn-1', status: 'PAID' });
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ status: 'COMPLETED' });
+
+      const result = await service.getLink('link-1');
+
+      expect(result?.status).toBe('PAID');
+      expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', status: 'OPEN' },
+        data: expect.objectContaining({ status: 'PAID', transactionId: 'txn-1' }),
+      });
+    });
+  });
+
+  describe('completeLink', () => {
+    it('should confirm the payment after the customer returns from the challenge', async () => {
+      (prisma.paymentLink.findUnique as jest.Mock).mockResolvedValue({ ...baseLink, transactionId: 'txn-1' });
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ status: 'REQUIRES_ACTION' });
+      (paymentService.getPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'REQUIRES_ACTION' });
+      (paymentService.confirmPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED' });
+
+      await service.completeLink('link-1');
+
+      expect(paymentService.confirmPayment).toHaveBeenCalledWith('txn-1');
+      expect(prisma.paymentLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link-1', status: 'OPEN' },
+        data: expect.objectContaining({ status: 'PAID' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from 'express';
+import { PaymentLinkStatus, PaymentMethodType, TransactionStatus } from '@prisma/client';
+import { paymentLinkService } from './payment-link.service.js';
+import { hostedPaymentFormSchema, paymentLinkIdParamSchema } from './payment-link.schemas.js';
+import { PaymentLinkError, PaymentLinkPaymentResponse, PaymentLinkResponse } from './payment-link.types.js';
+import { PaymentError } from '../payment/payment.types.js';
+import { logger } from '../../shared/utils/logger.js';
+import {
+  PaymentFormValues,
+  renderAuthenticationRequired,
+  renderMessage,
+  renderPaid,
+  renderPaymentForm,
+} from './hosted-page.view.js';
+
+/**
+ * Serves the customer-facing page behind a payment link. Responses are HTML,
+ * so expected failures are rendered on the page rather than passed to the
+ * JSON error handler.
+ */
+export class HostedPageController {
+  async show(
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await this.findLink(req.params.id);
+
+      if (!link) {
+        res.status(404).send(renderMessage('Link not found', 'This payment link does not exist.'));
+        return;
+      }
+
+      res.send(this.renderLink(link));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async pay(
+    req: Request<{ id: string }, unknown, Record<string, string>>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await this.findLink(req.params.id);
+
+      if (!link) {
+        res.status(404).send(renderMessage('Link not found', 'This payment link does not exist.'));
+        return;
+      }
+
+      const values: PaymentFormValues = {
+        holderName: req.body.holderName,
+        expiryMonth: req.body.expiryMonth,
+        expiryYear: req.body.expiryYear,
+      };
+
+      const form = hostedPaymentFormSchema.safeParse(req.body);
+      if (!form.success) {
+        res.status(400).send(renderPaymentForm(link, {
+          error: 'Please check your card details and try again.',
+          values,
+        }));
+        return;
+      }
+
+      let result: PaymentLinkPaymentResponse;
+      try {
+        result = await paymentLinkService.payLink(link.id, {
+          paymentMethod: { type: PaymentMethodType.CARD, ...form.data },
+        });
+      } catch (error) {
+        if (error instanceof PaymentLinkError && error.code === 'NOT_OPEN') {
+          const current = await paymentLinkService.getLink(link.id);
+          res.status(409).send(this.renderLink(current ?? link));
+          return;
+        }
+        if (error instanceof PaymentLinkError || error instanceof PaymentError) {
+          logger.warn('Hosted payment attempt failed', {
+            paymentLinkId: link.id,
+            code: error.code,
+            error: error.message,
+          });
+          res.status(402).send(renderPaymentForm(link, {
+            error: 'We could not process your payment. Please try again or use another card.',
+            values,
+          }));
+          return;
+        }
+        throw error;
+      }
+
+      res.send(this.renderResult(result, values));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async complete(
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await this.findLink(req.params.id);
+
+      if (!link) {
+        res.status(404).send(renderMessage('Link not found', 'This payment link does not exist.'));
+        return;
+      }
+
+      if (link.status !== PaymentLinkStatus.OPEN) {
+        res.send(this.renderLink(link));
+        return;
+      }
+
+      let result: PaymentLinkPaymentResponse;
+      try {
+        result = await paymentLinkService.completeLink(link.id);
+      } catch (error) {
+        if (error instanceof PaymentLinkError || error instanceof PaymentError) {
+          logger.warn('Hosted payment authentication failed', {
+            paymentLinkId: link.id,
+            code: error.code,
+            error: error.message,
+          });
+          res.status(402).send(renderPaymentForm(link, {
+            error: 'Your bank could not confirm the payment. Please try again or use another card.',
+          }));
+          return;
+        }
+        throw error;
+      }
+
+      res.send(this.renderResult(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async findLink(id: string): Promise<PaymentLinkResponse | null> {
+    return paymentLinkIdParamSchema.safeParse({ id }).success
+      ? paymentLinkService.getLink(id)
+      : null;
+  }
+
+  private renderLink(link: PaymentLinkResponse): string {
+    if (link.status === PaymentLinkStatus.PAID) {
+      return renderPaid(link);
+    }
+    if (link.status === PaymentLinkStatus.EXPIRED) {
+      return renderMessage('Link expired', 'This payment link has expired. Please contact the seller for a new one.');
+    }
+    if (!link.allowedPaymentMethods.includes(PaymentMethodType.CARD)) {
+      return renderMessage('Payment unavailable', 'This payment link cannot be paid online.');
+    }
+    return renderPaymentForm(link);
+  }
+
+  private renderResult(result: PaymentLinkPaymentResponse, values?: PaymentFormValues): string {
+    const { paymentLink, payment } = result;
+
+    if (paymentLink.status === PaymentLinkStatus.PAID) {
+      return renderPaid(paymentLink);
+    }
+
+    if (payment.status === TransactionStatus.REQUIRES_ACTION && payment.nextAction) {
+      return renderAuthenticationRequired(paymentLink, payment.nextAction.url);
+    }
+
+    return renderPaymentForm(paymentLink, {
+      error: 'Your payment was declined. Please try again or use another card.',
+      values,
+    });
+  }
+}
+
+export const hostedPageController = new HostedPageController();
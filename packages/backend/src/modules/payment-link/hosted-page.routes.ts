@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { hostedPageController } from './hosted-page.controller.js';
+
+const router = Router();
+
+/**
+ * GET /pay/:id
+ * Hosted payment page for a link
+ */
+router.get('/:id', hostedPageController.show.bind(hostedPageController));
+
+/**
+ * POST /pay/:id
+ * Card form submitted from the hosted page
+ */
+router.post('/:id', hostedPageController.pay.bind(hostedPageController));
+
+/**
+ * GET /pay/:id/complete
+ * Return address after a 3-D Secure challenge
+ */
+router.get('/:id/complete', hostedPageController.complete.bind(hostedPageController));
+
+export { router as hostedPageRoutes };
@@ -0,0 +1,112 @@
+import { Currency } from '@prisma/client';
+import { PaymentLinkResponse } from './payment-link.types.js';
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #f3f4f6; margin: 0; padding: 48px 16px; color: #111827; }
+  main { max-width: 420px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .amount { font-size: 32px; font-weight: 600; margin: 16px 0 24px; }
+  .muted { color: #6b7280; }
+  label { display: block; font-size: 14px; margin: 12px 0 4px; }
+  input { width: 100%; box-sizing: border-box; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 16px; }
+  .row { display: flex; gap: 12px; }
+  .row > div { flex: 1; }
+  button, .button { display: block; width: 100%; margin-top: 24px; padding: 12px; border: 0; border-radius: 6px; background: #4f46e5; color: #fff; font-size: 16px; text-align: center; text-decoration: none; cursor: pointer; }
+  .error { background: #fef2f2; color: #b91c1c; padding: 12px; border-radius: 6px; margin-bottom: 16px; }
+  .success { color: #15803d; }
+`;
+
+export interface PaymentFormValues {
+  holderName?: string;
+  expiryMonth?: string;
+  expiryYear?: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatAmount(amount: bigint, currency: Currency): string {
+  const formatter = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+  const fractionDigits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  return formatter.format(Number(amount) / 10 ** fractionDigits);
+}
+
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <main>
+${body}
+  </main>
+</body>
+</html>`;
+}
+
+function summary(link: PaymentLinkResponse): string {
+  return `    <h1>${escapeHtml(link.description ?? 'Payment')}</h1>
+    <div class="amount">${escapeHtml(formatAmount(link.amount, link.currency))}</div>`;
+}
+
+/**
+ * Card form for an open link. Card number and CVV are never echoed back when
+ * the form is shown again after an error.
+ */
+export function renderPaymentForm(
+  link: PaymentLinkResponse,
+  options: { error?: string; values?: PaymentFormValues } = {}
+): string {
+  const values = options.values ?? {};
+  const error = options.error ? `    <div class="error">${escapeHtml(options.error)}</div>\n` : '';
+
+  return layout('Pay', `${summary(link)}
+${error}    <form method="post" autocomplete="on">
+      <label for="holderName">Name on card</label>
+      <input id="holderName" name="holderName" autocomplete="cc-name" required value="${escapeHtml(values.holderName ?? '')}">
+      <label for="cardNumber">Card number</label>
+      <input id="cardNumber" name="cardNumber" inputmode="numeric" autocomplete="cc-number" required>
+      <div class="row">
+        <div>
+          <label for="expiryMonth">Month</label>
+          <input id="expiryMonth" name="expiryMonth" inputmode="numeric" placeholder="MM" autocomplete="cc-exp-month" required value="${escapeHtml(values.expiryMonth ?? '')}">
+        </div>
+        <div>
+          <label for="expiryYear">Year</label>
+          <input id="expiryYear" name="expiryYear" inputmode="numeric" placeholder="YYYY" autocomplete="cc-exp-year" required value="${escapeHtml(values.expiryYear ?? '')}">
+        </div>
+        <div>
+          <label for="cvv">CVC</label>
+          <input id="cvv" name="cvv" inputmode="numeric" autocomplete="cc-csc" required>
+        </div>
+      </div>
+      <button type="submit">Pay ${escapeHtml(formatAmount(link.amount, link.currency))}</button>
+    </form>`);
+}
+
+export function renderAuthenticationRequired(link: PaymentLinkResponse, url: string): string {
+  return layout('Confirm your payment', `${summary(link)}
+    <p>Your bank needs you to confirm this payment.</p>
+    <a class="button" href="${escapeHtml(url)}">Continue to your bank</a>`);
+}
+
+export function renderPaid(link: PaymentLinkResponse): string {
+  return layout('Payment complete', `${summary(link)}
+    <p class="success">Payment received. Thank you!</p>`);
+}
+
+export function renderMessage(title: string, message: string): string {
+  return layout(title, `    <h1>${escapeHtml(title)}</h1>
+    <p class="muted">${escapeHtml(message)}</p>`);
+}
@@ -0,0 +1,7 @@
+export * from './payment-link.types.js';
+export * from './payment-link.schemas.js';
+export { paymentLinkService, PaymentLinkService } from './payment-link.service.js';
+export { paymentLinkController, PaymentLinkController } from './payment-link.controller.js';
+export { hostedPageController, HostedPageController } from './hosted-page.controller.js';
+export { paymentLinkRoutes } from './payment-link.routes.js';
+export { hostedPageRoutes } from './hosted-page.routes.js';
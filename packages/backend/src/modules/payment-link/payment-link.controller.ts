@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { Currency, PaymentLinkStatus, PaymentMethodType } from '@prisma/client';
+import { paymentLinkService } from './payment-link.service.js';
+import {
+  CreatePaymentLinkBody,
+  PayPaymentLinkBody,
+  PaymentLinkIdParam,
+  ListPaymentLinksQuery,
+} from './payment-link.schemas.js';
+import { PaymentLinkResponse } from './payment-link.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+
+export class PaymentLinkController {
+  async create(
+    req: Request<unknown, unknown, CreatePaymentLinkBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await paymentLinkService.createLink({
+        merchantId: req.body.merchantId,
+        customerId: req.body.customerId,
+        amount: req.body.amount,
+        currency: req.body.currency as Currency,
+        description: req.body.description,
+        expiresAt: req.body.expiresAt,
+        allowedPaymentMethods: req.body.allowedPaymentMethods as PaymentMethodType[] | undefined,
+        metadata: req.body.metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.formatLink(link),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getById(
+    req: Request<PaymentLinkIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await paymentLinkService.getLink(req.params.id);
+
+      if (!link) {
+        throw AppError.notFound(`Payment link with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatLink(link),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async list(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListPaymentLinksQuery;
+
+      const result = await paymentLinkService.listLinks({
+        merchantId: query.merchantId,
+        status: query.status as PaymentLinkStatus | undefined,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.paymentLinks.map((link) => this.formatLink(link)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async expire(
+    req: Request<PaymentLinkIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const link = await paymentLinkService.expireLink(req.params.id);
+
+      res.json({
+        success: true,
+        data: this.formatLink(link),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async pay(
+    req: Request<PaymentLinkIdParam, unknown, PayPaymentLinkBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { paymentLink, payment } = await paymentLinkService.payLink(req.params.id, {
+        paymentMethod: {
+          ...req.body.paymentMethod,
+          type: req.body.paymentMethod.type as PaymentMethodType,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...this.formatLink(paymentLink),
+          payment: {
+            id: payment.id,
+            status: payment.status,
+            failureReason: payment.failureReason,
+            nextAction: payment.nextAction,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatLink(link: PaymentLinkResponse) {
+    return {
+      id: link.id,
+      merchantId: link.merchantId,
+      customerId: link.customerId,
+      url: link.url,
+      amount: link.amount.toString(),
+      currency: link.currency,
+      description: link.description,
+      allowedPaymentMethods: link.allowedPaymentMethods,
+      status: link.status,
+      expiresAt: link.expiresAt?.toISOString(),
+      transactionId: link.transactionId,
+      paidAt: link.paidAt?.toISOString(),
+      metadata: link.metadata,
+      createdAt: link.createdAt.toISOString(),
+      updatedAt: link.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const paymentLinkController = new PaymentLinkController();
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { paymentLinkController } from './payment-link.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createPaymentLinkBodySchema,
+  payPaymentLinkBodySchema,
+  paymentLinkIdParamSchema,
+  listPaymentLinksQuerySchema,
+} from './payment-link.schemas.js';
+
+const router = Router();
+
+/**
+ * POST /api/v1/payment-links
+ * Create a shareable payment link
+ */
+router.post(
+  '/',
+  validateRequest({ body: createPaymentLinkBodySchema }),
+  paymentLinkController.create.bind(paymentLinkController)
+);
+
+/**
+ * GET /api/v1/payment-links
+ * List payment links with filters
+ */
+router.get(
+  '/',
+  validateRequest({ query: listPaymentLinksQuerySchema }),
+  paymentLinkController.list.bind(paymentLinkController)
+);
+
+/**
+ * GET /api/v1/payment-links/:id
+ * Get a payment link by ID
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: paymentLinkIdParamSchema }),
+  paymentLinkController.getById.bind(paymentLinkController)
+);
+
+/**
+ * POST /api/v1/payment-links/:id/expire
+ * Stop a link from accepting payments
+ */
+router.post(
+  '/:id/expire',
+  validateRequest({ params: paymentLinkIdParamSchema }),
+  paymentLinkController.expire.bind(paymentLinkController)
+);
+
+/**
+ * POST /api/v1/payment-links/:id/pay
+ * Pay a link from a custom checkout
+ */
+router.post(
+  '/:id/pay',
+  validateRequest({ params: paymentLinkIdParamSchema, body: payPaymentLinkBodySchema }),
+  paymentLinkController.pay.bind(paymentLinkController)
+);
+
+export { router as paymentLinkRoutes };
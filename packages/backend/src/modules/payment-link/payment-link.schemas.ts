@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const currencyEnum = z.enum([
+  'USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+]);
+
+const paymentMethodTypeEnum = z.enum([
+  'CARD', 'BANK_TRANSFER', 'DIGITAL_WALLET', 'CRYPTO',
+]);
+
+const paymentLinkStatusEnum = z.enum(['OPEN', 'PAID', 'EXPIRED']);
+
+export const createPaymentLinkBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  customerId: z.string().uuid().optional(),
+  amount: z.coerce.bigint().positive('Amount must be positive'),
+  currency: currencyEnum,
+  description: z.string().max(500).optional(),
+  expiresAt: z.coerce.date().optional(),
+  allowedPaymentMethods: z.array(paymentMethodTypeEnum).min(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const payPaymentLinkBodySchema = z.object({
+  paymentMethod: z.object({
+    type: paymentMethodTypeEnum,
+    token: z.string().optional(),
+    cardNumber: z.string().min(13).max(19).optional(),
+    expiryMonth: z.number().int().min(1).max(12).optional(),
+    expiryYear: z.number().int().min(2024).max(2050).optional(),
+    cvv: z.string().min(3).max(4).optional(),
+    holderName: z.string().optional(),
+  }),
+});
+
+// Card form posted by the hosted payment page; every field arrives as a string
+export const hostedPaymentFormSchema = z.object({
+  holderName: z.string().trim().min(1).max(200),
+  cardNumber: z.string().transform((value) => value.replace(/\s+/g, '')).pipe(z.string().regex(/^\d{13,19}$/)),
+  expiryMonth: z.coerce.number().int().min(1).max(12),
+  expiryYear: z.coerce.number().int().min(2024).max(2050),
+  cvv: z.string().regex(/^\d{3,4}$/),
+});
+
+export const paymentLinkIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const listPaymentLinksQuerySchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  status: paymentLinkStatusEnum.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export type CreatePaymentLinkBody = z.infer<typeof createPaymentLinkBodySchema>;
+export type PayPaymentLinkBody = z.infer<typeof payPaymentLinkBodySchema>;
+export type HostedPaymentForm = z.infer<typeof hostedPaymentFormSchema>;
+export type PaymentLinkIdParam = z.infer<typeof paymentLinkIdParamSchema>;
+export type ListPaymentLinksQuery = z.infer<typeof listPaymentLinksQuerySchema>;
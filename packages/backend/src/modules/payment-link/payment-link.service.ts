@@ -0,0 +1,316 @@
+import { PaymentLink, PaymentLinkStatus, PaymentMethodType, Prisma, TransactionStatus } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { paymentService } from '../payment/payment.service.js';
+import { PaymentResponse } from '../payment/payment.types.js';
+import {
+  CreatePaymentLinkRequest,
+  ListPaymentLinksFilter,
+  PaymentLinkError,
+  PaymentLinkListResponse,
+  PaymentLinkPaymentResponse,
+  PaymentLinkResponse,
+  PayPaymentLinkRequest,
+} from './payment-link.types.js';
+
+// Covers a provider round trip, including simulated latency and fallbacks
+const PAY_LOCK_TTL_MS = 60000;
+
+export class PaymentLinkService {
+  private static instance: PaymentLinkService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentLinkService {
+    if (!PaymentLinkService.instance) {
+      PaymentLinkService.instance = new PaymentLinkService();
+    }
+    return PaymentLinkService.instance;
+  }
+
+  async createLink(request: CreatePaymentLinkRequest): Promise<PaymentLinkResponse> {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: request.merchantId },
+    });
+
+    if (!merchant || !merchant.isActive) {
+      throw PaymentLinkError.merchantNotFound(request.merchantId);
+    }
+
+    if (request.customerId) {
+      const customer = await prisma.customer.findUnique({
+        where: { id: request.customerId },
+      });
+
+      if (!customer || customer.merchantId !== request.merchantId) {
+        throw PaymentLinkError.invalidRequest(`Customer ${request.customerId} not found`);
+      }
+    }
+
+    if (request.expiresAt && request.expiresAt <= new Date()) {
+      throw PaymentLinkError.invalidRequest('expiresAt must be in the future');
+    }
+
+    const link = await prisma.paymentLink.create({
+      data: {
+        merchantId: request.merchantId,
+        customerId: request.customerId,
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        expiresAt: request.expiresAt,
+        allowedPaymentMethods: request.allowedPaymentMethods ?? [PaymentMethodType.CARD],
+        metadata: (request.metadata ?? {}) as object,
+      },
+    });
+
+    logger.info('Payment link created', {
+      paymentLinkId: link.id,
+      merchantId: link.merchantId,
+      amount: link.amount.toString(),
+      currency: link.currency,
+    });
+
+    return this.toResponse(link);
+  }
+
+  async getLink(id: string): Promise<PaymentLinkResponse | null> {
+    const link = await prisma.paymentLink.findUnique({
+      where: { id },
+    });
+
+    return link ? this.toResponse(await this.refreshStatus(link)) : null;
+  }
+
+  async listLinks(filter: ListPaymentLinksFilter): Promise<PaymentLinkListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    // Bring lapsed links up to date first so the status filter is accurate
+    await prisma.paymentLink.updateMany({
+      where: {
+        ...(filter.merchantId ? { merchantId: filter.merchantId } : {}),
+        status: PaymentLinkStatus.OPEN,
+        expiresAt: { lte: new Date() },
+      },
+      data: { status: PaymentLinkStatus.EXPIRED },
+    });
+
+    const where: Prisma.PaymentLinkWhereInput = {};
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.status) where.status = filter.status;
+
+    const [links, total] = await Promise.all([
+      prisma.paymentLink.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.paymentLink.count({ where }),
+    ]);
+
+    return {
+      paymentLinks: links.map((link) => this.toResponse(link)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Stop a link from accepting payments before its expiry.
+   */
+  async expireLink(id: string): Promise<PaymentLinkResponse> {
+    const link = await this.getOpenLink(id);
+
+    const updated = await prisma.paymentLink.update({
+      where: { id: link.id },
+      data: { status: PaymentLinkStatus.EXPIRED, expiresAt: new Date() },
+    });
+
+    logger.info('Payment link expired', { paymentLinkId: id });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Pay a link through the regular payment pipeline. A declined payment leaves
+   * the link open so the customer can try another card; a 3-D Secure challenge
+   * is finished on return through completeLink.
+   */
+  async payLink(id: string, request: PayPaymentLinkRequest): Promise<PaymentLinkPaymentResponse> {
+    const lockKey = `payment-link:${id}`;
+    const lockToken = await cacheService.acquireLock(lockKey, PAY_LOCK_TTL_MS);
+
+    if (!lockToken) {
+      throw PaymentLinkError.paymentInProgress(id);
+    }
+
+    try {
+      const link = await this.getOpenLink(id);
+
+      if (!link.allowedPaymentMethods.includes(request.paymentMethod.type)) {
+        throw PaymentLinkError.methodNotAllowed(id, request.paymentMethod.type);
+      }
+
+      const payment = await paymentService.createPayment({
+        merchantId: link.merchantId,
+        customerId: link.customerId ?? undefined,
+        amount: link.amount,
+        currency: link.currency,
+        paymentMethod: request.paymentMethod,
+        returnUrl: `${this.getUrl(link.id)}/complete`,
+        description: link.description ?? undefined,
+        metadata: { ...(link.metadata as Record<string, unknown>), paymentLinkId: link.id },
+      });
+
+      return { paymentLink: this.toResponse(await this.recordPayment(link, payment)), payment };
+    } finally {
+      await cacheService.releaseLock(lockKey, lockToken);
+    }
+  }
+
+  /**
+   * Finish a payment that stopped for a 3-D Secure challenge once the customer
+   * is redirected back to the link.
+   */
+  async completeLink(id: string): Promise<PaymentLinkPaymentResponse> {
+    const link = await this.getOpenLink(id);
+
+    if (!link.transactionId) {
+      throw PaymentLinkError.invalidRequest(`Payment link ${id} has no payment awaiting authentication`, id);
+    }
+
+    const pending = await paymentService.getPayment(link.transactionId);
+    const payment = pending?.status === TransactionStatus.REQUIRES_ACTION
+      ? await paymentService.confirmPayment(link.transactionId)
+      : pending;
+
+    if (!payment) {
+      throw PaymentLinkError.invalidRequest(`Payment link ${id} has no payment awaiting authentication`, id);
+    }
+
+    return { paymentLink: this.toResponse(await this.recordPayment(link, payment)), payment };
+  }
+
+  getUrl(id: string): string {
+    return `${config.env.PUBLIC_BASE_URL.replace(/\/$/, '')}/pay/${id}`;
+  }
+
+  private async getOpenLink(id: string): Promise<PaymentLink> {
+    const found = await prisma.paymentLink.findUnique({
+      where: { id },
+    });
+
+    if (!found) {
+      throw PaymentLinkError.notFound(id);
+    }
+
+    const link = await this.refreshStatus(found);
+    if (link.status !== PaymentLinkStatus.OPEN) {
+      throw PaymentLinkError.notOpen(id, link.status);
+    }
+
+    return link;
+  }
+
+  /**
+   * Track the attempt on the link: a completed payment closes it, a payment
+   * waiting on the customer is remembered so it can be finished later.
+   */
+  private async recordPayment(link: PaymentLink, payment: PaymentResponse): Promise<PaymentLink> {
+    if (payment.status === TransactionStatus.COMPLETED) {
+      return this.markPaid(link, payment.id);
+    }
+
+    if (payment.status === TransactionStatus.REQUIRES_ACTION) {
+      return prisma.paymentLink.update({
+        where: { id: link.id },
+        data: { transactionId: payment.id },
+      });
+    }
+
+    logger.info('Payment link payment not completed', {
+      paymentLinkId: link.id,
+      transactionId: payment.id,
+      status: payment.status,
+    });
+
+    return link;
+  }
+
+  private async markPaid(link: PaymentLink, transactionId: string): Promise<PaymentLink> {
+    await prisma.paymentLink.updateMany({
+      where: { id: link.id, status: PaymentLinkStatus.OPEN },
+      data: { status: PaymentLinkStatus.PAID, transactionId, paidAt: new Date() },
+    });
+
+    logger.info('Payment link paid', { paymentLinkId: link.id, transactionId });
+
+    const updated = await prisma.paymentLink.findUnique({
+      where: { id: link.id },
+    });
+
+    return updated ?? link;
+  }
+
+  /**
+   * Links are settled lazily: a payment confirmed outside the hosted page marks
+   * the link paid, and an open link past its expiry becomes expired.
+   */
+  private async refreshStatus(link: PaymentLink): Promise<PaymentLink> {
+    if (link.status !== PaymentLinkStatus.OPEN) {
+      return link;
+    }
+
+    if (link.transactionId) {
+      const transaction = await prisma.transaction.findUnique({
+        where: { id: link.transactionId },
+        select: { status: true },
+      });
+
+      if (transaction?.status === TransactionStatus.COMPLETED) {
+        return this.markPaid(link, link.transactionId);
+      }
+    }
+
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      await prisma.paymentLink.updateMany({
+        where: { id: link.id, status: PaymentLinkStatus.OPEN },
+        data: { status: PaymentLinkStatus.EXPIRED },
+      });
+      return { ...link, status: PaymentLinkStatus.EXPIRED };
+    }
+
+    return link;
+  }
+
+  private toResponse(link: PaymentLink): PaymentLinkResponse {
+    return {
+      id: link.id,
+      merchantId: link.merchantId,
+      customerId: link.customerId ?? undefined,
+      url: this.getUrl(link.id),
+      amount: link.amount,
+      currency: link.currency,
+      description: link.description ?? undefined,
+      allowedPaymentMethods: link.allowedPaymentMethods,
+      status: link.status,
+      expiresAt: link.expiresAt ?? undefined,
+      transactionId: link.transactionId ?? undefined,
+      paidAt: link.paidAt ?? undefined,
+      metadata: link.metadata as Record<string, unknown>,
+      createdAt: link.createdAt,
+      updatedAt: link.updatedAt,
+    };
+  }
+}
+
+export const paymentLinkService = PaymentLinkService.getInstance();
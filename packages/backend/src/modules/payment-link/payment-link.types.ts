@@ -0,0 +1,108 @@
+import { Currency, PaymentLinkStatus, PaymentMethodType } from '@prisma/client';
+import type { CreatePaymentRequest, PaymentResponse } from '../payment/payment.types.js';
+
+export interface CreatePaymentLinkRequest {
+  merchantId: string;
+  /** Customer the link was sent to, if known */
+  customerId?: string;
+  amount: bigint;
+  currency: Currency;
+  description?: string;
+  expiresAt?: Date;
+  /** Defaults to cards, the only method the hosted page collects */
+  allowedPaymentMethods?: PaymentMethodType[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface PayPaymentLinkRequest {
+  paymentMethod: NonNullable<CreatePaymentRequest['paymentMethod']>;
+}
+
+export interface PaymentLinkResponse {
+  id: string;
+  merchantId: string;
+  customerId?: string;
+  /** Shareable URL of the hosted payment page */
+  url: string;
+  amount: bigint;
+  currency: Currency;
+  description?: string;
+  allowedPaymentMethods: PaymentMethodType[];
+  status: PaymentLinkStatus;
+  expiresAt?: Date;
+  transactionId?: string;
+  paidAt?: Date;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentLinkPaymentResponse {
+  paymentLink: PaymentLinkResponse;
+  payment: PaymentResponse;
+}
+
+export interface ListPaymentLinksFilter {
+  merchantId?: string;
+  status?: PaymentLinkStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaymentLinkListResponse {
+  paymentLinks: PaymentLinkResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class PaymentLinkError extends Error {
+  public readonly code: string;
+  public readonly paymentLinkId?: string;
+
+  constructor(message: string, code: string, paymentLinkId?: string) {
+    super(message);
+    this.name = 'PaymentLinkError';
+    this.code = code;
+    this.paymentLinkId = paymentLinkId;
+  }
+
+  static invalidRequest(message: string, paymentLinkId?: string): PaymentLinkError {
+    return new PaymentLinkError(message, 'INVALID_REQUEST', paymentLinkId);
+  }
+
+  static notFound(paymentLinkId: string): PaymentLinkError {
+    return new PaymentLinkError(`Payment link ${paymentLinkId} not found`, 'NOT_FOUND', paymentLinkId);
+  }
+
+  static merchantNotFound(merchantId: string): PaymentLinkError {
+    return new PaymentLinkError(`Merchant ${merchantId} not found`, 'MERCHANT_NOT_FOUND');
+  }
+
+  static notOpen(paymentLinkId: string, status: PaymentLinkStatus): PaymentLinkError {
+    return new PaymentLinkError(
+      `Payment link ${paymentLinkId} is ${status.toLowerCase()}`,
+      'NOT_OPEN',
+      paymentLinkId
+    );
+  }
+
+  static methodNotAllowed(paymentLinkId: string, type: PaymentMethodType): PaymentLinkError {
+    return new PaymentLinkError(
+      `Payment link ${paymentLinkId} does not accept ${type} payments`,
+      'METHOD_NOT_ALLOWED',
+      paymentLinkId
+    );
+  }
+
+  static paymentInProgress(paymentLinkId: string): PaymentLinkError {
+    return new PaymentLinkError(
+      `A payment for link ${paymentLinkId} is already in progress`,
+      'PAYMENT_IN_PROGRESS',
+      paymentLinkId
+    );
+  }
+}
@@ -6,6 +6,7 @@ jest.mock('../../../shared/database/prisma', () => ({
     customer: { findUnique: jest.fn() },
     paymentMethod: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
@@ -103,6 +104,51 @@ describe('PaymentMethodService', () => {
     });
   });
 
+  describe('getChargeableMethod', () => {
+    const savedCard = {
+      id: 'pm-1', customerId: 'c-1', type: 'CARD', token: 'tok_test',
+      last4: '4242', expiryMonth: 12, expiryYear: new Date().getUTCFullYear() + 1, brand: 'visa',
+      isDefault: true, isActive: true,
+    };
+
+    it('should return the requested method', async () => {
+      (prisma.paymentMethod.findUnique as jest.Mock).mockResolvedValue(savedCard);
+
+      const result = await service.getChargeableMethod('c-1', 'pm-1');
+      expect(result.token).toBe('tok_test');
+    });
+
+    it("should fall back to the customer's default method", async () => {
+      (prisma.paymentMethod.findFirst as jest.Mock).mockResolvedValue(savedCard);
+
+      await service.getChargeableMethod('c-1');
+
+      expect(prisma.paymentMethod.findFirst).toHaveBeenCalledWith({
+        where: { customerId: 'c-1', isDefault: true, isActive: true },
+      });
+    });
+
+    it('should throw when the customer has no default method', async () => {
+      (prisma.paymentMethod.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.getChargeableMethod('c-1')).rejects.toMatchObject({ code: 'NO_DEFAULT_PAYMENT_METHOD' });
+    });
+
+    it("should not charge another customer's method", async () => {
+      (prisma.paymentMethod.findUnique as jest.Mock).mockResolvedValue({ ...savedCard, customerId: 'c-2' });
+
+      await expect(service.getChargeableMethod('c-1', 'pm-1')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should reject inactive and expired methods', async () => {
+      (prisma.paymentMethod.findUnique as jest.Mock).mockResolvedValueOnce({ ...savedCard, isActive: false });
+      await expect(service.getChargeableMethod('c-1', 'pm-1')).rejects.toThrow('is inactive');
+
+      (prisma.paymentMethod.findUnique as jest.Mock).mockResolvedValueOnce({ ...savedCard, expiryYear: 2020 });
+      await expect(service.getChargeableMethod('c-1', 'pm-1')).rejects.toThrow('has expired');
+    });
+  });
+
   describe('list', () => {
     it('should list payment methods with pagination', async () => {
       (prisma.paymentMethod.findMany as jest.Mock).mockResolvedValue([]);
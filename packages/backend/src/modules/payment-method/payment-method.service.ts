@@ -1,4 +1,4 @@
-import { PaymentMethodType, Prisma } from '@prisma/client';
+import { PaymentMethod, PaymentMethodType, Prisma } from '@prisma/client';
 import { prisma } from '../../shared/database/prisma.js';
 import { logger } from '../../shared/utils/logger.js';
 import {
@@ -81,6 +81,37 @@ export class PaymentMethodService {
     return pm ? this.toResponse(pm) : null;
   }
 
+  /**
+   * Look up a saved method to charge: the one given, or the customer's default.
+   * It must belong to the customer, be active and not have expired.
+   */
+  async getChargeableMethod(customerId: string, paymentMethodId?: string): Promise<PaymentMethod> {
+    const pm = paymentMethodId
+      ? await prisma.paymentMethod.findUnique({ where: { id: paymentMethodId } })
+      : await prisma.paymentMethod.findFirst({ where: { customerId, isDefault: true, isActive: true } });
+
+    if (!pm) {
+      throw paymentMethodId
+        ? PaymentMethodError.notFound(paymentMethodId)
+        : PaymentMethodError.noDefault(customerId);
+    }
+
+    // Another customer's method is reported as missing rather than confirmed to exist
+    if (pm.customerId !== customerId) {
+      throw PaymentMethodError.notFound(pm.id);
+    }
+
+    if (!pm.isActive) {
+      throw PaymentMethodError.notChargeable(pm.id, 'is inactive');
+    }
+
+    if (this.isExpired(pm)) {
+      throw PaymentMethodError.notChargeable(pm.id, 'has expired');
+    }
+
+    return pm;
+  }
+
   async list(filter: ListPaymentMethodsFilter): Promise<PaymentMethodListResponse> {
     const page = filter.page ?? 1;
     const limit = filter.limit ?? 20;
@@ -171,6 +202,15 @@ export class PaymentMethodService {
     return this.toResponse(updated);
   }
 
+  private isExpired(pm: { expiryMonth: number | null; expiryYear: number | null }): boolean {
+    if (!pm.expiryMonth || !pm.expiryYear) return false;
+    const now = new Date();
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth() + 1;
+    // Cards stay valid through the end of their expiry month
+    return pm.expiryYear < year || (pm.expiryYear === year && pm.expiryMonth < month);
+  }
+
   private generateToken(): string {
     const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
     let token = 'tok_';
@@ -82,6 +82,20 @@ export class PaymentMethodError extends Error {
     );
   }
 
+  static noDefault(customerId: string): PaymentMethodError {
+    return new PaymentMethodError(
+      `Customer ${customerId} has no default payment method`,
+      'NO_DEFAULT_PAYMENT_METHOD'
+    );
+  }
+
+  static notChargeable(id: string, reason: string): PaymentMethodError {
+    return new PaymentMethodError(
+      `Payment method ${id} ${reason}`,
+      'NOT_CHARGEABLE'
+    );
+  }
+
   static invalidCard(message: string): PaymentMethodError {
     return new PaymentMethodError(message, 'INVALID_CARD');
   }
@@ -0,0 +1,175 @@
+import { AuthorizationExpiryService } from '../authorization-expiry.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    paymentProvider: { findMany: jest.fn() },
+    transaction: { findMany: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../payment.service', () => ({
+  paymentService: {
+    cancelPayment: jest.fn(),
+    capturePayment: jest.fn(),
+    releaseRemainingAuthorization: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      AUTHORIZATION_EXPIRY_HOURS: 168,
+      AUTHORIZATION_SWEEP_INTERVAL_MS: 300000,
+      AUTHORIZATION_SWEEP_BATCH_SIZE: 100,
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { paymentService } from '../payment.service';
+
+describe('AuthorizationExpiryService', () => {
+  let service: AuthorizationExpiryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AuthorizationExpiryService as any).instance = null;
+    service = AuthorizationExpiryService.getInstance();
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+  });
+
+  it('should void expired authorizations with the authorization_expired reason', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', merchant: { settings: {} } },
+    ]);
+
+    const result = await service.sweep();
+
+    expect(paymentService.cancelPayment).toHaveBeenCalledWith('txn-1', 'authorization_expired');
+    expect(result).toEqual({ voided: 1, captured: 0, failed: 0 });
+    expect(cacheService.releaseLock).toHaveBeenCalledWith('authorization-expiry-sweep', 'lock-token');
+  });
+
+  it('should capture instead when the merchant opted into auto-capture', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', merchant: { settings: { autoCaptureExpiringAuthorizations: true } } },
+    ]);
+
+    const result = await service.sweep();
+
+    expect(paymentService.capturePayment).toHaveBeenCalledWith('txn-1', { final: true });
+    expect(paymentService.cancelPayment).not.toHaveBeenCalled();
+    expect(result.captured).toBe(1);
+  });
+
+  it('should release the rest of partially captured authorizations', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', status: 'PARTIALLY_CAPTURED', merchant: { settings: {} } },
+    ]);
+
+    const result = await service.sweep();
+
+    const { where } = (prisma.transaction.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.status).toEqual({ in: ['PENDING', 'PARTIALLY_CAPTURED', 'REQUIRES_ACTION'] });
+    expect(paymentService.releaseRemainingAuthorization).toHaveBeenCalledWith('txn-1', 'authorization_expired');
+    expect(paymentService.cancelPayment).not.toHaveBeenCalled();
+    expect(result).toEqual({ voided: 1, captured: 0, failed: 0 });
+  });
+
+  it('should use the provider-specific expiry window', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'paypal', config: { authorizationExpiryHours: 72 } },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([]);
+
+    const before = Date.now();
+    await service.sweep();
+
+    const { where } = (prisma.transaction.findMany as jest.Mock).mock.calls[0][0];
+    const expectedCutoff = before - 72 * 60 * 60 * 1000;
+    expect(Math.abs(where.createdAt.lt.getTime() - expectedCutoff)).toBeLessThan(1000);
+  });
+
+  it('should count failures and keep sweeping', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', sweepAttempts: 0, merchant: { settings: {} } },
+      { id: 'txn-2', sweepAttempts: 0, merchant: { settings: {} } },
+    ]);
+    (paymentService.cancelPayment as jest.Mock)
+      .mockRejectedValueOnce(new Error('provider down'))
+      .mockResolvedValueOnce({});
+
+    const result = await service.sweep();
+
+    expect(result).toEqual({ voided: 1, captured: 0, failed: 1 });
+  });
+
+  it('should cancel payments whose customer abandoned authentication, even with auto-capture', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', status: 'REQUIRES_ACTION', merchant: { settings: { autoCaptureExpiringAuthorizations: true } } },
+    ]);
+
+    const result = await service.sweep();
+
+    expect(paymentService.cancelPayment).toHaveBeenCalledWith('txn-1', 'authorization_expired');
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+    expect(result).toEqual({ voided: 1, captured: 0, failed: 0 });
+  });
+
+  it('should back off payments that failed to expire so newer ones get swept', async () => {
+    (prisma.paymentProvider.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', code: 'stripe', config: {} },
+    ]);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'txn-1', sweepAttempts: 2, merchant: { settings: {} } },
+    ]);
+    (paymentService.cancelPayment as jest.Mock).mockRejectedValueOnce(new Error('provider down'));
+
+    const before = Date.now();
+    await service.sweep();
+
+    const { where } = (prisma.transaction.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.OR).toEqual([{ nextSweepAt: null }, { nextSweepAt: { lte: expect.any(Date) } }]);
+
+    const { where: updated, data } = (prisma.transaction.update as jest.Mock).mock.calls[0][0];
+    expect(updated).toEqual({ id: 'txn-1' });
+    expect(data).toMatchObject({ sweepAttempts: 3, lastSweepError: 'provider down' });
+    expect(Math.abs(data.nextSweepAt.getTime() - (before + 4 * 300000))).toBeLessThan(1000);
+  });
+
+  it('should skip the sweep when another instance holds the lock', async () => {
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+    const result = await service.sweep();
+
+    expect(prisma.paymentProvider.findMany).not.toHaveBeenCalled();
+    expect(result).toEqual({ voided: 0, captured: 0, failed: 0 });
+  });
+});
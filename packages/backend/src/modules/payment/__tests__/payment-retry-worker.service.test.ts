@@ -0,0 +1,97 @@
+import { PaymentRetryWorkerService } from '../payment-retry-worker.service';
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../payment-retry.service', () => ({
+  paymentRetryService: {
+    resetStaleRetries: jest.fn(),
+    claimDueRetries: jest.fn(),
+    completeRetry: jest.fn(),
+  },
+}));
+
+jest.mock('../payment.service', () => ({
+  paymentService: {
+    processScheduledRetry: jest.fn(),
+    failQueuedPayment: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PAYMENT_RETRY_POLL_INTERVAL_MS: 30000,
+      PAYMENT_RETRY_BATCH_SIZE: 20,
+    },
+  },
+}));
+
+import { cacheService } from '../../../shared/cache/cache.service';
+import { paymentRetryService } from '../payment-retry.service';
+import { paymentService } from '../payment.service';
+
+describe('PaymentRetryWorkerService', () => {
+  let service: PaymentRetryWorkerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentRetryWorkerService as any).instance = null;
+    service = PaymentRetryWorkerService.getInstance();
+
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+    (paymentService.failQueuedPayment as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  it('should run due retries and record their outcomes', async () => {
+    (paymentRetryService.claimDueRetries as jest.Mock).mockResolvedValue([
+      { id: 'retry-1', transactionId: 'txn-1' },
+      { id: 'retry-2', transactionId: 'txn-2' },
+    ]);
+    (paymentService.processScheduledRetry as jest.Mock)
+      .mockResolvedValueOnce({ status: 'SUCCEEDED', providerId: 'p-3', outcome: 'COMPLETED' })
+      .mockResolvedValueOnce({ status: 'FAILED', providerId: 'p-3', outcome: 'PROCESSING' });
+
+    const result = await service.runDueRetries();
+
+    expect(result).toEqual({ processed: 2, succeeded: 1, failed: 1 });
+    expect(paymentRetryService.claimDueRetries).toHaveBeenCalledWith(20);
+    expect(paymentRetryService.completeRetry).toHaveBeenCalledWith('retry-1', {
+      status: 'SUCCEEDED', providerId: 'p-3', outcome: 'COMPLETED',
+    });
+    expect(paymentService.failQueuedPayment).not.toHaveBeenCalled();
+    expect(cacheService.releaseLock).toHaveBeenCalledWith('payment-retry-processing', 'lock-token');
+  });
+
+  it('should fail the payment when a retry throws', async () => {
+    (paymentRetryService.claimDueRetries as jest.Mock).mockResolvedValue([
+      { id: 'retry-1', transactionId: 'txn-1' },
+    ]);
+    (paymentService.processScheduledRetry as jest.Mock).mockRejectedValue(new Error('Payment method pm-1 not found'));
+
+    const result = await service.runDueRetries();
+
+    expect(result).toEqual({ processed: 1, succeeded: 0, failed: 1 });
+    expect(paymentRetryService.completeRetry).toHaveBeenCalledWith('retry-1', {
+      status: 'FAILED', outcome: 'Payment method pm-1 not found',
+    });
+    expect(paymentService.failQueuedPayment).toHaveBeenCalledWith(
+      'txn-1', 'Payment retry failed: Payment method pm-1 not found'
+    );
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+    await expect(service.runDueRetries()).resolves.toEqual({ processed: 0, succeeded: 0, failed: 0 });
+    expect(paymentRetryService.claimDueRetries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { PaymentRetryService } from '../payment-retry.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    paymentRetryPolicy: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    paymentRetry: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PAYMENT_RETRY_DEFAULT_CODES: ['NETWORK_ERROR', 'TIMEOUT', 'RATE_LIMITED', 'PROVIDER_UNAVAILABLE'],
+      PAYMENT_RETRY_DEFAULT_MAX_ATTEMPTS: 3,
+      PAYMENT_RETRY_DEFAULT_BACKOFF_MINUTES: [15, 60, 240],
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+const scheduleRequest = {
+  transactionId: 'txn-1',
+  merchantId: 'm-1',
+  retryNumber: 1,
+  errorCode: 'TIMEOUT' as const,
+  errorMessage: 'Timed out',
+  excludedProviderIds: ['p-1', 'p-2'],
+  capture: true,
+};
+
+describe('PaymentRetryService', () => {
+  let service: PaymentRetryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    (PaymentRetryService as any).instance = null;
+    service = PaymentRetryService.getInstance();
+
+    (prisma.paymentRetryPolicy.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.paymentRetry.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: 'retry-1', status: 'SCHEDULED', providerId: null, outcome: null, attemptedAt: null,
+        createdAt: now, updatedAt: now, ...data,
+      })
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('scheduleRetry', () => {
+    it('should schedule a retryable error under the default policy', async () => {
+      const retry = await service.scheduleRetry(scheduleRequest);
+
+      expect(prisma.paymentRetry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionId: 'txn-1',
+          retryNumber: 1,
+          errorCode: 'TIMEOUT',
+          excludedProviderIds: ['p-1', 'p-2'],
+          scheduledFor: new Date('2026-03-01T12:15:00.000Z'),
+        }),
+      });
+      expect(retry).toMatchObject({ id: 'retry-1', status: 'SCHEDULED' });
+    });
+
+    it('should not retry codes outside the defaults without a merchant policy', async () => {
+      await expect(
+        service.scheduleRetry({ ...scheduleRequest, errorCode: 'INSUFFICIENT_FUNDS' })
+      ).resolves.toBeNull();
+      expect(prisma.paymentRetry.create).not.toHaveBeenCalled();
+    });
+
+    it("should follow the merchant's policy and repeat its last backoff", async () => {
+      (prisma.paymentRetryPolicy.findUnique as jest.Mock).mockResolvedValue({
+        merchantId: 'm-1', errorCode: 'INSUFFICIENT_FUNDS', maxAttempts: 4, backoffMinutes: [60, 1440],
+      });
+
+      await service.scheduleRetry({ ...scheduleRequest, errorCode: 'INSUFFICIENT_FUNDS', retryNumber: 3 });
+
+      expect(prisma.paymentRetryPolicy.findUnique).toHaveBeenCalledWith({
+        where: { merchantId_errorCode: { merchantId: 'm-1', errorCode: 'INSUFFICIENT_FUNDS' } },
+      });
+      expect(prisma.paymentRetry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ retryNumber: 3, scheduledFor: new Date('2026-03-02T12:00:00.000Z') }),
+      });
+    });
+
+    it('should stop once the policy has no attempts left', async () => {
+      await expect(service.scheduleRetry({ ...scheduleRequest, retryNumber: 4 })).resolves.toBeNull();
+      expect(prisma.paymentRetry.create).not.toHaveBeenCalled();
+    });
+
+    it('should let a merchant turn off retries for a default code', async () => {
+      (prisma.paymentRetryPolicy.findUnique as jest.Mock).mockResolvedValue({
+        merchantId: 'm-1', errorCode: 'TIMEOUT', maxAttempts: 0, backoffMinutes: [15],
+      });
+
+      await expect(service.scheduleRetry(scheduleRequest)).resolves.toBeNull();
+    });
+  });
+
+  describe('claimDueRetries', () => {
+    it('should only return the retries this instance moved to processing', async () => {
+      (prisma.paymentRetry.findMany as jest.Mock).mockResolvedValue([
+        { id: 'retry-1', status: 'SCHEDULED' },
+        { id: 'retry-2', status: 'SCHEDULED' },
+      ]);
+      (prisma.paymentRetry.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const claimed = await service.claimDueRetries(20);
+
+      expect(prisma.paymentRetry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'SCHEDULED', scheduledFor: { lte: now } },
+        take: 20,
+      }));
+      expect(prisma.paymentRetry.updateMany).toHaveBeenCalledWith({
+        where: { id: 'retry-1', status: 'SCHEDULED' },
+        data: { status: 'PROCESSING', attemptedAt: now },
+      });
+      expect(claimed).toEqual([{ id: 'retry-1', status: 'PROCESSING' }]);
+    });
+  });
+});
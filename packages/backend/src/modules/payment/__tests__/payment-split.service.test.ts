@@ -0,0 +1,182 @@
+import { PaymentSplitService, allocateProportionally } from '../payment-split.service';
+import { PaymentError } from '../payment.types';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    merchant: { findMany: jest.fn() },
+    paymentSplit: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    transaction: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    transactionStatusHistory: { create: jest.fn() },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('../../ledger/ledger.service', () => ({
+  ledgerService: {
+    recordTransfer: jest.fn(),
+    recordTransferReversal: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { ledgerService } from '../../ledger/ledger.service';
+
+const payment = {
+  id: 'txn-1',
+  merchantId: 'platform',
+  amount: 10000n,
+  currency: 'USD',
+  capturedAmount: 10000n,
+  refundedAmount: 0n,
+};
+
+const split = (id: string, recipientMerchantId: string, amount: bigint) => ({
+  id, recipientMerchantId, amount, transferredAmount: 0n, reversedAmount: 0n,
+});
+
+describe('allocateProportionally', () => {
+  it('should hand rounding leftovers to the largest remainders', () => {
+    expect(allocateProportionally(100n, [1n, 1n, 1n])).toEqual([34n, 33n, 33n]);
+    expect(allocateProportionally(1001n, [7000n, 2000n, 1000n])).toEqual([701n, 200n, 100n]);
+  });
+});
+
+describe('PaymentSplitService', () => {
+  let service: PaymentSplitService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentSplitService as any).instance = null;
+    service = PaymentSplitService.getInstance();
+
+    (prisma.merchant.findMany as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve(where.id.in.map((id: string) => ({ id })))
+    );
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.paymentSplit.count as jest.Mock).mockResolvedValue(2);
+    (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: `transfer-${data.merchantId}`, ...data })
+    );
+  });
+
+  describe('resolveSplits', () => {
+    it('should resolve mixed amounts and percentages to exact shares', async () => {
+      const result = await service.resolveSplits(10001n, [
+        { merchantId: 'seller-a', percentage: 60 },
+        { merchantId: 'seller-b', percentage: 30 },
+        { merchantId: 'platform', percentage: 10 },
+      ]);
+
+      expect(result.map((s) => s.amount)).toEqual([6001n, 3000n, 1000n]);
+    });
+
+    it('should reject splits that do not add up to the charge', async () => {
+      await expect(service.resolveSplits(10000n, [
+        { merchantId: 'seller-a', amount: 8000n },
+        { merchantId: 'platform', percentage: 10 },
+      ])).rejects.toThrow('must add up to the charge amount');
+    });
+
+    it('should reject unknown recipients', async () => {
+      (prisma.merchant.findMany as jest.Mock).mockResolvedValue([{ id: 'seller-a' }]);
+
+      await expect(service.resolveSplits(10000n, [
+        { merchantId: 'seller-a', amount: 9000n },
+        { merchantId: 'ghost', amount: 1000n },
+      ])).rejects.toThrow(PaymentError);
+    });
+  });
+
+  describe('settleTransfers', () => {
+    it('should transfer captured shares to every recipient except the charging merchant', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...payment,
+        splits: [split('s-1', 'seller-a', 8000n), split('s-2', 'platform', 2000n)],
+      });
+
+      await service.settleTransfers('txn-1');
+
+      expect(prisma.transaction.create).toHaveBeenCalledTimes(1);
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          merchantId: 'seller-a', parentTransactionId: 'txn-1', type: 'TRANSFER', amount: 8000n,
+        }),
+      });
+      expect(ledgerService.recordTransfer).toHaveBeenCalledWith('txn-1', 'transfer-seller-a', 8000n, 'USD', prisma);
+      expect(prisma.paymentSplit.update).toHaveBeenCalledWith({
+        where: { id: 's-1' },
+        data: { transferredAmount: 8000n, reversedAmount: 0n },
+      });
+    });
+
+    it('should only transfer the newly captured part after a partial capture', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...payment,
+        capturedAmount: 7500n,
+        splits: [{ ...split('s-1', 'seller-a', 8000n), transferredAmount: 4000n }, split('s-2', 'platform', 2000n)],
+      });
+
+      await service.settleTransfers('txn-1');
+
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 2000n }),
+      });
+    });
+
+    it('should reverse transfers proportionally after a refund', async () => {
+      const transfer = {
+        id: 'transfer-1', type: 'TRANSFER', amount: 8000n, refundedAmount: 0n, currency: 'USD', status: 'COMPLETED',
+      };
+      (prisma.transaction.findUnique as jest.Mock).mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.id === 'transfer-1'
+            ? transfer
+            : {
+                ...payment,
+                refundedAmount: 2500n,
+                splits: [{ ...split('s-1', 'seller-a', 8000n), transferredAmount: 8000n }, split('s-2', 'platform', 2000n)],
+              }
+        )
+      );
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValue([transfer]);
+
+      await service.settleTransfers('txn-1');
+
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'transfer-1', status: 'COMPLETED' },
+        data: expect.objectContaining({ refundedAmount: 2000n, status: 'PARTIALLY_REFUNDED' }),
+      });
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ transactionId: 'transfer-1', toStatus: 'PARTIALLY_REFUNDED' }),
+      });
+      expect(ledgerService.recordTransferReversal).toHaveBeenCalledWith('txn-1', 'transfer-1', 2000n, 'USD', prisma);
+      expect(prisma.paymentSplit.update).toHaveBeenCalledWith({
+        where: { id: 's-1' },
+        data: { transferredAmount: 8000n, reversedAmount: 2000n },
+      });
+    });
+
+    it('should do nothing for payments without splits', async () => {
+      (prisma.paymentSplit.count as jest.Mock).mockResolvedValue(0);
+
+      await service.settleTransfers('txn-1');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { PaymentTimelineService } from '../payment-timeline.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    transaction: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    transactionStatusHistory: { findMany: jest.fn() },
+    paymentRoutingDecision: { findUnique: jest.fn() },
+    paymentAttempt: { findMany: jest.fn() },
+    paymentRetry: { findMany: jest.fn() },
+    ledgerEntry: { findMany: jest.fn() },
+    paymentCapture: { findMany: jest.fn() },
+    dispute: { findMany: jest.fn() },
+    webhookEvent: { findMany: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, seconds));
+
+const payment = {
+  id: 'txn-1',
+  type: 'PAYMENT',
+  status: 'COMPLETED',
+  providerId: 'prov-2',
+  providerTransactionId: 'pi_123',
+  metadata: {},
+  createdAt: at(0),
+};
+
+const history = (seconds: number, fromStatus: string | null, toStatus: string) => ({
+  id: `hist-${seconds}`,
+  transactionId: 'txn-1',
+  fromStatus,
+  toStatus,
+  reason: null,
+  metadata: {},
+  createdAt: at(seconds),
+});
+
+const attempt = (seconds: number, attemptNumber: number, providerId: string, status: string, errorCode: string | null) => ({
+  id: `att-${attemptNumber}`,
+  providerId,
+  provider: { code: providerId === 'prov-1' ? 'stripe' : 'paypal' },
+  attemptNumber,
+  status,
+  latencyMs: 100 * attemptNumber,
+  errorCode,
+  errorMessage: null,
+  isRetryable: errorCode !== null,
+  createdAt: at(seconds),
+});
+
+describe('PaymentTimelineService', () => {
+  let service: PaymentTimelineService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentTimelineService as any).instance = null;
+    service = PaymentTimelineService.getInstance();
+
+    (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(payment);
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.transactionStatusHistory.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.paymentRoutingDecision.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.paymentAttempt.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.paymentRetry.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.ledgerEntry.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.paymentCapture.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.dispute.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.webhookEvent.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should return null for an unknown payment', async () => {
+    (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(null);
+
+    await expect(service.getTimeline('missing')).resolves.toBeNull();
+  });
+
+  it('should place the routing decision and each provider attempt among status changes', async () => {
+    (prisma.paymentRoutingDecision.findUnique as jest.Mock).mockResolvedValue({
+      selectedProviderId: 'prov-1',
+      fallbackProviderIds: ['prov-2'],
+      matchedRuleId: null,
+      score: 87,
+      reason: 'Selected by scoring algorithm',
+      evaluatedAt: at(0),
+    });
+    (prisma.transactionStatusHistory.findMany as jest.Mock).mockResolvedValue([
+      history(0, null, 'PENDING'),
+      history(1, 'PENDING', 'PROCESSING'),
+      history(4, 'PROCESSING', 'COMPLETED'),
+    ]);
+    (prisma.paymentAttempt.findMany as jest.Mock).mockResolvedValue([
+      attempt(2, 1, 'prov-1', 'ERROR', 'TIMEOUT'),
+      attempt(4, 2, 'prov-2', 'SUCCEEDED', null),
+    ]);
+
+    const events = await service.getTimeline('txn-1');
+
+    expect(events!.map((e) => e.type)).toEqual([
+      'routing_decision',
+      'status_changed',
+      'status_changed',
+      'provider_attempt',
+      'provider_attempt',
+      'status_changed',
+    ]);
+    expect(events![3]!.data).toMatchObject({
+      providerCode: 'stripe',
+      status: 'ERROR',
+      errorCode: 'TIMEOUT',
+      isRetryable: true,
+    });
+    expect(events![4]!.data).toMatchObject({ providerCode: 'paypal', status: 'SUCCEEDED', attemptNumber: 2 });
+  });
+
+  it('should interleave refunds, ledger postings, webhooks, fraud and disputes by time', async () => {
+    (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+      ...payment,
+      metadata: {
+        fraudFlags: [{ rule: 'HIGH_AMOUNT' }],
+        riskScore: 50,
+        fraudCheckedAt: at(3).toISOString(),
+        fraudReview: { action: 'approve', reviewedBy: 'analyst', reviewedAt: at(6).toISOString() },
+      },
+    });
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([{
+      id: 'refund-1',
+      status: 'COMPLETED',
+      amount: 2500n,
+      currency: 'USD',
+      description: 'Damaged',
+      providerTransactionId: 're_1',
+      createdAt: at(8),
+    }]);
+    (prisma.ledgerEntry.findMany as jest.Mock).mockResolvedValue([
+      { id: 'le-1', transactionId: 'txn-1', accountCode: 'CASH', entryType: 'DEBIT', amount: 10000n, currency: 'USD', description: null, createdAt: at(5) },
+      { id: 'le-2', transactionId: 'refund-1', accountCode: 'CASH', entryType: 'CREDIT', amount: 2500n, currency: 'USD', description: null, createdAt: at(9) },
+    ]);
+    (prisma.webhookEvent.findMany as jest.Mock).mockResolvedValue([{
+      id: 'wh-1',
+      providerId: 'prov-2',
+      eventType: 'payment_intent.succeeded',
+      status: 'PROCESSED',
+      processedAt: at(7),
+      lastError: null,
+      createdAt: at(7),
+    }]);
+    (prisma.dispute.findMany as jest.Mock).mockResolvedValue([{
+      id: 'dp-1',
+      transactionId: 'txn-1',
+      status: 'NEEDS_RESPONSE',
+      reason: 'fraudulent',
+      amount: 7500n,
+      currency: 'USD',
+      dueBy: null,
+      createdAt: at(10),
+    }]);
+
+    const events = await service.getTimeline('txn-1');
+
+    expect(events!.map((e) => e.type)).toEqual([
+      'fraud_check',
+      'ledger_entry',
+      'fraud_review',
+      'webhook_received',
+      'refund',
+      'ledger_entry',
+      'dispute',
+    ]);
+    expect(events![5]!.transactionId).toBe('refund-1');
+    expect(events![4]!.data).toMatchObject({ refundId: 'refund-1', amount: 2500n, reason: 'Damaged' });
+  });
+
+  it('should look up webhooks by the provider transaction IDs of the payment and its refunds', async () => {
+    (prisma.transaction.findMany as jest.Mock).mockResolvedValue([
+      { id: 'refund-1', providerTransactionId: 're_1', createdAt: at(8) },
+    ]);
+
+    await service.getTimeline('txn-1');
+
+    const { where } = (prisma.webhookEvent.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.providerId).toBe('prov-2');
+    expect(where.OR).toContainEqual({ payload: { path: ['payment_intent'], equals: 'pi_123' } });
+    expect(where.OR).toContainEqual({ payload: { path: ['id'], equals: 're_1' } });
+  });
+});
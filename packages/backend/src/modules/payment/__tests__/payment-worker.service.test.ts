@@ -0,0 +1,104 @@
+import { PaymentWorkerService } from '../payment-worker.service';
+
+jest.mock('../payment-queue.service', () => ({
+  paymentQueueService: {
+    claim: jest.fn(),
+    complete: jest.fn(),
+    retryLater: jest.fn(),
+    reapExpired: jest.fn(),
+  },
+}));
+
+jest.mock('../payment.service', () => ({
+  paymentService: {
+    processQueuedPayment: jest.fn(),
+    failQueuedPayment: jest.fn(),
+  },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PAYMENT_QUEUE_WORKERS: 2,
+      PAYMENT_QUEUE_POLL_INTERVAL_MS: 1000,
+      PAYMENT_QUEUE_VISIBILITY_TIMEOUT_MS: 120000,
+      PAYMENT_QUEUE_MAX_ATTEMPTS: 5,
+      PAYMENT_QUEUE_RETRY_DELAY_MS: 5000,
+    },
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { paymentQueueService } from '../payment-queue.service';
+import { paymentService } from '../payment.service';
+
+const job = {
+  transactionId: 'txn-1',
+  paymentMethod: { type: 'CARD', token: 'tok_saved' },
+};
+
+describe('PaymentWorkerService', () => {
+  let service: PaymentWorkerService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentWorkerService as any).instance = null;
+    service = PaymentWorkerService.getInstance();
+  });
+
+  describe('processNext', () => {
+    it('should report an empty queue', async () => {
+      (paymentQueueService.claim as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.processNext()).resolves.toBe(false);
+      expect(paymentQueueService.claim).toHaveBeenCalledWith(120000);
+    });
+
+    it('should complete the job once the payment is processed', async () => {
+      (paymentQueueService.claim as jest.Mock).mockResolvedValue({ job, attempts: 1 });
+
+      await expect(service.processNext()).resolves.toBe(true);
+
+      expect(paymentService.processQueuedPayment).toHaveBeenCalledWith(job);
+      expect(paymentQueueService.complete).toHaveBeenCalledWith('txn-1');
+      expect(service.getHealth()).toMatchObject({ processed: 1, failed: 0 });
+    });
+
+    it('should back off exponentially when processing throws', async () => {
+      (paymentQueueService.claim as jest.Mock).mockResolvedValue({ job, attempts: 3 });
+      (paymentService.processQueuedPayment as jest.Mock).mockRejectedValue(new Error('Database unavailable'));
+
+      await service.processNext();
+
+      expect(paymentQueueService.complete).not.toHaveBeenCalled();
+      expect(paymentQueueService.retryLater).toHaveBeenCalledWith('txn-1', 20000, 'Database unavailable');
+      expect(service.getHealth()).toMatchObject({ processed: 0, failed: 1 });
+    });
+  });
+
+  describe('reap', () => {
+    it('should fail the payments behind dead-lettered jobs', async () => {
+      (paymentQueueService.reapExpired as jest.Mock).mockResolvedValue(['txn-1', 'txn-2']);
+      (paymentService.failQueuedPayment as jest.Mock)
+        .mockRejectedValueOnce(new Error('Transaction txn-1 is COMPLETED'))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(service.reap()).resolves.toBe(2);
+
+      expect(paymentQueueService.reapExpired).toHaveBeenCalledWith(5);
+      expect(paymentService.failQueuedPayment).toHaveBeenCalledWith(
+        'txn-2',
+        'Asynchronous processing failed after 5 attempts'
+      );
+    });
+  });
+
+  it('should report no workers until started', () => {
+    expect(service.getHealth()).toEqual({
+      running: false, workers: 0, busy: 0, stalled: 0, processed: 0, failed: 0,
+    });
+  });
+});
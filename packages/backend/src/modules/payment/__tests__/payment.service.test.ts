@@ -0,0 +1,1002 @@
+import { PaymentService } from '../payment.service';
+import { PaymentError } from '../payment.types';
+import { ProviderError } from '../../provider/provider.types';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    customer: { findUnique: jest.fn() },
+    transaction: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    paymentProvider: { findUnique: jest.fn() },
+    paymentRoutingDecision: { upsert: jest.fn() },
+    paymentAttempt: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    paymentCapture: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    transactionStatusHistory: { create: jest.fn() },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('../../provider/provider.service', () => ({
+  providerService: {
+    getAdapter: jest.fn(),
+    updateMetrics: jest.fn(),
+  },
+}));
+
+jest.mock('../../provider/circuit-breaker.service', () => ({
+  circuitBreakerService: { admitRequest: jest.fn() },
+}));
+
+jest.mock('../../merchant-webhook/merchant-webhook.service', () => ({
+  merchantWebhookService: { publishTransactionStatus: jest.fn() },
+}));
+
+jest.mock('../../ledger/ledger.service', () => ({
+  ledgerService: {
+    recordPayment: jest.fn(),
+    recordRefund: jest.fn(),
+  },
+}));
+
+jest.mock('../payment-queue.service', () => ({
+  paymentQueueService: { enqueue: jest.fn() },
+}));
+
+jest.mock('../payment-retry.service', () => ({
+  paymentRetryService: { scheduleRetry: jest.fn() },
+}));
+
+jest.mock('../payment-split.service', () => ({
+  paymentSplitService: { settleTransfers: jest.fn() },
+}));
+
+jest.mock('../../fx/fx.service', () => ({ fxService: {} }));
+jest.mock('../../routing/routing.service', () => ({
+  routingService: { selectProvider: jest.fn(), getNextFallback: jest.fn() },
+}));
+
+jest.mock('../../payment-method/payment-method.service', () => ({
+  paymentMethodService: { getChargeableMethod: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: { env: { NODE_ENV: 'test', LOG_LEVEL: 'error' } },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { providerService } from '../../provider/provider.service';
+import { circuitBreakerService } from '../../provider/circuit-breaker.service';
+import { ledgerService } from '../../ledger/ledger.service';
+import { routingService } from '../../routing/routing.service';
+import { paymentMethodService } from '../../payment-method/payment-method.service';
+import { paymentQueueService } from '../payment-queue.service';
+import { paymentRetryService } from '../payment-retry.service';
+
+const baseTransaction = {
+  id: 'txn-1',
+  merchantId: 'm-1',
+  customerId: null,
+  providerId: 'p-1',
+  paymentMethodId: null,
+  parentTransactionId: null,
+  type: 'PAYMENT',
+  status: 'PENDING',
+  amount: 10000n,
+  currency: 'USD',
+  convertedAmount: null,
+  convertedCurrency: null,
+  capturedAmount: 0n,
+  refundedAmount: 0n,
+  fxRateId: null,
+  providerTransactionId: 'pi_123',
+  providerResponse: null,
+  nextAction: null,
+  description: null,
+  metadata: {},
+  idempotencyKey: null,
+  failureReason: null,
+  capturedAt: null,
+  refundedAt: null,
+  cancelledAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  const adapter = { authorize: jest.fn(), capture: jest.fn(), refund: jest.fn(), confirmAuthentication: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PaymentService as any).instance = null;
+    service = PaymentService.getInstance();
+
+    (prisma.paymentProvider.findUnique as jest.Mock).mockResolvedValue({ id: 'p-1', code: 'stripe' });
+    (prisma.customer.findUnique as jest.Mock).mockResolvedValue({ merchantId: 'm-1' });
+    (providerService.getAdapter as jest.Mock).mockResolvedValue(adapter);
+    (circuitBreakerService.admitRequest as jest.Mock).mockResolvedValue(true);
+    (prisma.$transaction as jest.Mock).mockImplementation((arg: unknown) =>
+      typeof arg === 'function' ? arg(prisma) : Promise.all(arg as unknown[])
+    );
+    (prisma.transaction.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseTransaction, ...data })
+    );
+    (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseTransaction, id: 'refund-1', ...data })
+    );
+    (prisma.paymentCapture.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'cap-1', createdAt: new Date(), ...data })
+    );
+  });
+
+  describe('createPayment', () => {
+    const savedCard = {
+      id: 'pm-1', customerId: 'c-1', type: 'CARD', token: 'tok_saved',
+      last4: '4242', brand: 'visa', expiryMonth: 12, expiryYear: 2030,
+    };
+
+    beforeEach(() => {
+      (routingService.selectProvider as jest.Mock).mockResolvedValue({
+        selectedProviderId: 'p-1', fallbackProviderIds: ['p-2'], score: 82.5, reason: 'Selected by scoring algorithm',
+        providerScores: [], evaluatedAt: new Date(),
+      });
+      (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...baseTransaction, providerId: null, providerTransactionId: null, ...data })
+      );
+      // The state machine reads the status before each transition
+      (prisma.transaction.findUnique as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          ...baseTransaction,
+          status: (prisma.transaction.update as jest.Mock).mock.calls.length ? 'PROCESSING' : 'PENDING',
+        })
+      );
+      adapter.authorize.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_456', status: 'captured', amount: 10000n, currency: 'USD',
+      });
+    });
+
+    it('should charge a saved payment method by its token', async () => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+
+      const result = await service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD', paymentMethodId: 'pm-1',
+      });
+
+      expect(paymentMethodService.getChargeableMethod).toHaveBeenCalledWith('c-1', 'pm-1');
+      expect(routingService.selectProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentMethodType: 'CARD', cardBrand: 'visa', cardLast4: '4242' })
+      );
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ paymentMethodId: 'pm-1' }),
+      });
+      expect(adapter.authorize).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentMethod: expect.objectContaining({ type: 'CARD', token: 'tok_saved' }) })
+      );
+      expect(result.status).toBe('COMPLETED');
+    });
+
+    it('should store the routing decision with the transaction', async () => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+
+      await service.createPayment({ merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD' });
+
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          routingDecision: {
+            create: expect.objectContaining({ selectedProviderId: 'p-1', fallbackProviderIds: ['p-2'], score: 82.5 }),
+          },
+        }),
+      });
+    });
+
+    it('should record an attempt per provider tried', async () => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+      adapter.authorize
+        .mockRejectedValueOnce(new ProviderError('Timed out', 'TIMEOUT', { rawError: { status: 504 } }))
+        .mockResolvedValueOnce({
+          success: true, providerTransactionId: 'PAY-1', status: 'captured', amount: 10000n, currency: 'USD',
+        });
+
+      const result = await service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD',
+      });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(prisma.paymentAttempt.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          providerId: 'p-1',
+          attemptNumber: 1,
+          status: 'ERROR',
+          errorCode: 'TIMEOUT',
+          isRetryable: true,
+          rawResponse: { status: 504 },
+        }),
+      });
+      expect(prisma.paymentAttempt.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({
+          providerId: 'p-2',
+          attemptNumber: 2,
+          status: 'SUCCEEDED',
+          transactionStatus: 'COMPLETED',
+          providerTransactionId: 'PAY-1',
+        }),
+      });
+    });
+
+    it('should fall back when the circuit breaker refuses the selected provider', async () => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+      (circuitBreakerService.admitRequest as jest.Mock).mockResolvedValueOnce(false);
+      adapter.authorize.mockResolvedValueOnce({
+        success: true, providerTransactionId: 'PAY-1', status: 'captured', amount: 10000n, currency: 'USD',
+      });
+
+      const result = await service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD',
+      });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(circuitBreakerService.admitRequest).toHaveBeenNthCalledWith(1, 'p-1', 'm-1');
+      expect(circuitBreakerService.admitRequest).toHaveBeenNthCalledWith(2, 'p-2', 'm-1');
+      expect(adapter.authorize).toHaveBeenCalledTimes(1);
+      expect(prisma.paymentAttempt.create).toHaveBeenCalledTimes(1);
+      expect(prisma.paymentAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ providerId: 'p-2', status: 'SUCCEEDED' }),
+      });
+    });
+
+    it("should use the customer's default method when none is given", async () => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+
+      await service.createPayment({ merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD' });
+
+      expect(paymentMethodService.getChargeableMethod).toHaveBeenCalledWith('c-1', undefined);
+    });
+
+    it('should require a customer to pay with a saved method', async () => {
+      await expect(
+        service.createPayment({ merchantId: 'm-1', amount: 10000n, currency: 'USD', paymentMethodId: 'pm-1' })
+      ).rejects.toThrow('customerId is required');
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to charge another merchant's customer", async () => {
+      (prisma.customer.findUnique as jest.Mock).mockResolvedValue({ merchantId: 'm-2' });
+
+      await expect(service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD', paymentMethodId: 'pm-1',
+      })).rejects.toMatchObject({ code: 'CUSTOMER_NOT_FOUND' });
+
+      expect(paymentMethodService.getChargeableMethod).not.toHaveBeenCalled();
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+      expect(adapter.authorize).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('async payments', () => {
+    beforeEach(() => {
+      (routingService.selectProvider as jest.Mock).mockResolvedValue({
+        selectedProviderId: 'p-1', fallbackProviderIds: [], score: 90, reason: 'Selected by scoring algorithm',
+        providerScores: [], evaluatedAt: new Date(),
+      });
+      (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...baseTransaction, providerId: null, providerTransactionId: null, ...data })
+      );
+    });
+
+    it('should queue the payment and return it as processing without calling a provider', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...baseTransaction, status: 'PENDING' });
+
+      const result = await service.createPayment({
+        merchantId: 'm-1', amount: 10000n, currency: 'USD', async: true, capture: false,
+        paymentMethod: { type: 'CARD', token: 'tok_visa' },
+      });
+
+      expect(result.status).toBe('PROCESSING');
+      expect(routingService.selectProvider).not.toHaveBeenCalled();
+      expect(adapter.authorize).not.toHaveBeenCalled();
+      expect(paymentQueueService.enqueue).toHaveBeenCalledWith({
+        transactionId: 'txn-1',
+        paymentMethod: { type: 'CARD', token: 'tok_visa' },
+        capture: false,
+      });
+    });
+
+    it('should keep the CVV and holder details out of the queued job', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...baseTransaction, status: 'PENDING' });
+
+      await service.createPayment({
+        merchantId: 'm-1', amount: 10000n, currency: 'USD', async: true,
+        paymentMethod: { type: 'CARD', token: 'tok_visa', cvv: '123', holderName: 'Jane Doe' },
+      });
+
+      const [job] = (paymentQueueService.enqueue as jest.Mock).mock.calls[0];
+      expect(JSON.parse(JSON.stringify(job.paymentMethod))).toEqual({ type: 'CARD', token: 'tok_visa' });
+    });
+
+    it('should refuse to queue raw card numbers', async () => {
+      await expect(service.createPayment({
+        merchantId: 'm-1', amount: 10000n, currency: 'USD', async: true,
+        paymentMethod: { type: 'CARD', cardNumber: '4242424242424242' },
+      })).rejects.toThrow('saved payment method or a token');
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail the payment when it cannot be queued', async () => {
+      (prisma.transaction.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...baseTransaction, status: 'PENDING' })
+        .mockResolvedValueOnce({ ...baseTransaction, status: 'PROCESSING' });
+      (paymentQueueService.enqueue as jest.Mock).mockRejectedValueOnce(new Error('Connection is closed'));
+
+      await expect(service.createPayment({
+        merchantId: 'm-1', amount: 10000n, currency: 'USD', async: true,
+        paymentMethod: { type: 'CARD', token: 'tok_visa' },
+      })).rejects.toMatchObject({ code: 'QUEUE_UNAVAILABLE' });
+
+      expect(prisma.transaction.update).toHaveBeenLastCalledWith({
+        where: { id: 'txn-1', status: 'PROCESSING' },
+        data: { failureReason: 'Payment could not be queued for processing', status: 'FAILED' },
+      });
+    });
+
+    it('should route and charge a queued payment in the worker', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', providerId: null, providerTransactionId: null,
+      });
+      adapter.authorize.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_789', status: 'captured', amount: 10000n, currency: 'USD',
+      });
+
+      await service.processQueuedPayment({
+        transactionId: 'txn-1', paymentMethod: { type: 'CARD', token: 'tok_visa' }, capture: true,
+      });
+
+      expect(routingService.selectProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ merchantId: 'm-1', paymentMethodType: 'CARD' })
+      );
+      expect(prisma.paymentRoutingDecision.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { transactionId: 'txn-1' } })
+      );
+      expect(adapter.authorize).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentMethod: { type: 'CARD', token: 'tok_visa' }, capture: true, idempotencyKey: 'txn-1',
+        })
+      );
+    });
+
+    it('should skip a redelivered job whose bank debit the provider already accepted', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', providerTransactionId: 'pi_ach',
+      });
+
+      await service.processQueuedPayment({ transactionId: 'txn-1', paymentMethod: { type: 'BANK_TRANSFER', token: 'tok_bank' } });
+
+      expect(routingService.selectProvider).not.toHaveBeenCalled();
+      expect(adapter.authorize).not.toHaveBeenCalled();
+    });
+
+    it('should settle a redelivered job from the attempt its earlier delivery recorded', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', providerId: null, providerTransactionId: null,
+      });
+      (prisma.paymentAttempt.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: 'att-1', providerId: 'p-2', status: 'SUCCEEDED', transactionStatus: 'COMPLETED',
+        providerTransactionId: 'pi_789', rawResponse: { id: 'pi_789' }, createdAt: new Date(),
+      });
+
+      await service.processQueuedPayment({ transactionId: 'txn-1', paymentMethod: { type: 'CARD', token: 'tok_visa' } });
+
+      expect(prisma.paymentAttempt.findFirst).toHaveBeenCalledWith({
+        where: { transactionId: 'txn-1', status: { in: ['SUCCEEDED', 'REQUIRES_ACTION'] } },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(adapter.authorize).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'PROCESSING' },
+        data: expect.objectContaining({
+          status: 'COMPLETED', providerId: 'p-2', providerTransactionId: 'pi_789', capturedAmount: 10000n,
+        }),
+      });
+      expect(ledgerService.recordPayment).toHaveBeenCalledWith('txn-1', 10000n, 'USD', 'm-1');
+    });
+
+    it('should leave a redelivered job awaiting the customer when its earlier attempt needed action', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', providerId: null, providerTransactionId: null,
+      });
+      (prisma.paymentAttempt.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: 'att-1', providerId: 'p-1', status: 'REQUIRES_ACTION', transactionStatus: null,
+        providerTransactionId: 'pi_3ds', rawResponse: null, createdAt: new Date(),
+      });
+
+      await service.processQueuedPayment({ transactionId: 'txn-1', paymentMethod: { type: 'CARD', token: 'tok_visa' } });
+
+      expect(adapter.authorize).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'REQUIRES_ACTION', providerTransactionId: 'pi_3ds' }),
+      });
+      expect(ledgerService.recordPayment).not.toHaveBeenCalled();
+    });
+
+    it('should skip a redelivered job whose payment already finished', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...baseTransaction, status: 'COMPLETED' });
+
+      await service.processQueuedPayment({ transactionId: 'txn-1', paymentMethod: { type: 'CARD', token: 'tok_visa' } });
+
+      expect(routingService.selectProvider).not.toHaveBeenCalled();
+      expect(adapter.authorize).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('merchant-initiated retries', () => {
+    const savedCard = {
+      id: 'pm-1', customerId: 'c-1', type: 'CARD', token: 'tok_saved',
+      last4: '4242', brand: 'visa', expiryMonth: 12, expiryYear: 2030,
+    };
+
+    beforeEach(() => {
+      (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue(savedCard);
+      (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...baseTransaction, providerId: null, providerTransactionId: null, ...data })
+      );
+      (prisma.transaction.findUnique as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          ...baseTransaction,
+          customerId: 'c-1',
+          paymentMethodId: 'pm-1',
+          status: (prisma.transaction.update as jest.Mock).mock.calls.length ? 'PROCESSING' : 'PENDING',
+        })
+      );
+    });
+
+    it('should schedule a retry instead of failing when every provider fails', async () => {
+      (routingService.selectProvider as jest.Mock).mockResolvedValue({
+        selectedProviderId: 'p-1', fallbackProviderIds: ['p-2'], score: 80, reason: 'Selected by scoring algorithm',
+        providerScores: [], evaluatedAt: new Date(),
+      });
+      adapter.authorize.mockRejectedValue(new ProviderError('Provider unavailable', 'PROVIDER_UNAVAILABLE'));
+      (paymentRetryService.scheduleRetry as jest.Mock).mockResolvedValue({ id: 'retry-1' });
+
+      const result = await service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD', merchantInitiated: true,
+      });
+
+      expect(result.status).toBe('PROCESSING');
+      expect(paymentRetryService.scheduleRetry).toHaveBeenCalledWith({
+        transactionId: 'txn-1',
+        merchantId: 'm-1',
+        retryNumber: 1,
+        errorCode: 'PROVIDER_UNAVAILABLE',
+        errorMessage: 'Provider unavailable',
+        excludedProviderIds: ['p-1', 'p-2'],
+        capture: true,
+      });
+      expect(prisma.transaction.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'FAILED' }) })
+      );
+    });
+
+    it('should fail the payment when its policy allows no retry', async () => {
+      (routingService.selectProvider as jest.Mock).mockResolvedValue({
+        selectedProviderId: 'p-1', fallbackProviderIds: [], score: 80, reason: 'Selected by scoring algorithm',
+        providerScores: [], evaluatedAt: new Date(),
+      });
+      adapter.authorize.mockRejectedValue(new ProviderError('Insufficient funds', 'INSUFFICIENT_FUNDS'));
+      (paymentRetryService.scheduleRetry as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.createPayment({
+        merchantId: 'm-1', customerId: 'c-1', amount: 10000n, currency: 'USD', merchantInitiated: true,
+      })).rejects.toMatchObject({ code: 'ALL_PROVIDERS_FAILED' });
+      expect(paymentRetryService.scheduleRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ errorCode: 'INSUFFICIENT_FUNDS', excludedProviderIds: ['p-1'] })
+      );
+    });
+
+    it('should reject merchant-initiated payments without a saved method', async () => {
+      await expect(service.createPayment({
+        merchantId: 'm-1', amount: 10000n, currency: 'USD', merchantInitiated: true,
+        paymentMethod: { type: 'CARD', token: 'tok_visa' },
+      })).rejects.toThrow('saved payment method');
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should retry through a provider that has not failed the payment yet', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', customerId: 'c-1', paymentMethodId: 'pm-1', providerTransactionId: null,
+      });
+      (routingService.getNextFallback as jest.Mock).mockResolvedValue({
+        selectedProviderId: 'p-3', fallbackProviderIds: [], score: 70, reason: 'Fallback after 2 failures',
+        providerScores: [], evaluatedAt: new Date(),
+      });
+      (prisma.paymentAttempt.count as jest.Mock).mockResolvedValue(2);
+      (prisma.paymentProvider.findUnique as jest.Mock).mockResolvedValue({ id: 'p-3', code: 'adyen' });
+      adapter.authorize.mockResolvedValue({
+        success: true, providerTransactionId: 'psp_1', status: 'captured', amount: 10000n, currency: 'USD',
+      });
+
+      const outcome = await service.processScheduledRetry({
+        id: 'retry-1', transactionId: 'txn-1', retryNumber: 1, status: 'PROCESSING', errorCode: 'TIMEOUT',
+        errorMessage: null, excludedProviderIds: ['p-1', 'p-2'], capture: true, scheduledFor: new Date(),
+        providerId: null, outcome: null, attemptedAt: new Date(), createdAt: new Date(), updatedAt: new Date(),
+      });
+
+      expect(routingService.getNextFallback).toHaveBeenCalledWith(
+        expect.objectContaining({ merchantId: 'm-1', paymentMethodType: 'CARD', cardBrand: 'visa' }),
+        ['p-1', 'p-2']
+      );
+      expect(adapter.authorize).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentMethod: expect.objectContaining({ token: 'tok_saved' }) })
+      );
+      expect(prisma.paymentAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ providerId: 'p-3', attemptNumber: 3, status: 'SUCCEEDED' }),
+      });
+      expect(outcome).toMatchObject({ status: 'SUCCEEDED', outcome: 'COMPLETED' });
+    });
+
+    it('should not charge again when a stale retry already went through', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', customerId: 'c-1', paymentMethodId: 'pm-1', providerTransactionId: null,
+      });
+      (prisma.paymentAttempt.findFirst as jest.Mock).mockResolvedValueOnce({
+        id: 'att-3', providerId: 'p-3', status: 'SUCCEEDED', transactionStatus: 'COMPLETED',
+        providerTransactionId: 'psp_1', rawResponse: null, createdAt: new Date(),
+      });
+
+      const outcome = await service.processScheduledRetry({
+        id: 'retry-1', transactionId: 'txn-1', retryNumber: 1, status: 'PROCESSING', errorCode: 'TIMEOUT',
+        errorMessage: null, excludedProviderIds: ['p-1', 'p-2'], capture: true, scheduledFor: new Date(),
+        providerId: null, outcome: null, attemptedAt: new Date(), createdAt: new Date(), updatedAt: new Date(),
+      });
+
+      expect(adapter.authorize).not.toHaveBeenCalled();
+      expect(routingService.getNextFallback).not.toHaveBeenCalled();
+      expect(outcome).toEqual({ status: 'SUCCEEDED', providerId: 'p-3', outcome: 'COMPLETED' });
+    });
+
+    it('should fail the payment when no provider is left to retry', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PROCESSING', customerId: 'c-1', paymentMethodId: 'pm-1', providerTransactionId: null,
+      });
+      (routingService.getNextFallback as jest.Mock).mockResolvedValue(null);
+
+      const outcome = await service.processScheduledRetry({
+        id: 'retry-1', transactionId: 'txn-1', retryNumber: 1, status: 'PROCESSING', errorCode: 'TIMEOUT',
+        errorMessage: null, excludedProviderIds: ['p-1', 'p-2'], capture: true, scheduledFor: new Date(),
+        providerId: null, outcome: null, attemptedAt: new Date(), createdAt: new Date(), updatedAt: new Date(),
+      });
+
+      expect(outcome).toEqual({ status: 'FAILED', outcome: 'No payment providers left to retry after TIMEOUT' });
+      expect(adapter.authorize).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenLastCalledWith({
+        where: { id: 'txn-1', status: 'PROCESSING' },
+        data: { failureReason: 'No payment providers left to retry after TIMEOUT', status: 'FAILED' },
+      });
+    });
+  });
+
+  describe('capturePayment', () => {
+    // Reads see earlier writes, so a reservation shows up in the next capture
+    const storeTransaction = (initial: Record<string, unknown>) => {
+      let row = initial;
+      (prisma.transaction.findUnique as jest.Mock).mockImplementation(() => Promise.resolve(row));
+      (prisma.transaction.update as jest.Mock).mockImplementation(({ data }) => {
+        row = { ...row, ...data };
+        return Promise.resolve(row);
+      });
+    };
+
+    it('should record a partial capture and keep the authorization open', async () => {
+      storeTransaction(baseTransaction);
+      adapter.capture.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', capturedAmount: 4000n, currency: 'USD',
+      });
+
+      const result = await service.capturePayment('txn-1', { amount: 4000n });
+
+      expect(adapter.capture).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 4000n, final: false })
+      );
+      expect(result.status).toBe('PARTIALLY_CAPTURED');
+      expect(result.capturedAmount).toBe(4000n);
+      expect(result.capturableAmount).toBe(6000n);
+      expect(prisma.paymentCapture.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 4000n, isFinal: false, releasedAmount: 0n }),
+      });
+      expect(ledgerService.recordPayment).toHaveBeenCalledWith('txn-1', 4000n, 'USD', 'm-1');
+    });
+
+    it('should not fail the capture when the ledger posting fails', async () => {
+      storeTransaction(baseTransaction);
+      (ledgerService.recordPayment as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+      adapter.capture.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', capturedAmount: 10000n, currency: 'USD',
+      });
+
+      const result = await service.capturePayment('txn-1', {});
+
+      expect(result.status).toBe('COMPLETED');
+    });
+
+    it('should complete the payment when the remaining amount is captured', async () => {
+      storeTransaction({
+        ...baseTransaction, status: 'PARTIALLY_CAPTURED', capturedAmount: 4000n,
+      });
+      adapter.capture.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', capturedAmount: 6000n, currency: 'USD',
+      });
+
+      const result = await service.capturePayment('txn-1', {});
+
+      expect(adapter.capture).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 6000n, final: true })
+      );
+      expect(result.status).toBe('COMPLETED');
+      expect(result.capturedAmount).toBe(10000n);
+      expect(result.capturableAmount).toBe(0n);
+    });
+
+    it('should release the remainder on a final partial capture', async () => {
+      storeTransaction(baseTransaction);
+      adapter.capture.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', capturedAmount: 2500n, currency: 'USD',
+      });
+
+      const result = await service.capturePayment('txn-1', { amount: 2500n, final: true });
+
+      expect(result.status).toBe('COMPLETED');
+      expect(prisma.paymentCapture.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ isFinal: true, releasedAmount: 7500n }),
+      });
+    });
+
+    it('should capture a converted payment in the amount and currency the provider authorized', async () => {
+      const converted = { ...baseTransaction, convertedAmount: 9200n, convertedCurrency: 'EUR' };
+      storeTransaction(converted);
+      adapter.capture.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', capturedAmount: 9200n, currency: 'EUR',
+      });
+
+      const result = await service.capturePayment('txn-1', {});
+
+      expect(adapter.capture).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 9200n, currency: 'EUR', final: true })
+      );
+      expect(prisma.paymentCapture.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 9200n, currency: 'EUR', releasedAmount: 0n }),
+      });
+      expect(result.capturedAmount).toBe(9200n);
+      expect(result.authorizedAmount).toBe(9200n);
+      expect(ledgerService.recordPayment).toHaveBeenCalledWith('txn-1', 9200n, 'EUR', 'm-1');
+    });
+
+    it('should reserve each capture so concurrent ones cannot exceed the authorization', async () => {
+      storeTransaction(baseTransaction);
+      // The row lock runs transactions on the payment one at a time
+      let locked: Promise<unknown> = Promise.resolve();
+      (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => Promise<unknown>) => {
+        const run = locked.then(() => fn(prisma));
+        locked = run.catch(() => undefined);
+        return run;
+      });
+      adapter.capture.mockImplementation(({ amount }) =>
+        Promise.resolve({ success: true, providerTransactionId: 'pi_123', capturedAmount: amount, currency: 'USD' })
+      );
+
+      const results = await Promise.allSettled([
+        service.capturePayment('txn-1', { amount: 6000n }),
+        service.capturePayment('txn-1', { amount: 6000n }),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason.message).toContain('exceeds');
+      expect(adapter.capture).toHaveBeenCalledTimes(1);
+      expect((results[0] as PromiseFulfilledResult<any>).value.capturedAmount).toBe(6000n);
+    });
+
+    it('should release the reservation when the provider capture fails', async () => {
+      storeTransaction(baseTransaction);
+      adapter.capture.mockRejectedValueOnce(ProviderError.timeout());
+
+      await expect(service.capturePayment('txn-1', { amount: 4000n })).rejects.toBeInstanceOf(PaymentError);
+
+      expect(prisma.transaction.update).toHaveBeenLastCalledWith({
+        where: { id: 'txn-1' },
+        data: { capturedAmount: 0n },
+      });
+    });
+
+    it('should reject a capture above the remaining authorization', async () => {
+      storeTransaction({
+        ...baseTransaction, status: 'PARTIALLY_CAPTURED', capturedAmount: 8000n,
+      });
+
+      await expect(
+        service.capturePayment('txn-1', { amount: 3000n })
+      ).rejects.toThrow(PaymentError);
+      expect(adapter.capture).not.toHaveBeenCalled();
+    });
+
+    it('should reject captures on completed payments', async () => {
+      storeTransaction({
+        ...baseTransaction, status: 'COMPLETED', capturedAmount: 10000n,
+      });
+
+      await expect(service.capturePayment('txn-1', {})).rejects.toThrow('expected PENDING or PARTIALLY_CAPTURED');
+    });
+  });
+
+  describe('releaseRemainingAuthorization', () => {
+    it('should complete a partially captured payment without capturing the rest', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...baseTransaction, status: 'PARTIALLY_CAPTURED', capturedAmount: 4000n,
+      });
+
+      const result = await service.releaseRemainingAuthorization('txn-1', 'authorization_expired');
+
+      expect(adapter.capture).not.toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'PARTIALLY_CAPTURED' },
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      });
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          reason: 'authorization_expired',
+          metadata: { releasedAmount: '6000' },
+        }),
+      });
+      expect(result.status).toBe('COMPLETED');
+    });
+
+    it('should reject payments that are not partially captured', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(baseTransaction);
+
+      await expect(
+        service.releaseRemainingAuthorization('txn-1', 'authorization_expired')
+      ).rejects.toThrow('expected PARTIALLY_CAPTURED');
+    });
+  });
+
+  describe('confirmPayment', () => {
+    const challenged = {
+      ...baseTransaction,
+      status: 'REQUIRES_ACTION',
+      nextAction: { type: 'three_ds_challenge', url: 'https://hooks.stripe.com/3d_secure_2/authenticate/pi_123' },
+    };
+
+    it('should capture the payment once the challenge succeeds', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(challenged);
+      adapter.confirmAuthentication.mockResolvedValue({
+        success: true, providerTransactionId: 'pi_123', status: 'captured', amount: 10000n, currency: 'USD',
+      });
+
+      const result = await service.confirmPayment('txn-1');
+
+      expect(adapter.confirmAuthentication).toHaveBeenCalledWith({ providerTransactionId: 'pi_123' });
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'REQUIRES_ACTION' },
+        data: expect.objectContaining({ status: 'COMPLETED', capturedAmount: 10000n }),
+      });
+      expect(result.status).toBe('COMPLETED');
+      expect(ledgerService.recordPayment).toHaveBeenCalledWith('txn-1', 10000n, 'USD', 'm-1');
+    });
+
+    it('should fail the payment when the cardholder fails the challenge', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(challenged);
+      adapter.confirmAuthentication.mockRejectedValue(
+        ProviderError.authenticationFailed('The cardholder failed 3D Secure authentication')
+      );
+
+      await expect(service.confirmPayment('txn-1')).rejects.toThrow(PaymentError);
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'REQUIRES_ACTION' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(ledgerService.recordPayment).not.toHaveBeenCalled();
+    });
+
+    it('should leave the challenge open after a transient provider error', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(challenged);
+      adapter.confirmAuthentication.mockRejectedValue(ProviderError.networkError());
+
+      await expect(service.confirmPayment('txn-1')).rejects.toThrow(PaymentError);
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject payments that are not awaiting authentication', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(baseTransaction);
+
+      await expect(service.confirmPayment('txn-1')).rejects.toThrow('expected REQUIRES_ACTION');
+      expect(adapter.confirmAuthentication).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPayment', () => {
+    const capturedTransaction = {
+      ...baseTransaction, status: 'COMPLETED', capturedAmount: 10000n,
+    };
+
+    // The state machine re-reads both the parent payment and the refund it creates
+    const mockTransactions = (parent: object) => {
+      (prisma.transaction.findUnique as jest.Mock).mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.id === 'refund-1'
+            ? { ...baseTransaction, id: 'refund-1', type: 'REFUND', parentTransactionId: 'txn-1' }
+            : parent
+        )
+      );
+    };
+
+    const mockRefundTotals = (reserved: bigint, completed: bigint) => {
+      (prisma.transaction.aggregate as jest.Mock)
+        .mockResolvedValueOnce({ _sum: { amount: reserved || null } })
+        .mockResolvedValueOnce({ _sum: { amount: completed || null } });
+    };
+
+    beforeEach(() => {
+      adapter.refund.mockImplementation(({ amount }) => Promise.resolve({
+        success: true, providerRefundId: 're_1', refundedAmount: amount, currency: 'USD', status: 'completed',
+      }));
+    });
+
+    it('should mark the payment partially refunded after a partial refund', async () => {
+      mockTransactions(capturedTransaction);
+      mockRefundTotals(0n, 4000n);
+
+      const result = await service.refundPayment('txn-1', { amount: 4000n });
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REFUND', status: 'PENDING', parentTransactionId: 'txn-1' }),
+      });
+      expect(result.amount).toBe(4000n);
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'COMPLETED' },
+        data: expect.objectContaining({ refundedAmount: 4000n, status: 'PARTIALLY_REFUNDED' }),
+      });
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ transactionId: 'refund-1', fromStatus: null, toStatus: 'PENDING' }),
+      });
+      expect(ledgerService.recordRefund).toHaveBeenCalledWith(result.id, 4000n, 'USD', 'm-1');
+    });
+
+    it('should allow further refunds until the balance is exhausted', async () => {
+      mockTransactions({ ...capturedTransaction, status: 'PARTIALLY_REFUNDED', refundedAmount: 4000n });
+      mockRefundTotals(4000n, 10000n);
+
+      await service.refundPayment('txn-1', {});
+
+      expect(adapter.refund).toHaveBeenCalledWith(expect.objectContaining({ amount: 6000n }));
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'PARTIALLY_REFUNDED' },
+        data: expect.objectContaining({ refundedAmount: 10000n, status: 'REFUNDED' }),
+      });
+    });
+
+    it('should reject refunds above the remaining balance including in-flight refunds', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...capturedTransaction, status: 'PARTIALLY_REFUNDED', refundedAmount: 6000n,
+      });
+      (prisma.transaction.aggregate as jest.Mock).mockResolvedValueOnce({ _sum: { amount: 6000n } });
+
+      await expect(
+        service.refundPayment('txn-1', { amount: 6000n })
+      ).rejects.toThrow('exceeds refundable balance 4000');
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+      expect(adapter.refund).not.toHaveBeenCalled();
+    });
+
+    it('should release the reservation when the provider refund fails', async () => {
+      mockTransactions(capturedTransaction);
+      (prisma.transaction.aggregate as jest.Mock).mockResolvedValueOnce({ _sum: { amount: null } });
+      adapter.refund.mockRejectedValue(new Error('provider down'));
+
+      await expect(service.refundPayment('txn-1', { amount: 1000n })).rejects.toThrow('provider down');
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'refund-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+    });
+
+    it('should refund a converted payment in the currency the provider captured', async () => {
+      mockTransactions({ ...capturedTransaction, convertedAmount: 9200n, convertedCurrency: 'EUR', capturedAmount: 9200n });
+      mockRefundTotals(0n, 9200n);
+      adapter.refund.mockImplementation(({ amount }) => Promise.resolve({
+        success: true, providerRefundId: 're_1', refundedAmount: amount, currency: 'EUR', status: 'completed',
+      }));
+
+      const result = await service.refundPayment('txn-1', {});
+
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REFUND', amount: 9200n, currency: 'EUR' }),
+      });
+      expect(adapter.refund).toHaveBeenCalledWith(expect.objectContaining({ amount: 9200n, currency: 'EUR' }));
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'COMPLETED' },
+        data: expect.objectContaining({ refundedAmount: 9200n, status: 'REFUNDED' }),
+      });
+      expect(ledgerService.recordRefund).toHaveBeenCalledWith(result.id, 9200n, 'EUR', 'm-1');
+    });
+
+    it('should reject refunds on fully refunded payments', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({
+        ...capturedTransaction, status: 'REFUNDED', refundedAmount: 10000n,
+      });
+
+      await expect(service.refundPayment('txn-1', {})).rejects.toThrow(PaymentError);
+    });
+  });
+
+  describe('listPayments', () => {
+    const rows = [
+      { ...baseTransaction, id: 'txn-3', createdAt: new Date('2024-03-03T00:00:00.000Z') },
+      { ...baseTransaction, id: 'txn-2', createdAt: new Date('2024-03-02T00:00:00.000Z') },
+      { ...baseTransaction, id: 'txn-1', createdAt: new Date('2024-03-01T00:00:00.000Z') },
+    ];
+
+    it('should page by cursor without counting, applying the search query', async () => {
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce(rows);
+
+      const first = await service.listPayments({ search: 'status:FAILED amount>5000', limit: 2 });
+
+      expect(first.payments.map((p) => p.id)).toEqual(['txn-3', 'txn-2']);
+      expect(first.pagination).toMatchObject({ limit: 2, hasMore: true });
+      expect(prisma.transaction.count).not.toHaveBeenCalled();
+      expect(prisma.transaction.findMany).toHaveBeenCalledWith({
+        where: { AND: [{ status: 'FAILED' }, { amount: { gt: 5000n } }] },
+        take: 3,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce(rows.slice(2));
+
+      const second = await service.listPayments({
+        cursor: (first.pagination as { nextCursor: string }).nextCursor,
+        limit: 2,
+      });
+
+      expect(second.pagination).toEqual({ limit: 2, hasMore: false, nextCursor: null });
+      expect(prisma.transaction.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: {
+          AND: [
+            {},
+            {
+              OR: [
+                { createdAt: { lt: rows[1]!.createdAt } },
+                { createdAt: rows[1]!.createdAt, id: { lt: 'txn-2' } },
+              ],
+            },
+          ],
+        },
+      }));
+    });
+
+    it('should keep offset pagination with a total when a page is requested', async () => {
+      (prisma.transaction.findMany as jest.Mock).mockResolvedValueOnce(rows.slice(0, 2));
+      (prisma.transaction.count as jest.Mock).mockResolvedValueOnce(3);
+
+      const result = await service.listPayments({ page: 2, limit: 2 });
+
+      expect(result.pagination).toEqual({ page: 2, limit: 2, total: 3, totalPages: 2 });
+      expect(prisma.transaction.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 2, take: 2 }));
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { paymentService } from './payment.service.js';
+import { AuthorizationSweepResult } from './payment.types.js';
+
+export const AUTHORIZATION_EXPIRED_REASON = 'authorization_expired';
+
+const SWEEP_LOCK_KEY = 'authorization-expiry-sweep';
+const MAX_SWEEP_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export class AuthorizationExpiryService {
+  private static instance: AuthorizationExpiryService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AuthorizationExpiryService {
+    if (!AuthorizationExpiryService.instance) {
+      AuthorizationExpiryService.instance = new AuthorizationExpiryService();
+    }
+    return AuthorizationExpiryService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.AUTHORIZATION_SWEEP_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.sweep().catch((error: Error) => {
+        logger.error('Authorization expiry sweep failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Authorization expiry sweeper started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Void (or capture, if the merchant opted in) authorizations that have outlived
+   * their provider's validity window. Partially captured payments have the rest
+   * of their authorization released instead of voided, and payments whose
+   * customer never finished authenticating are cancelled. A payment that fails
+   * to expire backs off before it is tried again, so it cannot hold up newer
+   * ones. Only one instance sweeps at a time.
+   */
+  async sweep(): Promise<AuthorizationSweepResult> {
+    const result: AuthorizationSweepResult = { voided: 0, captured: 0, failed: 0 };
+
+    const lockToken = await cacheService.acquireLock(
+      SWEEP_LOCK_KEY,
+      config.env.AUTHORIZATION_SWEEP_INTERVAL_MS
+    );
+
+    if (!lockToken) {
+      logger.debug('Authorization expiry sweep already running on another instance');
+      return result;
+    }
+
+    try {
+      const providers = await prisma.paymentProvider.findMany({
+        select: { id: true, code: true, config: true },
+      });
+
+      for (const provider of providers) {
+        const expiryHours = this.getExpiryHours(provider.config);
+        const now = new Date();
+        const cutoff = new Date(now.getTime() - expiryHours * 60 * 60 * 1000);
+
+        const expired = await prisma.transaction.findMany({
+          where: {
+            providerId: provider.id,
+            type: TransactionType.PAYMENT,
+            status: {
+              in: [
+                TransactionStatus.PENDING,
+                TransactionStatus.PARTIALLY_CAPTURED,
+                TransactionStatus.REQUIRES_ACTION,
+              ],
+            },
+            providerTransactionId: { not: null },
+            createdAt: { lt: cutoff },
+            OR: [{ nextSweepAt: null }, { nextSweepAt: { lte: now } }],
+          },
+          include: { merchant: { select: { settings: true } } },
+          orderBy: { createdAt: 'asc' },
+          take: config.env.AUTHORIZATION_SWEEP_BATCH_SIZE,
+        });
+
+        for (const transaction of expired) {
+          // Nothing was authorized until the customer finished the challenge
+          const autoCapture =
+            transaction.status !== TransactionStatus.REQUIRES_ACTION &&
+            this.shouldAutoCapture(transaction.merchant.settings);
+
+          try {
+            if (autoCapture) {
+              await paymentService.capturePayment(transaction.id, { final: true });
+              result.captured++;
+            } else if (transaction.status === TransactionStatus.PARTIALLY_CAPTURED) {
+              await paymentService.releaseRemainingAuthorization(transaction.id, AUTHORIZATION_EXPIRED_REASON);
+              result.voided++;
+            } else {
+              await paymentService.cancelPayment(transaction.id, AUTHORIZATION_EXPIRED_REASON);
+              result.voided++;
+            }
+          } catch (error) {
+            result.failed++;
+            const nextSweepAt = await this.backOff(transaction, (error as Error).message);
+            logger.warn('Failed to expire authorization', {
+              transactionId: transaction.id,
+              provider: provider.code,
+              action: autoCapture ? 'capture' : 'void',
+              error: (error as Error).message,
+              nextSweepAt: nextSweepAt?.toISOString(),
+            });
+          }
+        }
+      }
+
+      if (result.voided || result.captured || result.failed) {
+        logger.info('Authorization expiry sweep completed', { ...result });
+      }
+
+      return result;
+    } finally {
+      await cacheService.releaseLock(SWEEP_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Schedule the next try of a payment that failed to expire, doubling the
+   * wait each time. A marker that cannot be written only means the payment
+   * is tried again on the next sweep.
+   */
+  private async backOff(
+    transaction: { id: string; sweepAttempts: number },
+    error: string
+  ): Promise<Date | undefined> {
+    const attempts = transaction.sweepAttempts + 1;
+    const delay = Math.min(
+      config.env.AUTHORIZATION_SWEEP_INTERVAL_MS * Math.pow(2, attempts - 1),
+      MAX_SWEEP_RETRY_DELAY_MS
+    );
+    const nextSweepAt = new Date(Date.now() + delay);
+
+    try {
+      await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: { sweepAttempts: attempts, lastSweepError: error, nextSweepAt },
+      });
+      return nextSweepAt;
+    } catch (updateError) {
+      logger.error('Failed to record authorization expiry failure', {
+        transactionId: transaction.id,
+        error: (updateError as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  private getExpiryHours(providerConfig: unknown): number {
+    const configured = (providerConfig as Record<string, unknown> | null)?.authorizationExpiryHours;
+    return typeof configured === 'number' && configured > 0
+      ? configured
+      : config.env.AUTHORIZATION_EXPIRY_HOURS;
+  }
+
+  private shouldAutoCapture(merchantSettings: unknown): boolean {
+    return (merchantSettings as Record<string, unknown> | null)?.autoCaptureExpiringAuthorizations === true;
+  }
+}
+
+export const authorizationExpiryService = AuthorizationExpiryService.getInstance();
@@ -1,5 +1,23 @@
 export * from './payment.types.js';
 export * from './payment.schemas.js';
-export { paymentService, PaymentService } from './payment.service.js';
+export { paymentService, PaymentService, toTransactionWhere } from './payment.service.js';
+export {
+  paymentSplitService,
+  PaymentSplitService,
+  allocateProportionally,
+} from './payment-split.service.js';
+export { paymentTimelineService, PaymentTimelineService } from './payment-timeline.service.js';
+export { paymentQueueService, PaymentQueueService } from './payment-queue.service.js';
+export { paymentWorkerService, PaymentWorkerService } from './payment-worker.service.js';
+export { paymentRetryService, PaymentRetryService } from './payment-retry.service.js';
+export {
+  paymentRetryWorkerService,
+  PaymentRetryWorkerService,
+} from './payment-retry-worker.service.js';
+export {
+  authorizationExpiryService,
+  AuthorizationExpiryService,
+  AUTHORIZATION_EXPIRED_REASON,
+} from './authorization-expiry.service.js';
 export { paymentController, PaymentController } from './payment.controller.js';
 export { paymentRoutes } from './payment.routes.js';
@@ -0,0 +1,160 @@
+import { getRedisClient } from '../../shared/database/redis.js';
+import { logger } from '../../shared/utils/logger.js';
+import { ClaimedPaymentJob, PaymentQueueDepth, QueuedPaymentJob } from './payment.types.js';
+
+const READY_KEY = 'payment:queue:ready';
+// Claimed jobs, scored by when they become visible again
+const IN_FLIGHT_KEY = 'payment:queue:in-flight';
+const DEAD_LETTER_KEY = 'payment:queue:dead';
+const JOB_KEY_PREFIX = 'payment:queue:job:';
+
+// Pop the oldest ready job and hide it until the visibility deadline in one step
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if not id then return nil end
+redis.call('ZADD', KEYS[2], ARGV[1], id)
+local attempts = redis.call('HINCRBY', ARGV[2] .. id, 'attempts', 1)
+return {id, attempts, redis.call('HGET', ARGV[2] .. id, 'payload')}
+`;
+
+// Return jobs whose visibility expired to the queue, or dead-letter them once out of
+// attempts. A dead job's record is dropped so its payment method doesn't linger.
+const REAP_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+local dead = {}
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  local attempts = tonumber(redis.call('HGET', ARGV[3] .. id, 'attempts') or '0')
+  if attempts >= tonumber(ARGV[2]) then
+    redis.call('LPUSH', KEYS[3], id)
+    redis.call('DEL', ARGV[3] .. id)
+    table.insert(dead, id)
+  else
+    redis.call('LPUSH', KEYS[2], id)
+  end
+end
+return dead
+`;
+
+/**
+ * A reliable work queue for asynchronous payments on the shared Redis
+ * connection. A claimed job stays invisible until it is completed or its
+ * visibility timeout passes, after which it is handed out again; jobs that
+ * run out of attempts move to a dead-letter list.
+ */
+export class PaymentQueueService {
+  private static instance: PaymentQueueService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentQueueService {
+    if (!PaymentQueueService.instance) {
+      PaymentQueueService.instance = new PaymentQueueService();
+    }
+    return PaymentQueueService.instance;
+  }
+
+  async enqueue(job: QueuedPaymentJob): Promise<void> {
+    const client = getRedisClient();
+
+    await client
+      .multi()
+      .hset(this.jobKey(job.transactionId), { payload: JSON.stringify(job), attempts: 0 })
+      .lpush(READY_KEY, job.transactionId)
+      .exec();
+
+    logger.debug('Payment queued', { transactionId: job.transactionId });
+  }
+
+  /**
+   * Take the next job, hiding it from other workers for visibilityTimeoutMs.
+   * Returns null when the queue is empty.
+   */
+  async claim(visibilityTimeoutMs: number): Promise<ClaimedPaymentJob | null> {
+    const client = getRedisClient();
+
+    const result = (await client.eval(
+      CLAIM_SCRIPT,
+      2,
+      READY_KEY,
+      IN_FLIGHT_KEY,
+      Date.now() + visibilityTimeoutMs,
+      JOB_KEY_PREFIX
+    )) as [string, number, string | null] | null;
+
+    if (!result) {
+      return null;
+    }
+
+    const [transactionId, attempts, payload] = result;
+
+    if (!payload) {
+      // The job record is gone; nothing left to process
+      await client.zrem(IN_FLIGHT_KEY, transactionId);
+      return null;
+    }
+
+    return { job: JSON.parse(payload) as QueuedPaymentJob, attempts };
+  }
+
+  async complete(transactionId: string): Promise<void> {
+    const client = getRedisClient();
+
+    await client
+      .multi()
+      .zrem(IN_FLIGHT_KEY, transactionId)
+      .del(this.jobKey(transactionId))
+      .exec();
+  }
+
+  /**
+   * Keep a failed job hidden for delayMs; the next reap puts it back on the
+   * queue, or dead-letters it if it has used all its attempts.
+   */
+  async retryLater(transactionId: string, delayMs: number, error: string): Promise<void> {
+    const client = getRedisClient();
+
+    await client
+      .multi()
+      .zadd(IN_FLIGHT_KEY, 'XX', Date.now() + delayMs, transactionId)
+      .hset(this.jobKey(transactionId), { lastError: error })
+      .exec();
+  }
+
+  /**
+   * Requeue jobs whose visibility timeout has passed. Returns the IDs of
+   * transactions moved to the dead-letter list.
+   */
+  async reapExpired(maxAttempts: number): Promise<string[]> {
+    const client = getRedisClient();
+
+    return (await client.eval(
+      REAP_SCRIPT,
+      3,
+      IN_FLIGHT_KEY,
+      READY_KEY,
+      DEAD_LETTER_KEY,
+      Date.now(),
+      maxAttempts,
+      JOB_KEY_PREFIX
+    )) as string[];
+  }
+
+  async getDepth(): Promise<PaymentQueueDepth> {
+    const client = getRedisClient();
+
+    const [ready, inFlight, deadLettered] = await Promise.all([
+      client.llen(READY_KEY),
+      client.zcard(IN_FLIGHT_KEY),
+      client.llen(DEAD_LETTER_KEY),
+    ]);
+
+    return { ready, inFlight, deadLettered };
+  }
+
+  private jobKey(transactionId: string): string {
+    return `${JOB_KEY_PREFIX}${transactionId}`;
+  }
+}
+
+export const paymentQueueService = PaymentQueueService.getInstance();
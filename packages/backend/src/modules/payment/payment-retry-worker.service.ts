@@ -0,0 +1,120 @@
+import { PaymentRetryStatus } from '@prisma/client';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { paymentService } from './payment.service.js';
+import { paymentRetryService } from './payment-retry.service.js';
+import { PaymentRetryRunResult } from './payment.types.js';
+
+const RETRY_LOCK_KEY = 'payment-retry-processing';
+
+const RETRY_LOCK_TTL_MS = 5 * 60 * 1000;
+
+// A retry still PROCESSING after this long was interrupted and is run again
+const STALE_RETRY_MS = 15 * 60 * 1000;
+
+/**
+ * Runs scheduled retries of merchant-initiated payments once they fall due.
+ */
+export class PaymentRetryWorkerService {
+  private static instance: PaymentRetryWorkerService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentRetryWorkerService {
+    if (!PaymentRetryWorkerService.instance) {
+      PaymentRetryWorkerService.instance = new PaymentRetryWorkerService();
+    }
+    return PaymentRetryWorkerService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.PAYMENT_RETRY_POLL_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.runDueRetries().catch((error: Error) => {
+        logger.error('Payment retry run failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Payment retry scheduler started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run the retries that are due. Only one instance runs them at a time; a
+   * retry that throws also fails its payment rather than leave it processing
+   * with nothing scheduled.
+   */
+  async runDueRetries(): Promise<PaymentRetryRunResult> {
+    const result: PaymentRetryRunResult = { processed: 0, succeeded: 0, failed: 0 };
+
+    const lockToken = await cacheService.acquireLock(RETRY_LOCK_KEY, RETRY_LOCK_TTL_MS);
+
+    if (!lockToken) {
+      logger.debug('Payment retries already running on another instance');
+      return result;
+    }
+
+    try {
+      await paymentRetryService.resetStaleRetries(new Date(Date.now() - STALE_RETRY_MS));
+
+      const retries = await paymentRetryService.claimDueRetries(config.env.PAYMENT_RETRY_BATCH_SIZE);
+
+      for (const retry of retries) {
+        result.processed++;
+
+        try {
+          const outcome = await paymentService.processScheduledRetry(retry);
+          await paymentRetryService.completeRetry(retry.id, outcome);
+
+          if (outcome.status === PaymentRetryStatus.SUCCEEDED) {
+            result.succeeded++;
+          } else if (outcome.status === PaymentRetryStatus.FAILED) {
+            result.failed++;
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error('Payment retry failed', {
+            retryId: retry.id,
+            transactionId: retry.transactionId,
+            error: (error as Error).message,
+          });
+
+          await paymentRetryService.completeRetry(retry.id, {
+            status: PaymentRetryStatus.FAILED,
+            outcome: (error as Error).message,
+          });
+          await paymentService
+            .failQueuedPayment(retry.transactionId, `Payment retry failed: ${(error as Error).message}`)
+            .catch((failError: Error) => {
+              logger.error('Failed to fail payment after retry error', {
+                transactionId: retry.transactionId,
+                error: failError.message,
+              });
+            });
+        }
+      }
+    } finally {
+      await cacheService.releaseLock(RETRY_LOCK_KEY, lockToken);
+    }
+
+    if (result.processed > 0) {
+      logger.info('Payment retries processed', { ...result });
+    }
+
+    return result;
+  }
+}
+
+export const paymentRetryWorkerService = PaymentRetryWorkerService.getInstance();
@@ -0,0 +1,218 @@
+import { PaymentRetry, PaymentRetryPolicy, PaymentRetryStatus } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { ProviderErrorCode } from '../provider/provider.types.js';
+import {
+  ResolvedRetryPolicy,
+  PaymentRetryPolicyResponse,
+  PaymentRetryOutcome,
+  PaymentRetryResponse,
+  SchedulePaymentRetryRequest,
+  UpsertPaymentRetryPolicyRequest,
+} from './payment.types.js';
+
+/**
+ * Retry policies and the schedule of retries for merchant-initiated payments
+ * whose providers all failed. Running a due retry is left to the payment
+ * service, which the retry worker calls.
+ */
+export class PaymentRetryService {
+  private static instance: PaymentRetryService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentRetryService {
+    if (!PaymentRetryService.instance) {
+      PaymentRetryService.instance = new PaymentRetryService();
+    }
+    return PaymentRetryService.instance;
+  }
+
+  async listPolicies(merchantId: string): Promise<PaymentRetryPolicyResponse[]> {
+    const policies = await prisma.paymentRetryPolicy.findMany({
+      where: { merchantId },
+      orderBy: { errorCode: 'asc' },
+    });
+
+    return policies.map((p) => this.toPolicyResponse(p));
+  }
+
+  /**
+   * Set how one error code is retried for a merchant. A maxAttempts of 0
+   * turns retries off for a code the defaults would otherwise retry.
+   */
+  async upsertPolicy(request: UpsertPaymentRetryPolicyRequest): Promise<PaymentRetryPolicyResponse> {
+    const { merchantId, errorCode, maxAttempts, backoffMinutes } = request;
+
+    const policy = await prisma.paymentRetryPolicy.upsert({
+      where: { merchantId_errorCode: { merchantId, errorCode } },
+      create: { merchantId, errorCode, maxAttempts, backoffMinutes },
+      update: { maxAttempts, backoffMinutes },
+    });
+
+    logger.info('Payment retry policy updated', { merchantId, errorCode, maxAttempts });
+
+    return this.toPolicyResponse(policy);
+  }
+
+  async deletePolicy(id: string): Promise<boolean> {
+    const { count } = await prisma.paymentRetryPolicy.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  /**
+   * The merchant's policy for an error code, else the configured default for
+   * the codes retried out of the box. Null when the code is not retried.
+   */
+  async resolvePolicy(merchantId: string, errorCode: ProviderErrorCode): Promise<ResolvedRetryPolicy | null> {
+    const policy = await prisma.paymentRetryPolicy.findUnique({
+      where: { merchantId_errorCode: { merchantId, errorCode } },
+    });
+
+    if (policy) {
+      return policy.maxAttempts > 0 && policy.backoffMinutes.length > 0
+        ? { errorCode, maxAttempts: policy.maxAttempts, backoffMinutes: policy.backoffMinutes }
+        : null;
+    }
+
+    if (!config.env.PAYMENT_RETRY_DEFAULT_CODES.includes(errorCode)) {
+      return null;
+    }
+
+    return {
+      errorCode,
+      maxAttempts: config.env.PAYMENT_RETRY_DEFAULT_MAX_ATTEMPTS,
+      backoffMinutes: config.env.PAYMENT_RETRY_DEFAULT_BACKOFF_MINUTES,
+    };
+  }
+
+  /**
+   * Schedule the next retry of a payment if its policy allows another one.
+   * Returns null when the payment should fail instead.
+   */
+  async scheduleRetry(request: SchedulePaymentRetryRequest): Promise<PaymentRetryResponse | null> {
+    const policy = await this.resolvePolicy(request.merchantId, request.errorCode);
+
+    if (!policy || request.retryNumber > policy.maxAttempts) {
+      return null;
+    }
+
+    const delayMinutes =
+      policy.backoffMinutes[Math.min(request.retryNumber, policy.backoffMinutes.length) - 1]!;
+
+    const retry = await prisma.paymentRetry.create({
+      data: {
+        transactionId: request.transactionId,
+        retryNumber: request.retryNumber,
+        errorCode: request.errorCode,
+        errorMessage: request.errorMessage,
+        excludedProviderIds: request.excludedProviderIds,
+        capture: request.capture,
+        scheduledFor: new Date(Date.now() + delayMinutes * 60 * 1000),
+      },
+    });
+
+    logger.info('Payment retry scheduled', {
+      transactionId: request.transactionId,
+      retryNumber: retry.retryNumber,
+      errorCode: request.errorCode,
+      scheduledFor: retry.scheduledFor.toISOString(),
+    });
+
+    return this.toRetryResponse(retry);
+  }
+
+  async listRetries(transactionId: string): Promise<PaymentRetryResponse[]> {
+    const retries = await prisma.paymentRetry.findMany({
+      where: { transactionId },
+      orderBy: { retryNumber: 'asc' },
+    });
+
+    return retries.map((r) => this.toRetryResponse(r));
+  }
+
+  /**
+   * Claim up to limit retries that are due. Each is moved to PROCESSING with a
+   * guarded update, so a retry is only ever run once.
+   */
+  async claimDueRetries(limit: number): Promise<PaymentRetry[]> {
+    const due = await prisma.paymentRetry.findMany({
+      where: { status: PaymentRetryStatus.SCHEDULED, scheduledFor: { lte: new Date() } },
+      orderBy: { scheduledFor: 'asc' },
+      take: limit,
+    });
+
+    const claimed: PaymentRetry[] = [];
+    for (const retry of due) {
+      const { count } = await prisma.paymentRetry.updateMany({
+        where: { id: retry.id, status: PaymentRetryStatus.SCHEDULED },
+        data: { status: PaymentRetryStatus.PROCESSING, attemptedAt: new Date() },
+      });
+
+      if (count > 0) {
+        claimed.push({ ...retry, status: PaymentRetryStatus.PROCESSING });
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Put retries left PROCESSING by a crashed worker back on the schedule.
+   */
+  async resetStaleRetries(olderThan: Date): Promise<number> {
+    const { count } = await prisma.paymentRetry.updateMany({
+      where: { status: PaymentRetryStatus.PROCESSING, attemptedAt: { lt: olderThan } },
+      data: { status: PaymentRetryStatus.SCHEDULED },
+    });
+
+    if (count > 0) {
+      logger.warn('Rescheduled interrupted payment retries', { count });
+    }
+
+    return count;
+  }
+
+  async completeRetry(id: string, result: PaymentRetryOutcome): Promise<void> {
+    await prisma.paymentRetry.update({
+      where: { id },
+      data: {
+        status: result.status,
+        providerId: result.providerId,
+        outcome: result.outcome,
+      },
+    });
+  }
+
+  private toPolicyResponse(policy: PaymentRetryPolicy): PaymentRetryPolicyResponse {
+    return {
+      id: policy.id,
+      merchantId: policy.merchantId,
+      errorCode: policy.errorCode as ProviderErrorCode,
+      maxAttempts: policy.maxAttempts,
+      backoffMinutes: policy.backoffMinutes,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  private toRetryResponse(retry: PaymentRetry): PaymentRetryResponse {
+    return {
+      id: retry.id,
+      transactionId: retry.transactionId,
+      retryNumber: retry.retryNumber,
+      status: retry.status,
+      errorCode: retry.errorCode,
+      errorMessage: retry.errorMessage ?? undefined,
+      excludedProviderIds: retry.excludedProviderIds,
+      scheduledFor: retry.scheduledFor,
+      providerId: retry.providerId ?? undefined,
+      outcome: retry.outcome ?? undefined,
+      attemptedAt: retry.attemptedAt ?? undefined,
+      createdAt: retry.createdAt,
+    };
+  }
+}
+
+export const paymentRetryService = PaymentRetryService.getInstance();
@@ -0,0 +1,271 @@
+import { Currency, Prisma, TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { transactionStateService } from '../transaction-state/transaction-state.service.js';
+import { PaymentError, PaymentSplitRequest, PaymentSplitResponse } from './payment.types.js';
+
+const BASIS_POINTS = 10000n;
+
+export interface ResolvedSplit {
+  recipientMerchantId: string;
+  amount: bigint;
+  percentage?: number;
+}
+
+/**
+ * Divide a total across weights, flooring each share and handing the leftover
+ * minor units to the largest fractional remainders so the shares always sum
+ * to the total.
+ */
+export function allocateProportionally(total: bigint, weights: bigint[]): bigint[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0n);
+  if (weightSum === 0n) {
+    return weights.map(() => 0n);
+  }
+
+  const shares = weights.map((w) => (total * w) / weightSum);
+  const remainder = total - shares.reduce((sum, s) => sum + s, 0n);
+
+  const roundedUp = new Set(
+    weights
+      .map((w, index) => ({ index, fraction: (total * w) % weightSum }))
+      .sort((a, b) => (a.fraction === b.fraction ? a.index - b.index : a.fraction > b.fraction ? -1 : 1))
+      .slice(0, Number(remainder))
+      .map(({ index }) => index)
+  );
+
+  return shares.map((share, index) => (roundedUp.has(index) ? share + 1n : share));
+}
+
+export class PaymentSplitService {
+  private static instance: PaymentSplitService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentSplitService {
+    if (!PaymentSplitService.instance) {
+      PaymentSplitService.instance = new PaymentSplitService();
+    }
+    return PaymentSplitService.instance;
+  }
+
+  /**
+   * Turn requested splits into fixed amounts of the charge. Fixed amounts and
+   * percentages can be mixed, but together they must cover the charge exactly.
+   */
+  async resolveSplits(amount: bigint, splits: PaymentSplitRequest[]): Promise<ResolvedSplit[]> {
+    const recipients = new Set<string>();
+
+    for (const split of splits) {
+      if ((split.amount === undefined) === (split.percentage === undefined)) {
+        throw PaymentError.invalidSplit('Each split needs exactly one of amount or percentage');
+      }
+      if (recipients.has(split.merchantId)) {
+        throw PaymentError.invalidSplit(`Merchant ${split.merchantId} appears in more than one split`);
+      }
+      recipients.add(split.merchantId);
+    }
+
+    const fixedTotal = splits.reduce((sum, s) => sum + (s.amount ?? 0n), 0n);
+    const basisPoints = splits.map((s) =>
+      s.percentage !== undefined ? BigInt(Math.round(s.percentage * 100)) : 0n
+    );
+    const percentageTotal = basisPoints.reduce((sum, bp) => sum + bp, 0n);
+
+    if (fixedTotal * BASIS_POINTS + amount * percentageTotal !== amount * BASIS_POINTS) {
+      throw PaymentError.invalidSplit(`Splits must add up to the charge amount of ${amount}`);
+    }
+
+    const merchants = await prisma.merchant.findMany({
+      where: { id: { in: [...recipients] }, isActive: true },
+      select: { id: true },
+    });
+
+    if (merchants.length !== recipients.size) {
+      const found = new Set(merchants.map((m) => m.id));
+      const missing = [...recipients].filter((id) => !found.has(id));
+      throw PaymentError.invalidSplit(`Split recipients not found or inactive: ${missing.join(', ')}`);
+    }
+
+    const percentageShares = allocateProportionally(amount - fixedTotal, basisPoints);
+
+    return splits.map((split, index) => ({
+      recipientMerchantId: split.merchantId,
+      amount: split.amount ?? percentageShares[index] ?? 0n,
+      percentage: split.percentage,
+    }));
+  }
+
+  /**
+   * Bring a payment's transfers in line with what has been captured and refunded.
+   * Recipients are owed their share of the captured amount, less their share of
+   * refunds; running this again after a failure only posts what is missing.
+   */
+  async settleTransfers(transactionId: string): Promise<void> {
+    const splitCount = await prisma.paymentSplit.count({ where: { transactionId } });
+    if (splitCount === 0) {
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM transactions WHERE id = ${transactionId} FOR UPDATE`;
+
+      const payment = await tx.transaction.findUnique({
+        where: { id: transactionId },
+        include: { splits: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] } },
+      });
+
+      if (!payment) {
+        throw PaymentError.notFound(transactionId);
+      }
+
+      const weights = payment.splits.map((s) => s.amount);
+      const transferTargets = allocateProportionally(payment.capturedAmount, weights);
+      const reversalTargets = allocateProportionally(payment.refundedAmount, weights);
+
+      for (const [index, split] of payment.splits.entries()) {
+        // The charging merchant already holds its own share
+        if (split.recipientMerchantId === payment.merchantId) {
+          continue;
+        }
+
+        const transferTarget = transferTargets[index] ?? 0n;
+        const reversalTarget = reversalTargets[index] ?? 0n;
+
+        const toTransfer = transferTarget - split.transferredAmount;
+        if (toTransfer > 0n) {
+          await this.createTransfer(
+            tx,
+            payment.id,
+            split.recipientMerchantId,
+            toTransfer,
+            payment.convertedCurrency ?? payment.currency
+          );
+        }
+
+        const transferred = split.transferredAmount + (toTransfer > 0n ? toTransfer : 0n);
+        const toReverse = (reversalTarget < transferred ? reversalTarget : transferred) - split.reversedAmount;
+        if (toReverse > 0n) {
+          await this.reverseTransfers(tx, payment.id, split.recipientMerchantId, toReverse);
+        }
+
+        if (toTransfer > 0n || toReverse > 0n) {
+          await tx.paymentSplit.update({
+            where: { id: split.id },
+            data: {
+              transferredAmount: transferred,
+              reversedAmount: split.reversedAmount + (toReverse > 0n ? toReverse : 0n),
+            },
+          });
+        }
+      }
+    });
+  }
+
+  async listSplits(transactionId: string): Promise<PaymentSplitResponse[]> {
+    const splits = await prisma.paymentSplit.findMany({
+      where: { transactionId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return splits.map((s) => ({
+      id: s.id,
+      transactionId: s.transactionId,
+      recipientMerchantId: s.recipientMerchantId,
+      amount: s.amount,
+      percentage: s.percentage !== null ? Number(s.percentage) : undefined,
+      transferredAmount: s.transferredAmount,
+      reversedAmount: s.reversedAmount,
+      createdAt: s.createdAt,
+    }));
+  }
+
+  private async createTransfer(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    recipientMerchantId: string,
+    amount: bigint,
+    currency: Currency
+  ): Promise<void> {
+    const transfer = await tx.transaction.create({
+      data: {
+        merchantId: recipientMerchantId,
+        parentTransactionId: paymentId,
+        type: TransactionType.TRANSFER,
+        status: TransactionStatus.COMPLETED,
+        amount,
+        currency,
+        description: 'Split payment transfer',
+      },
+    });
+
+    await transactionStateService.recordCreated(transfer, tx);
+
+    await ledgerService.recordTransfer(paymentId, transfer.id, amount, currency, tx);
+
+    logger.info('Split transfer created', {
+      transactionId: paymentId,
+      transferId: transfer.id,
+      recipientMerchantId,
+      amount: amount.toString(),
+    });
+  }
+
+  /**
+   * Reverse an amount across a recipient's transfers for a payment, oldest first.
+   */
+  private async reverseTransfers(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    recipientMerchantId: string,
+    amount: bigint
+  ): Promise<void> {
+    const transfers = await tx.transaction.findMany({
+      where: {
+        parentTransactionId: paymentId,
+        merchantId: recipientMerchantId,
+        type: TransactionType.TRANSFER,
+        status: { in: [TransactionStatus.COMPLETED, TransactionStatus.PARTIALLY_REFUNDED] },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let remaining = amount;
+
+    for (const transfer of transfers) {
+      if (remaining === 0n) break;
+
+      const reversible = transfer.amount - transfer.refundedAmount;
+      const reversal = reversible < remaining ? reversible : remaining;
+      if (reversal <= 0n) continue;
+
+      const refundedAmount = transfer.refundedAmount + reversal;
+      const status = refundedAmount >= transfer.amount
+        ? TransactionStatus.REFUNDED
+        : TransactionStatus.PARTIALLY_REFUNDED;
+
+      await transactionStateService.transition(
+        {
+          transactionId: transfer.id,
+          from: transfer.status,
+          to: status,
+          reason: 'Payment refunded',
+          data: { refundedAmount, refundedAt: new Date() },
+        },
+        tx
+      );
+
+      await ledgerService.recordTransferReversal(paymentId, transfer.id, reversal, transfer.currency, tx);
+      remaining -= reversal;
+    }
+
+    logger.info('Split transfers reversed', {
+      transactionId: paymentId,
+      recipientMerchantId,
+      amount: (amount - remaining).toString(),
+    });
+  }
+}
+
+export const paymentSplitService = PaymentSplitService.getInstance();
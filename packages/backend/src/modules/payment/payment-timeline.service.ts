@@ -0,0 +1,272 @@
+import { Prisma, TransactionType } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { PaymentTimelineEvent } from './payment.types.js';
+
+// Where each provider's webhook payload carries the provider's transaction ID
+const WEBHOOK_TRANSACTION_ID_PATHS = [['id'], ['payment_intent'], ['charge'], ['resource', 'id']];
+
+export class PaymentTimelineService {
+  private static instance: PaymentTimelineService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PaymentTimelineService {
+    if (!PaymentTimelineService.instance) {
+      PaymentTimelineService.instance = new PaymentTimelineService();
+    }
+    return PaymentTimelineService.instance;
+  }
+
+  /**
+   * Everything that happened to a payment and its refunds, oldest first.
+   * Returns null when the payment does not exist.
+   */
+  async getTimeline(paymentId: string): Promise<PaymentTimelineEvent[] | null> {
+    const payment = await prisma.transaction.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment || payment.type !== TransactionType.PAYMENT) {
+      return null;
+    }
+
+    const refunds = await prisma.transaction.findMany({
+      where: { parentTransactionId: paymentId, type: TransactionType.REFUND },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const transactionIds = [payment.id, ...refunds.map((r) => r.id)];
+    const providerTransactionIds = [payment, ...refunds]
+      .map((t) => t.providerTransactionId)
+      .filter((id): id is string => id !== null);
+
+    const [history, routingDecision, attempts, retries, ledgerEntries, captures, disputes, webhooks] = await Promise.all([
+      prisma.transactionStatusHistory.findMany({
+        where: { transactionId: { in: transactionIds } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.paymentRoutingDecision.findUnique({
+        where: { transactionId: paymentId },
+      }),
+      prisma.paymentAttempt.findMany({
+        where: { transactionId: paymentId },
+        include: { provider: { select: { code: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.paymentRetry.findMany({
+        where: { transactionId: paymentId },
+        orderBy: { retryNumber: 'asc' },
+      }),
+      prisma.ledgerEntry.findMany({
+        where: { transactionId: { in: transactionIds } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.paymentCapture.findMany({
+        where: { transactionId: paymentId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.dispute.findMany({
+        where: { transactionId: paymentId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      payment.providerId && providerTransactionIds.length
+        ? prisma.webhookEvent.findMany({
+            where: {
+              providerId: payment.providerId,
+              OR: providerTransactionIds.flatMap((id) =>
+                WEBHOOK_TRANSACTION_ID_PATHS.map((path) => ({ payload: { path, equals: id } }))
+              ),
+            },
+            orderBy: { createdAt: 'asc' },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const events: PaymentTimelineEvent[] = [];
+
+    if (routingDecision) {
+      events.push({
+        type: 'routing_decision',
+        occurredAt: routingDecision.evaluatedAt,
+        transactionId: payment.id,
+        data: {
+          selectedProviderId: routingDecision.selectedProviderId,
+          fallbackProviderIds: routingDecision.fallbackProviderIds,
+          matchedRuleId: routingDecision.matchedRuleId ?? undefined,
+          score: routingDecision.score,
+          reason: routingDecision.reason,
+        },
+      });
+    }
+
+    // An attempt is recorded once the provider answers, just before the status it led to
+    for (const attempt of attempts) {
+      events.push({
+        type: 'provider_attempt',
+        occurredAt: attempt.createdAt,
+        transactionId: payment.id,
+        data: {
+          attemptId: attempt.id,
+          providerId: attempt.providerId,
+          providerCode: attempt.provider.code,
+          attemptNumber: attempt.attemptNumber,
+          status: attempt.status,
+          latencyMs: attempt.latencyMs,
+          errorCode: attempt.errorCode ?? undefined,
+          errorMessage: attempt.errorMessage ?? undefined,
+          isRetryable: attempt.isRetryable,
+        },
+      });
+    }
+
+    // Placed when the retry was scheduled; the data shows how it turned out
+    for (const retry of retries) {
+      events.push({
+        type: 'retry_scheduled',
+        occurredAt: retry.createdAt,
+        transactionId: payment.id,
+        data: {
+          retryId: retry.id,
+          retryNumber: retry.retryNumber,
+          status: retry.status,
+          errorCode: retry.errorCode,
+          scheduledFor: retry.scheduledFor,
+          providerId: retry.providerId ?? undefined,
+          outcome: retry.outcome ?? undefined,
+        },
+      });
+    }
+
+    for (const entry of history) {
+      events.push({
+        type: 'status_changed',
+        occurredAt: entry.createdAt,
+        transactionId: entry.transactionId,
+        data: {
+          fromStatus: entry.fromStatus,
+          toStatus: entry.toStatus,
+          reason: entry.reason ?? undefined,
+        },
+      });
+    }
+
+    events.push(...this.fraudEvents(payment.id, payment.metadata));
+
+    for (const refund of refunds) {
+      events.push({
+        type: 'refund',
+        occurredAt: refund.createdAt,
+        transactionId: payment.id,
+        data: {
+          refundId: refund.id,
+          status: refund.status,
+          amount: refund.amount,
+          currency: refund.currency,
+          reason: refund.description ?? undefined,
+        },
+      });
+    }
+
+    for (const capture of captures) {
+      events.push({
+        type: 'capture',
+        occurredAt: capture.createdAt,
+        transactionId: capture.transactionId,
+        data: {
+          captureId: capture.id,
+          amount: capture.amount,
+          currency: capture.currency,
+          isFinal: capture.isFinal,
+        },
+      });
+    }
+
+    for (const entry of ledgerEntries) {
+      events.push({
+        type: 'ledger_entry',
+        occurredAt: entry.createdAt,
+        transactionId: entry.transactionId,
+        data: {
+          ledgerEntryId: entry.id,
+          accountCode: entry.accountCode,
+          entryType: entry.entryType,
+          amount: entry.amount,
+          currency: entry.currency,
+          description: entry.description ?? undefined,
+        },
+      });
+    }
+
+    for (const webhook of webhooks) {
+      events.push({
+        type: 'webhook_received',
+        occurredAt: webhook.createdAt,
+        transactionId: payment.id,
+        data: {
+          webhookEventId: webhook.id,
+          providerId: webhook.providerId,
+          eventType: webhook.eventType,
+          status: webhook.status,
+          processedAt: webhook.processedAt ?? undefined,
+          lastError: webhook.lastError ?? undefined,
+        },
+      });
+    }
+
+    for (const dispute of disputes) {
+      events.push({
+        type: 'dispute',
+        occurredAt: dispute.createdAt,
+        transactionId: dispute.transactionId,
+        data: {
+          disputeId: dispute.id,
+          status: dispute.status,
+          reason: dispute.reason,
+          amount: dispute.amount,
+          currency: dispute.currency,
+          dueBy: dispute.dueBy ?? undefined,
+        },
+      });
+    }
+
+    // Array sort is stable, so same-instant events keep the order pushed above
+    return events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
+  private fraudEvents(transactionId: string, metadata: Prisma.JsonValue): PaymentTimelineEvent[] {
+    const meta = (metadata ?? {}) as Record<string, unknown>;
+    const events: PaymentTimelineEvent[] = [];
+
+    if (typeof meta.fraudCheckedAt === 'string') {
+      events.push({
+        type: 'fraud_check',
+        occurredAt: new Date(meta.fraudCheckedAt),
+        transactionId,
+        data: {
+          riskScore: (meta.riskScore as number | undefined) ?? 0,
+          flags: (meta.fraudFlags as unknown[] | undefined) ?? [],
+        },
+      });
+    }
+
+    const review = meta.fraudReview as
+      | { action: string; reason?: string; reviewedBy?: string; reviewedAt: string }
+      | undefined;
+    if (review) {
+      events.push({
+        type: 'fraud_review',
+        occurredAt: new Date(review.reviewedAt),
+        transactionId,
+        data: {
+          action: review.action,
+          reason: review.reason,
+          reviewedBy: review.reviewedBy,
+        },
+      });
+    }
+
+    return events;
+  }
+}
+
+export const paymentTimelineService = PaymentTimelineService.getInstance();
@@ -0,0 +1,167 @@
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { paymentService } from './payment.service.js';
+import { paymentQueueService } from './payment-queue.service.js';
+import { PaymentWorkerHealth } from './payment.types.js';
+
+interface WorkerState {
+  busy: boolean;
+  lastActiveAt: number;
+}
+
+/**
+ * Runs a pool of in-process workers that drain the async payment queue, plus
+ * a reaper that requeues jobs whose visibility timeout expired and fails the
+ * payments behind dead-lettered jobs.
+ */
+export class PaymentWorkerService {
+  private static instance: PaymentWorkerService | null = null;
+  private running = false;
+  private workers: WorkerState[] = [];
+  private reaper: NodeJS.Timeout | null = null;
+  private processed = 0;
+  private failed = 0;
+
+  private constructor() {}
+
+  static getInstance(): PaymentWorkerService {
+    if (!PaymentWorkerService.instance) {
+      PaymentWorkerService.instance = new PaymentWorkerService();
+    }
+    return PaymentWorkerService.instance;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.workers = Array.from({ length: config.env.PAYMENT_QUEUE_WORKERS }, () => ({
+      busy: false,
+      lastActiveAt: Date.now(),
+    }));
+
+    for (const worker of this.workers) {
+      void this.runWorker(worker);
+    }
+
+    this.reaper = setInterval(() => {
+      void this.reap().catch((error: Error) => {
+        logger.error('Payment queue reap failed', { error: error.message });
+      });
+    }, config.env.PAYMENT_QUEUE_POLL_INTERVAL_MS);
+
+    logger.info('Payment queue workers started', { workers: this.workers.length });
+  }
+
+  /**
+   * Workers finish the job in hand and exit; anything left in flight is
+   * redelivered once its visibility timeout passes.
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+  }
+
+  getHealth(): PaymentWorkerHealth {
+    const stalledBefore = Date.now() - config.env.PAYMENT_QUEUE_VISIBILITY_TIMEOUT_MS;
+
+    return {
+      running: this.running,
+      workers: this.running ? this.workers.length : 0,
+      busy: this.workers.filter((w) => w.busy).length,
+      stalled: this.running ? this.workers.filter((w) => w.lastActiveAt < stalledBefore).length : 0,
+      processed: this.processed,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Claim and process one job. Returns false when the queue was empty.
+   */
+  async processNext(worker?: WorkerState): Promise<boolean> {
+    const claimed = await paymentQueueService.claim(config.env.PAYMENT_QUEUE_VISIBILITY_TIMEOUT_MS);
+
+    if (!claimed) {
+      return false;
+    }
+
+    const { job, attempts } = claimed;
+    if (worker) {
+      worker.busy = true;
+    }
+
+    try {
+      await paymentService.processQueuedPayment(job);
+      await paymentQueueService.complete(job.transactionId);
+      this.processed++;
+    } catch (error) {
+      this.failed++;
+      const delayMs = config.env.PAYMENT_QUEUE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+
+      logger.warn('Queued payment failed, will retry', {
+        transactionId: job.transactionId,
+        attempts,
+        delayMs,
+        error: (error as Error).message,
+      });
+
+      await paymentQueueService.retryLater(job.transactionId, delayMs, (error as Error).message);
+    } finally {
+      if (worker) {
+        worker.busy = false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Requeue expired jobs and fail the payments whose jobs ran out of attempts.
+   */
+  async reap(): Promise<number> {
+    const deadLettered = await paymentQueueService.reapExpired(config.env.PAYMENT_QUEUE_MAX_ATTEMPTS);
+
+    for (const transactionId of deadLettered) {
+      logger.error('Queued payment moved to dead-letter queue', { transactionId });
+
+      try {
+        await paymentService.failQueuedPayment(
+          transactionId,
+          `Asynchronous processing failed after ${config.env.PAYMENT_QUEUE_MAX_ATTEMPTS} attempts`
+        );
+      } catch (error) {
+        logger.error('Failed to fail dead-lettered payment', {
+          transactionId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return deadLettered.length;
+  }
+
+  private async runWorker(worker: WorkerState): Promise<void> {
+    while (this.running) {
+      worker.lastActiveAt = Date.now();
+
+      let found = false;
+      try {
+        found = await this.processNext(worker);
+      } catch (error) {
+        logger.error('Payment queue worker error', { error: (error as Error).message });
+      }
+
+      if (!found) {
+        await new Promise((resolve) => setTimeout(resolve, config.env.PAYMENT_QUEUE_POLL_INTERVAL_MS));
+      }
+    }
+  }
+}
+
+export const paymentWorkerService = PaymentWorkerService.getInstance();
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { paymentService } from './payment.service.js';
+import { paymentTimelineService } from './payment-timeline.service.js';
+import { paymentRetryService } from './payment-retry.service.js';
 import {
   CreatePaymentBody,
   PaymentIdParam,
@@ -7,8 +9,12 @@ import {
   CapturePaymentBody,
   RefundPaymentBody,
   CancelPaymentBody,
+  ListRetryPoliciesQuery,
+  UpsertRetryPolicyBody,
+  RetryPolicyIdParam,
 } from './payment.schemas.js';
-import { CreatePaymentRequest } from './payment.types.js';
+import { CreatePaymentRequest, PaymentRetryPolicyResponse, PaymentTimelineEvent } from './payment.types.js';
+import { NextAction } from '../provider/provider.types.js';
 import { AppError } from '../../shared/errors/app-error.js';
 import { Currency, PaymentMethodType, TransactionStatus, TransactionType } from '@prisma/client';
 
@@ -25,16 +31,28 @@ export class PaymentController {
         amount: req.body.amount,
         currency: req.body.currency as Currency,
         targetCurrency: req.body.targetCurrency as Currency | undefined,
-        paymentMethod: {
-          type: req.body.paymentMethod.type as PaymentMethodType,
-          token: req.body.paymentMethod.token,
-          cardNumber: req.body.paymentMethod.cardNumber,
-          expiryMonth: req.body.paymentMethod.expiryMonth,
-          expiryYear: req.body.paymentMethod.expiryYear,
-          cvv: req.body.paymentMethod.cvv,
-          holderName: req.body.paymentMethod.holderName,
-        },
+        paymentMethod: req.body.paymentMethod
+          ? {
+              type: req.body.paymentMethod.type as PaymentMethodType,
+              token: req.body.paymentMethod.token,
+              cardNumber: req.body.paymentMethod.cardNumber,
+              expiryMonth: req.body.paymentMethod.expiryMonth,
+              expiryYear: req.body.paymentMethod.expiryYear,
+              cvv: req.body.paymentMethod.cvv,
+              holderName: req.body.paymentMethod.holderName,
+              iban: req.body.paymentMethod.iban,
+              routingNumber: req.body.paymentMethod.routingNumber,
+              accountNumber: req.body.paymentMethod.accountNumber,
+              cryptoAsset: req.body.paymentMethod.cryptoAsset,
+              walletAddress: req.body.paymentMethod.walletAddress,
+            }
+          : undefined,
+        paymentMethodId: req.body.paymentMethodId,
         capture: req.body.capture,
+        returnUrl: req.body.returnUrl,
+        splits: req.body.splits,
+        async: req.body.async,
+        merchantInitiated: req.body.merchantInitiated,
         description: req.body.description,
         metadata: req.body.metadata,
         idempotencyKey: req.body.idempotencyKey,
@@ -42,7 +60,8 @@ export class PaymentController {
 
       const payment = await paymentService.createPayment(paymentRequest);
 
-      res.status(201).json({
+      // A queued payment is accepted but not yet processed
+      res.status(paymentRequest.async ? 202 : 201).json({
         success: true,
         data: this.formatPaymentResponse(payment),
       });
@@ -89,6 +108,8 @@ export class PaymentController {
         currency: query.currency as Currency | undefined,
         fromDate: query.fromDate ? new Date(query.fromDate) : undefined,
         toDate: query.toDate ? new Date(query.toDate) : undefined,
+        search: query.q,
+        cursor: query.cursor,
         page: query.page,
         limit: query.limit,
       });
@@ -113,6 +134,7 @@ export class PaymentController {
 
       const payment = await paymentService.capturePayment(id, {
         amount: req.body.amount,
+        final: req.body.final,
       });
 
       res.json({
@@ -124,6 +146,233 @@ export class PaymentController {
     }
   }
 
+  async listCaptures(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const captures = await paymentService.listCaptures(req.params.id);
+
+      res.json({
+        success: true,
+        data: captures.map((c) => ({
+          id: c.id,
+          transactionId: c.transactionId,
+          amount: c.amount.toString(),
+          currency: c.currency,
+          isFinal: c.isFinal,
+          releasedAmount: c.releasedAmount.toString(),
+          providerCaptureId: c.providerCaptureId,
+          createdAt: c.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listSplits(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const splits = await paymentService.listSplits(req.params.id);
+
+      res.json({
+        success: true,
+        data: splits.map((s) => ({
+          id: s.id,
+          transactionId: s.transactionId,
+          recipientMerchantId: s.recipientMerchantId,
+          amount: s.amount.toString(),
+          percentage: s.percentage,
+          transferredAmount: s.transferredAmount.toString(),
+          reversedAmount: s.reversedAmount.toString(),
+          createdAt: s.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listAttempts(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const attempts = await paymentService.listAttempts(req.params.id);
+
+      res.json({
+        success: true,
+        data: attempts.map((a) => ({
+          id: a.id,
+          transactionId: a.transactionId,
+          providerId: a.providerId,
+          providerCode: a.providerCode,
+          attemptNumber: a.attemptNumber,
+          status: a.status,
+          latencyMs: a.latencyMs,
+          errorCode: a.errorCode,
+          errorMessage: a.errorMessage,
+          isRetryable: a.isRetryable,
+          providerTransactionId: a.providerTransactionId,
+          rawResponse: a.rawResponse,
+          createdAt: a.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listRetries(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const retries = await paymentService.listRetries(req.params.id);
+
+      res.json({
+        success: true,
+        data: retries.map((r) => ({
+          id: r.id,
+          transactionId: r.transactionId,
+          retryNumber: r.retryNumber,
+          status: r.status,
+          errorCode: r.errorCode,
+          errorMessage: r.errorMessage,
+          excludedProviderIds: r.excludedProviderIds,
+          scheduledFor: r.scheduledFor.toISOString(),
+          providerId: r.providerId,
+          outcome: r.outcome,
+          attemptedAt: r.attemptedAt?.toISOString(),
+          createdAt: r.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listRetryPolicies(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListRetryPoliciesQuery;
+
+      const policies = await paymentRetryService.listPolicies(query.merchantId);
+
+      res.json({
+        success: true,
+        data: policies.map((p) => this.formatRetryPolicy(p)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async upsertRetryPolicy(
+    req: Request<unknown, unknown, UpsertRetryPolicyBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const policy = await paymentRetryService.upsertPolicy(req.body);
+
+      res.json({
+        success: true,
+        data: this.formatRetryPolicy(policy),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteRetryPolicy(
+    req: Request<RetryPolicyIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const deleted = await paymentRetryService.deletePolicy(id);
+
+      if (!deleted) {
+        throw AppError.notFound(`Retry policy with ID ${id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: { deleted: true },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRoutingDecision(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const decision = await paymentService.getRoutingDecision(id);
+
+      if (!decision) {
+        throw AppError.notFound(`No routing decision recorded for payment ${id}`);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          transactionId: decision.transactionId,
+          selectedProviderId: decision.selectedProviderId,
+          fallbackProviderIds: decision.fallbackProviderIds,
+          matchedRuleId: decision.matchedRuleId,
+          score: decision.score,
+          reason: decision.reason,
+          providerScores: decision.providerScores,
+          evaluatedAt: decision.evaluatedAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTimeline(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const events = await paymentTimelineService.getTimeline(id);
+
+      if (!events) {
+        throw AppError.notFound(`Payment with ID ${id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: events.map((event) => this.formatTimelineEvent(event)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async cancelPayment(
     req: Request<PaymentIdParam, unknown, CancelPaymentBody>,
     res: Response,
@@ -143,6 +392,23 @@ export class PaymentController {
     }
   }
 
+  async confirmPayment(
+    req: Request<PaymentIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const payment = await paymentService.confirmPayment(req.params.id);
+
+      res.json({
+        success: true,
+        data: this.formatPaymentResponse(payment),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async refundPayment(
     req: Request<PaymentIdParam, unknown, RefundPaymentBody>,
     res: Response,
@@ -165,11 +431,40 @@ export class PaymentController {
     }
   }
 
+  private formatRetryPolicy(policy: PaymentRetryPolicyResponse) {
+    return {
+      id: policy.id,
+      merchantId: policy.merchantId,
+      errorCode: policy.errorCode,
+      maxAttempts: policy.maxAttempts,
+      backoffMinutes: policy.backoffMinutes,
+      createdAt: policy.createdAt.toISOString(),
+      updatedAt: policy.updatedAt.toISOString(),
+    };
+  }
+
+  private formatTimelineEvent(event: PaymentTimelineEvent) {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(event.data)) {
+      data[key] = typeof value === 'bigint'
+        ? value.toString()
+        : value instanceof Date ? value.toISOString() : value;
+    }
+
+    return {
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      transactionId: event.transactionId,
+      data,
+    };
+  }
+
   private formatPaymentResponse(payment: {
     id: string;
     merchantId: string;
     customerId?: string;
     providerId?: string;
+    paymentMethodId?: string;
     providerTransactionId?: string;
     type: TransactionType;
     status: TransactionStatus;
@@ -177,8 +472,14 @@ export class PaymentController {
     currency: Currency;
     convertedAmount?: bigint;
     convertedCurrency?: Currency;
+    authorizedAmount: bigint;
+    capturedAmount: bigint;
+    capturableAmount: bigint;
+    refundedAmount: bigint;
+    refundableAmount: bigint;
     description?: string;
     failureReason?: string;
+    nextAction?: NextAction;
     metadata: Record<string, unknown>;
     createdAt: Date;
     updatedAt: Date;
@@ -188,6 +489,7 @@ export class PaymentController {
       merchantId: payment.merchantId,
       customerId: payment.customerId,
       providerId: payment.providerId,
+      paymentMethodId: payment.paymentMethodId,
       providerTransactionId: payment.providerTransactionId,
       type: payment.type,
       status: payment.status,
@@ -195,8 +497,14 @@ export class PaymentController {
       currency: payment.currency,
       convertedAmount: payment.convertedAmount?.toString(),
       convertedCurrency: payment.convertedCurrency,
+      authorizedAmount: payment.authorizedAmount.toString(),
+      capturedAmount: payment.capturedAmount.toString(),
+      capturableAmount: payment.capturableAmount.toString(),
+      refundedAmount: payment.refundedAmount.toString(),
+      refundableAmount: payment.refundableAmount.toString(),
       description: payment.description,
       failureReason: payment.failureReason,
+      nextAction: payment.nextAction,
       metadata: payment.metadata,
       createdAt: payment.createdAt.toISOString(),
       updatedAt: payment.updatedAt.toISOString(),
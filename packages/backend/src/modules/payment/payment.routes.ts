@@ -8,6 +8,9 @@ import {
   capturePaymentBodySchema,
   refundPaymentBodySchema,
   cancelPaymentBodySchema,
+  listRetryPoliciesQuerySchema,
+  upsertRetryPolicyBodySchema,
+  retryPolicyIdParamSchema,
 } from './payment.schemas.js';
 
 const router = Router();
@@ -32,6 +35,36 @@ router.get(
   paymentController.listPayments.bind(paymentController)
 );
 
+/**
+ * GET /api/v1/payments/retry-policies
+ * List a merchant's retry policies for merchant-initiated payments
+ */
+router.get(
+  '/retry-policies',
+  validateRequest({ query: listRetryPoliciesQuerySchema }),
+  paymentController.listRetryPolicies.bind(paymentController)
+);
+
+/**
+ * PUT /api/v1/payments/retry-policies
+ * Set how a merchant's payments are retried after a provider error code
+ */
+router.put(
+  '/retry-policies',
+  validateRequest({ body: upsertRetryPolicyBodySchema }),
+  paymentController.upsertRetryPolicy.bind(paymentController)
+);
+
+/**
+ * DELETE /api/v1/payments/retry-policies/:id
+ * Delete a retry policy, returning its error code to the defaults
+ */
+router.delete(
+  '/retry-policies/:id',
+  validateRequest({ params: retryPolicyIdParamSchema }),
+  paymentController.deleteRetryPolicy.bind(paymentController)
+);
+
 /**
  * GET /api/v1/payments/:id
  * Get a payment by ID
@@ -44,7 +77,7 @@ router.get(
 
 /**
  * POST /api/v1/payments/:id/capture
- * Capture a pending payment
+ * Capture all or part of an authorized payment
  */
 router.post(
   '/:id/capture',
@@ -52,9 +85,80 @@ router.post(
   paymentController.capturePayment.bind(paymentController)
 );
 
+/**
+ * GET /api/v1/payments/:id/attempts
+ * List each provider tried for a payment with its latency and error
+ */
+router.get(
+  '/:id/attempts',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.listAttempts.bind(paymentController)
+);
+
+/**
+ * GET /api/v1/payments/:id/retries
+ * List the scheduled retries of a merchant-initiated payment and their outcomes
+ */
+router.get(
+  '/:id/retries',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.listRetries.bind(paymentController)
+);
+
+/**
+ * GET /api/v1/payments/:id/routing-decision
+ * Get the routing decision a payment was created with, including provider score components
+ */
+router.get(
+  '/:id/routing-decision',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.getRoutingDecision.bind(paymentController)
+);
+
+/**
+ * GET /api/v1/payments/:id/timeline
+ * Everything that happened to a payment, in order: status changes, routing,
+ * provider attempts, retries, webhooks, ledger postings, fraud checks, refunds and disputes
+ */
+router.get(
+  '/:id/timeline',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.getTimeline.bind(paymentController)
+);
+
+/**
+ * GET /api/v1/payments/:id/captures
+ * List the individual captures made against an authorization
+ */
+router.get(
+  '/:id/captures',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.listCaptures.bind(paymentController)
+);
+
+/**
+ * GET /api/v1/payments/:id/splits
+ * List how a marketplace charge is split between merchants and what has been transferred
+ */
+router.get(
+  '/:id/splits',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.listSplits.bind(paymentController)
+);
+
+/**
+ * POST /api/v1/payments/:id/confirm
+ * Complete a payment after the customer finishes a 3-D Secure challenge
+ */
+router.post(
+  '/:id/confirm',
+  validateRequest({ params: paymentIdParamSchema }),
+  paymentController.confirmPayment.bind(paymentController)
+);
+
 /**
  * POST /api/v1/payments/:id/cancel
- * Cancel a pending payment
+ * Cancel a pending payment or one still awaiting customer authentication
  */
 router.post(
   '/:id/cancel',
@@ -64,7 +168,7 @@ router.post(
 
 /**
  * POST /api/v1/payments/:id/refund
- * Refund a completed payment
+ * Refund all or part of the remaining captured balance
  */
 router.post(
   '/:id/refund',
@@ -9,13 +9,19 @@ const paymentMethodTypeEnum = z.enum([
 ]);
 
 const transactionStatusEnum = z.enum([
-  'PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'REFUNDED', 'CANCELLED',
+  'PENDING', 'PROCESSING', 'REQUIRES_ACTION', 'PARTIALLY_CAPTURED', 'COMPLETED', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED', 'CANCELLED',
 ]);
 
 const transactionTypeEnum = z.enum([
   'PAYMENT', 'REFUND', 'PAYOUT', 'TRANSFER',
 ]);
 
+const providerErrorCodeEnum = z.enum([
+  'INSUFFICIENT_FUNDS', 'EXPIRED_CARD', 'INVALID_CARD', 'INVALID_CVV', 'CARD_DECLINED', 'FRAUD_SUSPECTED',
+  'NETWORK_ERROR', 'TIMEOUT', 'RATE_LIMITED', 'AUTHENTICATION_ERROR', 'AUTHENTICATION_FAILED',
+  'INVALID_REQUEST', 'NOT_FOUND', 'DUPLICATE_TRANSACTION', 'PROVIDER_UNAVAILABLE', 'UNKNOWN_ERROR',
+]);
+
 export const createPaymentBodySchema = z.object({
   merchantId: z.string().uuid(),
   customerId: z.string().uuid().optional(),
@@ -30,12 +36,41 @@ export const createPaymentBodySchema = z.object({
     expiryYear: z.number().int().min(2024).max(2050).optional(),
     cvv: z.string().min(3).max(4).optional(),
     holderName: z.string().optional(),
-  }),
+    iban: z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/).optional(),
+    routingNumber: z.string().regex(/^\d{9}$/).optional(),
+    accountNumber: z.string().regex(/^\d{4,17}$/).optional(),
+    cryptoAsset: z.enum(['BTC', 'ETH', 'USDC']).optional(),
+    walletAddress: z.string().min(26).max(90).optional(),
+  }).optional(),
+  paymentMethodId: z.string().uuid().optional(),
   capture: z.boolean().default(true),
+  returnUrl: z.string().url().max(2048).optional(),
+  splits: z.array(z.object({
+    merchantId: z.string().uuid(),
+    amount: z.coerce.bigint().positive().optional(),
+    percentage: z.number().positive().max(100).multipleOf(0.01).optional(),
+  }).refine(
+    (split) => (split.amount === undefined) !== (split.percentage === undefined),
+    { message: 'Provide either amount or percentage' }
+  )).min(1).max(50).optional(),
+  async: z.boolean().default(false),
+  merchantInitiated: z.boolean().default(false),
   description: z.string().max(500).optional(),
   metadata: z.record(z.unknown()).optional(),
   idempotencyKey: z.string().max(64).optional(),
-});
+}).refine(
+  (body) => !(body.paymentMethod && body.paymentMethodId),
+  { message: 'Provide either paymentMethod or paymentMethodId, not both', path: ['paymentMethodId'] }
+).refine(
+  (body) => body.paymentMethod || body.customerId,
+  { message: 'customerId is required to pay with a saved payment method', path: ['customerId'] }
+).refine(
+  (body) => !(body.async && (body.paymentMethod?.cardNumber || body.paymentMethod?.accountNumber || body.paymentMethod?.iban)),
+  { message: 'Asynchronous payments need a saved payment method or a token', path: ['async'] }
+).refine(
+  (body) => !(body.merchantInitiated && body.paymentMethod),
+  { message: 'Merchant-initiated payments need a saved payment method', path: ['merchantInitiated'] }
+);
 
 export const paymentIdParamSchema = z.object({
   id: z.string().uuid(),
@@ -49,12 +84,19 @@ export const listPaymentsQuerySchema = z.object({
   currency: currencyEnum.optional(),
   fromDate: z.string().datetime().optional(),
   toDate: z.string().datetime().optional(),
-  page: z.coerce.number().int().positive().default(1),
+  q: z.string().max(500).optional(),
+  cursor: z.string().max(200).optional(),
+  // Without a page number results are paginated by cursor
+  page: z.coerce.number().int().positive().optional(),
   limit: z.coerce.number().int().positive().max(100).default(20),
+}).refine((query) => !(query.cursor && query.page), {
+  message: 'Use either cursor or page, not both',
+  path: ['cursor'],
 });
 
 export const capturePaymentBodySchema = z.object({
   amount: z.coerce.bigint().positive().optional(),
+  final: z.boolean().default(false),
 });
 
 export const refundPaymentBodySchema = z.object({
@@ -66,9 +108,29 @@ export const cancelPaymentBodySchema = z.object({
   reason: z.string().max(500).optional(),
 });
 
+export const listRetryPoliciesQuerySchema = z.object({
+  merchantId: z.string().uuid(),
+});
+
+export const upsertRetryPolicyBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  errorCode: providerErrorCodeEnum,
+  // 0 stops a code from being retried at all
+  maxAttempts: z.number().int().min(0).max(10),
+  // Up to a week between retries
+  backoffMinutes: z.array(z.number().int().positive().max(10080)).min(1).max(10),
+});
+
+export const retryPolicyIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
 export type CreatePaymentBody = z.infer<typeof createPaymentBodySchema>;
 export type PaymentIdParam = z.infer<typeof paymentIdParamSchema>;
 export type ListPaymentsQuery = z.infer<typeof listPaymentsQuerySchema>;
 export type CapturePaymentBody = z.infer<typeof capturePaymentBodySchema>;
 export type RefundPaymentBody = z.infer<typeof refundPaymentBodySchema>;
 export type CancelPaymentBody = z.infer<typeof cancelPaymentBodySchema>;
+export type ListRetryPoliciesQuery = z.infer<typeof listRetryPoliciesQuerySchema>;
+export type UpsertRetryPolicyBody = z.infer<typeof upsertRetryPolicyBodySchema>;
+export type RetryPolicyIdParam = z.infer<typeof retryPolicyIdParamSchema>;
@@ -1,9 +1,35 @@
-import { Transaction, TransactionStatus, TransactionType, Currency, Prisma } from '@prisma/client';
+import {
+  PaymentAttemptStatus,
+  PaymentMethod,
+  PaymentRetry,
+  PaymentRetryStatus,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  Currency,
+  Prisma,
+} from '@prisma/client';
 import { prisma } from '../../shared/database/prisma.js';
 import { logger } from '../../shared/utils/logger.js';
+import {
+  decodeCursor,
+  keysetWhere,
+  toCursorPage,
+  KEYSET_ORDER_BY,
+} from '../../shared/utils/cursor.js';
+import { compileSearchQuery, SearchSchema } from '../../shared/utils/search-query.js';
 import { providerService } from '../provider/provider.service.js';
+import { circuitBreakerService } from '../provider/circuit-breaker.service.js';
 import { fxService } from '../fx/fx.service.js';
 import { routingService } from '../routing/routing.service.js';
+import { merchantWebhookService } from '../merchant-webhook/merchant-webhook.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { paymentMethodService } from '../payment-method/payment-method.service.js';
+import { PaymentMethodError } from '../payment-method/payment-method.types.js';
+import { transactionStateService } from '../transaction-state/transaction-state.service.js';
+import { paymentSplitService, ResolvedSplit } from './payment-split.service.js';
+import { paymentQueueService } from './payment-queue.service.js';
+import { paymentRetryService } from './payment-retry.service.js';
 import {
   CreatePaymentRequest,
   PaymentResponse,
@@ -11,13 +37,105 @@ import {
   RefundPaymentRequest,
   ListPaymentsFilter,
   PaymentListResponse,
+  PaymentCaptureResponse,
+  PaymentSplitResponse,
+  PaymentAttemptResponse,
+  PaymentRoutingDecisionResponse,
+  QueuedPaymentJob,
+  PaymentRetryOutcome,
+  PaymentRetryResponse,
   PaymentError,
 } from './payment.types.js';
-import { ProviderError, AuthorizeRequest } from '../provider/provider.types.js';
-import { RoutingContext } from '../routing/routing.types.js';
+import {
+  ProviderError,
+  AuthorizeRequest,
+  AuthorizeResponse,
+  CaptureResponse,
+  NextAction,
+} from '../provider/provider.types.js';
+import { ProviderScore, RoutingContext, RoutingDecision } from '../routing/routing.types.js';
 
 const MAX_PROVIDER_RETRIES = 3;
 
+// Where a merchant-initiated payment is in its retry schedule
+interface RetryProgress {
+  /** 0 for the original attempt */
+  retryNumber: number;
+  excludedProviderIds: string[];
+  /** Provider attempts already recorded for the payment */
+  attemptOffset: number;
+}
+
+// Authorizations that still have an open, capturable balance
+const CAPTURABLE_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PARTIALLY_CAPTURED,
+];
+
+// Payments that can still be voided: open authorizations and abandoned 3-D Secure challenges
+const CANCELLABLE_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.REQUIRES_ACTION,
+];
+
+// Payments with captured funds that can still be refunded
+const REFUNDABLE_STATUSES: TransactionStatus[] = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+];
+
+// Refunds that count against the refundable balance; in-flight ones hold a reservation
+const OUTSTANDING_REFUND_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PROCESSING,
+  TransactionStatus.COMPLETED,
+];
+
+// Fields accepted by the payment list search query
+const TRANSACTION_SEARCH_SCHEMA: SearchSchema = {
+  fields: {
+    id: { type: 'string' },
+    merchantId: { type: 'string' },
+    customerId: { type: 'string' },
+    status: { type: 'enum', values: Object.values(TransactionStatus) },
+    type: { type: 'enum', values: Object.values(TransactionType) },
+    currency: { type: 'enum', values: Object.values(Currency) },
+    amount: { type: 'bigint' },
+    capturedAmount: { type: 'bigint' },
+    refundedAmount: { type: 'bigint' },
+    provider: { type: 'string', field: 'provider.code' },
+    providerTransactionId: { type: 'string' },
+    description: { type: 'text' },
+    failureReason: { type: 'text' },
+    createdAt: { type: 'date' },
+  },
+  jsonField: 'metadata',
+  textFields: ['description'],
+};
+
+/**
+ * The Prisma filter for a payment list query; shared by listing and exports.
+ */
+export function toTransactionWhere(filter: ListPaymentsFilter): Prisma.TransactionWhereInput {
+  const where: Prisma.TransactionWhereInput = {};
+
+  if (filter.merchantId) where.merchantId = filter.merchantId;
+  if (filter.customerId) where.customerId = filter.customerId;
+  if (filter.status) where.status = filter.status;
+  if (filter.type) where.type = filter.type;
+  if (filter.currency) where.currency = filter.currency;
+  if (filter.fromDate || filter.toDate) {
+    where.createdAt = {};
+    if (filter.fromDate) where.createdAt.gte = filter.fromDate;
+    if (filter.toDate) where.createdAt.lte = filter.toDate;
+  }
+  if (filter.search) {
+    where.AND = compileSearchQuery<Prisma.TransactionWhereInput>(filter.search, TRANSACTION_SEARCH_SCHEMA);
+  }
+
+  return where;
+}
+
 export class PaymentService {
   private static instance: PaymentService | null = null;
 
@@ -52,6 +170,17 @@ export class PaymentService {
       }
     }
 
+    const { paymentMethod, savedMethod } = await this.resolvePaymentMethod(request);
+
+    let splits: ResolvedSplit[] = [];
+    if (request.splits?.length) {
+      // Transfers are paid out in the charge currency, so splits and FX don't mix
+      if (request.targetCurrency && request.targetCurrency !== request.currency) {
+        throw PaymentError.invalidSplit('Split payments cannot be combined with currency conversion');
+      }
+      splits = await paymentSplitService.resolveSplits(request.amount, request.splits);
+    }
+
     // Handle FX conversion if needed
     let convertedAmount: bigint | undefined;
     let convertedCurrency: Currency | undefined;
@@ -68,12 +197,66 @@ export class PaymentService {
       fxRateId = conversion.fxRateId;
     }
 
+    if (request.async && (paymentMethod.cardNumber || paymentMethod.accountNumber || paymentMethod.iban)) {
+      throw PaymentError.invalidRequest('Asynchronous payments need a saved payment method or a token');
+    }
+
+    // Retries charge the saved method again, so there must be one
+    if (request.merchantInitiated && !savedMethod) {
+      throw PaymentError.invalidRequest('Merchant-initiated payments need a saved payment method');
+    }
+
+    const transactionData = {
+      merchantId: request.merchantId,
+      customerId: request.customerId,
+      paymentMethodId: savedMethod?.id,
+      type: TransactionType.PAYMENT,
+      status: TransactionStatus.PENDING,
+      amount: request.amount,
+      currency: request.currency,
+      convertedAmount,
+      convertedCurrency,
+      fxRateId,
+      description: request.description,
+      metadata: (request.metadata ?? {}) as object,
+      idempotencyKey: request.idempotencyKey,
+      splits: splits.length
+        ? {
+            create: splits.map((split) => ({
+              recipientMerchantId: split.recipientMerchantId,
+              amount: split.amount,
+              percentage: split.percentage,
+            })),
+          }
+        : undefined,
+    } satisfies Prisma.TransactionUncheckedCreateInput;
+
+    if (request.async) {
+      return this.queuePayment(transactionData, {
+        paymentMethod: {
+          type: paymentMethod.type,
+          token: paymentMethod.token,
+          expiryMonth: paymentMethod.expiryMonth,
+          expiryYear: paymentMethod.expiryYear,
+          cryptoAsset: paymentMethod.cryptoAsset,
+          walletAddress: paymentMethod.walletAddress,
+        },
+        cardBrand: savedMethod?.brand ?? undefined,
+        cardLast4: savedMethod?.last4 ?? undefined,
+        capture: request.capture,
+        returnUrl: request.returnUrl,
+        merchantInitiated: request.merchantInitiated,
+      });
+    }
+
     // Build routing context
     const routingContext: RoutingContext = {
       merchantId: request.merchantId,
       amount: convertedAmount ?? request.amount,
       currency: convertedCurrency ?? request.currency,
-      paymentMethodType: request.paymentMethod.type,
+      paymentMethodType: paymentMethod.type,
+      cardBrand: savedMethod?.brand ?? undefined,
+      cardLast4: savedMethod?.last4 ?? undefined,
       customerId: request.customerId,
       metadata: request.metadata,
     };
@@ -84,25 +267,341 @@ export class PaymentService {
     // Create initial transaction record
     const transaction = await prisma.transaction.create({
       data: {
-        merchantId: request.merchantId,
-        customerId: request.customerId,
-        type: TransactionType.PAYMENT,
-        status: TransactionStatus.PENDING,
-        amount: request.amount,
-        currency: request.currency,
-        convertedAmount,
-        convertedCurrency,
-        fxRateId,
-        description: request.description,
-        metadata: (request.metadata ?? {}) as object,
-        idempotencyKey: request.idempotencyKey,
+        ...transactionData,
+        routingDecision: { create: this.toRoutingDecisionData(routingDecision) },
       },
     });
 
     // Record status history
-    await this.recordStatusChange(transaction.id, null, TransactionStatus.PENDING);
+    await transactionStateService.recordCreated(transaction);
+
+    return this.attemptProviders(
+      transaction.id,
+      request,
+      paymentMethod,
+      routingDecision,
+      convertedAmount ?? request.amount,
+      convertedCurrency ?? request.currency
+    );
+  }
+
+  /**
+   * Process a payment taken off the async queue: route it, try providers and
+   * record the outcome. A payment that all providers decline or fail is a
+   * finished job; only unexpected errors are left for the queue to retry.
+   */
+  async processQueuedPayment(job: QueuedPaymentJob): Promise<void> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: job.transactionId },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(job.transactionId);
+    }
+
+    // Already finished by an earlier delivery of the same job
+    if (transaction.status !== TransactionStatus.PROCESSING) {
+      logger.info('Skipping queued payment that is no longer processing', {
+        transactionId: transaction.id,
+        status: transaction.status,
+      });
+      return;
+    }
+
+    if (await this.resumeSentPayment(transaction)) {
+      return;
+    }
+
+    const amount = transaction.convertedAmount ?? transaction.amount;
+    const currency = transaction.convertedCurrency ?? transaction.currency;
+    const metadata = transaction.metadata as Record<string, unknown>;
+
+    const routingDecision = await routingService.selectProvider({
+      merchantId: transaction.merchantId,
+      amount,
+      currency,
+      paymentMethodType: job.paymentMethod.type,
+      cardBrand: job.cardBrand,
+      cardLast4: job.cardLast4,
+      customerId: transaction.customerId ?? undefined,
+      metadata,
+    });
+
+    const decisionData = this.toRoutingDecisionData(routingDecision);
+    await prisma.paymentRoutingDecision.upsert({
+      where: { transactionId: transaction.id },
+      create: { transactionId: transaction.id, ...decisionData },
+      update: decisionData,
+    });
+
+    const request: CreatePaymentRequest = {
+      merchantId: transaction.merchantId,
+      customerId: transaction.customerId ?? undefined,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      capture: job.capture,
+      returnUrl: job.returnUrl,
+      merchantInitiated: job.merchantInitiated,
+      description: transaction.description ?? undefined,
+      metadata,
+      // Stable across deliveries so the provider deduplicates a repeated charge
+      idempotencyKey: transaction.idempotencyKey ?? transaction.id,
+    };
+
+    try {
+      await this.attemptProviders(transaction.id, request, job.paymentMethod, routingDecision, amount, currency);
+    } catch (error) {
+      if (error instanceof PaymentError && error.code === 'ALL_PROVIDERS_FAILED') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a scheduled retry of a merchant-initiated payment: route it again
+   * without the providers that already failed it and try the rest. Another
+   * failure schedules the next retry while the merchant's policy allows.
+   */
+  async processScheduledRetry(retry: PaymentRetry): Promise<PaymentRetryOutcome> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: retry.transactionId },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(retry.transactionId);
+    }
+
+    if (transaction.status !== TransactionStatus.PROCESSING) {
+      return { status: PaymentRetryStatus.CANCELLED, outcome: `Payment is ${transaction.status}` };
+    }
+
+    // A stale retry is run again; one whose provider call already went through
+    // must not charge a second time
+    const sent = await this.resumeSentPayment(transaction);
+    if (sent) {
+      return {
+        status: PaymentRetryStatus.SUCCEEDED,
+        providerId: sent.providerId ?? undefined,
+        outcome: sent.status,
+      };
+    }
+
+    const metadata = transaction.metadata as Record<string, unknown>;
+    const request: CreatePaymentRequest = {
+      merchantId: transaction.merchantId,
+      customerId: transaction.customerId ?? undefined,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      paymentMethodId: transaction.paymentMethodId ?? undefined,
+      capture: retry.capture,
+      merchantInitiated: true,
+      description: transaction.description ?? undefined,
+      metadata,
+      idempotencyKey: transaction.idempotencyKey ?? undefined,
+    };
+
+    const { paymentMethod, savedMethod } = await this.resolvePaymentMethod(request);
+    const amount = transaction.convertedAmount ?? transaction.amount;
+    const currency = transaction.convertedCurrency ?? transaction.currency;
+
+    const routingDecision = await routingService.getNextFallback(
+      {
+        merchantId: transaction.merchantId,
+        amount,
+        currency,
+        paymentMethodType: paymentMethod.type,
+        cardBrand: savedMethod?.brand ?? undefined,
+        cardLast4: savedMethod?.last4 ?? undefined,
+        customerId: transaction.customerId ?? undefined,
+        metadata,
+      },
+      retry.excludedProviderIds
+    );
+
+    if (!routingDecision) {
+      const reason = `No payment providers left to retry after ${retry.errorCode}`;
+      await this.failQueuedPayment(transaction.id, reason);
+      return { status: PaymentRetryStatus.FAILED, outcome: reason };
+    }
+
+    const attemptOffset = await prisma.paymentAttempt.count({
+      where: { transactionId: transaction.id },
+    });
 
-    // Attempt payment with fallback
+    try {
+      const payment = await this.attemptProviders(
+        transaction.id,
+        request,
+        paymentMethod,
+        routingDecision,
+        amount,
+        currency,
+        { retryNumber: retry.retryNumber, excludedProviderIds: retry.excludedProviderIds, attemptOffset }
+      );
+
+      // Still PROCESSING without a provider reference means this retry failed too
+      // and the next one is scheduled; with one, a bank debit is awaiting settlement
+      const failed =
+        payment.status === TransactionStatus.FAILED ||
+        (payment.status === TransactionStatus.PROCESSING && !payment.providerTransactionId);
+
+      return {
+        status: failed ? PaymentRetryStatus.FAILED : PaymentRetryStatus.SUCCEEDED,
+        providerId: payment.providerId,
+        outcome: payment.status,
+      };
+    } catch (error) {
+      if (error instanceof PaymentError && error.code === 'ALL_PROVIDERS_FAILED') {
+        return {
+          status: PaymentRetryStatus.FAILED,
+          providerId: routingDecision.selectedProviderId,
+          outcome: TransactionStatus.FAILED,
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * A bank debit stays PROCESSING after the provider accepts it, and a worker
+   * that died after authorizing leaves its attempt behind; charging again
+   * would take the customer's money twice. Returns the payment if it was
+   * already sent, first moving it to the outcome its recorded attempt saw.
+   */
+  private async resumeSentPayment(transaction: Transaction): Promise<Transaction | null> {
+    if (transaction.providerTransactionId) {
+      logger.info('Skipping payment already sent to a provider', {
+        transactionId: transaction.id,
+        providerTransactionId: transaction.providerTransactionId,
+      });
+      return transaction;
+    }
+
+    const attempt = await prisma.paymentAttempt.findFirst({
+      where: {
+        transactionId: transaction.id,
+        status: { in: [PaymentAttemptStatus.SUCCEEDED, PaymentAttemptStatus.REQUIRES_ACTION] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!attempt) {
+      return null;
+    }
+
+    // Attempts recorded before their outcome was kept only say whether the
+    // customer still has to act
+    const outcome =
+      attempt.transactionStatus ??
+      (attempt.status === PaymentAttemptStatus.REQUIRES_ACTION ? TransactionStatus.REQUIRES_ACTION : null);
+
+    if (!outcome) {
+      logger.warn('Payment already sent to a provider needs manual reconciliation', {
+        transactionId: transaction.id,
+        attemptId: attempt.id,
+        providerTransactionId: attempt.providerTransactionId,
+      });
+      return transaction;
+    }
+
+    const amount = transaction.convertedAmount ?? transaction.amount;
+    const currency = transaction.convertedCurrency ?? transaction.currency;
+    const captured = outcome === TransactionStatus.COMPLETED;
+
+    const updated = await transactionStateService.transition({
+      transactionId: transaction.id,
+      from: TransactionStatus.PROCESSING,
+      to: outcome,
+      reason: 'Reconciled from the recorded provider attempt',
+      data: {
+        providerId: attempt.providerId,
+        providerTransactionId: attempt.providerTransactionId,
+        providerResponse: attempt.rawResponse ?? undefined,
+        capturedAmount: captured ? amount : 0n,
+        capturedAt: captured ? attempt.createdAt : null,
+      },
+    });
+
+    if (captured) {
+      await this.postLedgerEntries(transaction.id, () =>
+        ledgerService.recordPayment(transaction.id, amount, currency, transaction.merchantId)
+      );
+      await this.postLedgerEntries(transaction.id, () => paymentSplitService.settleTransfers(transaction.id));
+    }
+
+    logger.info('Reconciled payment from its recorded provider attempt', {
+      transactionId: transaction.id,
+      attemptId: attempt.id,
+      providerTransactionId: attempt.providerTransactionId,
+      status: outcome,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Give up on a queued payment that could not be processed, e.g. once its
+   * job is dead-lettered.
+   */
+  async failQueuedPayment(transactionId: string, reason: string): Promise<void> {
+    await transactionStateService.transition({
+      transactionId,
+      from: TransactionStatus.PROCESSING,
+      to: TransactionStatus.FAILED,
+      reason,
+      data: { failureReason: reason },
+    });
+  }
+
+  /**
+   * Persist an async payment as PROCESSING and hand it to the queue workers.
+   */
+  private async queuePayment(
+    data: Prisma.TransactionUncheckedCreateInput,
+    job: Omit<QueuedPaymentJob, 'transactionId'>
+  ): Promise<PaymentResponse> {
+    const transaction = await prisma.transaction.create({ data });
+
+    await transactionStateService.recordCreated(transaction);
+    const processing = await transactionStateService.transition({
+      transactionId: transaction.id,
+      from: TransactionStatus.PENDING,
+      to: TransactionStatus.PROCESSING,
+      reason: 'Queued for asynchronous processing',
+    });
+
+    try {
+      await paymentQueueService.enqueue({ transactionId: transaction.id, ...job });
+    } catch (error) {
+      logger.error('Failed to queue payment', {
+        transactionId: transaction.id,
+        error: (error as Error).message,
+      });
+      await this.failQueuedPayment(transaction.id, 'Payment could not be queued for processing');
+      throw PaymentError.queueUnavailable(transaction.id);
+    }
+
+    logger.info('Payment queued for asynchronous processing', { transactionId: transaction.id });
+
+    return this.toPaymentResponse(processing);
+  }
+
+  /**
+   * Try the routed provider and then its fallbacks while failures are
+   * retryable. Once no provider succeeds, a merchant-initiated payment is
+   * left PROCESSING with a retry scheduled if its policy allows; otherwise
+   * the payment is failed and this throws.
+   */
+  private async attemptProviders(
+    transactionId: string,
+    request: CreatePaymentRequest,
+    paymentMethod: AuthorizeRequest['paymentMethod'],
+    routingDecision: RoutingDecision,
+    amount: bigint,
+    currency: Currency,
+    progress: RetryProgress = { retryNumber: 0, excludedProviderIds: [], attemptOffset: 0 }
+  ): Promise<PaymentResponse> {
     const failedProviderIds: string[] = [];
     let lastError: Error | null = null;
 
@@ -114,13 +613,25 @@ export class PaymentService {
     for (let attempt = 0; attempt < Math.min(allProviderIds.length, MAX_PROVIDER_RETRIES); attempt++) {
       const providerId = allProviderIds[attempt]!;
 
+      // Routing only reads circuit state; a half-open circuit hands out its
+      // trial requests here, to the payments actually sent
+      if (!(await this.admitRequest(providerId, request.merchantId))) {
+        lastError = new ProviderError('Circuit breaker is open', 'PROVIDER_UNAVAILABLE');
+        logger.warn('Skipping provider refused by its circuit breaker', { transactionId, providerId });
+        continue;
+      }
+
       try {
+        // A payment waiting on a 3-D Secure challenge comes back here too; the
+        // challenge belongs to this provider, so it must not fall back to another
         const result = await this.executePaymentWithProvider(
-          transaction.id,
+          transactionId,
           providerId,
           request,
-          convertedAmount ?? request.amount,
-          convertedCurrency ?? request.currency
+          paymentMethod,
+          amount,
+          currency,
+          progress.attemptOffset + attempt + 1
         );
         return result;
       } catch (error) {
@@ -131,7 +642,7 @@ export class PaymentService {
           error instanceof ProviderError && error.isRetryable;
 
         logger.warn('Payment attempt failed', {
-          transactionId: transaction.id,
+          transactionId,
           providerId,
           attempt: attempt + 1,
           isRetryable,
@@ -144,14 +655,36 @@ export class PaymentService {
       }
     }
 
+    if (request.merchantInitiated && lastError instanceof ProviderError) {
+      const retry = await paymentRetryService.scheduleRetry({
+        transactionId,
+        merchantId: request.merchantId,
+        retryNumber: progress.retryNumber + 1,
+        errorCode: lastError.code,
+        errorMessage: lastError.message,
+        excludedProviderIds: [...progress.excludedProviderIds, ...failedProviderIds],
+        capture: request.capture ?? true,
+      });
+
+      if (retry) {
+        const pending = await transactionStateService.transition({
+          transactionId,
+          to: TransactionStatus.PROCESSING,
+        });
+        return this.toPaymentResponse(pending);
+      }
+    }
+
     // All providers failed
-    await this.updateTransactionStatus(
-      transaction.id,
-      TransactionStatus.FAILED,
-      lastError?.message ?? 'All payment providers failed'
-    );
+    const failureReason = lastError?.message ?? 'All payment providers failed';
+    await transactionStateService.transition({
+      transactionId,
+      to: TransactionStatus.FAILED,
+      reason: failureReason,
+      data: { failureReason },
+    });
 
-    throw PaymentError.allProvidersFailed(transaction.id);
+    throw PaymentError.allProvidersFailed(transactionId);
   }
 
   async getPayment(id: string): Promise<PaymentResponse | null> {
@@ -162,42 +695,51 @@ export class PaymentService {
     return transaction ? this.toPaymentResponse(transaction) : null;
   }
 
+  /**
+   * List payments newest first, a page at a time from the cursor. Passing a
+   * page number instead keeps offset pagination with a total count, which
+   * gets slower the further in the page is.
+   */
   async listPayments(query: ListPaymentsFilter): Promise<PaymentListResponse> {
-    const page = query.page ?? 1;
     const limit = query.limit ?? 20;
-    const skip = (page - 1) * limit;
-
-    const where: Prisma.TransactionWhereInput = {};
-
-    if (query.merchantId) where.merchantId = query.merchantId;
-    if (query.customerId) where.customerId = query.customerId;
-    if (query.status) where.status = query.status;
-    if (query.type) where.type = query.type;
-    if (query.currency) where.currency = query.currency;
-    if (query.fromDate || query.toDate) {
-      where.createdAt = {};
-      if (query.fromDate) where.createdAt.gte = query.fromDate;
-      if (query.toDate) where.createdAt.lte = query.toDate;
-    }
-
-    const [transactions, total] = await Promise.all([
-      prisma.transaction.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: { createdAt: 'desc' },
-      }),
-      prisma.transaction.count({ where }),
-    ]);
+    const where = toTransactionWhere(query);
+
+    if (query.page !== undefined) {
+      const page = query.page;
+      const skip = (page - 1) * limit;
+
+      const [transactions, total] = await Promise.all([
+        prisma.transaction.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: KEYSET_ORDER_BY,
+        }),
+        prisma.transaction.count({ where }),
+      ]);
+
+      return {
+        payments: transactions.map((t) => this.toPaymentResponse(t)),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: query.cursor ? { AND: [where, keysetWhere(decodeCursor(query.cursor))] } : where,
+      take: limit + 1,
+      orderBy: KEYSET_ORDER_BY,
+    });
+
+    const { items, pagination } = toCursorPage(transactions, limit);
 
     return {
-      payments: transactions.map((t) => this.toPaymentResponse(t)),
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
+      payments: items.map((t) => this.toPaymentResponse(t)),
+      pagination,
     };
   }
 
@@ -213,8 +755,8 @@ export class PaymentService {
       throw PaymentError.notFound(id);
     }
 
-    if (transaction.status !== TransactionStatus.PENDING) {
-      throw PaymentError.invalidStatus(id, transaction.status, 'PENDING');
+    if (!CAPTURABLE_STATUSES.includes(transaction.status)) {
+      throw PaymentError.invalidStatus(id, transaction.status, CAPTURABLE_STATUSES.join(' or '));
     }
 
     if (!transaction.providerId || !transaction.providerTransactionId) {
@@ -234,35 +776,317 @@ export class PaymentService {
       transaction.merchantId
     );
 
+    // Captures are made against what the provider authorized, in its currency
+    const authorizedAmount = this.getProviderAmount(transaction);
+
+    // Reserve the capture against the authorization before calling the provider.
+    // The parent row lock serializes concurrent captures, and the reservation is
+    // held in capturedAmount so the next one only sees what is left.
+    const { captureAmount, isFinal } = await prisma.$transaction(async (tx) => {
+      await this.lockTransaction(tx, id);
+
+      const current = await tx.transaction.findUnique({ where: { id } });
+
+      if (!current || !CAPTURABLE_STATUSES.includes(current.status)) {
+        throw PaymentError.invalidStatus(id, current?.status ?? transaction.status, CAPTURABLE_STATUSES.join(' or '));
+      }
+
+      const capturableAmount = authorizedAmount - current.capturedAmount;
+      const captureAmount = request.amount ?? capturableAmount;
+
+      if (captureAmount <= 0n || captureAmount > capturableAmount) {
+        throw PaymentError.captureExceedsAuthorization(id, captureAmount, capturableAmount);
+      }
+
+      await tx.transaction.update({
+        where: { id },
+        data: { capturedAmount: current.capturedAmount + captureAmount },
+      });
+
+      // Capturing the whole remainder closes the authorization even without an explicit flag
+      return { captureAmount, isFinal: request.final === true || captureAmount === capturableAmount };
+    });
+
+    let captureResult: CaptureResponse;
     try {
-      const captureResult = await adapter.capture({
+      captureResult = await adapter.capture({
         providerTransactionId: transaction.providerTransactionId,
-        amount: request.amount,
-        currency: transaction.currency,
+        amount: captureAmount,
+        currency: this.getProviderCurrency(transaction),
+        final: isFinal,
+      });
+    } catch (error) {
+      logger.error('Failed to capture payment', {
+        transactionId: id,
+        error: (error as Error).message,
       });
 
-      const updated = await prisma.transaction.update({
-        where: { id },
+      // Release the reservation so the amount can be captured again
+      await prisma.$transaction(async (tx) => {
+        await this.lockTransaction(tx, id);
+        const current = await tx.transaction.findUnique({ where: { id } });
+        await tx.transaction.update({
+          where: { id },
+          data: { capturedAmount: (current?.capturedAmount ?? captureAmount) - captureAmount },
+        });
+      });
+
+      if (error instanceof ProviderError) {
+        throw PaymentError.providerError(error.message, id);
+      }
+      throw error;
+    }
+
+    const { updated, capture, previousStatus, capturedAmount } = await prisma.$transaction(async (tx) => {
+      await this.lockTransaction(tx, id);
+
+      const current = await tx.transaction.findUnique({ where: { id } });
+
+      if (!current) {
+        throw PaymentError.notFound(id);
+      }
+
+      // Swap the reservation for what the provider actually captured
+      const capturedAmount = current.capturedAmount - captureAmount + captureResult.capturedAmount;
+      const releasedAmount = isFinal ? authorizedAmount - capturedAmount : 0n;
+      // A final capture reserved after this one may have finished first
+      const newStatus = isFinal || current.status === TransactionStatus.COMPLETED
+        ? TransactionStatus.COMPLETED
+        : TransactionStatus.PARTIALLY_CAPTURED;
+
+      const capture = await tx.paymentCapture.create({
         data: {
-          status: TransactionStatus.COMPLETED,
-          capturedAt: new Date(),
+          transactionId: id,
+          amount: captureResult.capturedAmount,
+          currency: captureResult.currency,
+          isFinal,
+          releasedAmount,
+          providerCaptureId: captureResult.providerCaptureId,
           providerResponse: captureResult.rawResponse as object,
         },
       });
 
-      await this.recordStatusChange(id, TransactionStatus.PENDING, TransactionStatus.COMPLETED);
+      const updated = await transactionStateService.transition(
+        {
+          transactionId: id,
+          from: current.status,
+          to: newStatus,
+          reason: releasedAmount > 0n ? 'Final capture released remaining authorization' : undefined,
+          metadata: {
+            captureId: capture.id,
+            capturedAmount: capturedAmount.toString(),
+            releasedAmount: releasedAmount.toString(),
+          },
+          data: {
+            capturedAmount,
+            capturedAt: new Date(),
+            providerResponse: captureResult.rawResponse as object,
+          },
+        },
+        tx
+      );
 
-      // Update provider metrics
-      await providerService.updateMetrics(transaction.providerId, true, 0);
+      return { updated, capture, previousStatus: current.status, capturedAmount };
+    });
 
-      logger.info('Payment captured successfully', {
-        transactionId: id,
-        capturedAmount: captureResult.capturedAmount.toString(),
+    if (updated.status !== previousStatus) {
+      await merchantWebhookService.publishTransactionStatus(id, updated.status);
+    }
+
+    await this.postLedgerEntries(id, () =>
+      ledgerService.recordPayment(id, captureResult.capturedAmount, captureResult.currency, transaction.merchantId)
+    );
+    await this.postLedgerEntries(id, () => paymentSplitService.settleTransfers(id));
+
+    // Update provider metrics
+    await providerService.updateMetrics(transaction.providerId, true, 0, {
+      merchantId: transaction.merchantId,
+    });
+
+    logger.info('Payment captured successfully', {
+      transactionId: id,
+      captureId: capture.id,
+      capturedAmount: captureResult.capturedAmount.toString(),
+      totalCapturedAmount: capturedAmount.toString(),
+      isFinal,
+    });
+
+    return this.toPaymentResponse(updated);
+  }
+
+  async listCaptures(id: string): Promise<PaymentCaptureResponse[]> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    const captures = await prisma.paymentCapture.findMany({
+      where: { transactionId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return captures.map((c) => ({
+      id: c.id,
+      transactionId: c.transactionId,
+      amount: c.amount,
+      currency: c.currency,
+      isFinal: c.isFinal,
+      releasedAmount: c.releasedAmount,
+      providerCaptureId: c.providerCaptureId ?? undefined,
+      createdAt: c.createdAt,
+    }));
+  }
+
+  async listSplits(id: string): Promise<PaymentSplitResponse[]> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    return paymentSplitService.listSplits(id);
+  }
+
+  /**
+   * Scheduled retries of a merchant-initiated payment, oldest first, with how
+   * each one turned out.
+   */
+  async listRetries(id: string): Promise<PaymentRetryResponse[]> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    return paymentRetryService.listRetries(id);
+  }
+
+  /**
+   * Every provider call made for a payment, in the order they were tried.
+   */
+  async listAttempts(id: string): Promise<PaymentAttemptResponse[]> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    const attempts = await prisma.paymentAttempt.findMany({
+      where: { transactionId: id },
+      include: { provider: { select: { code: true } } },
+      orderBy: [{ attemptNumber: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return attempts.map((a) => ({
+      id: a.id,
+      transactionId: a.transactionId,
+      providerId: a.providerId,
+      providerCode: a.provider.code,
+      attemptNumber: a.attemptNumber,
+      status: a.status,
+      latencyMs: a.latencyMs,
+      errorCode: a.errorCode ?? undefined,
+      errorMessage: a.errorMessage ?? undefined,
+      isRetryable: a.isRetryable,
+      providerTransactionId: a.providerTransactionId ?? undefined,
+      rawResponse: a.rawResponse ?? undefined,
+      createdAt: a.createdAt,
+    }));
+  }
+
+  /**
+   * The routing decision a payment was created with, or null for payments
+   * created before decisions were recorded.
+   */
+  async getRoutingDecision(id: string): Promise<PaymentRoutingDecisionResponse | null> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    const decision = await prisma.paymentRoutingDecision.findUnique({
+      where: { transactionId: id },
+    });
+
+    if (!decision) {
+      return null;
+    }
+
+    return {
+      transactionId: decision.transactionId,
+      selectedProviderId: decision.selectedProviderId,
+      fallbackProviderIds: decision.fallbackProviderIds,
+      matchedRuleId: decision.matchedRuleId ?? undefined,
+      score: decision.score,
+      reason: decision.reason,
+      providerScores: decision.providerScores as unknown as ProviderScore[],
+      evaluatedAt: decision.evaluatedAt,
+    };
+  }
+
+  async cancelPayment(id: string, reason?: string): Promise<PaymentResponse> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(transaction.status)) {
+      throw PaymentError.invalidStatus(id, transaction.status, CANCELLABLE_STATUSES.join(' or '));
+    }
+
+    if (!transaction.providerId || !transaction.providerTransactionId) {
+      // No provider action needed, just update status
+      const updated = await this.markCancelled(id, reason);
+
+      return this.toPaymentResponse(updated);
+    }
+
+    const provider = await prisma.paymentProvider.findUnique({
+      where: { id: transaction.providerId },
+    });
+
+    if (!provider) {
+      throw PaymentError.providerError('Provider not found', id);
+    }
+
+    const adapter = await providerService.getAdapter(
+      provider.code,
+      transaction.merchantId
+    );
+
+    try {
+      await adapter.cancel({
+        providerTransactionId: transaction.providerTransactionId,
+        reason,
       });
 
+      const updated = await this.markCancelled(id, reason);
+
+      logger.info('Payment cancelled successfully', { transactionId: id });
+
       return this.toPaymentResponse(updated);
     } catch (error) {
-      logger.error('Failed to capture payment', {
+      logger.error('Failed to cancel payment', {
         transactionId: id,
         error: (error as Error).message,
       });
@@ -274,7 +1098,21 @@ export class PaymentService {
     }
   }
 
-  async cancelPayment(id: string, reason?: string): Promise<PaymentResponse> {
+  private markCancelled(id: string, reason?: string): Promise<Transaction> {
+    return transactionStateService.transition({
+      transactionId: id,
+      from: CANCELLABLE_STATUSES,
+      to: TransactionStatus.CANCELLED,
+      reason,
+      data: { cancelledAt: new Date(), failureReason: reason, nextAction: Prisma.DbNull },
+    });
+  }
+
+  /**
+   * Close a partially captured payment without capturing the rest of its
+   * authorization, once the provider's hold on the remainder has lapsed.
+   */
+  async releaseRemainingAuthorization(id: string, reason?: string): Promise<PaymentResponse> {
     const transaction = await prisma.transaction.findUnique({
       where: { id },
     });
@@ -283,24 +1121,47 @@ export class PaymentService {
       throw PaymentError.notFound(id);
     }
 
-    if (transaction.status !== TransactionStatus.PENDING) {
-      throw PaymentError.invalidStatus(id, transaction.status, 'PENDING');
+    if (transaction.status !== TransactionStatus.PARTIALLY_CAPTURED) {
+      throw PaymentError.invalidStatus(id, transaction.status, TransactionStatus.PARTIALLY_CAPTURED);
     }
 
-    if (!transaction.providerId || !transaction.providerTransactionId) {
-      // No provider action needed, just update status
-      const updated = await prisma.transaction.update({
-        where: { id },
-        data: {
-          status: TransactionStatus.CANCELLED,
-          cancelledAt: new Date(),
-          failureReason: reason,
-        },
-      });
+    const releasedAmount = this.getProviderAmount(transaction) - transaction.capturedAmount;
 
-      await this.recordStatusChange(id, TransactionStatus.PENDING, TransactionStatus.CANCELLED, reason);
+    const updated = await transactionStateService.transition({
+      transactionId: id,
+      from: TransactionStatus.PARTIALLY_CAPTURED,
+      to: TransactionStatus.COMPLETED,
+      reason,
+      metadata: { releasedAmount: releasedAmount.toString() },
+    });
 
-      return this.toPaymentResponse(updated);
+    logger.info('Released remaining authorization', {
+      transactionId: id,
+      releasedAmount: releasedAmount.toString(),
+    });
+
+    return this.toPaymentResponse(updated);
+  }
+
+  /**
+   * Finish a payment whose authorization is waiting on a 3-D Secure challenge,
+   * once the customer has completed it.
+   */
+  async confirmPayment(id: string): Promise<PaymentResponse> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+    });
+
+    if (!transaction) {
+      throw PaymentError.notFound(id);
+    }
+
+    if (transaction.status !== TransactionStatus.REQUIRES_ACTION) {
+      throw PaymentError.invalidStatus(id, transaction.status, 'REQUIRES_ACTION');
+    }
+
+    if (!transaction.providerId || !transaction.providerTransactionId) {
+      throw PaymentError.invalidRequest('Transaction has no provider');
     }
 
     const provider = await prisma.paymentProvider.findUnique({
@@ -316,33 +1177,70 @@ export class PaymentService {
       transaction.merchantId
     );
 
+    const startTime = Date.now();
+
     try {
-      await adapter.cancel({
+      const result = await adapter.confirmAuthentication({
         providerTransactionId: transaction.providerTransactionId,
-        reason,
       });
+      const latency = Date.now() - startTime;
 
-      const updated = await prisma.transaction.update({
-        where: { id },
+      const newStatus = this.toTransactionStatus(result.status);
+
+      const updated = await transactionStateService.transition({
+        transactionId: id,
+        from: TransactionStatus.REQUIRES_ACTION,
+        to: newStatus,
+        reason: result.declineReason ?? 'Customer authentication completed',
         data: {
-          status: TransactionStatus.CANCELLED,
-          cancelledAt: new Date(),
-          failureReason: reason,
+          providerResponse: result.rawResponse as object,
+          nextAction: result.nextAction ? (result.nextAction as object) : Prisma.DbNull,
+          capturedAmount: result.status === 'captured' ? result.amount : 0n,
+          capturedAt: result.status === 'captured' ? new Date() : null,
+          failureReason: result.declineReason,
         },
       });
 
-      await this.recordStatusChange(id, TransactionStatus.PENDING, TransactionStatus.CANCELLED, reason);
+      if (newStatus === TransactionStatus.COMPLETED) {
+        await this.postLedgerEntries(id, () =>
+          ledgerService.recordPayment(id, result.amount, result.currency, transaction.merchantId)
+        );
+        await this.postLedgerEntries(id, () => paymentSplitService.settleTransfers(id));
+      }
 
-      logger.info('Payment cancelled successfully', { transactionId: id });
+      await providerService.updateMetrics(provider.id, result.success, latency, {
+        merchantId: transaction.merchantId,
+      });
+
+      logger.info('Payment authentication confirmed', {
+        transactionId: id,
+        providerId: provider.id,
+        status: newStatus,
+      });
 
       return this.toPaymentResponse(updated);
     } catch (error) {
-      logger.error('Failed to cancel payment', {
+      await providerService.updateMetrics(provider.id, false, Date.now() - startTime, {
+        merchantId: transaction.merchantId,
+        error,
+      });
+
+      logger.error('Failed to confirm payment authentication', {
         transactionId: id,
         error: (error as Error).message,
       });
 
       if (error instanceof ProviderError) {
+        // A failed challenge ends the payment; transient errors leave it open to confirm again
+        if (!error.isRetryable) {
+          await transactionStateService.transition({
+            transactionId: id,
+            from: TransactionStatus.REQUIRES_ACTION,
+            to: TransactionStatus.FAILED,
+            reason: error.message,
+            data: { failureReason: error.message, nextAction: Prisma.DbNull },
+          });
+        }
         throw PaymentError.providerError(error.message, id);
       }
       throw error;
@@ -361,8 +1259,8 @@ export class PaymentService {
       throw PaymentError.notFound(id);
     }
 
-    if (transaction.status !== TransactionStatus.COMPLETED) {
-      throw PaymentError.invalidStatus(id, transaction.status, 'COMPLETED');
+    if (!REFUNDABLE_STATUSES.includes(transaction.status)) {
+      throw PaymentError.invalidStatus(id, transaction.status, REFUNDABLE_STATUSES.join(' or '));
     }
 
     if (!transaction.providerId || !transaction.providerTransactionId) {
@@ -382,16 +1280,21 @@ export class PaymentService {
       transaction.merchantId
     );
 
-    try {
-      const refundResult = await adapter.refund({
-        providerTransactionId: transaction.providerTransactionId,
-        amount: request.amount,
-        currency: transaction.currency,
-        reason: request.reason,
-      });
+    // Reserve the refund amount against the balance before calling the provider.
+    // The parent row lock serializes concurrent refunds so they cannot over-refund.
+    const pendingRefund = await prisma.$transaction(async (tx) => {
+      await this.lockTransaction(tx, id);
 
-      // Create refund transaction
-      const refundTransaction = await prisma.transaction.create({
+      // Captured and refunded amounts are both in the units the provider captured
+      const reservedAmount = await this.sumRefunds(tx, id, OUTSTANDING_REFUND_STATUSES);
+      const refundableAmount = transaction.capturedAmount - reservedAmount;
+      const refundAmount = request.amount ?? refundableAmount;
+
+      if (refundAmount <= 0n || refundAmount > refundableAmount) {
+        throw PaymentError.refundExceedsBalance(id, refundAmount, refundableAmount);
+      }
+
+      const refund = await tx.transaction.create({
         data: {
           merchantId: transaction.merchantId,
           customerId: transaction.customerId,
@@ -399,46 +1302,108 @@ export class PaymentService {
           paymentMethodId: transaction.paymentMethodId,
           parentTransactionId: transaction.id,
           type: TransactionType.REFUND,
-          status: refundResult.status === 'completed'
-            ? TransactionStatus.COMPLETED
-            : TransactionStatus.PENDING,
-          amount: refundResult.refundedAmount,
-          currency: refundResult.currency,
-          providerTransactionId: refundResult.providerRefundId,
-          providerResponse: refundResult.rawResponse as object,
+          status: TransactionStatus.PENDING,
+          amount: refundAmount,
+          currency: this.getProviderCurrency(transaction),
           description: request.reason ?? 'Refund',
           metadata: {},
-          refundedAt: refundResult.status === 'completed' ? new Date() : null,
         },
       });
 
-      // Update original transaction if fully refunded
-      const refundAmount = request.amount ?? transaction.amount;
-      if (refundAmount >= transaction.amount) {
-        await prisma.transaction.update({
-          where: { id },
-          data: {
-            status: TransactionStatus.REFUNDED,
-            refundedAt: new Date(),
+      await transactionStateService.recordCreated(refund, tx);
+      return refund;
+    });
+
+    try {
+      const refundResult = await adapter.refund({
+        providerTransactionId: transaction.providerTransactionId,
+        amount: pendingRefund.amount,
+        currency: pendingRefund.currency,
+        reason: request.reason,
+      });
+
+      const refundStatus = refundResult.status === 'completed'
+        ? TransactionStatus.COMPLETED
+        : TransactionStatus.PENDING;
+
+      const { refundTransaction, parent } = await prisma.$transaction(async (tx) => {
+        await this.lockTransaction(tx, id);
+
+        const refundTransaction = await transactionStateService.transition(
+          {
+            transactionId: pendingRefund.id,
+            from: pendingRefund.status,
+            to: refundStatus,
+            data: {
+              amount: refundResult.refundedAmount,
+              currency: refundResult.currency,
+              providerTransactionId: refundResult.providerRefundId,
+              providerResponse: refundResult.rawResponse as object,
+              refundedAt: refundStatus === TransactionStatus.COMPLETED ? new Date() : null,
+            },
           },
-        });
+          tx
+        );
+
+        const refundedAmount = await this.sumRefunds(tx, id, [TransactionStatus.COMPLETED]);
+        const parent = await transactionStateService.transition(
+          {
+            transactionId: id,
+            to: this.resolveRefundStatus(transaction.status, refundedAmount, transaction.capturedAmount),
+            reason: request.reason,
+            metadata: {
+              refundTransactionId: pendingRefund.id,
+              refundedAmount: refundedAmount.toString(),
+            },
+            data: {
+              refundedAmount,
+              refundedAt: refundedAmount > 0n ? new Date() : undefined,
+            },
+          },
+          tx
+        );
+
+        return { refundTransaction, parent };
+      });
 
-        await this.recordStatusChange(id, TransactionStatus.COMPLETED, TransactionStatus.REFUNDED, request.reason);
+      if (refundStatus !== pendingRefund.status) {
+        await merchantWebhookService.publishTransactionStatus(refundTransaction.id, refundStatus);
+      }
+
+      if (refundStatus === TransactionStatus.COMPLETED) {
+        await this.postLedgerEntries(refundTransaction.id, () =>
+          ledgerService.recordRefund(refundTransaction.id, refundResult.refundedAmount, refundResult.currency, transaction.merchantId)
+        );
+        await this.postLedgerEntries(id, () => paymentSplitService.settleTransfers(id));
+      }
+
+      if (parent.status !== transaction.status) {
+        await merchantWebhookService.publishTransactionStatus(id, parent.status);
       }
 
       logger.info('Payment refunded successfully', {
         transactionId: id,
         refundTransactionId: refundTransaction.id,
         refundedAmount: refundResult.refundedAmount.toString(),
+        totalRefundedAmount: parent.refundedAmount.toString(),
       });
 
       return this.toPaymentResponse(refundTransaction);
     } catch (error) {
       logger.error('Failed to refund payment', {
         transactionId: id,
+        refundTransactionId: pendingRefund.id,
         error: (error as Error).message,
       });
 
+      // Release the reservation so the balance can be refunded again
+      await transactionStateService.transition({
+        transactionId: pendingRefund.id,
+        from: pendingRefund.status,
+        to: TransactionStatus.FAILED,
+        data: { failureReason: (error as Error).message },
+      });
+
       if (error instanceof ProviderError) {
         throw PaymentError.providerError(error.message, id);
       }
@@ -446,12 +1411,49 @@ export class PaymentService {
     }
   }
 
+  private async lockTransaction(tx: Prisma.TransactionClient, id: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM transactions WHERE id = ${id} FOR UPDATE`;
+  }
+
+  private async sumRefunds(
+    tx: Prisma.TransactionClient,
+    parentTransactionId: string,
+    statuses: TransactionStatus[]
+  ): Promise<bigint> {
+    const result = await tx.transaction.aggregate({
+      where: {
+        parentTransactionId,
+        type: TransactionType.REFUND,
+        status: { in: statuses },
+      },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? 0n;
+  }
+
+  private resolveRefundStatus(
+    currentStatus: TransactionStatus,
+    refundedAmount: bigint,
+    capturedAmount: bigint
+  ): TransactionStatus {
+    if (refundedAmount >= capturedAmount) {
+      return TransactionStatus.REFUNDED;
+    }
+    if (refundedAmount > 0n) {
+      return TransactionStatus.PARTIALLY_REFUNDED;
+    }
+    return currentStatus;
+  }
+
   private async executePaymentWithProvider(
     transactionId: string,
     providerId: string,
     request: CreatePaymentRequest,
+    paymentMethod: AuthorizeRequest['paymentMethod'],
     amount: bigint,
-    currency: Currency
+    currency: Currency,
+    attemptNumber: number
   ): Promise<PaymentResponse> {
     const provider = await prisma.paymentProvider.findUnique({
       where: { id: providerId },
@@ -462,16 +1464,12 @@ export class PaymentService {
     }
 
     // Update transaction with provider
-    await prisma.transaction.update({
-      where: { id: transactionId },
-      data: {
-        providerId,
-        status: TransactionStatus.PROCESSING,
-      },
+    await transactionStateService.transition({
+      transactionId,
+      to: TransactionStatus.PROCESSING,
+      data: { providerId },
     });
 
-    await this.recordStatusChange(transactionId, TransactionStatus.PENDING, TransactionStatus.PROCESSING);
-
     const adapter = await providerService.getAdapter(
       provider.code,
       request.merchantId
@@ -483,39 +1481,59 @@ export class PaymentService {
       merchantId: request.merchantId,
       amount,
       currency,
-      paymentMethod: request.paymentMethod,
+      paymentMethod,
       description: request.description,
       metadata: request.metadata,
       idempotencyKey: request.idempotencyKey,
       capture: request.capture ?? true,
       customerId: request.customerId,
+      returnUrl: request.returnUrl,
     };
 
     try {
       const result = await adapter.authorize(authorizeRequest);
       const latency = Date.now() - startTime;
 
-      const newStatus = result.status === 'captured' || result.status === 'authorized'
-        ? result.status === 'captured'
-          ? TransactionStatus.COMPLETED
-          : TransactionStatus.PENDING
-        : TransactionStatus.FAILED;
+      const newStatus = this.toTransactionStatus(result.status);
 
-      const updated = await prisma.transaction.update({
-        where: { id: transactionId },
+      await this.recordAttempt({
+        transactionId,
+        providerId,
+        attemptNumber,
+        status: this.toAttemptStatus(newStatus),
+        transactionStatus: newStatus,
+        latencyMs: latency,
+        errorMessage: result.declineReason,
+        providerTransactionId: result.providerTransactionId,
+        rawResponse: result.rawResponse,
+      });
+
+      const updated = await transactionStateService.transition({
+        transactionId,
+        from: TransactionStatus.PROCESSING,
+        to: newStatus,
+        reason: result.declineReason,
         data: {
-          status: newStatus,
           providerTransactionId: result.providerTransactionId,
           providerResponse: result.rawResponse as object,
+          nextAction: result.nextAction as object | undefined,
+          capturedAmount: result.status === 'captured' ? result.amount : 0n,
           capturedAt: result.status === 'captured' ? new Date() : null,
           failureReason: result.declineReason,
         },
       });
 
-      await this.recordStatusChange(transactionId, TransactionStatus.PROCESSING, newStatus);
+      if (newStatus === TransactionStatus.COMPLETED) {
+        await this.postLedgerEntries(transactionId, () =>
+          ledgerService.recordPayment(transactionId, result.amount, result.currency, request.merchantId)
+        );
+        await this.postLedgerEntries(transactionId, () => paymentSplitService.settleTransfers(transactionId));
+      }
 
       // Update provider metrics
-      await providerService.updateMetrics(providerId, result.success, latency);
+      await providerService.updateMetrics(providerId, result.success, latency, {
+        merchantId: request.merchantId,
+      });
 
       logger.info('Payment processed successfully', {
         transactionId,
@@ -529,45 +1547,180 @@ export class PaymentService {
     } catch (error) {
       const latency = Date.now() - startTime;
 
+      await this.recordAttempt({
+        transactionId,
+        providerId,
+        attemptNumber,
+        status: PaymentAttemptStatus.ERROR,
+        latencyMs: latency,
+        errorCode: error instanceof ProviderError ? error.code : undefined,
+        errorMessage: (error as Error).message,
+        isRetryable: error instanceof ProviderError && error.isRetryable,
+        rawResponse: error instanceof ProviderError ? error.rawError : undefined,
+      });
+
       // Update provider metrics for failure
-      await providerService.updateMetrics(providerId, false, latency);
+      await providerService.updateMetrics(providerId, false, latency, {
+        merchantId: request.merchantId,
+        error,
+      });
 
       throw error;
     }
   }
 
-  private async updateTransactionStatus(
-    id: string,
-    status: TransactionStatus,
-    failureReason?: string
-  ): Promise<void> {
-    const current = await prisma.transaction.findUnique({
-      where: { id },
-      select: { status: true },
+  // Send the payment as usual if circuit state cannot be read
+  private async admitRequest(providerId: string, merchantId: string): Promise<boolean> {
+    return circuitBreakerService.admitRequest(providerId, merchantId).catch((error: Error) => {
+      logger.warn('Failed to read circuit breaker state', { providerId, error: error.message });
+      return true;
     });
+  }
 
-    await prisma.transaction.update({
-      where: { id },
-      data: { status, failureReason },
-    });
+  private toRoutingDecisionData(decision: RoutingDecision) {
+    return {
+      selectedProviderId: decision.selectedProviderId,
+      fallbackProviderIds: decision.fallbackProviderIds,
+      matchedRuleId: decision.matchedRuleId,
+      score: decision.score,
+      reason: decision.reason,
+      providerScores: decision.providerScores as object[],
+      evaluatedAt: decision.evaluatedAt,
+    };
+  }
 
-    await this.recordStatusChange(id, current?.status ?? null, status, failureReason);
+  /**
+   * Attempt records explain routing after the fact; failing to write one must
+   * not change the outcome of the payment.
+   */
+  private async recordAttempt(attempt: {
+    transactionId: string;
+    providerId: string;
+    attemptNumber: number;
+    status: PaymentAttemptStatus;
+    transactionStatus?: TransactionStatus;
+    latencyMs: number;
+    errorCode?: string;
+    errorMessage?: string;
+    isRetryable?: boolean;
+    providerTransactionId?: string;
+    rawResponse?: unknown;
+  }): Promise<void> {
+    try {
+      await prisma.paymentAttempt.create({
+        data: {
+          ...attempt,
+          rawResponse: attempt.rawResponse as object | undefined,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record payment attempt', {
+        transactionId: attempt.transactionId,
+        providerId: attempt.providerId,
+        error: (error as Error).message,
+      });
+    }
   }
 
-  private async recordStatusChange(
+  /**
+   * Ledger postings and split transfers follow the provider outcome; a posting
+   * failure is logged for reconciliation rather than failing a payment the
+   * provider already accepted.
+   */
+  private async postLedgerEntries(
     transactionId: string,
-    fromStatus: TransactionStatus | null,
-    toStatus: TransactionStatus,
-    reason?: string
+    post: () => Promise<unknown>
   ): Promise<void> {
-    await prisma.transactionStatusHistory.create({
-      data: {
+    try {
+      await post();
+    } catch (error) {
+      logger.error('Failed to record ledger entries', {
         transactionId,
-        fromStatus,
-        toStatus,
-        reason,
-      },
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Work out what to charge: raw details as sent, or a saved method of the
+   * customer (the one given, else their default) charged by its token.
+   */
+  private async resolvePaymentMethod(request: CreatePaymentRequest): Promise<{
+    paymentMethod: AuthorizeRequest['paymentMethod'];
+    savedMethod?: PaymentMethod;
+  }> {
+    if (request.paymentMethod && request.paymentMethodId) {
+      throw PaymentError.invalidRequest('Provide either paymentMethod or paymentMethodId, not both');
+    }
+
+    if (request.paymentMethod) {
+      return { paymentMethod: request.paymentMethod };
+    }
+
+    if (!request.customerId) {
+      throw PaymentError.invalidRequest('customerId is required to pay with a saved payment method');
+    }
+
+    // Saved methods are only looked up by customer, so the customer must be the merchant's own
+    const customer = await prisma.customer.findUnique({
+      where: { id: request.customerId },
+      select: { merchantId: true },
     });
+
+    if (!customer || customer.merchantId !== request.merchantId) {
+      throw PaymentMethodError.customerNotFound(request.customerId);
+    }
+
+    const savedMethod = await paymentMethodService.getChargeableMethod(
+      request.customerId,
+      request.paymentMethodId
+    );
+
+    return {
+      savedMethod,
+      paymentMethod: {
+        type: savedMethod.type,
+        token: savedMethod.token ?? undefined,
+        expiryMonth: savedMethod.expiryMonth ?? undefined,
+        expiryYear: savedMethod.expiryYear ?? undefined,
+      },
+    };
+  }
+
+  private toAttemptStatus(status: TransactionStatus): PaymentAttemptStatus {
+    switch (status) {
+      case TransactionStatus.FAILED:
+        return PaymentAttemptStatus.DECLINED;
+      case TransactionStatus.REQUIRES_ACTION:
+        return PaymentAttemptStatus.REQUIRES_ACTION;
+      default:
+        return PaymentAttemptStatus.SUCCEEDED;
+    }
+  }
+
+  private toTransactionStatus(status: AuthorizeResponse['status']): TransactionStatus {
+    switch (status) {
+      case 'captured':
+        return TransactionStatus.COMPLETED;
+      case 'authorized':
+        return TransactionStatus.PENDING;
+      case 'requires_action':
+        return TransactionStatus.REQUIRES_ACTION;
+      // Bank debits settle later, by webhook
+      case 'pending':
+        return TransactionStatus.PROCESSING;
+      default:
+        return TransactionStatus.FAILED;
+    }
+  }
+
+  // What the provider authorized, converted when the payment was charged in another currency
+  private getProviderAmount(transaction: Transaction): bigint {
+    return transaction.convertedAmount ?? transaction.amount;
+  }
+
+  private getProviderCurrency(transaction: Transaction): Currency {
+    return transaction.convertedCurrency ?? transaction.currency;
   }
 
   private toPaymentResponse(transaction: Transaction): PaymentResponse {
@@ -576,6 +1729,7 @@ export class PaymentService {
       merchantId: transaction.merchantId,
       customerId: transaction.customerId ?? undefined,
       providerId: transaction.providerId ?? undefined,
+      paymentMethodId: transaction.paymentMethodId ?? undefined,
       providerTransactionId: transaction.providerTransactionId ?? undefined,
       type: transaction.type,
       status: transaction.status,
@@ -583,8 +1737,18 @@ export class PaymentService {
       currency: transaction.currency,
       convertedAmount: transaction.convertedAmount ?? undefined,
       convertedCurrency: transaction.convertedCurrency ?? undefined,
+      authorizedAmount: this.getProviderAmount(transaction),
+      capturedAmount: transaction.capturedAmount,
+      capturableAmount: CAPTURABLE_STATUSES.includes(transaction.status)
+        ? this.getProviderAmount(transaction) - transaction.capturedAmount
+        : 0n,
+      refundedAmount: transaction.refundedAmount,
+      refundableAmount: REFUNDABLE_STATUSES.includes(transaction.status)
+        ? transaction.capturedAmount - transaction.refundedAmount
+        : 0n,
       description: transaction.description ?? undefined,
       failureReason: transaction.failureReason ?? undefined,
+      nextAction: (transaction.nextAction as NextAction | null) ?? undefined,
       metadata: transaction.metadata as Record<string, unknown>,
       createdAt: transaction.createdAt,
       updatedAt: transaction.updatedAt,
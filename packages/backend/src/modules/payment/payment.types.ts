@@ -1,4 +1,17 @@
-import { Currency, PaymentMethodType, TransactionStatus, TransactionType } from '@prisma/client';
+import {
+  Currency,
+  DisputeStatus,
+  LedgerEntryType,
+  PaymentAttemptStatus,
+  PaymentMethodType,
+  PaymentRetryStatus,
+  TransactionStatus,
+  TransactionType,
+  WebhookEventStatus,
+} from '@prisma/client';
+import type { CryptoAsset, NextAction, ProviderErrorCode } from '../provider/provider.types.js';
+import type { ProviderScore } from '../routing/routing.types.js';
+import type { CursorPagination } from '../../shared/utils/cursor.js';
 
 export interface CreatePaymentRequest {
   merchantId: string;
@@ -6,7 +19,8 @@ export interface CreatePaymentRequest {
   amount: bigint;
   currency: Currency;
   targetCurrency?: Currency;
-  paymentMethod: {
+  /** Raw method details; omit to charge paymentMethodId or the customer's default method */
+  paymentMethod?: {
     type: PaymentMethodType;
     token?: string;
     cardNumber?: string;
@@ -14,18 +28,50 @@ export interface CreatePaymentRequest {
     expiryYear?: number;
     cvv?: string;
     holderName?: string;
+    /** SEPA debits */
+    iban?: string;
+    /** ACH debits */
+    routingNumber?: string;
+    accountNumber?: string;
+    /** Crypto payments */
+    cryptoAsset?: CryptoAsset;
+    walletAddress?: string;
   };
+  /** A saved method belonging to customerId */
+  paymentMethodId?: string;
   capture?: boolean;
+  /** Where the customer returns to after a redirect-based 3-D Secure challenge */
+  returnUrl?: string;
+  splits?: PaymentSplitRequest[];
+  /** Queue the payment and return it as PROCESSING instead of waiting on providers */
+  async?: boolean;
+  /**
+   * A charge the merchant makes without the customer present, e.g. a renewal.
+   * When every provider fails it is retried later under the merchant's retry
+   * policy instead of failing at once. Requires a saved payment method.
+   */
+  merchantInitiated?: boolean;
   description?: string;
   metadata?: Record<string, unknown>;
   idempotencyKey?: string;
 }
 
+/**
+ * A share of a marketplace charge. Exactly one of amount or percentage is set;
+ * the platform takes its fee by listing itself as a recipient.
+ */
+export interface PaymentSplitRequest {
+  merchantId: string;
+  amount?: bigint;
+  percentage?: number;
+}
+
 export interface PaymentResponse {
   id: string;
   merchantId: string;
   customerId?: string;
   providerId?: string;
+  paymentMethodId?: string;
   providerTransactionId?: string;
   type: TransactionType;
   status: TransactionStatus;
@@ -33,18 +79,79 @@ export interface PaymentResponse {
   currency: Currency;
   convertedAmount?: bigint;
   convertedCurrency?: Currency;
+  /** Authorized, captured and refunded amounts are in convertedCurrency when the payment was converted */
+  authorizedAmount: bigint;
+  capturedAmount: bigint;
+  capturableAmount: bigint;
+  refundedAmount: bigint;
+  refundableAmount: bigint;
   description?: string;
   failureReason?: string;
+  /** Present while status is REQUIRES_ACTION */
+  nextAction?: NextAction;
   metadata: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface CapturePaymentRequest {
+  /** In the currency the provider authorized, convertedCurrency for converted payments */
   amount?: bigint;
+  final?: boolean;
+}
+
+export interface PaymentCaptureResponse {
+  id: string;
+  transactionId: string;
+  amount: bigint;
+  currency: Currency;
+  isFinal: boolean;
+  releasedAmount: bigint;
+  providerCaptureId?: string;
+  createdAt: Date;
+}
+
+export interface PaymentSplitResponse {
+  id: string;
+  transactionId: string;
+  recipientMerchantId: string;
+  amount: bigint;
+  percentage?: number;
+  transferredAmount: bigint;
+  reversedAmount: bigint;
+  createdAt: Date;
+}
+
+export interface PaymentAttemptResponse {
+  id: string;
+  transactionId: string;
+  providerId: string;
+  providerCode: string;
+  attemptNumber: number;
+  status: PaymentAttemptStatus;
+  latencyMs: number;
+  /** The ProviderError code when the provider call threw */
+  errorCode?: string;
+  errorMessage?: string;
+  isRetryable: boolean;
+  providerTransactionId?: string;
+  rawResponse?: unknown;
+  createdAt: Date;
+}
+
+export interface PaymentRoutingDecisionResponse {
+  transactionId: string;
+  selectedProviderId: string;
+  fallbackProviderIds: string[];
+  matchedRuleId?: string;
+  score: number;
+  reason: string;
+  providerScores: ProviderScore[];
+  evaluatedAt: Date;
 }
 
 export interface RefundPaymentRequest {
+  /** In the currency the provider captured, convertedCurrency for converted payments */
   amount?: bigint;
   reason?: string;
 }
@@ -57,13 +164,18 @@ export interface ListPaymentsFilter {
   currency?: Currency;
   fromDate?: Date;
   toDate?: Date;
+  /** Search query such as `status:FAILED amount>5000 provider:stripe` */
+  search?: string;
+  /** Opaque cursor from the previous page's pagination.nextCursor */
+  cursor?: string;
+  /** Switches to offset pagination with a total count; prefer cursors for large tables */
   page?: number;
   limit?: number;
 }
 
 export interface PaymentListResponse {
   payments: PaymentResponse[];
-  pagination: {
+  pagination: CursorPagination | {
     page: number;
     limit: number;
     total: number;
@@ -71,6 +183,213 @@ export interface PaymentListResponse {
   };
 }
 
+/**
+ * The parts of a payment method a queued job may hold. Jobs sit in Redis, so
+ * card numbers, CVVs and bank account details never go in; only tokens do.
+ */
+export type QueuedPaymentMethod = Pick<
+  NonNullable<CreatePaymentRequest['paymentMethod']>,
+  'type' | 'token' | 'expiryMonth' | 'expiryYear' | 'cryptoAsset' | 'walletAddress'
+>;
+
+/**
+ * What a queue worker needs to finish an asynchronous payment beyond what is
+ * stored on the transaction.
+ */
+export interface QueuedPaymentJob {
+  transactionId: string;
+  paymentMethod: QueuedPaymentMethod;
+  cardBrand?: string;
+  cardLast4?: string;
+  capture?: boolean;
+  returnUrl?: string;
+  merchantInitiated?: boolean;
+}
+
+export interface ClaimedPaymentJob {
+  job: QueuedPaymentJob;
+  /** Deliveries so far, including this one */
+  attempts: number;
+}
+
+export interface PaymentQueueDepth {
+  ready: number;
+  inFlight: number;
+  deadLettered: number;
+}
+
+export interface PaymentWorkerHealth {
+  running: boolean;
+  workers: number;
+  busy: number;
+  /** Workers that have not finished a poll within the visibility timeout */
+  stalled: number;
+  processed: number;
+  failed: number;
+}
+
+/**
+ * How merchant-initiated payments that failed with errorCode are retried.
+ * backoffMinutes[n - 1] is the wait before retry n; the last value repeats.
+ */
+export interface ResolvedRetryPolicy {
+  errorCode: ProviderErrorCode;
+  maxAttempts: number;
+  backoffMinutes: number[];
+}
+
+export interface UpsertPaymentRetryPolicyRequest extends ResolvedRetryPolicy {
+  merchantId: string;
+}
+
+export interface PaymentRetryPolicyResponse extends ResolvedRetryPolicy {
+  id: string;
+  merchantId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SchedulePaymentRetryRequest {
+  transactionId: string;
+  merchantId: string;
+  /** 1 for the first retry after the original attempt */
+  retryNumber: number;
+  errorCode: ProviderErrorCode;
+  errorMessage?: string;
+  /** Every provider that has failed the payment so far */
+  excludedProviderIds: string[];
+  capture: boolean;
+}
+
+export interface PaymentRetryResponse {
+  id: string;
+  transactionId: string;
+  retryNumber: number;
+  status: PaymentRetryStatus;
+  errorCode: string;
+  errorMessage?: string;
+  excludedProviderIds: string[];
+  scheduledFor: Date;
+  providerId?: string;
+  /** The payment status the retry left behind, or why it was not attempted */
+  outcome?: string;
+  attemptedAt?: Date;
+  createdAt: Date;
+}
+
+export interface PaymentRetryOutcome {
+  status: Extract<PaymentRetryStatus, 'SUCCEEDED' | 'FAILED' | 'CANCELLED'>;
+  providerId?: string;
+  outcome: string;
+}
+
+export interface PaymentRetryRunResult {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface AuthorizationSweepResult {
+  voided: number;
+  captured: number;
+  failed: number;
+}
+
+interface PaymentTimelineEntry<T extends string, D> {
+  type: T;
+  occurredAt: Date;
+  /** The payment itself or one of its refunds */
+  transactionId: string;
+  data: D;
+}
+
+/**
+ * One thing that happened to a payment, as returned by its timeline. Events
+ * are ordered by occurredAt; entries recorded at the same instant keep the
+ * order in which they happened.
+ */
+export type PaymentTimelineEvent =
+  | PaymentTimelineEntry<'status_changed', {
+      fromStatus: TransactionStatus | null;
+      toStatus: TransactionStatus;
+      reason?: string;
+    }>
+  | PaymentTimelineEntry<'routing_decision', {
+      selectedProviderId: string;
+      fallbackProviderIds: string[];
+      matchedRuleId?: string;
+      score: number;
+      reason: string;
+    }>
+  | PaymentTimelineEntry<'provider_attempt', {
+      attemptId: string;
+      providerId: string;
+      providerCode: string;
+      attemptNumber: number;
+      status: PaymentAttemptStatus;
+      latencyMs: number;
+      errorCode?: string;
+      errorMessage?: string;
+      isRetryable: boolean;
+    }>
+  | PaymentTimelineEntry<'retry_scheduled', {
+      retryId: string;
+      retryNumber: number;
+      status: PaymentRetryStatus;
+      errorCode: string;
+      scheduledFor: Date;
+      providerId?: string;
+      outcome?: string;
+    }>
+  | PaymentTimelineEntry<'webhook_received', {
+      webhookEventId: string;
+      providerId: string;
+      eventType: string;
+      status: WebhookEventStatus;
+      processedAt?: Date;
+      lastError?: string;
+    }>
+  | PaymentTimelineEntry<'ledger_entry', {
+      ledgerEntryId: string;
+      accountCode: string;
+      entryType: LedgerEntryType;
+      amount: bigint;
+      currency: Currency;
+      description?: string;
+    }>
+  | PaymentTimelineEntry<'fraud_check', {
+      riskScore: number;
+      flags: unknown[];
+    }>
+  | PaymentTimelineEntry<'fraud_review', {
+      action: string;
+      reason?: string;
+      reviewedBy?: string;
+    }>
+  | PaymentTimelineEntry<'capture', {
+      captureId: string;
+      amount: bigint;
+      currency: Currency;
+      isFinal: boolean;
+    }>
+  | PaymentTimelineEntry<'refund', {
+      refundId: string;
+      status: TransactionStatus;
+      amount: bigint;
+      currency: Currency;
+      reason?: string;
+    }>
+  | PaymentTimelineEntry<'dispute', {
+      disputeId: string;
+      status: DisputeStatus;
+      reason: string;
+      amount: bigint;
+      currency: Currency;
+      dueBy?: Date;
+    }>;
+
+export type PaymentTimelineEventType = PaymentTimelineEvent['type'];
+
 export class PaymentError extends Error {
   public readonly code: string;
   public readonly transactionId?: string;
@@ -86,6 +405,14 @@ export class PaymentError extends Error {
     return new PaymentError(message, 'INVALID_REQUEST');
   }
 
+  static queueUnavailable(transactionId: string): PaymentError {
+    return new PaymentError(
+      `Payment ${transactionId} could not be queued for processing`,
+      'QUEUE_UNAVAILABLE',
+      transactionId
+    );
+  }
+
   static notFound(transactionId: string): PaymentError {
     return new PaymentError(
       `Transaction ${transactionId} not found`,
@@ -106,6 +433,34 @@ export class PaymentError extends Error {
     );
   }
 
+  static captureExceedsAuthorization(
+    transactionId: string,
+    requestedAmount: bigint,
+    capturableAmount: bigint
+  ): PaymentError {
+    return new PaymentError(
+      `Capture amount ${requestedAmount} exceeds remaining authorized amount ${capturableAmount}`,
+      'AMOUNT_EXCEEDS_AUTHORIZATION',
+      transactionId
+    );
+  }
+
+  static refundExceedsBalance(
+    transactionId: string,
+    requestedAmount: bigint,
+    refundableAmount: bigint
+  ): PaymentError {
+    return new PaymentError(
+      `Refund amount ${requestedAmount} exceeds refundable balance ${refundableAmount}`,
+      'AMOUNT_EXCEEDS_REFUNDABLE',
+      transactionId
+    );
+  }
+
+  static invalidSplit(message: string): PaymentError {
+    return new PaymentError(message, 'INVALID_SPLIT');
+  }
+
   static providerError(message: string, transactionId?: string): PaymentError {
     return new PaymentError(message, 'PROVIDER_ERROR', transactionId);
   }
@@ -0,0 +1,253 @@
+import { PayoutService } from '../payout.service';
+import { PayoutError } from '../payout.types';
+import { ProviderError } from '../../provider/provider.types';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    merchant: { findUnique: jest.fn() },
+    merchantProviderConfig: { findFirst: jest.fn() },
+    paymentProvider: { findUnique: jest.fn() },
+    transaction: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    transactionStatusHistory: { create: jest.fn() },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../../provider/provider.service', () => ({
+  providerService: { getAdapter: jest.fn() },
+}));
+
+jest.mock('../../ledger/ledger.service', () => ({
+  ledgerService: {
+    getMerchantPayableBalance: jest.fn(),
+    recordPayoutInitiated: jest.fn(),
+    recordPayoutPaid: jest.fn(),
+    recordPayoutFailed: jest.fn(),
+  },
+}));
+
+jest.mock('../../merchant-webhook/merchant-webhook.service', () => ({
+  merchantWebhookService: { publishTransactionStatus: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: { env: { PAYOUT_SYNC_INTERVAL_MS: 60000, PAYOUT_SYNC_BATCH_SIZE: 100 } },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { providerService } from '../../provider/provider.service';
+import { ledgerService } from '../../ledger/ledger.service';
+
+const basePayout = {
+  id: 'po-1',
+  merchantId: 'm-1',
+  customerId: null,
+  providerId: 'p-1',
+  paymentMethodId: null,
+  parentTransactionId: null,
+  type: 'PAYOUT',
+  status: 'PENDING',
+  amount: 5000n,
+  currency: 'USD',
+  capturedAmount: 0n,
+  refundedAmount: 0n,
+  providerTransactionId: null,
+  description: null,
+  metadata: { destination: { last4: '6789' } },
+  idempotencyKey: null,
+  failureReason: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const request = {
+  merchantId: 'm-1',
+  amount: 5000n,
+  currency: 'USD' as const,
+  destination: { accountHolderName: 'Acme Ltd', accountNumber: '000123456789', routingNumber: '110000000' },
+};
+
+describe('PayoutService', () => {
+  let service: PayoutService;
+  const adapter = { supportsCurrency: jest.fn(), payout: jest.fn(), getPayout: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PayoutService as any).instance = null;
+    service = PayoutService.getInstance();
+
+    (prisma.merchant.findUnique as jest.Mock).mockResolvedValue({ id: 'm-1', isActive: true });
+    (prisma.merchantProviderConfig.findFirst as jest.Mock).mockResolvedValue({
+      provider: { id: 'p-1', code: 'stripe', name: 'Stripe', isActive: true },
+    });
+    (providerService.getAdapter as jest.Mock).mockResolvedValue(adapter);
+    adapter.supportsCurrency.mockReturnValue(true);
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.transaction.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...basePayout, ...data })
+    );
+    (prisma.transaction.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...basePayout, ...data })
+    );
+    (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(basePayout);
+  });
+
+  describe('createPayout', () => {
+    it('should debit the merchant balance and mark the payout in transit', async () => {
+      const arrivalDate = new Date(Date.now() + 60000);
+      (ledgerService.getMerchantPayableBalance as jest.Mock).mockResolvedValue(8000n);
+      adapter.payout.mockResolvedValue({
+        success: true, providerPayoutId: 'po_123', status: 'in_transit',
+        amount: 5000n, currency: 'USD', arrivalDate,
+      });
+
+      const result = await service.createPayout(request);
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'PAYOUT',
+          status: 'PENDING',
+          metadata: expect.objectContaining({
+            destination: expect.objectContaining({ last4: '6789', type: 'account_number' }),
+          }),
+        }),
+      });
+      expect(ledgerService.recordPayoutInitiated).toHaveBeenCalledWith('po-1', 5000n, 'USD', prisma);
+      expect(result.status).toBe('in_transit');
+      expect(result.providerPayoutId).toBe('po_123');
+      expect(result.arrivalDate).toEqual(arrivalDate);
+      expect(result.destination).not.toHaveProperty('accountNumber');
+    });
+
+    it('should reject payouts above the available balance', async () => {
+      (ledgerService.getMerchantPayableBalance as jest.Mock).mockResolvedValue(4999n);
+
+      await expect(service.createPayout(request)).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+      expect(prisma.transaction.create).not.toHaveBeenCalled();
+      expect(adapter.payout).not.toHaveBeenCalled();
+    });
+
+    it('should return the funds to the balance when the provider rejects the payout', async () => {
+      (ledgerService.getMerchantPayableBalance as jest.Mock).mockResolvedValue(8000n);
+      adapter.payout.mockRejectedValue(new ProviderError('No such external bank account', 'INVALID_REQUEST'));
+
+      await expect(service.createPayout(request)).rejects.toThrow(PayoutError);
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'po-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(ledgerService.recordPayoutFailed).toHaveBeenCalledWith('po-1', 5000n, 'USD', prisma);
+    });
+
+    it('should leave the payout pending when the provider may have sent it', async () => {
+      (ledgerService.getMerchantPayableBalance as jest.Mock).mockResolvedValue(8000n);
+      adapter.payout.mockRejectedValue(new ProviderError('Request timed out', 'TIMEOUT'));
+
+      const result = await service.createPayout(request);
+
+      expect(result.status).toBe('pending');
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+      expect(ledgerService.recordPayoutFailed).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the merchant has no active provider', async () => {
+      (prisma.merchantProviderConfig.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(service.createPayout(request)).rejects.toMatchObject({ code: 'NO_PROVIDER' });
+    });
+  });
+
+  describe('syncInTransitPayouts', () => {
+    const inTransit = {
+      ...basePayout, status: 'PROCESSING', providerTransactionId: 'po_123', provider: { code: 'stripe' },
+    };
+
+    const listPayouts = (pending: unknown[], processing: unknown[]) =>
+      (prisma.transaction.findMany as jest.Mock).mockImplementation(({ where }) =>
+        Promise.resolve(where.status === 'PENDING' ? pending : processing)
+      );
+
+    beforeEach(() => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(inTransit);
+    });
+
+    it('should settle paid payouts and bounce failed ones back to the balance', async () => {
+      listPayouts([], [
+        inTransit,
+        { ...inTransit, id: 'po-2', providerTransactionId: 'po_456' },
+        { ...inTransit, id: 'po-3', providerTransactionId: 'po_789' },
+      ]);
+      adapter.getPayout
+        .mockResolvedValueOnce({ status: 'paid' })
+        .mockResolvedValueOnce({ status: 'failed', failureReason: 'account_closed' })
+        .mockResolvedValueOnce({ status: 'in_transit' });
+
+      const result = await service.syncInTransitPayouts();
+
+      expect(result).toEqual({ paid: 1, failed: 1, inTransit: 1 });
+      expect(ledgerService.recordPayoutPaid).toHaveBeenCalledWith('po-1', 5000n, 'USD', prisma);
+      expect(ledgerService.recordPayoutFailed).toHaveBeenCalledWith('po-2', 5000n, 'USD', prisma);
+      expect(cacheService.releaseLock).toHaveBeenCalledWith('payout-sync', 'lock-token');
+    });
+
+    it('should not post ledger entries for payouts settled by another worker', async () => {
+      listPayouts([], [inTransit]);
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...inTransit, status: 'COMPLETED' });
+      adapter.getPayout.mockResolvedValue({ status: 'paid' });
+
+      await service.syncInTransitPayouts();
+
+      expect(ledgerService.recordPayoutPaid).not.toHaveBeenCalled();
+      expect(prisma.transactionStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('should look up payouts left pending by an unknown outcome', async () => {
+      const unconfirmed = { ...basePayout, provider: { code: 'stripe' } };
+      listPayouts([unconfirmed, { ...unconfirmed, id: 'po-2' }], []);
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(basePayout);
+      adapter.getPayout
+        .mockResolvedValueOnce({ providerPayoutId: 'po_123', status: 'in_transit' })
+        .mockRejectedValueOnce(new ProviderError('Payout po-2 not found', 'NOT_FOUND'));
+
+      const result = await service.syncInTransitPayouts();
+
+      expect(adapter.getPayout).toHaveBeenCalledWith('po-1');
+      expect(adapter.getPayout).toHaveBeenCalledWith('po-2');
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'po-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'PROCESSING', providerTransactionId: 'po_123' }),
+      });
+      expect(ledgerService.recordPayoutFailed).toHaveBeenCalledWith('po-2', 5000n, 'USD', prisma);
+      expect(result).toEqual({ paid: 0, failed: 1, inTransit: 1 });
+    });
+
+    it('should skip the sync when another instance holds the lock', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+      const result = await service.syncInTransitPayouts();
+
+      expect(result).toEqual({ paid: 0, failed: 0, inTransit: 0 });
+      expect(prisma.transaction.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
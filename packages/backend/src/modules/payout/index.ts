@@ -0,0 +1,5 @@
+export * from './payout.types.js';
+export * from './payout.schemas.js';
+export { payoutService, PayoutService } from './payout.service.js';
+export { payoutController, PayoutController } from './payout.controller.js';
+export { payoutRoutes } from './payout.routes.js';
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { Currency } from '@prisma/client';
+import { payoutService } from './payout.service.js';
+import { CreatePayoutBody, PayoutIdParam, PayoutBalanceQuery } from './payout.schemas.js';
+import { MerchantPayoutResponse } from './payout.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+
+export class PayoutController {
+  async createPayout(
+    req: Request<unknown, unknown, CreatePayoutBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const payout = await payoutService.createPayout({
+        merchantId: req.body.merchantId,
+        amount: req.body.amount,
+        currency: req.body.currency as Currency,
+        providerId: req.body.providerId,
+        destination: req.body.destination,
+        description: req.body.description,
+        metadata: req.body.metadata,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.formatPayout(payout),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPayout(
+    req: Request<PayoutIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const payout = await payoutService.getPayout(req.params.id);
+
+      if (!payout) {
+        throw AppError.notFound(`Payout with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatPayout(payout),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getBalance(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as PayoutBalanceQuery;
+      const balance = await payoutService.getBalance(query.merchantId, query.currency as Currency);
+
+      res.json({
+        success: true,
+        data: {
+          merchantId: balance.merchantId,
+          currency: balance.currency,
+          available: balance.available.toString(),
+          inTransit: balance.inTransit.toString(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatPayout(payout: MerchantPayoutResponse) {
+    return {
+      id: payout.id,
+      merchantId: payout.merchantId,
+      providerId: payout.providerId,
+      providerPayoutId: payout.providerPayoutId,
+      status: payout.status,
+      transactionStatus: payout.transactionStatus,
+      amount: payout.amount.toString(),
+      currency: payout.currency,
+      destination: payout.destination,
+      arrivalDate: payout.arrivalDate?.toISOString(),
+      description: payout.description,
+      failureReason: payout.failureReason,
+      metadata: payout.metadata,
+      createdAt: payout.createdAt.toISOString(),
+      updatedAt: payout.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const payoutController = new PayoutController();
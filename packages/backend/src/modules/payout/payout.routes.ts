@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { payoutController } from './payout.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createPayoutBodySchema,
+  payoutIdParamSchema,
+  payoutBalanceQuerySchema,
+} from './payout.schemas.js';
+
+const router = Router();
+
+/**
+ * POST /api/v1/payouts
+ * Pay out a merchant's available balance to their bank account
+ */
+router.post(
+  '/',
+  validateRequest({ body: createPayoutBodySchema }),
+  payoutController.createPayout.bind(payoutController)
+);
+
+/**
+ * GET /api/v1/payouts/balance
+ * Get a merchant's available and in-transit payout balance
+ */
+router.get(
+  '/balance',
+  validateRequest({ query: payoutBalanceQuerySchema }),
+  payoutController.getBalance.bind(payoutController)
+);
+
+/**
+ * GET /api/v1/payouts/:id
+ * Get payout by ID
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: payoutIdParamSchema }),
+  payoutController.getPayout.bind(payoutController)
+);
+
+export { router as payoutRoutes };
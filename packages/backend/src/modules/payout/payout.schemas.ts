@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const currencyEnum = z.enum([
+  'USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+]);
+
+export const createPayoutBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  amount: z.coerce.bigint().positive('Amount must be positive'),
+  currency: currencyEnum,
+  providerId: z.string().uuid().optional(),
+  destination: z.object({
+    accountHolderName: z.string().min(1).max(200),
+    accountNumber: z.string().regex(/^\d{4,17}$/).optional(),
+    routingNumber: z.string().regex(/^\d{9}$/).optional(),
+    iban: z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/).optional(),
+    bankName: z.string().max(200).optional(),
+    country: z.string().length(2).optional(),
+  }).refine(
+    (destination) => Boolean(destination.accountNumber || destination.iban),
+    { message: 'Either accountNumber or iban is required' }
+  ),
+  description: z.string().max(500).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  idempotencyKey: z.string().max(64).optional(),
+});
+
+export const payoutIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const payoutBalanceQuerySchema = z.object({
+  merchantId: z.string().uuid(),
+  currency: currencyEnum,
+});
+
+export type CreatePayoutBody = z.infer<typeof createPayoutBodySchema>;
+export type PayoutIdParam = z.infer<typeof payoutIdParamSchema>;
+export type PayoutBalanceQuery = z.infer<typeof payoutBalanceQuerySchema>;
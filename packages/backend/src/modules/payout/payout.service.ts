@@ -0,0 +1,503 @@
+import { Currency, Transaction, TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { providerService } from '../provider/provider.service.js';
+import { ledgerService } from '../ledger/ledger.service.js';
+import { merchantWebhookService } from '../merchant-webhook/merchant-webhook.service.js';
+import { transactionStateService } from '../transaction-state/transaction-state.service.js';
+import { TransactionStateError } from '../transaction-state/transaction-state.types.js';
+import { PayoutDestination, PayoutResponse, ProviderError } from '../provider/provider.types.js';
+import {
+  CreatePayoutRequest,
+  MerchantPayoutResponse,
+  PayoutBalanceResponse,
+  PayoutError,
+  PayoutStatus,
+  PayoutSyncResult,
+} from './payout.types.js';
+
+const SYNC_LOCK_KEY = 'payout-sync';
+
+const OPEN_PAYOUT_STATUSES: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PROCESSING,
+];
+
+const PAYOUT_STATUS_MAP: Partial<Record<TransactionStatus, PayoutStatus>> = {
+  [TransactionStatus.PENDING]: 'pending',
+  [TransactionStatus.PROCESSING]: 'in_transit',
+  [TransactionStatus.COMPLETED]: 'paid',
+  [TransactionStatus.FAILED]: 'failed',
+};
+
+export class PayoutService {
+  private static instance: PayoutService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): PayoutService {
+    if (!PayoutService.instance) {
+      PayoutService.instance = new PayoutService();
+    }
+    return PayoutService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.PAYOUT_SYNC_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.syncInTransitPayouts().catch((error: Error) => {
+        logger.error('Payout sync failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Payout sync started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Pay out part of a merchant's settled balance to their bank account.
+   * The balance check and the ledger debit happen under a per-merchant lock so
+   * concurrent payouts cannot overdraw the balance.
+   */
+  async createPayout(request: CreatePayoutRequest): Promise<MerchantPayoutResponse> {
+    logger.info('Creating payout', {
+      merchantId: request.merchantId,
+      amount: request.amount.toString(),
+      currency: request.currency,
+    });
+
+    if (request.idempotencyKey) {
+      const existing = await prisma.transaction.findUnique({
+        where: { idempotencyKey: request.idempotencyKey },
+      });
+
+      if (existing) {
+        if (existing.type !== TransactionType.PAYOUT) {
+          throw PayoutError.invalidRequest('Idempotency key was already used for a different transaction');
+        }
+        return this.toPayoutResponse(existing);
+      }
+    }
+
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: request.merchantId },
+    });
+
+    if (!merchant || !merchant.isActive) {
+      throw PayoutError.merchantNotFound(request.merchantId);
+    }
+
+    const provider = await this.resolveProvider(request.merchantId, request.providerId);
+    const adapter = await providerService.getAdapter(provider.code, request.merchantId);
+
+    if (!adapter.supportsCurrency(request.currency)) {
+      throw PayoutError.invalidRequest(`${provider.name} does not support payouts in ${request.currency}`);
+    }
+
+    const payout = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM merchants WHERE id = ${request.merchantId} FOR UPDATE`;
+
+      const available = await ledgerService.getMerchantPayableBalance(
+        request.merchantId,
+        request.currency,
+        tx
+      );
+
+      if (request.amount > available) {
+        throw PayoutError.insufficientBalance(request.amount, available, request.currency);
+      }
+
+      const created = await tx.transaction.create({
+        data: {
+          merchantId: request.merchantId,
+          providerId: provider.id,
+          type: TransactionType.PAYOUT,
+          status: TransactionStatus.PENDING,
+          amount: request.amount,
+          currency: request.currency,
+          description: request.description,
+          metadata: {
+            ...request.metadata,
+            destination: this.maskDestination(request.destination),
+          } as object,
+          idempotencyKey: request.idempotencyKey,
+        },
+      });
+
+      await transactionStateService.recordCreated(created, tx);
+      await ledgerService.recordPayoutInitiated(created.id, request.amount, request.currency, tx);
+
+      return created;
+    });
+
+    let result: PayoutResponse;
+    try {
+      result = await adapter.payout({
+        merchantId: request.merchantId,
+        amount: request.amount,
+        currency: request.currency,
+        destination: request.destination,
+        description: request.description,
+        idempotencyKey: payout.id,
+        metadata: request.metadata,
+      });
+    } catch (error) {
+      // Only a rejection returns the funds; after a timeout or an outage the
+      // provider may have sent the money anyway, so the payout stays pending
+      // until the sync looks it up
+      if (!(error instanceof ProviderError) || error.isRetryable) {
+        logger.warn('Payout outcome unknown, leaving it pending for reconciliation', {
+          payoutId: payout.id,
+          provider: provider.code,
+          error: (error as Error).message,
+        });
+
+        if (error instanceof ProviderError) {
+          return this.toPayoutResponse(payout);
+        }
+        throw error;
+      }
+
+      logger.error('Provider rejected payout', {
+        payoutId: payout.id,
+        provider: provider.code,
+        error: error.message,
+      });
+
+      await this.settlePayout(payout, TransactionStatus.FAILED, error.message);
+      throw PayoutError.providerError(error.message, payout.id);
+    }
+
+    return this.toPayoutResponse(await this.recordProviderPayout(payout, result));
+  }
+
+  async getPayout(id: string): Promise<MerchantPayoutResponse | null> {
+    const payout = await prisma.transaction.findFirst({
+      where: { id, type: TransactionType.PAYOUT },
+    });
+
+    return payout ? this.toPayoutResponse(payout) : null;
+  }
+
+  async getBalance(merchantId: string, currency: Currency): Promise<PayoutBalanceResponse> {
+    const [available, inTransit] = await Promise.all([
+      ledgerService.getMerchantPayableBalance(merchantId, currency),
+      prisma.transaction.aggregate({
+        where: {
+          merchantId,
+          currency,
+          type: TransactionType.PAYOUT,
+          status: { in: OPEN_PAYOUT_STATUSES },
+        },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    return {
+      merchantId,
+      currency,
+      available,
+      inTransit: inTransit._sum.amount ?? 0n,
+    };
+  }
+
+  /**
+   * Poll providers for payouts still in transit and settle the ones that have
+   * been paid or bounced. Payouts left pending by a request whose outcome was
+   * unknown are looked up by their idempotency key; one the provider never
+   * received fails and returns its funds. Only one instance syncs at a time.
+   */
+  async syncInTransitPayouts(): Promise<PayoutSyncResult> {
+    const result: PayoutSyncResult = { paid: 0, failed: 0, inTransit: 0 };
+
+    const lockToken = await cacheService.acquireLock(
+      SYNC_LOCK_KEY,
+      config.env.PAYOUT_SYNC_INTERVAL_MS
+    );
+
+    if (!lockToken) {
+      logger.debug('Payout sync already running on another instance');
+      return result;
+    }
+
+    try {
+      const payouts = await prisma.transaction.findMany({
+        where: {
+          type: TransactionType.PAYOUT,
+          status: TransactionStatus.PROCESSING,
+          providerTransactionId: { not: null },
+        },
+        include: { provider: { select: { code: true } } },
+        orderBy: { createdAt: 'asc' },
+        take: config.env.PAYOUT_SYNC_BATCH_SIZE,
+      });
+
+      for (const payout of payouts) {
+        if (!payout.provider || !payout.providerTransactionId) {
+          continue;
+        }
+
+        try {
+          const adapter = await providerService.getAdapter(payout.provider.code, payout.merchantId);
+          const status = await adapter.getPayout(payout.providerTransactionId);
+
+          if (status.status === 'paid') {
+            await this.settlePayout(payout, TransactionStatus.COMPLETED, undefined, status.rawResponse);
+            result.paid++;
+          } else if (status.status === 'failed') {
+            await this.settlePayout(payout, TransactionStatus.FAILED, status.failureReason, status.rawResponse);
+            result.failed++;
+          } else {
+            result.inTransit++;
+          }
+        } catch (error) {
+          logger.warn('Failed to sync payout status', {
+            payoutId: payout.id,
+            provider: payout.provider.code,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      // After the in-transit pass, so a payout found here is not counted twice
+      await this.reconcileUnconfirmedPayouts(result);
+
+      if (result.paid || result.failed) {
+        logger.info('Payout sync completed', { ...result });
+      }
+
+      return result;
+    } finally {
+      await cacheService.releaseLock(SYNC_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Pending payouts without a provider ID whose request has had time to
+   * finish. The grace period keeps the sync from racing a payout still being
+   * sent.
+   */
+  private async reconcileUnconfirmedPayouts(result: PayoutSyncResult): Promise<void> {
+    const payouts = await prisma.transaction.findMany({
+      where: {
+        type: TransactionType.PAYOUT,
+        status: TransactionStatus.PENDING,
+        providerTransactionId: null,
+        createdAt: { lt: new Date(Date.now() - config.env.PAYOUT_SYNC_INTERVAL_MS) },
+      },
+      include: { provider: { select: { code: true } } },
+      orderBy: { createdAt: 'asc' },
+      take: config.env.PAYOUT_SYNC_BATCH_SIZE,
+    });
+
+    for (const payout of payouts) {
+      if (!payout.provider) {
+        continue;
+      }
+
+      try {
+        const adapter = await providerService.getAdapter(payout.provider.code, payout.merchantId);
+
+        let updated: Transaction | null;
+        try {
+          updated = await this.recordProviderPayout(payout, await adapter.getPayout(payout.id));
+        } catch (error) {
+          if (!(error instanceof ProviderError) || error.code !== 'NOT_FOUND') {
+            throw error;
+          }
+          updated = await this.settlePayout(payout, TransactionStatus.FAILED, 'Payout never reached the provider');
+        }
+
+        if (updated?.status === TransactionStatus.COMPLETED) {
+          result.paid++;
+        } else if (updated?.status === TransactionStatus.FAILED) {
+          result.failed++;
+        } else if (updated) {
+          result.inTransit++;
+        }
+      } catch (error) {
+        logger.warn('Failed to reconcile pending payout', {
+          payoutId: payout.id,
+          provider: payout.provider.code,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Move a payout the provider accepted in transit, settling it right away
+   * when the provider already reports it paid or bounced.
+   */
+  private async recordProviderPayout(payout: Transaction, result: PayoutResponse): Promise<Transaction> {
+    const inTransit = await transactionStateService.transition({
+      transactionId: payout.id,
+      from: TransactionStatus.PENDING,
+      to: TransactionStatus.PROCESSING,
+      metadata: { providerPayoutId: result.providerPayoutId },
+      data: {
+        providerTransactionId: result.providerPayoutId,
+        providerResponse: result.rawResponse as object,
+        metadata: {
+          ...(payout.metadata as Record<string, unknown>),
+          arrivalDate: result.arrivalDate?.toISOString(),
+        } as object,
+      },
+    });
+
+    logger.info('Payout in transit', {
+      payoutId: payout.id,
+      providerPayoutId: result.providerPayoutId,
+      arrivalDate: result.arrivalDate?.toISOString(),
+    });
+
+    // Some providers settle instantly; finish the lifecycle right away in that case
+    if (result.status === 'paid' || result.status === 'failed') {
+      const settled = await this.settlePayout(
+        inTransit,
+        result.status === 'paid' ? TransactionStatus.COMPLETED : TransactionStatus.FAILED,
+        result.failureReason,
+        result.rawResponse
+      );
+      return settled ?? inTransit;
+    }
+
+    return inTransit;
+  }
+
+  private async resolveProvider(merchantId: string, providerId?: string) {
+    if (providerId) {
+      const provider = await prisma.paymentProvider.findUnique({
+        where: { id: providerId },
+      });
+
+      if (!provider || !provider.isActive) {
+        throw PayoutError.invalidRequest(`Provider ${providerId} not found or inactive`);
+      }
+
+      return provider;
+    }
+
+    const merchantConfig = await prisma.merchantProviderConfig.findFirst({
+      where: {
+        merchantId,
+        isActive: true,
+        provider: { isActive: true },
+      },
+      include: { provider: true },
+      orderBy: { priority: 'asc' },
+    });
+
+    if (!merchantConfig) {
+      throw PayoutError.noProvider(merchantId);
+    }
+
+    return merchantConfig.provider;
+  }
+
+  /**
+   * Move an open payout to its final status and post the matching ledger entries.
+   * Returns null if another worker already settled it.
+   */
+  private async settlePayout(
+    payout: Transaction,
+    status: TransactionStatus,
+    failureReason?: string,
+    providerResponse?: unknown
+  ): Promise<Transaction | null> {
+    let settled: Transaction;
+    try {
+      settled = await prisma.$transaction(async (tx) => {
+        const updated = await transactionStateService.transition(
+          {
+            transactionId: payout.id,
+            from: OPEN_PAYOUT_STATUSES,
+            to: status,
+            reason: failureReason,
+            data: {
+              failureReason,
+              ...(providerResponse !== undefined ? { providerResponse: providerResponse as object } : {}),
+            },
+          },
+          tx
+        );
+
+        if (status === TransactionStatus.COMPLETED) {
+          await ledgerService.recordPayoutPaid(payout.id, payout.amount, payout.currency, tx);
+        } else {
+          await ledgerService.recordPayoutFailed(payout.id, payout.amount, payout.currency, tx);
+        }
+
+        return updated;
+      });
+    } catch (error) {
+      if (
+        error instanceof TransactionStateError &&
+        (error.code === 'UNEXPECTED_STATUS' || error.code === 'CONCURRENT_MODIFICATION')
+      ) {
+        return null;
+      }
+      throw error;
+    }
+
+    await merchantWebhookService.publishTransactionStatus(payout.id, status);
+
+    logger.info('Payout settled', {
+      payoutId: payout.id,
+      status,
+      failureReason,
+    });
+
+    return settled;
+  }
+
+  private maskDestination(destination: PayoutDestination): Record<string, unknown> {
+    const accountNumber = destination.accountNumber ?? destination.iban ?? '';
+
+    return {
+      accountHolderName: destination.accountHolderName,
+      bankName: destination.bankName,
+      country: destination.country,
+      routingNumber: destination.routingNumber,
+      type: destination.iban ? 'iban' : 'account_number',
+      last4: accountNumber.slice(-4),
+    };
+  }
+
+  private toPayoutResponse(transaction: Transaction): MerchantPayoutResponse {
+    const { destination, arrivalDate, ...metadata } = transaction.metadata as Record<string, unknown>;
+
+    return {
+      id: transaction.id,
+      merchantId: transaction.merchantId,
+      providerId: transaction.providerId ?? undefined,
+      providerPayoutId: transaction.providerTransactionId ?? undefined,
+      status: PAYOUT_STATUS_MAP[transaction.status] ?? 'pending',
+      transactionStatus: transaction.status,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      destination: (destination ?? {}) as Record<string, unknown>,
+      arrivalDate: typeof arrivalDate === 'string' ? new Date(arrivalDate) : undefined,
+      description: transaction.description ?? undefined,
+      failureReason: transaction.failureReason ?? undefined,
+      metadata,
+      createdAt: transaction.createdAt,
+      updatedAt: transaction.updatedAt,
+    };
+  }
+}
+
+export const payoutService = PayoutService.getInstance();
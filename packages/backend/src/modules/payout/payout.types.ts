@@ -0,0 +1,92 @@
+import { Currency, TransactionStatus } from '@prisma/client';
+import { PayoutDestination, PayoutResponse } from '../provider/provider.types.js';
+
+export interface CreatePayoutRequest {
+  merchantId: string;
+  amount: bigint;
+  currency: Currency;
+  providerId?: string;
+  destination: PayoutDestination;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  idempotencyKey?: string;
+}
+
+export type PayoutStatus = PayoutResponse['status'];
+
+export interface MerchantPayoutResponse {
+  id: string;
+  merchantId: string;
+  providerId?: string;
+  providerPayoutId?: string;
+  status: PayoutStatus;
+  transactionStatus: TransactionStatus;
+  amount: bigint;
+  currency: Currency;
+  destination: Record<string, unknown>;
+  arrivalDate?: Date;
+  description?: string;
+  failureReason?: string;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PayoutBalanceResponse {
+  merchantId: string;
+  currency: Currency;
+  available: bigint;
+  inTransit: bigint;
+}
+
+export interface PayoutSyncResult {
+  paid: number;
+  failed: number;
+  inTransit: number;
+}
+
+export class PayoutError extends Error {
+  public readonly code: string;
+  public readonly payoutId?: string;
+
+  constructor(message: string, code: string, payoutId?: string) {
+    super(message);
+    this.name = 'PayoutError';
+    this.code = code;
+    this.payoutId = payoutId;
+  }
+
+  static invalidRequest(message: string): PayoutError {
+    return new PayoutError(message, 'INVALID_REQUEST');
+  }
+
+  static notFound(payoutId: string): PayoutError {
+    return new PayoutError(`Payout ${payoutId} not found`, 'NOT_FOUND', payoutId);
+  }
+
+  static merchantNotFound(merchantId: string): PayoutError {
+    return new PayoutError(`Merchant ${merchantId} not found`, 'MERCHANT_NOT_FOUND');
+  }
+
+  static noProvider(merchantId: string): PayoutError {
+    return new PayoutError(
+      `Merchant ${merchantId} has no active provider to pay out through`,
+      'NO_PROVIDER'
+    );
+  }
+
+  static insufficientBalance(
+    requestedAmount: bigint,
+    availableAmount: bigint,
+    currency: Currency
+  ): PayoutError {
+    return new PayoutError(
+      `Payout amount ${requestedAmount} exceeds available ${currency} balance ${availableAmount}`,
+      'INSUFFICIENT_BALANCE'
+    );
+  }
+
+  static providerError(message: string, payoutId?: string): PayoutError {
+    return new PayoutError(message, 'PROVIDER_ERROR', payoutId);
+  }
+}
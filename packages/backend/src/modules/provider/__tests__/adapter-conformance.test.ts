@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { AdapterFactory } from '../adapters/adapter.factory';
+import { BankTransferAdapter } from '../adapters/bank-transfer.adapter';
+import { CryptoAdapter } from '../adapters/crypto.adapter';
+import { PayPalAdapter } from '../adapters/paypal.adapter';
+import { StripeAdapter } from '../adapters/stripe.adapter';
+import { IPaymentProviderAdapter, isSimulatedWebhookSource } from '../adapters/base.adapter';
+import { AuthorizeRequest } from '../provider.types';
+import { AdapterConformanceSubject, describeAdapterConformance } from './adapter-conformance';
+
+jest.mock('../../fx/fx.service', () => ({
+  fxService: {
+    getQuote: jest.fn(() =>
+      Promise.resolve({
+        id: 'quote-1', targetAmount: 5000n, effectiveRate: 1, expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+      })
+    ),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PROVIDER_ADAPTER_CACHE_SIZE: 500,
+    },
+  },
+}));
+
+const hmac = (payload: string, secret: string, encoding: 'hex' | 'base64' = 'hex') =>
+  crypto.createHmac('sha256', secret).update(payload).digest(encoding);
+
+const card = (cardNumber: string): AuthorizeRequest => ({
+  merchantId: 'm-1',
+  amount: 5000n,
+  currency: 'USD',
+  paymentMethod: { type: 'CARD', cardNumber, expiryMonth: 12, expiryYear: 2030, cvv: '123' },
+});
+
+const initialized = async (adapter: IPaymentProviderAdapter, metadata: Record<string, unknown> = {}) => {
+  await adapter.initialize({ metadata });
+  return adapter;
+};
+
+// Simulated providers settle whatever is due when their webhooks are collected
+const settleDue = (adapter: IPaymentProviderAdapter) => {
+  if (isSimulatedWebhookSource(adapter)) {
+    adapter.collectDueWebhooks(new Date(Date.now() + 1000), 'whsec_conformance');
+  }
+  return Promise.resolve();
+};
+
+// One entry per registered adapter, so a new adapter cannot ship without passing the suite
+const subjects: Record<string, AdapterConformanceSubject> = {
+  stripe: {
+    createAdapter: () => initialized(new StripeAdapter()),
+    authorizeRequest: card('4242424242424242'),
+    settlement: { type: 'capture' },
+    declines: [
+      { name: 'a card with insufficient funds', request: card('4000000000009995'), code: 'INSUFFICIENT_FUNDS' },
+      { name: 'an expired card', request: card('4000000000000069'), code: 'EXPIRED_CARD' },
+      { name: 'a network failure', request: card('4000000000000341'), code: 'NETWORK_ERROR' },
+    ],
+    webhooks: {
+      sign: (payload, secret) => {
+        const timestamp = Math.floor(Date.now() / 1000);
+        return `t=${timestamp},v1=${hmac(`${timestamp}.${payload}`, secret)}`;
+      },
+      events: [
+        {
+          name: 'a succeeded payment intent to captured',
+          payload: {
+            eventType: 'payment_intent.succeeded', providerEventId: 'evt_1',
+            data: { id: 'pi_1', amount: 5000, currency: 'usd' }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'pi_1', status: 'captured', amount: 5000n, currency: 'USD' },
+        },
+        {
+          name: 'a failed payment intent to failed',
+          payload: {
+            eventType: 'payment_intent.payment_failed', providerEventId: 'evt_2',
+            data: { id: 'pi_1' }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'pi_1', status: 'failed' },
+        },
+        {
+          name: 'a refunded charge to refunded',
+          payload: {
+            eventType: 'charge.refunded', providerEventId: 'evt_3',
+            data: { id: 'pi_1', amount: 5000, currency: 'usd' }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'pi_1', status: 'refunded' },
+        },
+      ],
+    },
+  },
+
+  paypal: {
+    createAdapter: () => initialized(new PayPalAdapter()),
+    authorizeRequest: card('4242424242424242'),
+    settlement: { type: 'capture' },
+    unsupportedCurrency: 'CNY',
+    declines: [
+      { name: 'a card with insufficient funds', request: card('4000000000009995'), code: 'INSUFFICIENT_FUNDS' },
+      { name: 'a network failure', request: card('4000000000000341'), code: 'NETWORK_ERROR' },
+    ],
+    webhooks: {
+      sign: (payload, secret) => hmac(payload, secret, 'base64'),
+      events: [
+        {
+          name: 'a completed capture to captured',
+          payload: {
+            eventType: 'PAYMENT.CAPTURE.COMPLETED', providerEventId: 'WH-1',
+            data: { resource: { id: 'CAP-1', amount: { value: '50.00', currency_code: 'USD' } } },
+            timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'CAP-1', status: 'captured', amount: 5000n, currency: 'USD' },
+        },
+        {
+          name: 'a voided authorization to cancelled',
+          payload: {
+            eventType: 'PAYMENT.AUTHORIZATION.VOIDED', providerEventId: 'WH-2',
+            data: { resource: { id: 'AUTH-1' } }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'AUTH-1', status: 'cancelled' },
+        },
+      ],
+    },
+  },
+
+  bank_transfer: {
+    createAdapter: () => initialized(new BankTransferAdapter(), { settlementDelayMs: 0 }),
+    authorizeRequest: {
+      merchantId: 'm-1',
+      amount: 5000n,
+      currency: 'USD',
+      paymentMethod: { type: 'BANK_TRANSFER', routingNumber: '110000000', accountNumber: '000123456789' },
+    },
+    settlement: { type: 'async', settle: settleDue },
+    unsupportedCurrency: 'GBP',
+    webhooks: {
+      sign: (payload, secret) => hmac(payload, secret),
+      events: [
+        {
+          name: 'a settled debit to captured',
+          payload: {
+            eventType: 'debit.settled', providerEventId: 'evt_1',
+            data: { id: 'bank_transfer_1', amount: '5000', currency: 'USD' }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'bank_transfer_1', status: 'captured', amount: 5000n, currency: 'USD' },
+        },
+        {
+          name: 'a returned debit to failed',
+          payload: {
+            eventType: 'debit.returned', providerEventId: 'evt_2',
+            data: { id: 'bank_transfer_1', amount: '5000', currency: 'USD', return_code: 'R01' }, timestamp: new Date(),
+          },
+          expected: { status: 'failed', failureReason: 'R01: Insufficient funds' },
+        },
+      ],
+    },
+  },
+
+  crypto: {
+    createAdapter: () =>
+      initialized(new CryptoAdapter(), { paymentDelayMs: 0, blockTimeMs: 0, requiredConfirmations: 1 }),
+    authorizeRequest: {
+      merchantId: 'm-1',
+      amount: 5000n,
+      currency: 'USD',
+      paymentMethod: {
+        type: 'CRYPTO', cryptoAsset: 'USDC', walletAddress: '0x4444444444444444444444444444444444444444',
+      },
+    },
+    settlement: { type: 'async', settle: settleDue },
+    webhooks: {
+      sign: (payload, secret) => hmac(payload, secret),
+      events: [
+        {
+          name: 'a confirmed charge to captured',
+          payload: {
+            eventType: 'charge.confirmed', providerEventId: 'evt_1',
+            data: { id: 'crypto_1', amount: '5000', currency: 'USD', confirmations: 12 }, timestamp: new Date(),
+          },
+          expected: { providerTransactionId: 'crypto_1', status: 'captured', amount: 5000n, currency: 'USD' },
+        },
+        {
+          name: 'an expired charge to failed',
+          payload: {
+            eventType: 'charge.expired', providerEventId: 'evt_2',
+            data: { id: 'crypto_1', amount: '5000', currency: 'USD' }, timestamp: new Date(),
+          },
+          expected: { status: 'failed' },
+        },
+      ],
+    },
+  },
+};
+
+describe('adapter conformance subjects', () => {
+  it('should cover every registered adapter', () => {
+    expect(Object.keys(subjects).sort()).toEqual(AdapterFactory.getAvailableProviders().sort());
+  });
+});
+
+for (const [providerCode, subject] of Object.entries(subjects)) {
+  describeAdapterConformance(providerCode, subject);
+}
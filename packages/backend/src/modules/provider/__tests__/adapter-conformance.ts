@@ -0,0 +1,243 @@
+import { Currency } from '@prisma/client';
+import { IPaymentProviderAdapter } from '../adapters/base.adapter';
+import {
+  AuthorizeRequest,
+  ProcessedWebhook,
+  ProviderError,
+  ProviderErrorCode,
+  WebhookPayload,
+} from '../provider.types';
+
+// Must match the codes ProviderError marks as retryable
+const RETRYABLE_CODES: ProviderErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'RATE_LIMITED', 'PROVIDER_UNAVAILABLE'];
+
+export interface AdapterConformanceSubject {
+  /** An initialized adapter; a fresh one is built for every test */
+  createAdapter: () => Promise<IPaymentProviderAdapter>;
+  /** A request the adapter accepts in full */
+  authorizeRequest: AuthorizeRequest;
+  /**
+   * How an authorization turns into captured funds: by calling capture, or by
+   * the provider settling it later, as bank debits and crypto payments do
+   */
+  settlement:
+    | { type: 'capture' }
+    | { type: 'async'; settle: (adapter: IPaymentProviderAdapter) => Promise<void> };
+  /** A currency the adapter does not take, when there is one */
+  unsupportedCurrency?: Currency;
+  /** Authorizations the adapter declines, and the error each must raise */
+  declines?: Array<{ name: string; request: AuthorizeRequest; code: ProviderErrorCode }>;
+  webhooks: {
+    /** Signs a payload the way the provider does */
+    sign: (payload: string, secret: string) => string;
+    /** Provider events and what parseWebhook must turn them into */
+    events: Array<{ name: string; payload: WebhookPayload; expected: Partial<ProcessedWebhook> }>;
+  };
+}
+
+async function expectProviderError(promise: Promise<unknown>, code: ProviderErrorCode): Promise<void> {
+  const error: unknown = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+
+  expect(error).toBeInstanceOf(ProviderError);
+  expect((error as ProviderError).code).toBe(code);
+  expect((error as ProviderError).isRetryable).toBe(RETRYABLE_CODES.includes(code));
+}
+
+/**
+ * The contract every IPaymentProviderAdapter keeps, whatever the provider:
+ * the same ProviderError codes for the same mistakes, retryable flags that
+ * match the code, and webhooks that verify and map to transaction statuses.
+ */
+export function describeAdapterConformance(name: string, subject: AdapterConformanceSubject): void {
+  const { authorizeRequest, settlement } = subject;
+  const otherCurrency: Currency = authorizeRequest.currency === 'EUR' ? 'USD' : 'EUR';
+
+  // An authorization that has not taken any funds yet
+  const authorize = (adapter: IPaymentProviderAdapter) =>
+    adapter.authorize({ ...authorizeRequest, capture: settlement.type === 'async' });
+
+  const authorizeAndCapture = async (adapter: IPaymentProviderAdapter): Promise<string> => {
+    const { providerTransactionId } = await authorize(adapter);
+
+    if (settlement.type === 'capture') {
+      await adapter.capture({ providerTransactionId });
+    } else {
+      await settlement.settle(adapter);
+    }
+
+    return providerTransactionId;
+  };
+
+  describe(`${name} adapter conformance`, () => {
+    let adapter: IPaymentProviderAdapter;
+
+    beforeEach(async () => {
+      adapter = await subject.createAdapter();
+    });
+
+    describe('authorize', () => {
+      it('should echo the amount and currency of an accepted request', async () => {
+        const result = await authorize(adapter);
+
+        expect(result.success).toBe(true);
+        expect(result.providerTransactionId).toEqual(expect.any(String));
+        expect(result.status).toBe(settlement.type === 'capture' ? 'authorized' : 'pending');
+        expect(result.amount).toBe(authorizeRequest.amount);
+        expect(result.currency).toBe(authorizeRequest.currency);
+      });
+
+      if (subject.unsupportedCurrency) {
+        const currency = subject.unsupportedCurrency;
+
+        it('should reject a currency it does not support', async () => {
+          await expectProviderError(adapter.authorize({ ...authorizeRequest, currency }), 'INVALID_REQUEST');
+        });
+      }
+
+      for (const decline of subject.declines ?? []) {
+        it(`should decline ${decline.name} with ${decline.code}`, async () => {
+          await expectProviderError(adapter.authorize(decline.request), decline.code);
+        });
+      }
+    });
+
+    describe('capture', () => {
+      if (settlement.type === 'capture') {
+        it('should reject a second capture of a fully captured payment', async () => {
+          const providerTransactionId = await authorizeAndCapture(adapter);
+
+          await expectProviderError(adapter.capture({ providerTransactionId }), 'DUPLICATE_TRANSACTION');
+        });
+
+        it('should reject a capture above the authorized amount', async () => {
+          const { providerTransactionId } = await authorize(adapter);
+
+          await expectProviderError(
+            adapter.capture({ providerTransactionId, amount: authorizeRequest.amount + 1n }),
+            'INVALID_REQUEST'
+          );
+        });
+
+        it('should reject a capture in another currency', async () => {
+          const { providerTransactionId } = await authorize(adapter);
+
+          await expectProviderError(
+            adapter.capture({ providerTransactionId, currency: otherCurrency }),
+            'INVALID_REQUEST'
+          );
+        });
+
+        it('should reject capturing a cancelled payment', async () => {
+          const { providerTransactionId } = await authorize(adapter);
+          await adapter.cancel({ providerTransactionId });
+
+          await expectProviderError(adapter.capture({ providerTransactionId }), 'INVALID_REQUEST');
+        });
+      } else {
+        it('should reject captures, as funds are taken when the payment settles', async () => {
+          const { providerTransactionId } = await authorize(adapter);
+
+          await expectProviderError(adapter.capture({ providerTransactionId }), 'INVALID_REQUEST');
+        });
+      }
+
+      it('should report an unknown payment as not found', async () => {
+        await expectProviderError(adapter.capture({ providerTransactionId: 'unknown' }), 'NOT_FOUND');
+      });
+    });
+
+    describe('cancel', () => {
+      it('should reject cancelling a captured payment', async () => {
+        const providerTransactionId = await authorizeAndCapture(adapter);
+
+        await expectProviderError(adapter.cancel({ providerTransactionId }), 'INVALID_REQUEST');
+      });
+
+      it('should reject cancelling twice', async () => {
+        const { providerTransactionId } = await authorize(adapter);
+        await adapter.cancel({ providerTransactionId });
+
+        await expectProviderError(adapter.cancel({ providerTransactionId }), 'DUPLICATE_TRANSACTION');
+      });
+
+      it('should report an unknown payment as not found', async () => {
+        await expectProviderError(adapter.cancel({ providerTransactionId: 'unknown' }), 'NOT_FOUND');
+      });
+    });
+
+    describe('refund', () => {
+      it('should reject refunding a payment that has not been captured', async () => {
+        const { providerTransactionId } = await authorize(adapter);
+
+        await expectProviderError(adapter.refund({ providerTransactionId }), 'INVALID_REQUEST');
+      });
+
+      it('should refund up to the captured amount and no further', async () => {
+        const providerTransactionId = await authorizeAndCapture(adapter);
+
+        await expectProviderError(
+          adapter.refund({ providerTransactionId, amount: authorizeRequest.amount + 1n }),
+          'INVALID_REQUEST'
+        );
+
+        const refund = await adapter.refund({ providerTransactionId, amount: 1000n });
+        expect(refund).toMatchObject({ success: true, refundedAmount: 1000n, currency: authorizeRequest.currency });
+
+        await expectProviderError(
+          adapter.refund({ providerTransactionId, amount: authorizeRequest.amount - 999n }),
+          'INVALID_REQUEST'
+        );
+      });
+
+      it('should reject a refund in another currency', async () => {
+        const providerTransactionId = await authorizeAndCapture(adapter);
+
+        await expectProviderError(
+          adapter.refund({ providerTransactionId, amount: 1000n, currency: otherCurrency }),
+          'INVALID_REQUEST'
+        );
+      });
+
+      it('should report an unknown payment as not found', async () => {
+        await expectProviderError(adapter.refund({ providerTransactionId: 'unknown' }), 'NOT_FOUND');
+      });
+    });
+
+    describe('webhooks', () => {
+      const secret = 'whsec_conformance';
+      const payload = JSON.stringify({ id: 'evt_conformance', type: 'conformance.test' });
+
+      it('should verify a signature made with the webhook secret', () => {
+        expect(adapter.verifyWebhookSignature(payload, subject.webhooks.sign(payload, secret), secret)).toBe(true);
+      });
+
+      it('should reject a wrong secret, a tampered payload or a malformed signature', () => {
+        const signature = subject.webhooks.sign(payload, secret);
+
+        expect(adapter.verifyWebhookSignature(payload, signature, 'whsec_other')).toBe(false);
+        expect(adapter.verifyWebhookSignature(`${payload} `, signature, secret)).toBe(false);
+        expect(adapter.verifyWebhookSignature(payload, 'not-a-signature', secret)).toBe(false);
+        expect(adapter.verifyWebhookSignature(payload, '', secret)).toBe(false);
+      });
+
+      for (const event of subject.webhooks.events) {
+        it(`should map ${event.name}`, async () => {
+          await expect(adapter.parseWebhook(event.payload)).resolves.toMatchObject({
+            eventType: event.payload.eventType,
+            ...event.expected,
+          });
+        });
+      }
+
+      it('should leave the status alone for event types it does not know', async () => {
+        const [known] = subject.webhooks.events;
+        const processed = await adapter.parseWebhook({ ...known!.payload, eventType: 'conformance.unknown' });
+
+        expect(processed.status).toBeUndefined();
+      });
+    });
+  });
+}
@@ -0,0 +1,96 @@
+import { AdapterFactory } from '../adapters/adapter.factory';
+
+jest.mock('../../fx/fx.service', () => ({
+  fxService: { getQuote: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      PROVIDER_ADAPTER_CACHE_SIZE: 3,
+    },
+  },
+}));
+
+const credentials = (apiKey: string) => ({ apiKey, metadata: {} });
+
+describe('AdapterFactory', () => {
+  beforeEach(() => {
+    AdapterFactory.clearInstances();
+  });
+
+  it("should initialize a separate instance with each merchant's credentials", async () => {
+    const first = await AdapterFactory.getAdapter('stripe', credentials('sk_m1'), {
+      merchantId: 'm-1', credentialVersion: 'v1',
+    });
+    const second = await AdapterFactory.getAdapter('stripe', credentials('sk_m2'), {
+      merchantId: 'm-2', credentialVersion: 'v1',
+    });
+
+    expect(first).not.toBe(second);
+    expect((first as any).config.apiKey).toBe('sk_m1');
+    expect((second as any).config.apiKey).toBe('sk_m2');
+
+    await expect(
+      AdapterFactory.getAdapter('stripe', credentials('sk_m1'), { merchantId: 'm-1', credentialVersion: 'v1' })
+    ).resolves.toBe(first);
+  });
+
+  it('should replace an instance when the credential version changes', async () => {
+    const original = await AdapterFactory.getAdapter('stripe', credentials('sk_old'), {
+      merchantId: 'm-1', credentialVersion: 'v1',
+    });
+    const rotated = await AdapterFactory.getAdapter('stripe', credentials('sk_new'), {
+      merchantId: 'm-1', credentialVersion: 'v2',
+    });
+
+    expect(rotated).not.toBe(original);
+    expect((rotated as any).config.apiKey).toBe('sk_new');
+    expect(AdapterFactory.getInstanceCount()).toBe(1);
+  });
+
+  it('should evict the least recently used instance past the cache size', async () => {
+    const scope = (merchantId: string) => ({ merchantId, credentialVersion: 'v1' });
+
+    const m1 = await AdapterFactory.getAdapter('stripe', credentials('sk_m1'), scope('m-1'));
+    await AdapterFactory.getAdapter('stripe', credentials('sk_m2'), scope('m-2'));
+    await AdapterFactory.getAdapter('paypal', credentials('pp_m3'), scope('m-3'));
+
+    // Using m-1 again leaves m-2 as the least recently used
+    await AdapterFactory.getAdapter('stripe', credentials('sk_m1'), scope('m-1'));
+    await AdapterFactory.getAdapter('paypal', credentials('pp_m4'), scope('m-4'));
+
+    expect(AdapterFactory.getInstanceCount()).toBe(3);
+    await expect(AdapterFactory.getAdapter('stripe', credentials('sk_m1'), scope('m-1'))).resolves.toBe(m1);
+
+    const m2 = await AdapterFactory.getAdapter('stripe', credentials('sk_m2'), scope('m-2'));
+    expect((m2 as any).config.apiKey).toBe('sk_m2');
+    expect(AdapterFactory.getInstanceCount()).toBe(3);
+  });
+
+  it("should drop only the given merchant's instances", async () => {
+    const m1 = await AdapterFactory.getAdapter('stripe', credentials('sk_m1'), {
+      merchantId: 'm-1', credentialVersion: 'v1',
+    });
+    const m2 = await AdapterFactory.getAdapter('stripe', credentials('sk_m2'), {
+      merchantId: 'm-2', credentialVersion: 'v1',
+    });
+
+    AdapterFactory.removeInstance('stripe', 'm-1');
+
+    await expect(
+      AdapterFactory.getAdapter('stripe', credentials('sk_m1'), { merchantId: 'm-1', credentialVersion: 'v1' })
+    ).resolves.not.toBe(m1);
+    await expect(
+      AdapterFactory.getAdapter('stripe', credentials('sk_m2'), { merchantId: 'm-2', credentialVersion: 'v1' })
+    ).resolves.toBe(m2);
+  });
+
+  it('should reject providers without a registered adapter', async () => {
+    await expect(AdapterFactory.getAdapter('unknown')).rejects.toMatchObject({ code: 'PROVIDER_UNAVAILABLE' });
+  });
+});
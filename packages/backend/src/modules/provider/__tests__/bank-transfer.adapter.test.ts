@@ -0,0 +1,144 @@
+import { BankTransferAdapter, isValidIban, isValidRoutingNumber } from '../adapters/bank-transfer.adapter';
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const secret = 'whsec_test';
+const later = () => new Date(Date.now() + 1000);
+
+const achDebit = (accountNumber = '000123456789') => ({
+  amount: 5000n,
+  currency: 'USD' as const,
+  paymentMethod: { type: 'BANK_TRANSFER' as const, routingNumber: '110000000', accountNumber },
+  merchantId: 'm-1',
+});
+
+describe('BankTransferAdapter', () => {
+  let adapter: BankTransferAdapter;
+
+  beforeEach(async () => {
+    adapter = new BankTransferAdapter();
+    await adapter.initialize({ metadata: { settlementDelayMs: 0 } });
+    // Drain debits left pending by earlier tests
+    adapter.collectDueWebhooks(later(), secret);
+  });
+
+  describe('account validation', () => {
+    it('should check IBANs and routing numbers', () => {
+      expect(isValidIban('DE89370400440532013000')).toBe(true);
+      expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+      expect(isValidIban('DE89370400440532013001')).toBe(false);
+      expect(isValidIban('DE62370400440532013001')).toBe(true);
+      expect(isValidRoutingNumber('110000000')).toBe(true);
+      expect(isValidRoutingNumber('110000001')).toBe(false);
+      expect(isValidRoutingNumber('11000000')).toBe(false);
+    });
+
+    it('should reject debits with invalid account details', async () => {
+      await expect(
+        adapter.authorize({ ...achDebit(), paymentMethod: { type: 'BANK_TRANSFER', routingNumber: '110000001', accountNumber: '000123456789' } })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST', message: 'Invalid routing number' });
+      await expect(
+        adapter.authorize({ ...achDebit(), currency: 'EUR', paymentMethod: { type: 'BANK_TRANSFER', iban: 'DE89370400440532013001' } })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST', message: 'Invalid IBAN' });
+      await expect(
+        adapter.authorize({ ...achDebit(), paymentMethod: { type: 'BANK_TRANSFER', iban: 'DE89370400440532013000' } })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST', message: 'SEPA debits must be in EUR' });
+    });
+
+    it('should not hold funds for a later capture', async () => {
+      await expect(adapter.authorize({ ...achDebit(), capture: false })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+    });
+  });
+
+  describe('settlement', () => {
+    it('should accept a debit as pending and settle it by webhook', async () => {
+      const result = await adapter.authorize(achDebit());
+
+      expect(result).toMatchObject({ success: true, status: 'pending', amount: 5000n });
+
+      const [webhook, ...rest] = adapter.collectDueWebhooks(later(), secret);
+      expect(rest).toHaveLength(0);
+      expect(adapter.verifyWebhookSignature(webhook!.payload, webhook!.signature, secret)).toBe(true);
+      expect(adapter.verifyWebhookSignature(webhook!.payload, webhook!.signature, 'whsec_other')).toBe(false);
+
+      const event = JSON.parse(webhook!.payload);
+      expect(event).toMatchObject({
+        type: 'debit.settled',
+        data: { id: result.providerTransactionId, rail: 'ach', status: 'settled', amount: '5000' },
+      });
+
+      const processed = await adapter.parseWebhook({
+        providerEventId: event.id, eventType: event.type, data: event.data, timestamp: new Date(event.created),
+      });
+      expect(processed).toMatchObject({
+        providerTransactionId: result.providerTransactionId,
+        status: 'captured',
+        amount: 5000n,
+        currency: 'USD',
+      });
+
+      // Each debit is reported once
+      expect(adapter.collectDueWebhooks(later(), secret)).toHaveLength(0);
+    });
+
+    it('should not report a debit before its settlement date', async () => {
+      await adapter.initialize({ metadata: { settlementDelayMs: 60_000 } });
+      await adapter.authorize(achDebit());
+
+      expect(adapter.collectDueWebhooks(new Date(), secret)).toHaveLength(0);
+      expect(adapter.collectDueWebhooks(new Date(Date.now() + 61_000), secret)).toHaveLength(1);
+    });
+
+    it('should return debits from the test accounts with their return codes', async () => {
+      await adapter.authorize(achDebit('000111111116'));
+      await adapter.authorize({
+        ...achDebit(), currency: 'EUR', paymentMethod: { type: 'BANK_TRANSFER', iban: 'DE35370400440532013002' },
+      });
+
+      const events = adapter.collectDueWebhooks(later(), secret).map((w) => JSON.parse(w.payload));
+      expect(events.map((e) => [e.type, e.data.rail, e.data.return_code])).toEqual([
+        ['debit.returned', 'ach', 'R01'],
+        ['debit.returned', 'sepa', 'R10'],
+      ]);
+
+      const processed = await adapter.parseWebhook({
+        providerEventId: events[0].id, eventType: events[0].type, data: events[0].data, timestamp: new Date(),
+      });
+      expect(processed).toMatchObject({
+        status: 'failed',
+        failureReason: 'R01: Insufficient funds',
+        metadata: { returnCode: 'R01' },
+      });
+    });
+
+    it('should only refund settled debits', async () => {
+      const { providerTransactionId } = await adapter.authorize(achDebit());
+
+      await expect(adapter.refund({ providerTransactionId, amount: 1000n })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+
+      adapter.collectDueWebhooks(later(), secret);
+
+      await expect(adapter.refund({ providerTransactionId, amount: 1000n })).resolves.toMatchObject({
+        status: 'completed',
+        refundedAmount: 1000n,
+      });
+      await expect(adapter.refund({ providerTransactionId, amount: 5000n })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+    });
+
+    it('should cancel a pending debit so it never settles', async () => {
+      const { providerTransactionId } = await adapter.authorize(achDebit());
+
+      await adapter.cancel({ providerTransactionId });
+
+      expect(adapter.collectDueWebhooks(later(), secret)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { CircuitBreakerService } from '../circuit-breaker.service';
+import { ProviderError } from '../provider.types';
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      CIRCUIT_BREAKER_WINDOW_MS: 60000,
+      CIRCUIT_BREAKER_MIN_REQUESTS: 4,
+      CIRCUIT_BREAKER_FAILURE_RATE: 0.5,
+      CIRCUIT_BREAKER_COOLDOWN_MS: 30000,
+      CIRCUIT_BREAKER_HALF_OPEN_SUCCESSES: 2,
+      CIRCUIT_BREAKER_HALF_OPEN_PROBES: 2,
+      CIRCUIT_BREAKER_PER_MERCHANT: false,
+    },
+  },
+}));
+
+jest.mock('../../../shared/database/redis', () => ({
+  getRedisClient: () => mockRedis,
+}));
+
+import { config } from '../../../config';
+
+// Just enough of Redis for the breaker: hashes, sorted sets and counters
+const mockHashes = new Map<string, Record<string, string>>();
+const mockSortedSets = new Map<string, Map<string, number>>();
+const mockCounters = new Map<string, number>();
+
+const commands: Record<string, (...args: any[]) => unknown> = {
+  hgetall: (key: string) => ({ ...mockHashes.get(key) }),
+  hset: (key: string, values: Record<string, unknown>) => {
+    const hash = mockHashes.get(key) ?? {};
+    for (const [field, value] of Object.entries(values)) {
+      hash[field] = String(value);
+    }
+    mockHashes.set(key, hash);
+  },
+  hincrby: (key: string, field: string, amount: number) => {
+    const hash = mockHashes.get(key) ?? {};
+    hash[field] = String(Number(hash[field] ?? 0) + amount);
+    mockHashes.set(key, hash);
+    return Number(hash[field]);
+  },
+  del: (...keys: string[]) =>
+    keys.forEach((key) => mockHashes.delete(key) || mockSortedSets.delete(key) || mockCounters.delete(key)),
+  get: (key: string) => (mockCounters.has(key) ? String(mockCounters.get(key)) : null),
+  incr: (key: string) => {
+    mockCounters.set(key, (mockCounters.get(key) ?? 0) + 1);
+    return mockCounters.get(key);
+  },
+  zadd: (key: string, score: number, member: string) => {
+    const set = mockSortedSets.get(key) ?? new Map<string, number>();
+    set.set(member, score);
+    mockSortedSets.set(key, set);
+  },
+  zremrangebyscore: (key: string, min: number, max: number) => {
+    for (const [member, score] of mockSortedSets.get(key) ?? []) {
+      if (score >= min && score <= max) mockSortedSets.get(key)!.delete(member);
+    }
+  },
+  zcount: (key: string, min: number) =>
+    [...(mockSortedSets.get(key)?.values() ?? [])].filter((score) => score >= min).length,
+  zcard: (key: string) => mockSortedSets.get(key)?.size ?? 0,
+  pexpire: () => 1,
+};
+
+const mockRedis = {
+  ...Object.fromEntries(
+    Object.entries(commands).map(([name, command]) => [
+      name,
+      (...args: unknown[]) => Promise.resolve(command(...args)),
+    ])
+  ),
+  multi: () => {
+    const queued: Array<() => unknown> = [];
+    const pipeline: Record<string, unknown> = {
+      exec: () => Promise.resolve(queued.map((run) => [null, run()])),
+    };
+    for (const [name, command] of Object.entries(commands)) {
+      pipeline[name] = (...args: unknown[]) => {
+        queued.push(() => command(...args));
+        return pipeline;
+      };
+    }
+    return pipeline;
+  },
+};
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+describe('CircuitBreakerService', () => {
+  let service: CircuitBreakerService;
+
+  const fail = (times: number, merchantId?: string) =>
+    Promise.all(
+      Array.from({ length: times }, () =>
+        service.recordResult('p-1', false, { merchantId, error: ProviderError.timeout() })
+      )
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    mockHashes.clear();
+    mockSortedSets.clear();
+    mockCounters.clear();
+    (config.env as any).CIRCUIT_BREAKER_PER_MERCHANT = false;
+    (CircuitBreakerService as any).instance = null;
+    service = CircuitBreakerService.getInstance();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should stay closed until the window has enough requests', async () => {
+    await fail(3);
+
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({
+      state: 'closed',
+      requests: 3,
+      failures: 3,
+    });
+    await expect(service.isOpen('p-1')).resolves.toBe(false);
+  });
+
+  it('should open once the failure rate reaches the threshold', async () => {
+    await service.recordResult('p-1', true);
+    await service.recordResult('p-1', true);
+    await fail(2);
+
+    const status = await service.getStatus('p-1');
+
+    expect(status.state).toBe('open');
+    expect(status.openedAt).toEqual(now);
+    expect(status.retryAt).toEqual(new Date(now.getTime() + 30000));
+    await expect(service.isOpen('p-1')).resolves.toBe(true);
+  });
+
+  it('should not count declines against the provider', async () => {
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        service.recordResult('p-1', false, { error: ProviderError.cardDeclined() })
+      )
+    );
+
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('should forget failures that fall out of the window', async () => {
+    await fail(3);
+    jest.advanceTimersByTime(61000);
+    await service.recordResult('p-1', true);
+
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({
+      state: 'closed',
+      requests: 1,
+      failures: 0,
+    });
+  });
+
+  it('should turn half-open after the cool-down and close after enough successes', async () => {
+    await fail(4);
+    jest.advanceTimersByTime(30000);
+
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'half_open' });
+    await expect(service.isOpen('p-1')).resolves.toBe(false);
+
+    await service.recordResult('p-1', true);
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'half_open' });
+
+    await service.recordResult('p-1', true);
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'closed', requests: 0 });
+  });
+
+  it('should admit only a few trial requests while half-open', async () => {
+    await fail(4);
+    jest.advanceTimersByTime(30000);
+
+    await expect(service.admitRequest('p-1')).resolves.toBe(true);
+    await expect(service.isOpen('p-1')).resolves.toBe(false);
+    await expect(service.admitRequest('p-1')).resolves.toBe(true);
+    await expect(service.admitRequest('p-1')).resolves.toBe(false);
+    await expect(service.isOpen('p-1')).resolves.toBe(true);
+
+    // Closing the circuit hands out a fresh budget the next time it trips
+    await service.recordResult('p-1', true);
+    await service.recordResult('p-1', true);
+    await expect(service.admitRequest('p-1')).resolves.toBe(true);
+    expect(mockCounters.size).toBe(0);
+  });
+
+  it('should not spend trial requests on routing checks', async () => {
+    await fail(4);
+    jest.advanceTimersByTime(30000);
+
+    for (let check = 0; check < 5; check++) {
+      await expect(service.isOpen('p-1')).resolves.toBe(false);
+    }
+    await expect(service.admitRequest('p-1')).resolves.toBe(true);
+  });
+
+  it('should refuse requests while open', async () => {
+    await fail(4);
+
+    await expect(service.admitRequest('p-1')).resolves.toBe(false);
+  });
+
+  it('should reopen on a failure while half-open', async () => {
+    await fail(4);
+    jest.advanceTimersByTime(30000);
+
+    await service.recordResult('p-1', true);
+    await fail(1);
+
+    const status = await service.getStatus('p-1');
+    expect(status.state).toBe('open');
+    expect(status.openedAt).toEqual(new Date(now.getTime() + 30000));
+  });
+
+  it('should ignore results that arrive while open', async () => {
+    await fail(4);
+    jest.advanceTimersByTime(10000);
+    await service.recordResult('p-1', true);
+    await service.recordResult('p-1', true);
+
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'open', openedAt: now });
+  });
+
+  it("should open only the merchant's circuit when per-merchant circuits are enabled", async () => {
+    (config.env as any).CIRCUIT_BREAKER_PER_MERCHANT = true;
+
+    await Promise.all(
+      Array.from({ length: 5 }, () => service.recordResult('p-1', true, { merchantId: 'm-2' }))
+    );
+    await fail(4, 'm-1');
+
+    await expect(service.getStatus('p-1', 'm-1')).resolves.toMatchObject({ state: 'open' });
+    await expect(service.getStatus('p-1')).resolves.toMatchObject({ state: 'closed', requests: 9, failures: 4 });
+    await expect(service.isOpen('p-1', 'm-1')).resolves.toBe(true);
+    await expect(service.isOpen('p-1', 'm-2')).resolves.toBe(false);
+  });
+});
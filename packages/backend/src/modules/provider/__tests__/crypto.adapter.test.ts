@@ -0,0 +1,151 @@
+import { CryptoAdapter } from '../adapters/crypto.adapter';
+
+jest.mock('../../fx/fx.service', () => ({
+  fxService: {
+    getQuote: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { fxService } from '../../fx/fx.service';
+
+const secret = 'whsec_test';
+const minutes = (n: number) => new Date(Date.now() + n * 60 * 1000);
+
+const charge = (walletAddress?: string) => ({
+  amount: 12000n,
+  currency: 'EUR' as const,
+  paymentMethod: { type: 'CRYPTO' as const, cryptoAsset: 'BTC' as const, walletAddress },
+  merchantId: 'm-1',
+});
+
+const eventsOf = (adapter: CryptoAdapter, now: Date) =>
+  adapter.collectDueWebhooks(now, secret).map((w) => JSON.parse(w.payload));
+
+const parse = (adapter: CryptoAdapter, event: { id: string; type: string; created: string; data: unknown }) =>
+  adapter.parseWebhook({
+    providerEventId: event.id, eventType: event.type, data: event.data, timestamp: new Date(event.created),
+  });
+
+describe('CryptoAdapter', () => {
+  let adapter: CryptoAdapter;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    adapter = new CryptoAdapter();
+    await adapter.initialize({ metadata: { paymentDelayMs: 0, blockTimeMs: 60_000, requiredConfirmations: 3 } });
+    // Settle or expire charges left open by earlier tests
+    adapter.collectDueWebhooks(minutes(24 * 60), secret);
+
+    // EUR 120.00 quoted at USD 130.00, which buys 0.002 BTC at the simulated price
+    (fxService.getQuote as jest.Mock).mockImplementation(() =>
+      Promise.resolve({ id: 'quote-1', targetAmount: 13000n, effectiveRate: 1.0833, expiresAt: minutes(15) })
+    );
+  });
+
+  it('should issue a deposit address for an amount locked to an FX quote', async () => {
+    const result = await adapter.authorize(charge());
+
+    expect(fxService.getQuote).toHaveBeenCalledWith(12000n, 'EUR', 'USD', 15);
+    expect(result).toMatchObject({ success: true, status: 'pending', amount: 12000n, currency: 'EUR' });
+    expect(result.nextAction).toMatchObject({
+      type: 'crypto_deposit',
+      cryptoDeposit: { asset: 'BTC', amount: '0.00200000', requiredConfirmations: 3 },
+    });
+    expect(result.nextAction!.url).toBe(`bitcoin:${result.nextAction!.cryptoDeposit!.address}?amount=0.00200000`);
+  });
+
+  it('should track confirmations and settle in the merchant currency at the threshold', async () => {
+    const { providerTransactionId } = await adapter.authorize(charge());
+
+    const seen = eventsOf(adapter, new Date());
+    expect(seen.map((e) => [e.type, e.data.confirmations])).toEqual([['charge.pending', 0]]);
+
+    const confirming = eventsOf(adapter, minutes(1.5));
+    expect(confirming.map((e) => [e.type, e.data.confirmations])).toEqual([['charge.confirming', 1]]);
+    await expect(parse(adapter, confirming[0])).resolves.toMatchObject({ status: undefined });
+
+    const [confirmed, ...rest] = adapter.collectDueWebhooks(minutes(3), secret);
+    expect(rest).toHaveLength(0);
+    expect(adapter.verifyWebhookSignature(confirmed!.payload, confirmed!.signature, secret)).toBe(true);
+    expect(adapter.verifyWebhookSignature(confirmed!.payload, confirmed!.signature, 'whsec_other')).toBe(false);
+
+    const event = JSON.parse(confirmed!.payload);
+    expect(event).toMatchObject({ type: 'charge.confirmed', data: { id: providerTransactionId, confirmations: 3 } });
+    await expect(parse(adapter, event)).resolves.toMatchObject({
+      providerTransactionId,
+      status: 'captured',
+      amount: 12000n,
+      currency: 'EUR',
+    });
+  });
+
+  it('should fail an underpaid charge once the deposit confirms', async () => {
+    await adapter.authorize(charge('0x1111111111111111111111111111111111111111'));
+
+    const events = eventsOf(adapter, minutes(3));
+
+    expect(events.map((e) => e.type)).toEqual(['charge.pending', 'charge.underpaid']);
+    await expect(parse(adapter, events[1])).resolves.toMatchObject({
+      status: 'failed',
+      failureReason: 'Underpaid: received 0.00180000 of 0.00200000 BTC',
+    });
+  });
+
+  it('should settle an overpaid charge and report the excess', async () => {
+    await adapter.authorize(charge('0x2222222222222222222222222222222222222222'));
+
+    const events = eventsOf(adapter, minutes(3));
+
+    expect(events.map((e) => e.type)).toEqual(['charge.pending', 'charge.confirmed']);
+    await expect(parse(adapter, events[1])).resolves.toMatchObject({
+      status: 'captured',
+      metadata: { overpaidAmount: '0.00020000' },
+    });
+  });
+
+  it('should expire a charge that is not paid before the quote runs out', async () => {
+    await adapter.authorize(charge('0x3333333333333333333333333333333333333333'));
+
+    expect(eventsOf(adapter, minutes(14))).toHaveLength(0);
+
+    const events = eventsOf(adapter, minutes(15));
+    expect(events.map((e) => e.type)).toEqual(['charge.expired']);
+    await expect(parse(adapter, events[0])).resolves.toMatchObject({
+      status: 'failed',
+      failureReason: 'The quote expired before a deposit was received',
+    });
+  });
+
+  it('should only refund confirmed charges to the payer wallet', async () => {
+    const { providerTransactionId } = await adapter.authorize(charge('0x4444444444444444444444444444444444444444'));
+
+    await expect(adapter.refund({ providerTransactionId })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+
+    adapter.collectDueWebhooks(minutes(3), secret);
+
+    await expect(adapter.refund({ providerTransactionId, amount: 2000n })).resolves.toMatchObject({
+      status: 'completed',
+      refundedAmount: 2000n,
+      currency: 'EUR',
+    });
+    await expect(adapter.refund({ providerTransactionId, amount: 12000n })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  it('should only cancel a charge before funds arrive', async () => {
+    const first = await adapter.authorize(charge());
+    await adapter.cancel({ providerTransactionId: first.providerTransactionId });
+    expect(eventsOf(adapter, minutes(3))).toHaveLength(0);
+
+    const second = await adapter.authorize(charge());
+    adapter.collectDueWebhooks(new Date(), secret);
+    await expect(adapter.cancel({ providerTransactionId: second.providerTransactionId })).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+  });
+});
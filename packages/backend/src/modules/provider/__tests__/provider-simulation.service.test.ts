@@ -0,0 +1,96 @@
+import { ProviderSimulationService } from '../provider-simulation.service';
+import { AdapterFactory } from '../adapters/adapter.factory';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    paymentProvider: { findUnique: jest.fn() },
+    merchantProviderConfig: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: { get: jest.fn(), set: jest.fn() },
+}));
+
+jest.mock('../circuit-breaker.service', () => ({
+  circuitBreakerService: { isOpen: jest.fn(), getStatus: jest.fn() },
+}));
+
+jest.mock('../../fx/fx.service', () => ({
+  fxService: { getQuote: jest.fn() },
+}));
+
+jest.mock('../webhooks/bank-transfer.webhook', () => ({
+  bankTransferWebhookHandler: { handleWebhook: jest.fn() },
+}));
+
+jest.mock('../webhooks/crypto.webhook', () => ({
+  cryptoWebhookHandler: { handleWebhook: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    isDevelopment: true,
+    env: {
+      PROVIDER_ADAPTER_CACHE_SIZE: 1,
+      PROVIDER_SIMULATE_LATENCY_MS: 0,
+      PROVIDER_FAILURE_RATE: 0,
+      PROVIDER_SIMULATION_INTERVAL_MS: 1000,
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { providerService } from '../provider.service';
+import { bankTransferWebhookHandler } from '../webhooks/bank-transfer.webhook';
+
+describe('ProviderSimulationService', () => {
+  let service: ProviderSimulationService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    AdapterFactory.clearInstances();
+    (ProviderSimulationService as any).instance = null;
+    service = ProviderSimulationService.getInstance();
+
+    (prisma.paymentProvider.findUnique as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve(
+        where.code === 'bank_transfer'
+          ? { id: 'p-bank', code: 'bank_transfer', baseUrl: null, config: { webhookSecret: 'whsec_test', settlementDelayMs: 0 } }
+          : null
+      )
+    );
+    (prisma.merchantProviderConfig.findUnique as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve({ credentials: { apiKey: `key_${where.merchantId_providerId.merchantId}` } })
+    );
+
+    // Drain debits left pending by earlier tests
+    await service.deliverDueWebhooks();
+    jest.clearAllMocks();
+  });
+
+  it("should settle a debit made through a merchant's own adapter, even once that adapter is evicted", async () => {
+    const adapter = await providerService.getAdapter('bank_transfer', 'm-1');
+    const debit = await adapter.authorize({
+      merchantId: 'm-1',
+      amount: 5000n,
+      currency: 'USD',
+      paymentMethod: { type: 'BANK_TRANSFER', routingNumber: '110000000', accountNumber: '000123456789' },
+    });
+
+    // A second merchant's instance pushes the first out of the single-entry cache
+    await providerService.getAdapter('bank_transfer', 'm-2');
+
+    await expect(service.deliverDueWebhooks()).resolves.toBe(1);
+
+    const [payload] = (bankTransferWebhookHandler.handleWebhook as jest.Mock).mock.calls[0];
+    expect(JSON.parse(payload)).toMatchObject({
+      type: 'debit.settled',
+      data: { id: debit.providerTransactionId },
+    });
+  });
+});
@@ -1,17 +1,38 @@
 import { IPaymentProviderAdapter } from './base.adapter.js';
 import { StripeAdapter } from './stripe.adapter.js';
 import { PayPalAdapter } from './paypal.adapter.js';
+import { BankTransferAdapter } from './bank-transfer.adapter.js';
+import { CryptoAdapter } from './crypto.adapter.js';
 import { ProviderConfig, ProviderError } from '../provider.types.js';
 import { logger } from '../../../shared/utils/logger.js';
+import { config } from '../../../config/index.js';
 
 type AdapterConstructor = new () => IPaymentProviderAdapter;
 
+/**
+ * Who an adapter instance belongs to. Instances are initialized once, so each
+ * merchant needs its own, and a new credential version needs a new one.
+ */
+export interface AdapterScope {
+  merchantId?: string;
+  /** Changes whenever the config the adapter is initialized with changes */
+  credentialVersion?: string;
+}
+
+interface CachedAdapter extends AdapterScope {
+  providerCode: string;
+  adapter: IPaymentProviderAdapter;
+}
+
 const adapterRegistry = new Map<string, AdapterConstructor>([
   ['stripe', StripeAdapter as AdapterConstructor],
   ['paypal', PayPalAdapter as AdapterConstructor],
+  ['bank_transfer', BankTransferAdapter as AdapterConstructor],
+  ['crypto', CryptoAdapter as AdapterConstructor],
 ]);
 
-const adapterInstances: Map<string, IPaymentProviderAdapter> = new Map();
+// In least recently used order, oldest first
+const adapterInstances: Map<string, CachedAdapter> = new Map();
 
 export class AdapterFactory {
   static registerAdapter(providerCode: string, adapter: AdapterConstructor): void {
@@ -21,13 +42,18 @@ export class AdapterFactory {
 
   static async getAdapter(
     providerCode: string,
-    config?: ProviderConfig
+    config?: ProviderConfig,
+    scope: AdapterScope = {}
   ): Promise<IPaymentProviderAdapter> {
     const code = providerCode.toLowerCase();
-
-    // Return cached instance if exists
-    if (adapterInstances.has(code)) {
-      return adapterInstances.get(code)!;
+    const key = [code, scope.merchantId ?? '', scope.credentialVersion ?? ''].join(':');
+
+    // Return cached instance if exists, marking it most recently used
+    const cached = adapterInstances.get(key);
+    if (cached) {
+      adapterInstances.delete(key);
+      adapterInstances.set(key, cached);
+      return cached.adapter;
     }
 
     const AdapterClass = adapterRegistry.get(code);
@@ -45,8 +71,24 @@ export class AdapterFactory {
       await adapter.initialize(config);
     }
 
-    adapterInstances.set(code, adapter);
-    logger.info('Created payment provider adapter instance', { providerCode: code });
+    // Instances built from an earlier version of this merchant's config are stale
+    if (scope.credentialVersion) {
+      AdapterFactory.removeWhere(
+        (entry) =>
+          entry.providerCode === code &&
+          entry.merchantId === scope.merchantId &&
+          entry.credentialVersion !== undefined
+      );
+    }
+
+    adapterInstances.set(key, { providerCode: code, ...scope, adapter });
+    AdapterFactory.evictLeastRecentlyUsed();
+
+    logger.info('Created payment provider adapter instance', {
+      providerCode: code,
+      merchantId: scope.merchantId,
+      credentialVersion: scope.credentialVersion,
+    });
 
     return adapter;
   }
@@ -64,7 +106,39 @@ export class AdapterFactory {
     logger.debug('Cleared all adapter instances');
   }
 
-  static removeInstance(providerCode: string): void {
-    adapterInstances.delete(providerCode.toLowerCase());
+  /**
+   * Drop a provider's cached instances, for every merchant or just one, so the
+   * next request initializes a new one with the current config.
+   */
+  static removeInstance(providerCode: string, merchantId?: string): void {
+    const code = providerCode.toLowerCase();
+
+    AdapterFactory.removeWhere(
+      (entry) => entry.providerCode === code && (merchantId === undefined || entry.merchantId === merchantId)
+    );
+  }
+
+  static getInstanceCount(): number {
+    return adapterInstances.size;
+  }
+
+  private static removeWhere(predicate: (entry: CachedAdapter) => boolean): void {
+    for (const [key, entry] of adapterInstances) {
+      if (predicate(entry)) {
+        adapterInstances.delete(key);
+      }
+    }
+  }
+
+  private static evictLeastRecentlyUsed(): void {
+    const maxInstances = config.env.PROVIDER_ADAPTER_CACHE_SIZE;
+
+    for (const key of adapterInstances.keys()) {
+      if (adapterInstances.size <= maxInstances) {
+        break;
+      }
+      adapterInstances.delete(key);
+      logger.debug('Evicted least recently used adapter instance', { key });
+    }
   }
 }
@@ -0,0 +1,488 @@
+import { Currency, PaymentMethodType } from '@prisma/client';
+import { BasePaymentProviderAdapter, SimulatedWebhookSource } from './base.adapter.js';
+import {
+  AuthorizeRequest,
+  AuthorizeResponse,
+  CaptureRequest,
+  CaptureResponse,
+  CancelRequest,
+  CancelResponse,
+  RefundRequest,
+  RefundResponse,
+  PayoutRequest,
+  PayoutResponse,
+  ProviderHealth,
+  ProviderError,
+  SimulatedWebhook,
+  WebhookPayload,
+  ProcessedWebhook,
+} from '../provider.types.js';
+import { logger } from '../../../shared/utils/logger.js';
+import crypto from 'crypto';
+
+// Test accounts: ACH account numbers and SEPA IBANs that are returned instead of settling
+const TEST_ACCOUNTS: Record<string, ReturnCode> = {
+  '000111111116': 'R01',
+  '000222222227': 'R10',
+  DE62370400440532013001: 'R01',
+  DE35370400440532013002: 'R10',
+};
+
+// Test payout account that the receiving bank rejects
+const CLOSED_PAYOUT_ACCOUNT = '000111111113';
+
+const RETURN_REASONS = {
+  R01: 'Insufficient funds',
+  R10: 'Customer advises not authorized',
+} as const;
+
+type ReturnCode = keyof typeof RETURN_REASONS;
+
+// ACH debits settle in two business days, SEPA Core in about as long
+const DEFAULT_SETTLEMENT_DELAY_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Simulated time for a credit to reach the receiving bank
+const PAYOUT_TRANSIT_MS = 24 * 60 * 60 * 1000;
+
+// Virtual state for bank debits. Shared by every instance: debits are made through
+// each merchant's own instance, collected through any, and outlive an evicted one.
+const virtualDebits = new Map<
+  string,
+  {
+    status: 'pending' | 'settled' | 'returned' | 'cancelled';
+    amount: bigint;
+    refundedAmount: bigint;
+    currency: Currency;
+    rail: 'ach' | 'sepa';
+    settlesAt: Date;
+    returnCode?: ReturnCode;
+    /** Whether the settlement or return webhook has gone out */
+    notified: boolean;
+  }
+>();
+
+// Virtual state for payouts
+const virtualPayouts = new Map<
+  string,
+  {
+    amount: bigint;
+    currency: Currency;
+    arrivalDate: Date;
+    failureReason?: string;
+  }
+>();
+
+// Payouts by the idempotency key they were created with
+const payoutIdsByKey = new Map<string, string>();
+
+/**
+ * Simulated ACH (USD) and SEPA (EUR) direct debits. A debit is accepted as
+ * pending and settles, or is returned, days later by webhook.
+ */
+export class BankTransferAdapter extends BasePaymentProviderAdapter implements SimulatedWebhookSource {
+  readonly providerCode = 'bank_transfer';
+  readonly providerName = 'Bank Transfer';
+  readonly supportedCurrencies: Currency[] = ['USD', 'EUR'];
+  readonly supportedMethods: PaymentMethodType[] = ['BANK_TRANSFER'];
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (request.capture === false) {
+      throw new ProviderError('Bank debits are collected when initiated and cannot be held', 'INVALID_REQUEST');
+    }
+
+    this.ensureCurrencySupported(request.currency);
+
+    const { rail, account } = this.resolveAccount(request);
+    const debitId = this.generateTransactionId();
+    const settlesAt = new Date(Date.now() + this.getSettlementDelayMs());
+
+    virtualDebits.set(debitId, {
+      status: 'pending',
+      amount: request.amount,
+      refundedAmount: 0n,
+      currency: request.currency,
+      rail,
+      settlesAt,
+      returnCode: account ? TEST_ACCOUNTS[account] : undefined,
+      notified: false,
+    });
+
+    logger.debug('Bank debit initiated', {
+      debitId,
+      rail,
+      amount: request.amount.toString(),
+      currency: request.currency,
+      settlesAt: settlesAt.toISOString(),
+    });
+
+    return {
+      success: true,
+      providerTransactionId: debitId,
+      status: 'pending',
+      amount: request.amount,
+      currency: request.currency,
+      rawResponse: {
+        id: debitId,
+        object: 'debit',
+        rail,
+        status: 'pending',
+        amount: request.amount.toString(),
+        currency: request.currency.toLowerCase(),
+        expected_settlement: settlesAt.toISOString(),
+      },
+    };
+  }
+
+  async capture(request: CaptureRequest): Promise<CaptureResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    this.getDebit(request.providerTransactionId);
+
+    throw new ProviderError('Bank debits are captured when initiated', 'INVALID_REQUEST');
+  }
+
+  async cancel(request: CancelRequest): Promise<CancelResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const debit = this.getDebit(request.providerTransactionId);
+
+    if (debit.status === 'cancelled') {
+      throw new ProviderError('Debit already cancelled', 'DUPLICATE_TRANSACTION');
+    }
+
+    if (debit.status !== 'pending') {
+      throw new ProviderError(`Cannot cancel a ${debit.status} debit`, 'INVALID_REQUEST');
+    }
+
+    debit.status = 'cancelled';
+    debit.notified = true;
+
+    return {
+      success: true,
+      providerTransactionId: request.providerTransactionId,
+      rawResponse: {
+        id: request.providerTransactionId,
+        object: 'debit',
+        status: 'cancelled',
+      },
+    };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const debit = this.getDebit(request.providerTransactionId);
+    this.ensureMatchingCurrency(request.currency, debit.currency);
+
+    if (debit.status !== 'settled') {
+      throw new ProviderError('Can only refund settled debits', 'INVALID_REQUEST');
+    }
+
+    const remainingAmount = debit.amount - debit.refundedAmount;
+    const refundAmount = request.amount ?? remainingAmount;
+
+    if (refundAmount > remainingAmount) {
+      throw new ProviderError('Refund amount exceeds remaining balance', 'INVALID_REQUEST');
+    }
+
+    debit.refundedAmount += refundAmount;
+    const refundId = `${this.providerCode}_cr_${crypto.randomBytes(8).toString('hex')}`;
+
+    logger.debug('Bank debit refunded', {
+      debitId: request.providerTransactionId,
+      refundId,
+      refundedAmount: refundAmount.toString(),
+    });
+
+    return {
+      success: true,
+      providerRefundId: refundId,
+      refundedAmount: refundAmount,
+      currency: debit.currency,
+      status: 'completed',
+      rawResponse: {
+        id: refundId,
+        object: 'credit',
+        debit: request.providerTransactionId,
+        amount: refundAmount.toString(),
+        currency: debit.currency.toLowerCase(),
+      },
+    };
+  }
+
+  async payout(request: PayoutRequest): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (!this.supportsCurrency(request.currency)) {
+      throw new ProviderError(`Payouts in ${request.currency} are not supported`, 'INVALID_REQUEST');
+    }
+
+    const { destination } = request;
+    let account: string;
+
+    if (destination.iban) {
+      if (!isValidIban(destination.iban)) {
+        throw new ProviderError('Invalid IBAN', 'INVALID_REQUEST');
+      }
+      account = normalizeIban(destination.iban);
+    } else if (destination.accountNumber && destination.routingNumber) {
+      if (!isValidRoutingNumber(destination.routingNumber)) {
+        throw new ProviderError('Invalid routing number', 'INVALID_REQUEST');
+      }
+      account = destination.accountNumber;
+    } else {
+      throw new ProviderError('An IBAN or a routing and account number is required', 'INVALID_REQUEST');
+    }
+
+    const existingId = request.idempotencyKey ? payoutIdsByKey.get(request.idempotencyKey) : undefined;
+    if (existingId) {
+      return this.toPayoutResponse(existingId);
+    }
+
+    const payoutId = `${this.providerCode}_po_${crypto.randomBytes(8).toString('hex')}`;
+
+    virtualPayouts.set(payoutId, {
+      amount: request.amount,
+      currency: request.currency,
+      arrivalDate: new Date(Date.now() + PAYOUT_TRANSIT_MS),
+      failureReason: account === CLOSED_PAYOUT_ACCOUNT ? 'R02: Account closed' : undefined,
+    });
+
+    if (request.idempotencyKey) {
+      payoutIdsByKey.set(request.idempotencyKey, payoutId);
+    }
+
+    logger.debug('Bank payout created', {
+      payoutId,
+      amount: request.amount.toString(),
+      currency: request.currency,
+    });
+
+    return this.toPayoutResponse(payoutId);
+  }
+
+  async getPayout(providerPayoutId: string): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const payoutId = virtualPayouts.has(providerPayoutId)
+      ? providerPayoutId
+      : payoutIdsByKey.get(providerPayoutId);
+
+    if (!payoutId) {
+      throw new ProviderError(`Payout ${providerPayoutId} not found`, 'NOT_FOUND');
+    }
+
+    return this.toPayoutResponse(payoutId);
+  }
+
+  async checkHealth(): Promise<ProviderHealth> {
+    const start = Date.now();
+    await this.simulateLatency();
+
+    return {
+      status: 'healthy',
+      latency: Date.now() - start,
+      lastCheck: new Date(),
+    };
+  }
+
+  /**
+   * Settlement and return notices for debits whose settlement date has
+   * passed. Each debit is reported once.
+   */
+  collectDueWebhooks(now: Date, secret: string): SimulatedWebhook[] {
+    const webhooks: SimulatedWebhook[] = [];
+
+    for (const [debitId, debit] of virtualDebits) {
+      if (debit.notified || debit.status !== 'pending' || debit.settlesAt > now) {
+        continue;
+      }
+
+      debit.status = debit.returnCode ? 'returned' : 'settled';
+      debit.notified = true;
+
+      const payload = JSON.stringify({
+        id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+        type: debit.returnCode ? 'debit.returned' : 'debit.settled',
+        created: now.toISOString(),
+        data: {
+          id: debitId,
+          rail: debit.rail,
+          status: debit.status,
+          amount: debit.amount.toString(),
+          currency: debit.currency,
+          return_code: debit.returnCode,
+          return_reason: debit.returnCode ? RETURN_REASONS[debit.returnCode] : undefined,
+        },
+      });
+
+      webhooks.push({ payload, signature: this.sign(payload, secret) });
+    }
+
+    return webhooks;
+  }
+
+  verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
+    const expectedSignature = this.sign(payload, secret);
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature));
+    } catch {
+      return false;
+    }
+  }
+
+  async parseWebhook(payload: WebhookPayload): Promise<ProcessedWebhook> {
+    const data = payload.data as Record<string, unknown>;
+    const returnCode = data.return_code as ReturnCode | undefined;
+
+    const statusMap: Record<string, ProcessedWebhook['status']> = {
+      'debit.settled': 'captured',
+      'debit.returned': 'failed',
+    };
+
+    return {
+      eventType: payload.eventType,
+      providerTransactionId: data.id as string | undefined,
+      status: statusMap[payload.eventType],
+      amount: typeof data.amount === 'string' ? BigInt(data.amount) : undefined,
+      currency: data.currency as Currency | undefined,
+      failureReason: returnCode ? `${returnCode}: ${RETURN_REASONS[returnCode]}` : undefined,
+      metadata: returnCode ? { returnCode } : undefined,
+    };
+  }
+
+  /**
+   * Work out the rail from the account details: an IBAN debits over SEPA in
+   * EUR, a routing and account number over ACH in USD. A token stands for
+   * details verified when the method was saved.
+   */
+  private resolveAccount(request: AuthorizeRequest): { rail: 'ach' | 'sepa'; account?: string } {
+    const { iban, routingNumber, accountNumber, token } = request.paymentMethod;
+    const rail = iban || request.currency === 'EUR' ? 'sepa' : 'ach';
+
+    if (rail === 'sepa' && request.currency !== 'EUR') {
+      throw new ProviderError('SEPA debits must be in EUR', 'INVALID_REQUEST');
+    }
+    if (rail === 'ach' && request.currency !== 'USD') {
+      throw new ProviderError('ACH debits must be in USD', 'INVALID_REQUEST');
+    }
+
+    if (iban) {
+      if (!isValidIban(iban)) {
+        throw new ProviderError('Invalid IBAN', 'INVALID_REQUEST');
+      }
+      return { rail, account: normalizeIban(iban) };
+    }
+
+    if (routingNumber || accountNumber) {
+      if (!routingNumber || !isValidRoutingNumber(routingNumber)) {
+        throw new ProviderError('Invalid routing number', 'INVALID_REQUEST');
+      }
+      if (!accountNumber || !/^\d{4,17}$/.test(accountNumber)) {
+        throw new ProviderError('Invalid bank account number', 'INVALID_REQUEST');
+      }
+      return { rail, account: accountNumber };
+    }
+
+    if (token) {
+      return { rail };
+    }
+
+    throw new ProviderError('Bank account details are required', 'INVALID_REQUEST');
+  }
+
+  private getDebit(debitId: string) {
+    const debit = virtualDebits.get(debitId);
+
+    if (!debit) {
+      throw new ProviderError(`Debit ${debitId} not found`, 'NOT_FOUND');
+    }
+
+    return debit;
+  }
+
+  private getSettlementDelayMs(): number {
+    const delayMs = this.config.metadata?.settlementDelayMs as number | undefined;
+    return delayMs !== undefined && delayMs >= 0 ? delayMs : DEFAULT_SETTLEMENT_DELAY_MS;
+  }
+
+  private sign(payload: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  private toPayoutResponse(payoutId: string): PayoutResponse {
+    const payout = virtualPayouts.get(payoutId)!;
+    const arrived = payout.arrivalDate.getTime() <= Date.now();
+    const status = !arrived ? 'in_transit' : payout.failureReason ? 'failed' : 'paid';
+
+    return {
+      success: status !== 'failed',
+      providerPayoutId: payoutId,
+      status,
+      amount: payout.amount,
+      currency: payout.currency,
+      arrivalDate: payout.arrivalDate,
+      failureReason: status === 'failed' ? payout.failureReason : undefined,
+      rawResponse: {
+        id: payoutId,
+        object: 'credit',
+        status,
+        amount: payout.amount.toString(),
+        currency: payout.currency.toLowerCase(),
+      },
+    };
+  }
+}
+
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * ISO 13616 check: move the country code and check digits to the end, turn
+ * letters into numbers and the result mod 97 must be 1.
+ */
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) {
+    return false;
+  }
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = parseInt(char, 36).toString();
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * ABA routing number check: nine digits whose 3-7-1 weighted sum is a
+ * multiple of ten.
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = routingNumber
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * weights[index]!, 0);
+
+  return sum % 10 === 0;
+}
@@ -6,12 +6,19 @@ import {
   CaptureResponse,
   CancelRequest,
   CancelResponse,
+  ConfirmAuthenticationRequest,
+  SubmitDisputeEvidenceRequest,
+  SubmitDisputeEvidenceResponse,
   RefundRequest,
   RefundResponse,
+  PayoutRequest,
+  PayoutResponse,
   ProviderConfig,
   ProviderHealth,
   WebhookPayload,
   ProcessedWebhook,
+  ProviderError,
+  SimulatedWebhook,
 } from '../provider.types.js';
 
 export interface IPaymentProviderAdapter {
@@ -23,9 +30,14 @@ export interface IPaymentProviderAdapter {
   initialize(config: ProviderConfig): Promise<void>;
 
   authorize(request: AuthorizeRequest): Promise<AuthorizeResponse>;
+  confirmAuthentication(request: ConfirmAuthenticationRequest): Promise<AuthorizeResponse>;
   capture(request: CaptureRequest): Promise<CaptureResponse>;
   cancel(request: CancelRequest): Promise<CancelResponse>;
   refund(request: RefundRequest): Promise<RefundResponse>;
+  payout(request: PayoutRequest): Promise<PayoutResponse>;
+  /** Look up a payout by its provider ID, or by the idempotency key it was created with */
+  getPayout(providerPayoutId: string): Promise<PayoutResponse>;
+  submitDisputeEvidence(request: SubmitDisputeEvidenceRequest): Promise<SubmitDisputeEvidenceResponse>;
 
   checkHealth(): Promise<ProviderHealth>;
 
@@ -36,6 +48,20 @@ export interface IPaymentProviderAdapter {
   supportsCurrency(currency: Currency): boolean;
 }
 
+/**
+ * Implemented by simulated providers whose outcomes arrive later by webhook,
+ * such as bank debits that settle days after they are initiated.
+ */
+export interface SimulatedWebhookSource {
+  collectDueWebhooks(now: Date, secret: string): SimulatedWebhook[];
+}
+
+export function isSimulatedWebhookSource(
+  adapter: IPaymentProviderAdapter
+): adapter is IPaymentProviderAdapter & SimulatedWebhookSource {
+  return typeof (adapter as Partial<SimulatedWebhookSource>).collectDueWebhooks === 'function';
+}
+
 export abstract class BasePaymentProviderAdapter implements IPaymentProviderAdapter {
   abstract readonly providerCode: string;
   abstract readonly providerName: string;
@@ -54,8 +80,29 @@ export abstract class BasePaymentProviderAdapter implements IPaymentProviderAdap
   abstract capture(request: CaptureRequest): Promise<CaptureResponse>;
   abstract cancel(request: CancelRequest): Promise<CancelResponse>;
   abstract refund(request: RefundRequest): Promise<RefundResponse>;
+  abstract payout(request: PayoutRequest): Promise<PayoutResponse>;
+  abstract getPayout(providerPayoutId: string): Promise<PayoutResponse>;
   abstract checkHealth(): Promise<ProviderHealth>;
 
+  /**
+   * Finish an authorization that returned requires_action once the customer has
+   * completed the challenge. Providers without 3-D Secure never get here.
+   */
+  confirmAuthentication(_request: ConfirmAuthenticationRequest): Promise<AuthorizeResponse> {
+    return Promise.reject(
+      new ProviderError(`${this.providerName} does not support customer authentication`, 'INVALID_REQUEST')
+    );
+  }
+
+  /**
+   * Contest a chargeback. Providers that do not report disputes never get here.
+   */
+  submitDisputeEvidence(_request: SubmitDisputeEvidenceRequest): Promise<SubmitDisputeEvidenceResponse> {
+    return Promise.reject(
+      new ProviderError(`${this.providerName} does not support dispute evidence`, 'INVALID_REQUEST')
+    );
+  }
+
   verifyWebhookSignature(_payload: string, _signature: string, _secret: string): boolean {
     return true;
   }
@@ -88,6 +135,25 @@ export abstract class BasePaymentProviderAdapter implements IPaymentProviderAdap
     }
   }
 
+  protected ensureCurrencySupported(currency: Currency): void {
+    if (!this.supportsCurrency(currency)) {
+      throw new ProviderError(`${this.providerName} does not support ${currency}`, 'INVALID_REQUEST');
+    }
+  }
+
+  /**
+   * Captures and refunds move money in the currency of the authorization; a
+   * request that names another currency is rejected rather than converted.
+   */
+  protected ensureMatchingCurrency(currency: Currency | undefined, authorizedCurrency: Currency): void {
+    if (currency && currency !== authorizedCurrency) {
+      throw new ProviderError(
+        `Currency ${currency} does not match the ${authorizedCurrency} authorization`,
+        'INVALID_REQUEST'
+      );
+    }
+  }
+
   protected ensureInitialized(): void {
     if (!this.isInitialized) {
       throw new Error(`Provider ${this.providerCode} is not initialized`);
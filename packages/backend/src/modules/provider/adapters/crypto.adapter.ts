@@ -0,0 +1,471 @@
+import { Currency, PaymentMethodType } from '@prisma/client';
+import { BasePaymentProviderAdapter, SimulatedWebhookSource } from './base.adapter.js';
+import {
+  AuthorizeRequest,
+  AuthorizeResponse,
+  CaptureRequest,
+  CaptureResponse,
+  CancelRequest,
+  CancelResponse,
+  CryptoAsset,
+  CryptoDeposit,
+  RefundRequest,
+  RefundResponse,
+  PayoutRequest,
+  PayoutResponse,
+  ProviderHealth,
+  ProviderError,
+  SimulatedWebhook,
+  WebhookPayload,
+  ProcessedWebhook,
+} from '../provider.types.js';
+import { fxService } from '../../fx/fx.service.js';
+import { logger } from '../../../shared/utils/logger.js';
+import crypto from 'crypto';
+
+// Simulated USD prices, network confirmation defaults and payment URI schemes
+const ASSETS: Record<
+  CryptoAsset,
+  {
+    decimals: number;
+    usdPriceCents: bigint;
+    requiredConfirmations: number;
+    blockTimeMs: number;
+    uriScheme: string;
+  }
+> = {
+  BTC: { decimals: 8, usdPriceCents: 6_500_000n, requiredConfirmations: 3, blockTimeMs: 10 * 60 * 1000, uriScheme: 'bitcoin' },
+  ETH: { decimals: 18, usdPriceCents: 300_000n, requiredConfirmations: 12, blockTimeMs: 12 * 1000, uriScheme: 'ethereum' },
+  USDC: { decimals: 6, usdPriceCents: 100n, requiredConfirmations: 12, blockTimeMs: 12 * 1000, uriScheme: 'ethereum' },
+};
+
+type PayerBehaviour = 'exact' | 'underpay' | 'overpay' | 'no_payment';
+
+// Test payer wallets: how much each sends to the deposit address, if anything
+const TEST_WALLETS: Record<string, PayerBehaviour> = {
+  '0x1111111111111111111111111111111111111111': 'underpay',
+  '0x2222222222222222222222222222222222222222': 'overpay',
+  '0x3333333333333333333333333333333333333333': 'no_payment',
+};
+
+// Share of the quoted amount each behaviour sends, in percent
+const PAYMENT_PERCENT: Record<PayerBehaviour, bigint> = {
+  exact: 100n,
+  underpay: 90n,
+  overpay: 110n,
+  no_payment: 0n,
+};
+
+const DEFAULT_QUOTE_VALIDITY_MINUTES = 15;
+
+// Simulated time for the payer to send funds after the deposit address is issued
+const DEFAULT_PAYMENT_DELAY_MS = 60 * 1000;
+
+// Virtual state for crypto charges. Shared by every instance: charges are made through
+// each merchant's own instance, collected through any, and outlive an evicted one.
+const virtualCharges = new Map<
+  string,
+  {
+    status: 'awaiting_payment' | 'confirming' | 'confirmed' | 'underpaid' | 'expired' | 'cancelled';
+    asset: CryptoAsset;
+    address: string;
+    amount: bigint;
+    refundedAmount: bigint;
+    currency: Currency;
+    quoteId: string;
+    /** In the asset's smallest unit */
+    quotedAmount: bigint;
+    receivedAmount: bigint;
+    payer: PayerBehaviour;
+    walletAddress?: string;
+    paidAt: Date;
+    expiresAt: Date;
+    confirmations: number;
+    requiredConfirmations: number;
+    blockTimeMs: number;
+  }
+>();
+
+/**
+ * Simulated crypto payments. Authorizing issues a deposit address and an
+ * amount in the asset, locked to an FX quote from the merchant's currency.
+ * The deposit is then seen on chain, gathers confirmations and settles in
+ * the merchant's currency by webhook, or fails on underpayment or expiry.
+ */
+export class CryptoAdapter extends BasePaymentProviderAdapter implements SimulatedWebhookSource {
+  readonly providerCode = 'crypto';
+  readonly providerName = 'Crypto';
+  readonly supportedCurrencies: Currency[] = ['USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD'];
+  readonly supportedMethods: PaymentMethodType[] = ['CRYPTO'];
+
+  async authorize(request: AuthorizeRequest): Promise<AuthorizeResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (request.capture === false) {
+      throw new ProviderError('Crypto payments settle on confirmation and cannot be held', 'INVALID_REQUEST');
+    }
+
+    this.ensureCurrencySupported(request.currency);
+
+    const assetCode = request.paymentMethod.cryptoAsset ?? 'BTC';
+    const asset = ASSETS[assetCode];
+
+    if (!asset) {
+      throw new ProviderError(`Unsupported crypto asset: ${String(assetCode)}`, 'INVALID_REQUEST');
+    }
+
+    // The asset is priced in USD, so the rate lock is a quote from the merchant's currency
+    const quote = await fxService.getQuote(request.amount, request.currency, 'USD', this.getQuoteValidityMinutes());
+    const quotedAmount = ceilDiv(quote.targetAmount * 10n ** BigInt(asset.decimals), asset.usdPriceCents);
+
+    const chargeId = this.generateTransactionId();
+    const address = this.generateDepositAddress(assetCode);
+    const walletAddress = request.paymentMethod.walletAddress;
+    const payer = (walletAddress && TEST_WALLETS[walletAddress.toLowerCase()]) || 'exact';
+    const requiredConfirmations = this.getRequiredConfirmations(assetCode);
+    const expiresAt = new Date(quote.expiresAt);
+
+    virtualCharges.set(chargeId, {
+      status: 'awaiting_payment',
+      asset: assetCode,
+      address,
+      amount: request.amount,
+      refundedAmount: 0n,
+      currency: request.currency,
+      quoteId: quote.id,
+      quotedAmount,
+      receivedAmount: 0n,
+      payer,
+      walletAddress,
+      paidAt: new Date(Date.now() + this.getPaymentDelayMs()),
+      expiresAt,
+      confirmations: 0,
+      requiredConfirmations,
+      blockTimeMs: this.getBlockTimeMs(assetCode),
+    });
+
+    const deposit: CryptoDeposit = {
+      asset: assetCode,
+      address,
+      amount: formatUnits(quotedAmount, asset.decimals),
+      requiredConfirmations,
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    logger.debug('Crypto charge created', {
+      chargeId,
+      asset: assetCode,
+      amount: request.amount.toString(),
+      currency: request.currency,
+      cryptoAmount: deposit.amount,
+      expiresAt: deposit.expiresAt,
+    });
+
+    return {
+      success: true,
+      providerTransactionId: chargeId,
+      status: 'pending',
+      amount: request.amount,
+      currency: request.currency,
+      nextAction: {
+        type: 'crypto_deposit',
+        url: `${asset.uriScheme}:${address}?amount=${deposit.amount}`,
+        cryptoDeposit: deposit,
+      },
+      rawResponse: {
+        id: chargeId,
+        object: 'charge',
+        status: 'awaiting_payment',
+        amount: request.amount.toString(),
+        currency: request.currency.toLowerCase(),
+        asset: assetCode,
+        address,
+        crypto_amount: deposit.amount,
+        quote_id: quote.id,
+        rate: quote.effectiveRate,
+        expires_at: deposit.expiresAt,
+      },
+    };
+  }
+
+  async capture(request: CaptureRequest): Promise<CaptureResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    this.getCharge(request.providerTransactionId);
+
+    throw new ProviderError('Crypto payments are captured when they confirm', 'INVALID_REQUEST');
+  }
+
+  async cancel(request: CancelRequest): Promise<CancelResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const charge = this.getCharge(request.providerTransactionId);
+
+    if (charge.status === 'cancelled') {
+      throw new ProviderError('Charge already cancelled', 'DUPLICATE_TRANSACTION');
+    }
+
+    // Once funds are on chain they can only be returned by a refund
+    if (charge.status !== 'awaiting_payment') {
+      throw new ProviderError(`Cannot cancel a ${charge.status.replace('_', ' ')} charge`, 'INVALID_REQUEST');
+    }
+
+    charge.status = 'cancelled';
+
+    return {
+      success: true,
+      providerTransactionId: request.providerTransactionId,
+      rawResponse: {
+        id: request.providerTransactionId,
+        object: 'charge',
+        status: 'cancelled',
+      },
+    };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const charge = this.getCharge(request.providerTransactionId);
+    this.ensureMatchingCurrency(request.currency, charge.currency);
+
+    if (charge.status !== 'confirmed') {
+      throw new ProviderError('Can only refund confirmed charges', 'INVALID_REQUEST');
+    }
+
+    if (!charge.walletAddress) {
+      throw new ProviderError('The payer gave no wallet address to refund to', 'INVALID_REQUEST');
+    }
+
+    const remainingAmount = charge.amount - charge.refundedAmount;
+    const refundAmount = request.amount ?? remainingAmount;
+
+    if (refundAmount > remainingAmount) {
+      throw new ProviderError('Refund amount exceeds remaining balance', 'INVALID_REQUEST');
+    }
+
+    charge.refundedAmount += refundAmount;
+    const refundId = `${this.providerCode}_re_${crypto.randomBytes(8).toString('hex')}`;
+
+    logger.debug('Crypto charge refunded', {
+      chargeId: request.providerTransactionId,
+      refundId,
+      refundedAmount: refundAmount.toString(),
+    });
+
+    return {
+      success: true,
+      providerRefundId: refundId,
+      refundedAmount: refundAmount,
+      currency: charge.currency,
+      status: 'completed',
+      rawResponse: {
+        id: refundId,
+        object: 'refund',
+        charge: request.providerTransactionId,
+        amount: refundAmount.toString(),
+        currency: charge.currency.toLowerCase(),
+        to_address: charge.walletAddress,
+      },
+    };
+  }
+
+  async payout(_request: PayoutRequest): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    throw new ProviderError('Crypto payouts are not supported', 'INVALID_REQUEST');
+  }
+
+  async getPayout(providerPayoutId: string): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    throw new ProviderError(`Payout ${providerPayoutId} not found`, 'NOT_FOUND');
+  }
+
+  async checkHealth(): Promise<ProviderHealth> {
+    const start = Date.now();
+    await this.simulateLatency();
+
+    return {
+      status: 'healthy',
+      latency: Date.now() - start,
+      lastCheck: new Date(),
+    };
+  }
+
+  /**
+   * Events for charges whose on-chain state moved on: a deposit seen, new
+   * confirmations, and the final confirmation, underpayment or expiry.
+   */
+  collectDueWebhooks(now: Date, secret: string): SimulatedWebhook[] {
+    const webhooks: SimulatedWebhook[] = [];
+
+    for (const [chargeId, charge] of virtualCharges) {
+      const events: string[] = [];
+
+      if (charge.status === 'awaiting_payment') {
+        // A deposit only counts at the quoted rate if it arrives before the quote expires
+        const paysInTime = charge.payer !== 'no_payment' && charge.paidAt <= charge.expiresAt;
+
+        if (paysInTime && charge.paidAt <= now) {
+          charge.status = 'confirming';
+          charge.receivedAmount = (charge.quotedAmount * PAYMENT_PERCENT[charge.payer]) / 100n;
+          events.push('charge.pending');
+        } else if (charge.expiresAt <= now) {
+          charge.status = 'expired';
+          events.push('charge.expired');
+        }
+      }
+
+      if (charge.status === 'confirming') {
+        const blocks = charge.blockTimeMs > 0
+          ? Math.floor((now.getTime() - charge.paidAt.getTime()) / charge.blockTimeMs)
+          : charge.requiredConfirmations;
+        const confirmations = Math.min(blocks, charge.requiredConfirmations);
+
+        if (confirmations >= charge.requiredConfirmations) {
+          charge.confirmations = confirmations;
+          charge.status = charge.receivedAmount < charge.quotedAmount ? 'underpaid' : 'confirmed';
+          events.push(charge.status === 'underpaid' ? 'charge.underpaid' : 'charge.confirmed');
+        } else if (confirmations > charge.confirmations) {
+          charge.confirmations = confirmations;
+          events.push('charge.confirming');
+        }
+      }
+
+      for (const type of events) {
+        const payload = JSON.stringify({
+          id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+          type,
+          created: now.toISOString(),
+          data: this.toEventData(chargeId),
+        });
+
+        webhooks.push({ payload, signature: this.sign(payload, secret) });
+      }
+    }
+
+    return webhooks;
+  }
+
+  verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
+    const expectedSignature = this.sign(payload, secret);
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature));
+    } catch {
+      return false;
+    }
+  }
+
+  async parseWebhook(payload: WebhookPayload): Promise<ProcessedWebhook> {
+    const data = payload.data as Record<string, unknown>;
+
+    const statusMap: Record<string, ProcessedWebhook['status']> = {
+      'charge.confirmed': 'captured',
+      'charge.underpaid': 'failed',
+      'charge.expired': 'failed',
+    };
+
+    const failureReasons: Record<string, string> = {
+      'charge.underpaid': `Underpaid: received ${String(data.received_amount)} of ${String(data.crypto_amount)} ${String(data.asset)}`,
+      'charge.expired': 'The quote expired before a deposit was received',
+    };
+
+    return {
+      eventType: payload.eventType,
+      providerTransactionId: data.id as string | undefined,
+      status: statusMap[payload.eventType],
+      amount: typeof data.amount === 'string' ? BigInt(data.amount) : undefined,
+      currency: data.currency as Currency | undefined,
+      failureReason: failureReasons[payload.eventType],
+      metadata: {
+        asset: data.asset,
+        confirmations: data.confirmations,
+        requiredConfirmations: data.required_confirmations,
+        ...(data.overpaid_amount ? { overpaidAmount: data.overpaid_amount } : {}),
+      },
+    };
+  }
+
+  private toEventData(chargeId: string): Record<string, unknown> {
+    const charge = virtualCharges.get(chargeId)!;
+    const { decimals } = ASSETS[charge.asset];
+    const overpaid = charge.receivedAmount - charge.quotedAmount;
+
+    return {
+      id: chargeId,
+      status: charge.status,
+      amount: charge.amount.toString(),
+      currency: charge.currency,
+      asset: charge.asset,
+      address: charge.address,
+      quote_id: charge.quoteId,
+      crypto_amount: formatUnits(charge.quotedAmount, decimals),
+      received_amount: formatUnits(charge.receivedAmount, decimals),
+      confirmations: charge.confirmations,
+      required_confirmations: charge.requiredConfirmations,
+      // Returned to the payer's wallet rather than kept
+      overpaid_amount: charge.status === 'confirmed' && overpaid > 0n ? formatUnits(overpaid, decimals) : undefined,
+    };
+  }
+
+  private generateDepositAddress(asset: CryptoAsset): string {
+    return asset === 'BTC'
+      ? `bc1q${crypto.randomBytes(19).toString('hex')}`
+      : `0x${crypto.randomBytes(20).toString('hex')}`;
+  }
+
+  private getCharge(chargeId: string) {
+    const charge = virtualCharges.get(chargeId);
+
+    if (!charge) {
+      throw new ProviderError(`Charge ${chargeId} not found`, 'NOT_FOUND');
+    }
+
+    return charge;
+  }
+
+  private getQuoteValidityMinutes(): number {
+    const minutes = this.config.metadata?.quoteValidityMinutes as number | undefined;
+    return minutes !== undefined && minutes > 0 ? minutes : DEFAULT_QUOTE_VALIDITY_MINUTES;
+  }
+
+  private getPaymentDelayMs(): number {
+    const delayMs = this.config.metadata?.paymentDelayMs as number | undefined;
+    return delayMs !== undefined && delayMs >= 0 ? delayMs : DEFAULT_PAYMENT_DELAY_MS;
+  }
+
+  private getRequiredConfirmations(asset: CryptoAsset): number {
+    const confirmations = this.config.metadata?.requiredConfirmations as number | undefined;
+    return confirmations !== undefined && confirmations >= 0 ? confirmations : ASSETS[asset].requiredConfirmations;
+  }
+
+  private getBlockTimeMs(asset: CryptoAsset): number {
+    const blockTimeMs = this.config.metadata?.blockTimeMs as number | undefined;
+    return blockTimeMs !== undefined && blockTimeMs >= 0 ? blockTimeMs : ASSETS[asset].blockTimeMs;
+  }
+
+  private sign(payload: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+}
+
+function ceilDiv(dividend: bigint, divisor: bigint): bigint {
+  return (dividend + divisor - 1n) / divisor;
+}
+
+/**
+ * An amount in an asset's smallest unit as whole units, keeping every
+ * decimal place, e.g. 125000n with 8 decimals is '0.00125000'.
+ */
+function formatUnits(amount: bigint, decimals: number): string {
+  const digits = amount.toString().padStart(decimals + 1, '0');
+  return `${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
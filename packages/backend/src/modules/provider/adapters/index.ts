@@ -1,4 +1,11 @@
-export { IPaymentProviderAdapter, BasePaymentProviderAdapter } from './base.adapter.js';
+export {
+  IPaymentProviderAdapter,
+  BasePaymentProviderAdapter,
+  SimulatedWebhookSource,
+  isSimulatedWebhookSource,
+} from './base.adapter.js';
 export { StripeAdapter } from './stripe.adapter.js';
 export { PayPalAdapter } from './paypal.adapter.js';
-export { AdapterFactory } from './adapter.factory.js';
+export { BankTransferAdapter, isValidIban, isValidRoutingNumber } from './bank-transfer.adapter.js';
+export { CryptoAdapter } from './crypto.adapter.js';
+export { AdapterFactory, AdapterScope } from './adapter.factory.js';
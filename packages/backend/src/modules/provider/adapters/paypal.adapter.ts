@@ -7,8 +7,13 @@ import {
   CaptureResponse,
   CancelRequest,
   CancelResponse,
+  SubmitDisputeEvidenceRequest,
+  SubmitDisputeEvidenceResponse,
+  ProcessedDispute,
   RefundRequest,
   RefundResponse,
+  PayoutRequest,
+  PayoutResponse,
   ProviderHealth,
   ProviderError,
   WebhookPayload,
@@ -25,11 +30,21 @@ const TEST_CARDS = {
   NETWORK_ERROR: '4000000000000341',
 };
 
+// Test bank accounts matching Stripe for consistency
+const TEST_BANK_ACCOUNTS = {
+  SUCCESS: '000123456789',
+  ACCOUNT_CLOSED: '000111111113',
+};
+
+// Simulated time for a payout batch to settle
+const PAYOUT_TRANSIT_MS = 60_000;
+
 // Virtual state for PayPal orders
 const virtualOrders = new Map<
   string,
   {
-    status: 'CREATED' | 'APPROVED' | 'CAPTURED' | 'VOIDED';
+    status: 'CREATED' | 'APPROVED' | 'PARTIALLY_CAPTURED' | 'CAPTURED' | 'VOIDED';
+    capturedAmount: bigint;
     refundedAmount: bigint;
     amount: bigint;
     currency: Currency;
@@ -37,6 +52,20 @@ const virtualOrders = new Map<
   }
 >();
 
+// Virtual state for payout batches
+const virtualPayouts = new Map<
+  string,
+  {
+    amount: bigint;
+    currency: Currency;
+    arrivalDate: Date;
+    failureReason?: string;
+  }
+>();
+
+// Payouts by the idempotency key they were created with
+const payoutIdsByKey = new Map<string, string>();
+
 export class PayPalAdapter extends BasePaymentProviderAdapter {
   readonly providerCode = 'paypal';
   readonly providerName = 'PayPal';
@@ -48,6 +77,7 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
   async authorize(request: AuthorizeRequest): Promise<AuthorizeResponse> {
     this.ensureInitialized();
     await this.simulateLatency();
+    this.ensureCurrencySupported(request.currency);
 
     const cardNumber = request.paymentMethod.cardNumber || '';
     const orderId = this.generateOrderId();
@@ -64,6 +94,7 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
     // Store virtual order state
     virtualOrders.set(orderId, {
       status: request.capture ? 'CAPTURED' : 'APPROVED',
+      capturedAmount: request.capture ? request.amount : BigInt(0),
       refundedAmount: BigInt(0),
       amount: request.amount,
       currency: request.currency,
@@ -106,6 +137,8 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
       );
     }
 
+    this.ensureMatchingCurrency(request.currency, order.currency);
+
     if (order.status === 'CAPTURED') {
       throw new ProviderError(
         'Order already captured',
@@ -120,16 +153,20 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    const captureAmount = request.amount ?? order.amount;
+    const capturableAmount = order.amount - order.capturedAmount;
+    const captureAmount = request.amount ?? capturableAmount;
 
-    if (captureAmount > order.amount) {
+    if (captureAmount > capturableAmount) {
       throw new ProviderError(
-        'Capture amount exceeds authorized amount',
+        'Capture amount exceeds remaining authorized amount',
         'INVALID_REQUEST'
       );
     }
 
-    order.status = 'CAPTURED';
+    order.capturedAmount += captureAmount;
+    order.status = request.final || order.capturedAmount >= order.amount
+      ? 'CAPTURED'
+      : 'PARTIALLY_CAPTURED';
 
     const captureId = `CAPTURE-${crypto.randomBytes(8).toString('hex').toUpperCase()}`;
 
@@ -137,16 +174,20 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
       orderId: request.providerTransactionId,
       captureId,
       capturedAmount: captureAmount.toString(),
+      finalCapture: order.status === 'CAPTURED',
     });
 
     return {
       success: true,
       providerTransactionId: captureId,
+      providerCaptureId: captureId,
       capturedAmount: captureAmount,
       currency: order.currency,
+      final: order.status === 'CAPTURED',
       rawResponse: {
         id: captureId,
         status: 'COMPLETED',
+        final_capture: order.status === 'CAPTURED',
         amount: {
           currency_code: order.currency,
           value: (Number(captureAmount) / 100).toFixed(2),
@@ -168,7 +209,7 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    if (order.status === 'CAPTURED') {
+    if (order.status === 'CAPTURED' || order.status === 'PARTIALLY_CAPTURED') {
       throw new ProviderError(
         'Cannot void a captured order, use refund instead',
         'INVALID_REQUEST'
@@ -211,15 +252,17 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    if (order.status !== 'CAPTURED') {
+    this.ensureMatchingCurrency(request.currency, order.currency);
+
+    if (order.capturedAmount === 0n) {
       throw new ProviderError(
         'Can only refund captured orders',
         'INVALID_REQUEST'
       );
     }
 
-    const refundAmount = request.amount ?? order.amount;
-    const remainingAmount = order.amount - order.refundedAmount;
+    const remainingAmount = order.capturedAmount - order.refundedAmount;
+    const refundAmount = request.amount ?? remainingAmount;
 
     if (refundAmount > remainingAmount) {
       throw new ProviderError(
@@ -254,6 +297,113 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
     };
   }
 
+  async payout(request: PayoutRequest): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (!this.supportsCurrency(request.currency)) {
+      throw new ProviderError(
+        `Payouts in ${request.currency} are not supported`,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const accountNumber = request.destination.accountNumber ?? request.destination.iban;
+
+    if (!accountNumber) {
+      throw new ProviderError('Payout receiver account is required', 'INVALID_REQUEST');
+    }
+
+    const existingId = request.idempotencyKey ? payoutIdsByKey.get(request.idempotencyKey) : undefined;
+    if (existingId) {
+      return this.toPayoutResponse(existingId);
+    }
+
+    const payoutBatchId = `PAYOUT-${this.generateOrderId()}`;
+
+    virtualPayouts.set(payoutBatchId, {
+      amount: request.amount,
+      currency: request.currency,
+      arrivalDate: new Date(Date.now() + PAYOUT_TRANSIT_MS),
+      failureReason: accountNumber === TEST_BANK_ACCOUNTS.ACCOUNT_CLOSED ? 'RECEIVER_ACCOUNT_LOCKED' : undefined,
+    });
+
+    if (request.idempotencyKey) {
+      payoutIdsByKey.set(request.idempotencyKey, payoutBatchId);
+    }
+
+    logger.debug('PayPal payout batch created', {
+      payoutBatchId,
+      amount: request.amount.toString(),
+      currency: request.currency,
+    });
+
+    return this.toPayoutResponse(payoutBatchId);
+  }
+
+  async getPayout(providerPayoutId: string): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const payoutId = virtualPayouts.has(providerPayoutId)
+      ? providerPayoutId
+      : payoutIdsByKey.get(providerPayoutId);
+
+    if (!payoutId) {
+      throw new ProviderError(`Payout batch ${providerPayoutId} not found`, 'NOT_FOUND');
+    }
+
+    return this.toPayoutResponse(payoutId);
+  }
+
+  async submitDisputeEvidence(
+    request: SubmitDisputeEvidenceRequest
+  ): Promise<SubmitDisputeEvidenceResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (!request.providerDisputeId.startsWith('PP-D-')) {
+      throw new ProviderError(`Dispute ${request.providerDisputeId} not found`, 'NOT_FOUND');
+    }
+
+    logger.debug('PayPal dispute evidence provided', {
+      providerDisputeId: request.providerDisputeId,
+    });
+
+    const notes = [
+      request.evidence.productDescription,
+      request.evidence.customerCommunication,
+      request.evidence.refundPolicy,
+      request.evidence.uncategorizedText,
+    ].filter(Boolean);
+
+    return {
+      success: true,
+      providerDisputeId: request.providerDisputeId,
+      status: 'under_review',
+      rawResponse: {
+        dispute_id: request.providerDisputeId,
+        status: 'UNDER_REVIEW',
+        evidences: [
+          {
+            evidence_type: request.evidence.shippingTrackingNumber ? 'PROOF_OF_FULFILLMENT' : 'OTHER',
+            evidence_info: request.evidence.shippingTrackingNumber
+              ? {
+                  tracking_info: [
+                    {
+                      carrier_name: request.evidence.shippingCarrier ?? 'OTHER',
+                      tracking_number: request.evidence.shippingTrackingNumber,
+                    },
+                  ],
+                }
+              : undefined,
+            notes: notes.join('\n'),
+          },
+        ],
+      },
+    };
+  }
+
   async checkHealth(): Promise<ProviderHealth> {
     const start = Date.now();
     await this.simulateLatency();
@@ -299,6 +449,10 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
     const data = payload.data as Record<string, unknown>;
     const eventType = payload.eventType;
 
+    if (eventType.startsWith('CUSTOMER.DISPUTE.')) {
+      return this.parseDisputeWebhook(eventType, data);
+    }
+
     const statusMap: Record<string, ProcessedWebhook['status']> = {
       'PAYMENT.CAPTURE.COMPLETED': 'captured',
       'PAYMENT.CAPTURE.DENIED': 'failed',
@@ -323,6 +477,72 @@ export class PayPalAdapter extends BasePaymentProviderAdapter {
     };
   }
 
+  private parseDisputeWebhook(eventType: string, data: Record<string, unknown>): ProcessedWebhook {
+    const resource = (data.resource ?? {}) as Record<string, unknown>;
+    const amountObj = resource.dispute_amount as Record<string, string> | undefined;
+    const disputedTransactions = resource.disputed_transactions as
+      | Array<{ seller_transaction_id?: string }>
+      | undefined;
+    const outcome = resource.dispute_outcome as { outcome_code?: string } | undefined;
+
+    let status: ProcessedDispute['status'];
+    if (resource.status === 'RESOLVED') {
+      status = outcome?.outcome_code === 'RESOLVED_SELLER_FAVOUR' ? 'won' : 'lost';
+    } else if (resource.status === 'UNDER_REVIEW' || resource.status === 'WAITING_FOR_BUYER_RESPONSE') {
+      status = 'under_review';
+    } else {
+      status = 'needs_response';
+    }
+
+    const dueDate = resource.seller_response_due_date as string | undefined;
+
+    return {
+      eventType,
+      providerTransactionId: disputedTransactions?.[0]?.seller_transaction_id,
+      dispute: {
+        providerDisputeId: resource.dispute_id as string,
+        status,
+        reason: (resource.reason as string | undefined) ?? 'OTHER',
+        amount: BigInt(Math.round(parseFloat(amountObj?.value ?? '0') * 100)),
+        currency: amountObj?.currency_code as Currency,
+        dueBy: dueDate ? new Date(dueDate) : undefined,
+      },
+    };
+  }
+
+  private toPayoutResponse(payoutBatchId: string): PayoutResponse {
+    const payout = virtualPayouts.get(payoutBatchId)!;
+    const arrived = payout.arrivalDate.getTime() <= Date.now();
+    const status = !arrived ? 'in_transit' : payout.failureReason ? 'failed' : 'paid';
+
+    const batchStatus: Record<PayoutResponse['status'], string> = {
+      pending: 'PENDING',
+      in_transit: 'PROCESSING',
+      paid: 'SUCCESS',
+      failed: 'DENIED',
+    };
+
+    return {
+      success: status !== 'failed',
+      providerPayoutId: payoutBatchId,
+      status,
+      amount: payout.amount,
+      currency: payout.currency,
+      arrivalDate: payout.arrivalDate,
+      failureReason: status === 'failed' ? payout.failureReason : undefined,
+      rawResponse: {
+        batch_header: {
+          payout_batch_id: payoutBatchId,
+          batch_status: batchStatus[status],
+          amount: {
+            currency: payout.currency,
+            value: (Number(payout.amount) / 100).toFixed(2),
+          },
+        },
+      },
+    };
+  }
+
   private generateOrderId(): string {
     const timestamp = Date.now().toString(36).toUpperCase();
     const random = crypto.randomBytes(8).toString('hex').toUpperCase();
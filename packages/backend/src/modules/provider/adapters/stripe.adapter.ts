@@ -7,8 +7,14 @@ import {
   CaptureResponse,
   CancelRequest,
   CancelResponse,
+  ConfirmAuthenticationRequest,
+  SubmitDisputeEvidenceRequest,
+  SubmitDisputeEvidenceResponse,
+  ProcessedDispute,
   RefundRequest,
   RefundResponse,
+  PayoutRequest,
+  PayoutResponse,
   ProviderHealth,
   ProviderError,
   WebhookPayload,
@@ -26,8 +32,23 @@ const TEST_CARDS = {
   DECLINE_GENERIC: '4000000000000002',
   NETWORK_ERROR: '4000000000000341',
   FRAUD: '4100000000000019',
+  // 3-D Secure: authenticated without customer interaction
+  THREE_DS_FRICTIONLESS: '4000000000003055',
+  // 3-D Secure: challenge the customer passes / fails
+  THREE_DS_CHALLENGE_SUCCESS: '4000000000003220',
+  THREE_DS_CHALLENGE_FAILURE: '4000008400001629',
 };
 
+// Test bank accounts for payout simulation
+const TEST_BANK_ACCOUNTS = {
+  SUCCESS: '000123456789',
+  ACCOUNT_CLOSED: '000111111113',
+  NO_ACCOUNT: '000111111116',
+};
+
+// Simulated time for a payout to reach the destination bank
+const PAYOUT_TRANSIT_MS = 60_000;
+
 // Virtual state for auth/capture flows
 const virtualTransactions = new Map<
   string,
@@ -35,13 +56,33 @@ const virtualTransactions = new Map<
     authorized: boolean;
     captured: boolean;
     cancelled: boolean;
+    capturedAmount: bigint;
     refundedAmount: bigint;
     amount: bigint;
     currency: Currency;
     createdAt: Date;
+    // Set while a 3-D Secure challenge is outstanding
+    pendingAuthentication?: {
+      succeeds: boolean;
+      capture: boolean;
+    };
+  }
+>();
+
+// Virtual state for payouts
+const virtualPayouts = new Map<
+  string,
+  {
+    amount: bigint;
+    currency: Currency;
+    arrivalDate: Date;
+    failureReason?: string;
   }
 >();
 
+// Payouts by the idempotency key they were created with
+const payoutIdsByKey = new Map<string, string>();
+
 export class StripeAdapter extends BasePaymentProviderAdapter {
   readonly providerCode = 'stripe';
   readonly providerName = 'Stripe';
@@ -53,6 +94,7 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
   async authorize(request: AuthorizeRequest): Promise<AuthorizeResponse> {
     this.ensureInitialized();
     await this.simulateLatency();
+    this.ensureCurrencySupported(request.currency);
 
     const cardNumber = request.paymentMethod.cardNumber || '';
     const providerTransactionId = this.generateTransactionId();
@@ -70,11 +112,23 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       return response;
     }
 
+    if (
+      cardNumber === TEST_CARDS.THREE_DS_CHALLENGE_SUCCESS ||
+      cardNumber === TEST_CARDS.THREE_DS_CHALLENGE_FAILURE
+    ) {
+      return this.requireAuthentication(
+        providerTransactionId,
+        request,
+        cardNumber === TEST_CARDS.THREE_DS_CHALLENGE_SUCCESS
+      );
+    }
+
     // Store virtual transaction state
     virtualTransactions.set(providerTransactionId, {
       authorized: true,
       captured: request.capture ?? false,
       cancelled: false,
+      capturedAmount: request.capture ? request.amount : BigInt(0),
       refundedAmount: BigInt(0),
       amount: request.amount,
       currency: request.currency,
@@ -94,6 +148,62 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
         id: providerTransactionId,
         object: 'payment_intent',
         status: request.capture ? 'succeeded' : 'requires_capture',
+        ...(cardNumber === TEST_CARDS.THREE_DS_FRICTIONLESS
+          ? { three_d_secure: { result: 'authenticated', flow: 'frictionless' } }
+          : {}),
+      },
+    };
+  }
+
+  async confirmAuthentication(request: ConfirmAuthenticationRequest): Promise<AuthorizeResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const txn = virtualTransactions.get(request.providerTransactionId);
+
+    if (!txn) {
+      throw new ProviderError(
+        `Transaction ${request.providerTransactionId} not found`,
+        'NOT_FOUND'
+      );
+    }
+
+    if (!txn.pendingAuthentication) {
+      throw new ProviderError(
+        'Transaction does not require authentication',
+        'INVALID_REQUEST'
+      );
+    }
+
+    const { succeeds, capture } = txn.pendingAuthentication;
+    txn.pendingAuthentication = undefined;
+
+    if (!succeeds) {
+      txn.cancelled = true;
+      throw ProviderError.authenticationFailed('The cardholder failed 3D Secure authentication');
+    }
+
+    txn.authorized = true;
+    txn.captured = capture;
+    txn.capturedAmount = capture ? txn.amount : BigInt(0);
+
+    logger.debug('Stripe authentication completed', {
+      providerTransactionId: request.providerTransactionId,
+      captured: capture,
+    });
+
+    return {
+      success: true,
+      providerTransactionId: request.providerTransactionId,
+      status: capture ? 'captured' : 'authorized',
+      amount: txn.amount,
+      currency: txn.currency,
+      authorizationCode: `auth_${crypto.randomBytes(8).toString('hex')}`,
+      rawResponse: {
+        id: request.providerTransactionId,
+        object: 'payment_intent',
+        status: capture ? 'succeeded' : 'requires_capture',
+        three_d_secure: { result: 'authenticated', flow: 'challenge' },
       },
     };
   }
@@ -111,6 +221,8 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       );
     }
 
+    this.ensureMatchingCurrency(request.currency, txn.currency);
+
     if (!txn.authorized) {
       throw new ProviderError(
         'Transaction is not authorized',
@@ -132,32 +244,46 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    const captureAmount = request.amount ?? txn.amount;
+    const capturableAmount = txn.amount - txn.capturedAmount;
+    const captureAmount = request.amount ?? capturableAmount;
 
-    if (captureAmount > txn.amount) {
+    if (captureAmount > capturableAmount) {
       throw new ProviderError(
-        'Capture amount exceeds authorized amount',
+        'Capture amount exceeds remaining authorized amount',
         'INVALID_REQUEST'
       );
     }
 
-    txn.captured = true;
+    txn.capturedAmount += captureAmount;
+
+    // Multicapture: the intent stays open until a final capture or the full amount is taken
+    if (request.final || txn.capturedAmount >= txn.amount) {
+      txn.captured = true;
+    }
+
+    const captureId = `ch_${crypto.randomBytes(12).toString('hex')}`;
 
     logger.debug('Stripe capture completed', {
       providerTransactionId: request.providerTransactionId,
+      captureId,
       capturedAmount: captureAmount.toString(),
+      final: txn.captured,
     });
 
     return {
       success: true,
       providerTransactionId: request.providerTransactionId,
+      providerCaptureId: captureId,
       capturedAmount: captureAmount,
       currency: txn.currency,
+      final: txn.captured,
       rawResponse: {
         id: request.providerTransactionId,
         object: 'payment_intent',
-        status: 'succeeded',
-        amount_captured: Number(captureAmount),
+        status: txn.captured ? 'succeeded' : 'requires_capture',
+        latest_charge: captureId,
+        amount_captured: Number(txn.capturedAmount),
+        amount_capturable: txn.captured ? 0 : Number(txn.amount - txn.capturedAmount),
       },
     };
   }
@@ -175,7 +301,7 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    if (txn.captured) {
+    if (txn.captured || txn.capturedAmount > 0n) {
       throw new ProviderError(
         'Cannot cancel a captured transaction, use refund instead',
         'INVALID_REQUEST'
@@ -219,15 +345,17 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       );
     }
 
-    if (!txn.captured) {
+    this.ensureMatchingCurrency(request.currency, txn.currency);
+
+    if (txn.capturedAmount === 0n) {
       throw new ProviderError(
         'Cannot refund an uncaptured transaction',
         'INVALID_REQUEST'
       );
     }
 
-    const refundAmount = request.amount ?? txn.amount;
-    const remainingAmount = txn.amount - txn.refundedAmount;
+    const remainingAmount = txn.capturedAmount - txn.refundedAmount;
+    const refundAmount = request.amount ?? remainingAmount;
 
     if (refundAmount > remainingAmount) {
       throw new ProviderError(
@@ -261,6 +389,101 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
     };
   }
 
+  async payout(request: PayoutRequest): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (!this.supportsCurrency(request.currency)) {
+      throw new ProviderError(
+        `Payouts in ${request.currency} are not supported`,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const accountNumber = request.destination.accountNumber ?? request.destination.iban;
+
+    if (!accountNumber || accountNumber === TEST_BANK_ACCOUNTS.NO_ACCOUNT) {
+      throw new ProviderError('No such external bank account', 'INVALID_REQUEST');
+    }
+
+    const existingId = request.idempotencyKey ? payoutIdsByKey.get(request.idempotencyKey) : undefined;
+    if (existingId) {
+      return this.toPayoutResponse(existingId);
+    }
+
+    const payoutId = `po_${crypto.randomBytes(12).toString('hex')}`;
+
+    // Closed accounts accept the payout and bounce it once it reaches the bank
+    virtualPayouts.set(payoutId, {
+      amount: request.amount,
+      currency: request.currency,
+      arrivalDate: new Date(Date.now() + PAYOUT_TRANSIT_MS),
+      failureReason: accountNumber === TEST_BANK_ACCOUNTS.ACCOUNT_CLOSED ? 'account_closed' : undefined,
+    });
+
+    if (request.idempotencyKey) {
+      payoutIdsByKey.set(request.idempotencyKey, payoutId);
+    }
+
+    logger.debug('Stripe payout created', {
+      payoutId,
+      amount: request.amount.toString(),
+      currency: request.currency,
+    });
+
+    return this.toPayoutResponse(payoutId);
+  }
+
+  async getPayout(providerPayoutId: string): Promise<PayoutResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    const payoutId = virtualPayouts.has(providerPayoutId)
+      ? providerPayoutId
+      : payoutIdsByKey.get(providerPayoutId);
+
+    if (!payoutId) {
+      throw new ProviderError(`Payout ${providerPayoutId} not found`, 'NOT_FOUND');
+    }
+
+    return this.toPayoutResponse(payoutId);
+  }
+
+  async submitDisputeEvidence(
+    request: SubmitDisputeEvidenceRequest
+  ): Promise<SubmitDisputeEvidenceResponse> {
+    this.ensureInitialized();
+    await this.simulateLatency();
+
+    if (!request.providerDisputeId.startsWith('dp_')) {
+      throw new ProviderError(`Dispute ${request.providerDisputeId} not found`, 'NOT_FOUND');
+    }
+
+    logger.debug('Stripe dispute evidence submitted', {
+      providerDisputeId: request.providerDisputeId,
+    });
+
+    return {
+      success: true,
+      providerDisputeId: request.providerDisputeId,
+      status: 'under_review',
+      rawResponse: {
+        id: request.providerDisputeId,
+        object: 'dispute',
+        status: 'under_review',
+        evidence: {
+          product_description: request.evidence.productDescription ?? null,
+          customer_communication: request.evidence.customerCommunication ?? null,
+          refund_policy: request.evidence.refundPolicy ?? null,
+          shipping_carrier: request.evidence.shippingCarrier ?? null,
+          shipping_tracking_number: request.evidence.shippingTrackingNumber ?? null,
+          uncategorized_text: request.evidence.uncategorizedText ?? null,
+        },
+        evidence_details: { submission_count: 1 },
+      },
+    };
+  }
+
   async checkHealth(): Promise<ProviderHealth> {
     const start = Date.now();
     await this.simulateLatency();
@@ -321,6 +544,10 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
     const data = payload.data as Record<string, unknown>;
     const eventType = payload.eventType;
 
+    if (eventType.startsWith('charge.dispute.')) {
+      return this.parseDisputeWebhook(eventType, data);
+    }
+
     const statusMap: Record<string, ProcessedWebhook['status']> = {
       'payment_intent.succeeded': 'captured',
       'payment_intent.payment_failed': 'failed',
@@ -333,7 +560,98 @@ export class StripeAdapter extends BasePaymentProviderAdapter {
       providerTransactionId: data.id as string,
       status: statusMap[eventType],
       amount: data.amount ? BigInt(data.amount as number) : undefined,
-      currency: data.currency as Currency | undefined,
+      // Stripe sends lowercase ISO codes
+      currency: (data.currency as string | undefined)?.toUpperCase() as Currency | undefined,
+    };
+  }
+
+  private parseDisputeWebhook(eventType: string, data: Record<string, unknown>): ProcessedWebhook {
+    const statusMap: Record<string, ProcessedDispute['status']> = {
+      warning_needs_response: 'needs_response',
+      needs_response: 'needs_response',
+      warning_under_review: 'under_review',
+      under_review: 'under_review',
+      won: 'won',
+      warning_closed: 'won',
+      lost: 'lost',
+    };
+    const evidenceDetails = data.evidence_details as { due_by?: number } | undefined;
+
+    return {
+      eventType,
+      providerTransactionId: (data.payment_intent ?? data.charge) as string | undefined,
+      dispute: {
+        providerDisputeId: data.id as string,
+        status: statusMap[data.status as string] ?? 'needs_response',
+        reason: (data.reason as string | undefined) ?? 'general',
+        amount: BigInt(data.amount as number),
+        currency: (data.currency as string).toUpperCase() as Currency,
+        dueBy: evidenceDetails?.due_by ? new Date(evidenceDetails.due_by * 1000) : undefined,
+      },
+    };
+  }
+
+  private toPayoutResponse(payoutId: string): PayoutResponse {
+    const payout = virtualPayouts.get(payoutId)!;
+    const arrived = payout.arrivalDate.getTime() <= Date.now();
+    const status = !arrived ? 'in_transit' : payout.failureReason ? 'failed' : 'paid';
+
+    return {
+      success: status !== 'failed',
+      providerPayoutId: payoutId,
+      status,
+      amount: payout.amount,
+      currency: payout.currency,
+      arrivalDate: payout.arrivalDate,
+      failureReason: status === 'failed' ? payout.failureReason : undefined,
+      rawResponse: {
+        id: payoutId,
+        object: 'payout',
+        status,
+        amount: Number(payout.amount),
+        currency: payout.currency.toLowerCase(),
+        arrival_date: Math.floor(payout.arrivalDate.getTime() / 1000),
+        failure_code: status === 'failed' ? payout.failureReason : null,
+      },
+    };
+  }
+
+  private requireAuthentication(
+    providerTransactionId: string,
+    request: AuthorizeRequest,
+    succeeds: boolean
+  ): AuthorizeResponse {
+    virtualTransactions.set(providerTransactionId, {
+      authorized: false,
+      captured: false,
+      cancelled: false,
+      capturedAmount: BigInt(0),
+      refundedAmount: BigInt(0),
+      amount: request.amount,
+      currency: request.currency,
+      createdAt: new Date(),
+      pendingAuthentication: { succeeds, capture: request.capture ?? false },
+    });
+
+    const challengeUrl = `https://hooks.stripe.com/3d_secure_2/authenticate/${providerTransactionId}`;
+
+    return {
+      success: true,
+      providerTransactionId,
+      status: 'requires_action',
+      amount: request.amount,
+      currency: request.currency,
+      nextAction: request.returnUrl
+        ? { type: 'redirect_to_url', url: challengeUrl, returnUrl: request.returnUrl }
+        : { type: 'three_ds_challenge', url: challengeUrl },
+      rawResponse: {
+        id: providerTransactionId,
+        object: 'payment_intent',
+        status: 'requires_action',
+        next_action: request.returnUrl
+          ? { type: 'redirect_to_url', redirect_to_url: { url: challengeUrl, return_url: request.returnUrl } }
+          : { type: 'use_stripe_sdk' },
+      },
     };
   }
 
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { getRedisClient } from '../../shared/database/redis.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { CircuitBreakerStatus, CircuitState, ProviderError } from './provider.types.js';
+
+const KEY_PREFIX = 'circuit:';
+
+/**
+ * Stops routing to a provider that keeps failing, without waiting for the
+ * cached metrics or its health status to catch up. State lives in Redis so
+ * every instance sees the same circuits.
+ *
+ * A closed circuit counts results over a rolling window and opens once enough
+ * of them fail. An open circuit turns half-open when its cool-down ends and
+ * lets a few trial requests through; the next failure opens it again, and a
+ * run of successes closes it.
+ */
+export class CircuitBreakerService {
+  private static instance: CircuitBreakerService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): CircuitBreakerService {
+    if (!CircuitBreakerService.instance) {
+      CircuitBreakerService.instance = new CircuitBreakerService();
+    }
+    return CircuitBreakerService.instance;
+  }
+
+  /**
+   * Count a provider result against its circuit, and the merchant's own
+   * circuit for it when per-merchant circuits are enabled. Declines the
+   * provider marks as not retryable say nothing about its health, so they
+   * count as successes.
+   */
+  async recordResult(
+    providerId: string,
+    success: boolean,
+    options: { merchantId?: string; error?: unknown } = {}
+  ): Promise<void> {
+    const healthy = success || (options.error instanceof ProviderError && !options.error.isRetryable);
+
+    await Promise.all(
+      this.getScopes(providerId, options.merchantId).map((scope) => this.record(scope, healthy))
+    );
+  }
+
+  /**
+   * The provider's circuit, or the merchant's own circuit for it
+   */
+  async getStatus(providerId: string, merchantId?: string): Promise<CircuitBreakerStatus> {
+    return this.getScopeStatus(merchantId ? `${providerId}:${merchantId}` : providerId);
+  }
+
+  /**
+   * Whether traffic to the provider is cut off, for everyone or, with
+   * per-merchant circuits, for this merchant. A half-open circuit counts as
+   * cut off once its trial requests are used up. Only reads state, so routing
+   * can ask as often as it likes; callers about to send a request take a
+   * trial with admitRequest.
+   */
+  async isOpen(providerId: string, merchantId?: string): Promise<boolean> {
+    const scopes = this.getScopes(providerId, merchantId);
+    const statuses = await Promise.all(scopes.map((scope) => this.getScopeStatus(scope)));
+
+    if (statuses.some((status) => status.state === 'open')) {
+      return true;
+    }
+
+    const probesTaken = await Promise.all(
+      scopes
+        .filter((_, index) => statuses[index]!.state === 'half_open')
+        .map((scope) => getRedisClient().get(this.key(scope, 'probes')))
+    );
+
+    return probesTaken.some((taken) => Number(taken ?? 0) >= config.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES);
+  }
+
+  /**
+   * Let a request through to the provider, counting it as one of the trial
+   * requests of any half-open circuit. Call it only right before the request
+   * is actually sent.
+   */
+  async admitRequest(providerId: string, merchantId?: string): Promise<boolean> {
+    const scopes = this.getScopes(providerId, merchantId);
+    const statuses = await Promise.all(scopes.map((scope) => this.getScopeStatus(scope)));
+
+    if (statuses.some((status) => status.state === 'open')) {
+      return false;
+    }
+
+    const admitted = await Promise.all(
+      scopes
+        .filter((_, index) => statuses[index]!.state === 'half_open')
+        .map((scope) => this.takeProbe(scope))
+    );
+
+    return !admitted.includes(false);
+  }
+
+  private async getScopeStatus(scope: string): Promise<CircuitBreakerStatus> {
+    const client = getRedisClient();
+    const now = Date.now();
+    const windowStart = now - config.env.CIRCUIT_BREAKER_WINDOW_MS;
+
+    const [hash, requests, failures] = await Promise.all([
+      client.hgetall(this.key(scope)),
+      client.zcount(this.key(scope, 'requests'), windowStart, '+inf'),
+      client.zcount(this.key(scope, 'failures'), windowStart, '+inf'),
+    ]);
+
+    const openedAt = this.getOpenedAt(hash);
+
+    return {
+      state: this.getState(openedAt, now),
+      requests,
+      failures,
+      openedAt: openedAt !== undefined ? new Date(openedAt) : undefined,
+      retryAt:
+        openedAt !== undefined ? new Date(openedAt + config.env.CIRCUIT_BREAKER_COOLDOWN_MS) : undefined,
+    };
+  }
+
+  private async record(scope: string, healthy: boolean): Promise<void> {
+    const client = getRedisClient();
+    const now = Date.now();
+    const state = this.getState(this.getOpenedAt(await client.hgetall(this.key(scope))), now);
+
+    // Results from requests sent before the circuit opened
+    if (state === 'open') {
+      return;
+    }
+
+    if (state === 'half_open') {
+      if (!healthy) {
+        await this.open(scope, now);
+        return;
+      }
+
+      const successes = await client.hincrby(this.key(scope), 'halfOpenSuccesses', 1);
+
+      if (successes >= config.env.CIRCUIT_BREAKER_HALF_OPEN_SUCCESSES) {
+        await client.del(this.key(scope), this.key(scope, 'probes'));
+        logger.info('Circuit breaker closed', { scope });
+      }
+      return;
+    }
+
+    const windowMs = config.env.CIRCUIT_BREAKER_WINDOW_MS;
+    const member = `${now}:${crypto.randomUUID()}`;
+    const multi = client.multi();
+
+    multi.zadd(this.key(scope, 'requests'), now, member);
+    if (!healthy) {
+      multi.zadd(this.key(scope, 'failures'), now, member);
+    }
+
+    for (const key of [this.key(scope, 'requests'), this.key(scope, 'failures')]) {
+      multi.zremrangebyscore(key, 0, now - windowMs);
+      multi.pexpire(key, windowMs);
+    }
+
+    multi.zcard(this.key(scope, 'requests'));
+    multi.zcard(this.key(scope, 'failures'));
+
+    const results = await multi.exec();
+
+    if (healthy || !results) {
+      return;
+    }
+
+    const requests = Number(results[results.length - 2]?.[1] ?? 0);
+    const failures = Number(results[results.length - 1]?.[1] ?? 0);
+
+    if (
+      requests >= config.env.CIRCUIT_BREAKER_MIN_REQUESTS &&
+      failures / requests >= config.env.CIRCUIT_BREAKER_FAILURE_RATE
+    ) {
+      await this.open(scope, now);
+    }
+  }
+
+  private async open(scope: string, now: number): Promise<void> {
+    await getRedisClient()
+      .multi()
+      .hset(this.key(scope), { openedAt: now, halfOpenSuccesses: 0 })
+      .del(this.key(scope, 'requests'), this.key(scope, 'failures'), this.key(scope, 'probes'))
+      .exec();
+
+    logger.warn('Circuit breaker opened', {
+      scope,
+      retryAt: new Date(now + config.env.CIRCUIT_BREAKER_COOLDOWN_MS).toISOString(),
+    });
+  }
+
+  /**
+   * Count a trial request against a half-open circuit. The count expires
+   * after a cool-down, so probes whose results never arrive don't hold the
+   * circuit shut for good.
+   */
+  private async takeProbe(scope: string): Promise<boolean> {
+    const key = this.key(scope, 'probes');
+    const results = await getRedisClient()
+      .multi()
+      .incr(key)
+      .pexpire(key, config.env.CIRCUIT_BREAKER_COOLDOWN_MS)
+      .exec();
+
+    return Number(results?.[0]?.[1] ?? 0) <= config.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES;
+  }
+
+  // Open circuits turn half-open by themselves once the cool-down has passed
+  private getState(openedAt: number | undefined, now: number): CircuitState {
+    if (openedAt === undefined) {
+      return 'closed';
+    }
+
+    return now - openedAt < config.env.CIRCUIT_BREAKER_COOLDOWN_MS ? 'open' : 'half_open';
+  }
+
+  private getScopes(providerId: string, merchantId?: string): string[] {
+    return merchantId && config.env.CIRCUIT_BREAKER_PER_MERCHANT
+      ? [providerId, `${providerId}:${merchantId}`]
+      : [providerId];
+  }
+
+  private getOpenedAt(hash: Record<string, string>): number | undefined {
+    return hash.openedAt !== undefined ? Number(hash.openedAt) : undefined;
+  }
+
+  private key(scope: string, suffix?: string): string {
+    return suffix ? `${KEY_PREFIX}${scope}:${suffix}` : `${KEY_PREFIX}${scope}`;
+  }
+}
+
+export const circuitBreakerService = CircuitBreakerService.getInstance();
@@ -1,6 +1,11 @@
 export * from './provider.types.js';
 export * from './provider.schemas.js';
 export { providerService, ProviderService } from './provider.service.js';
+export { circuitBreakerService, CircuitBreakerService } from './circuit-breaker.service.js';
+export {
+  providerSimulationService,
+  ProviderSimulationService,
+} from './provider-simulation.service.js';
 export { providerController, ProviderController } from './provider.controller.js';
 export { providerRoutes } from './provider.routes.js';
 export { webhookRoutes } from './webhook.routes.js';
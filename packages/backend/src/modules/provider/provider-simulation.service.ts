@@ -0,0 +1,99 @@
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { providerService } from './provider.service.js';
+import { isSimulatedWebhookSource } from './adapters/base.adapter.js';
+import { BaseWebhookHandler } from './webhooks/webhook.handler.js';
+import { bankTransferWebhookHandler } from './webhooks/bank-transfer.webhook.js';
+import { cryptoWebhookHandler } from './webhooks/crypto.webhook.js';
+
+// Simulated providers whose outcomes arrive by webhook, and the handler each posts to
+const SIMULATED_WEBHOOK_HANDLERS: Record<string, BaseWebhookHandler> = {
+  bank_transfer: bankTransferWebhookHandler,
+  crypto: cryptoWebhookHandler,
+};
+
+/**
+ * Delivers the webhooks that simulated providers have due, such as bank debit
+ * settlements and crypto deposit confirmations, through the same handlers
+ * real provider webhooks use. Their state lives in memory, so every instance
+ * delivers its own.
+ */
+export class ProviderSimulationService {
+  private static instance: ProviderSimulationService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ProviderSimulationService {
+    if (!ProviderSimulationService.instance) {
+      ProviderSimulationService.instance = new ProviderSimulationService();
+    }
+    return ProviderSimulationService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.PROVIDER_SIMULATION_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.deliverDueWebhooks().catch((error: Error) => {
+        logger.error('Simulated webhook delivery failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Provider simulation started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async deliverDueWebhooks(): Promise<number> {
+    let delivered = 0;
+
+    for (const [providerCode, handler] of Object.entries(SIMULATED_WEBHOOK_HANDLERS)) {
+      const provider = await prisma.paymentProvider.findUnique({
+        where: { code: providerCode },
+        select: { config: true },
+      });
+
+      if (!provider) {
+        continue;
+      }
+
+      // Simulated state is shared across instances, so the platform's own sees every merchant's payments
+      const adapter = await providerService.getAdapter(providerCode);
+      if (!isSimulatedWebhookSource(adapter)) {
+        continue;
+      }
+
+      // Signed with the secret the handler verifies against
+      const providerConfig = (provider.config ?? {}) as Record<string, unknown>;
+      const secret = typeof providerConfig.webhookSecret === 'string' ? providerConfig.webhookSecret : '';
+
+      for (const webhook of adapter.collectDueWebhooks(new Date(), secret)) {
+        try {
+          await handler.handleWebhook(webhook.payload, webhook.signature, {
+            'content-type': 'application/json',
+          });
+          delivered++;
+        } catch (error) {
+          logger.error('Simulated webhook was not processed', {
+            providerCode,
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+
+    return delivered;
+  }
+}
+
+export const providerSimulationService = ProviderSimulationService.getInstance();
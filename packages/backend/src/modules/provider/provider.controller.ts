@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { providerService } from './provider.service.js';
+import { circuitBreakerService } from './circuit-breaker.service.js';
 import { ListProvidersQuery } from './provider.schemas.js';
 import { AppError } from '../../shared/errors/app-error.js';
 import { Currency, PaymentMethodType, ProviderStatus } from '@prisma/client';
@@ -76,6 +77,7 @@ export class ProviderController {
 
       const health = await providerService.checkHealth(id);
       const metrics = await providerService.getMetrics(id);
+      const circuitBreaker = await circuitBreakerService.getStatus(id);
 
       res.json({
         success: true,
@@ -90,6 +92,11 @@ export class ProviderController {
                 lastUpdated: metrics.lastUpdated.toISOString(),
               }
             : undefined,
+          circuitBreaker: {
+            ...circuitBreaker,
+            openedAt: circuitBreaker.openedAt?.toISOString(),
+            retryAt: circuitBreaker.retryAt?.toISOString(),
+          },
         },
       });
     } catch (error) {
@@ -30,7 +30,7 @@ router.get(
 
 /**
  * GET /api/v1/providers/:id/health
- * Get provider health status and metrics
+ * Get provider health status, metrics and circuit breaker state
  */
 router.get(
   '/:id/health',
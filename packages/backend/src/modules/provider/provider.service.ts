@@ -2,9 +2,11 @@ import { PaymentProvider, ProviderStatus, Currency, PaymentMethodType, Prisma }
 import { prisma } from '../../shared/database/prisma.js';
 import { cacheService } from '../../shared/cache/cache.service.js';
 import { AdapterFactory, IPaymentProviderAdapter } from './adapters/index.js';
+import { circuitBreakerService } from './circuit-breaker.service.js';
 import { ProviderHealth, ProviderMetrics, ProviderInfo, ProviderConfig } from './provider.types.js';
 import { logger } from '../../shared/utils/logger.js';
 import { config } from '../../config/index.js';
+import crypto from 'crypto';
 
 const HEALTH_CACHE_TTL = 60; // 1 minute
 const METRICS_CACHE_TTL = 300; // 5 minutes
@@ -23,9 +25,16 @@ export class ProviderService {
     return ProviderService.instance;
   }
 
+  /**
+   * The adapter for a provider, initialized with the merchant's credentials.
+   * Each merchant gets its own instance, rebuilt when its config changes.
+   */
   async getAdapter(providerCode: string, merchantId?: string): Promise<IPaymentProviderAdapter> {
     const providerConfig = await this.getProviderConfig(providerCode, merchantId);
-    return AdapterFactory.getAdapter(providerCode, providerConfig);
+    return AdapterFactory.getAdapter(providerCode, providerConfig, {
+      merchantId,
+      credentialVersion: this.getCredentialVersion(providerConfig),
+    });
   }
 
   async getProviderConfig(providerCode: string, merchantId?: string): Promise<ProviderConfig> {
@@ -72,6 +81,14 @@ export class ProviderService {
     };
   }
 
+  /**
+   * A fingerprint of everything an adapter is initialized with, so that new
+   * credentials or provider settings are never served by an old instance.
+   */
+  private getCredentialVersion(providerConfig: ProviderConfig): string {
+    return crypto.createHash('sha256').update(JSON.stringify(providerConfig)).digest('hex').slice(0, 16);
+  }
+
   async listProviders(options?: {
     status?: ProviderStatus;
     currency?: Currency;
@@ -256,10 +273,15 @@ export class ProviderService {
     return metrics;
   }
 
+  /**
+   * Record a provider result in the rolling metrics and its circuit breaker.
+   * Pass the error a failed call raised so declines do not trip the breaker.
+   */
   async updateMetrics(
     providerId: string,
     success: boolean,
-    latencyMs: number
+    latencyMs: number,
+    options: { merchantId?: string; error?: unknown } = {}
   ): Promise<void> {
     const key = `${METRICS_CACHE_PREFIX}${providerId}:rolling`;
 
@@ -282,6 +304,8 @@ export class ProviderService {
 
     await multi.exec();
 
+    await circuitBreakerService.recordResult(providerId, success, options);
+
     logger.debug('Updated provider metrics', { providerId, success, latencyMs });
   }
 
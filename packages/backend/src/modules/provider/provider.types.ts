@@ -29,6 +29,18 @@ export interface ProviderMetrics {
   lastUpdated: Date;
 }
 
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Results counted in the current window while closed */
+  requests: number;
+  failures: number;
+  openedAt?: Date;
+  /** When an open circuit starts letting trial traffic through */
+  retryAt?: Date;
+}
+
 // ============================================
 // REQUEST/RESPONSE TYPES
 // ============================================
@@ -45,6 +57,13 @@ export interface AuthorizeRequest {
     expiryYear?: number;
     cvv?: string;
     holderName?: string;
+    /** Bank debits: an IBAN for SEPA, or a routing and account number for ACH */
+    iban?: string;
+    routingNumber?: string;
+    accountNumber?: string;
+    /** Crypto: the asset to pay in, and the payer's wallet for returning over- or underpayments */
+    cryptoAsset?: CryptoAsset;
+    walletAddress?: string;
   };
   description?: string;
   metadata?: Record<string, unknown>;
@@ -53,12 +72,14 @@ export interface AuthorizeRequest {
   customerId?: string;
   billingAddress?: Address;
   shippingAddress?: Address;
+  /** Where to send the customer back to after a redirect-based authentication */
+  returnUrl?: string;
 }
 
 export interface AuthorizeResponse {
   success: boolean;
   providerTransactionId: string;
-  status: 'authorized' | 'captured' | 'declined' | 'pending';
+  status: 'authorized' | 'captured' | 'declined' | 'pending' | 'requires_action';
   amount: bigint;
   currency: Currency;
   authorizationCode?: string;
@@ -66,21 +87,59 @@ export interface AuthorizeResponse {
   cvvResult?: string;
   riskScore?: number;
   declineReason?: string;
+  /** Set when status is requires_action: what the customer must do to finish the payment */
+  nextAction?: NextAction;
   rawResponse?: unknown;
 }
 
+/**
+ * A 3-D Secure challenge to show the customer, either embedded or by
+ * redirecting to the issuer and back to the return URL.
+ */
+export interface NextAction {
+  type: 'three_ds_challenge' | 'redirect_to_url' | 'crypto_deposit';
+  url: string;
+  returnUrl?: string;
+  /** Set for crypto_deposit, whose url is a payment URI for the deposit address */
+  cryptoDeposit?: CryptoDeposit;
+}
+
+export type CryptoAsset = 'BTC' | 'ETH' | 'USDC';
+
+/**
+ * Where and how much to send for a crypto payment. The amount is locked to
+ * the quoted rate until expiresAt.
+ */
+export interface CryptoDeposit {
+  asset: CryptoAsset;
+  address: string;
+  /** In whole units of the asset, e.g. '0.00125000' */
+  amount: string;
+  requiredConfirmations: number;
+  expiresAt: string;
+}
+
+export interface ConfirmAuthenticationRequest {
+  providerTransactionId: string;
+}
+
 export interface CaptureRequest {
   providerTransactionId: string;
   amount?: bigint;
   currency?: Currency;
+  /** Release any uncaptured remainder of the authorization after this capture */
+  final?: boolean;
   metadata?: Record<string, unknown>;
 }
 
 export interface CaptureResponse {
   success: boolean;
   providerTransactionId: string;
+  providerCaptureId?: string;
   capturedAmount: bigint;
   currency: Currency;
+  /** True when the provider has closed the authorization to further captures */
+  final?: boolean;
   rawResponse?: unknown;
 }
 
@@ -113,6 +172,57 @@ export interface RefundResponse {
   rawResponse?: unknown;
 }
 
+export interface PayoutDestination {
+  accountHolderName: string;
+  accountNumber?: string;
+  routingNumber?: string;
+  iban?: string;
+  bankName?: string;
+  country?: string;
+}
+
+export interface PayoutRequest {
+  merchantId: string;
+  amount: bigint;
+  currency: Currency;
+  destination: PayoutDestination;
+  description?: string;
+  idempotencyKey?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PayoutResponse {
+  success: boolean;
+  providerPayoutId: string;
+  status: 'pending' | 'in_transit' | 'paid' | 'failed';
+  amount: bigint;
+  currency: Currency;
+  arrivalDate?: Date;
+  failureReason?: string;
+  rawResponse?: unknown;
+}
+
+export interface DisputeEvidence {
+  productDescription?: string;
+  customerCommunication?: string;
+  refundPolicy?: string;
+  shippingCarrier?: string;
+  shippingTrackingNumber?: string;
+  uncategorizedText?: string;
+}
+
+export interface SubmitDisputeEvidenceRequest {
+  providerDisputeId: string;
+  evidence: DisputeEvidence;
+}
+
+export interface SubmitDisputeEvidenceResponse {
+  success: boolean;
+  providerDisputeId: string;
+  status: ProcessedDispute['status'];
+  rawResponse?: unknown;
+}
+
 export interface Address {
   line1?: string;
   line2?: string;
@@ -137,6 +247,7 @@ export type ProviderErrorCode =
   | 'TIMEOUT'
   | 'RATE_LIMITED'
   | 'AUTHENTICATION_ERROR'
+  | 'AUTHENTICATION_FAILED'
   | 'INVALID_REQUEST'
   | 'NOT_FOUND'
   | 'DUPLICATE_TRANSACTION'
@@ -192,6 +303,10 @@ export class ProviderError extends Error {
     return new ProviderError(message, 'CARD_DECLINED');
   }
 
+  static authenticationFailed(message = 'Cardholder authentication failed'): ProviderError {
+    return new ProviderError(message, 'AUTHENTICATION_FAILED');
+  }
+
   static networkError(message = 'Network error occurred'): ProviderError {
     return new ProviderError(message, 'NETWORK_ERROR', { isRetryable: true });
   }
@@ -224,9 +339,28 @@ export interface ProcessedWebhook {
   status?: 'authorized' | 'captured' | 'refunded' | 'cancelled' | 'failed';
   amount?: bigint;
   currency?: Currency;
+  /** Why the payment failed, e.g. a bank return code, when status is failed */
+  failureReason?: string;
+  /** Set for chargeback events; providerTransactionId then points at the disputed payment */
+  dispute?: ProcessedDispute;
   metadata?: Record<string, unknown>;
 }
 
+/** A webhook a simulated provider has ready to deliver, signed with the provider's secret */
+export interface SimulatedWebhook {
+  payload: string;
+  signature: string;
+}
+
+export interface ProcessedDispute {
+  providerDisputeId: string;
+  status: 'needs_response' | 'under_review' | 'won' | 'lost';
+  reason: string;
+  amount: bigint;
+  currency: Currency;
+  dueBy?: Date;
+}
+
 // ============================================
 // PROVIDER INFO TYPES
 // ============================================
@@ -1,5 +1,10 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { stripeWebhookHandler, paypalWebhookHandler } from './webhooks/index.js';
+import {
+  stripeWebhookHandler,
+  paypalWebhookHandler,
+  bankTransferWebhookHandler,
+  cryptoWebhookHandler,
+} from './webhooks/index.js';
 import { logger } from '../../shared/utils/logger.js';
 import express from 'express';
 
@@ -79,4 +84,74 @@ router.post(
   }
 );
 
+/**
+ * POST /api/v1/webhooks/bank-transfer
+ * Handle bank debit settlement and return events
+ */
+router.post(
+  '/bank-transfer',
+  rawBodyMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = req.headers['x-bank-signature'] as string;
+      const rawPayload = req.body.toString();
+      const headers = req.headers as Record<string, string>;
+
+      const result = await bankTransferWebhookHandler.handleWebhook(
+        rawPayload,
+        signature,
+        headers
+      );
+
+      res.json({
+        success: true,
+        received: true,
+        eventId: result.eventId,
+      });
+    } catch (error) {
+      logger.error('Bank transfer webhook error', { error: (error as Error).message });
+      if ((error as Error).message === 'Invalid webhook signature') {
+        res.status(400).json({ success: false, error: 'Invalid signature' });
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /api/v1/webhooks/crypto
+ * Handle crypto deposit confirmation, underpayment and expiry events
+ */
+router.post(
+  '/crypto',
+  rawBodyMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = req.headers['x-crypto-signature'] as string;
+      const rawPayload = req.body.toString();
+      const headers = req.headers as Record<string, string>;
+
+      const result = await cryptoWebhookHandler.handleWebhook(
+        rawPayload,
+        signature,
+        headers
+      );
+
+      res.json({
+        success: true,
+        received: true,
+        eventId: result.eventId,
+      });
+    } catch (error) {
+      logger.error('Crypto webhook error', { error: (error as Error).message });
+      if ((error as Error).message === 'Invalid webhook signature') {
+        res.status(400).json({ success: false, error: 'Invalid signature' });
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
 export { router as webhookRoutes };
@@ -0,0 +1,30 @@
+import { BaseWebhookHandler } from './webhook.handler.js';
+import { WebhookPayload } from '../provider.types.js';
+
+interface BankTransferEvent {
+  id: string;
+  type: string;
+  created: string;
+  data: Record<string, unknown>;
+}
+
+export class BankTransferWebhookHandler extends BaseWebhookHandler {
+  protected providerCode = 'bank_transfer';
+
+  protected parseRawPayload(
+    rawPayload: string,
+    _headers: Record<string, string>
+  ): WebhookPayload {
+    const event: BankTransferEvent = JSON.parse(rawPayload);
+
+    return {
+      eventType: event.type,
+      providerEventId: event.id,
+      providerTransactionId: event.data.id as string | undefined,
+      data: event.data,
+      timestamp: new Date(event.created),
+    };
+  }
+}
+
+export const bankTransferWebhookHandler = new BankTransferWebhookHandler();
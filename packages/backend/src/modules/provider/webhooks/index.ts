@@ -1,3 +1,5 @@
 export { BaseWebhookHandler } from './webhook.handler.js';
 export { StripeWebhookHandler, stripeWebhookHandler } from './stripe.webhook.js';
 export { PayPalWebhookHandler, paypalWebhookHandler } from './paypal.webhook.js';
+export { BankTransferWebhookHandler, bankTransferWebhookHandler } from './bank-transfer.webhook.js';
+export { CryptoWebhookHandler, cryptoWebhookHandler } from './crypto.webhook.js';
@@ -1,8 +1,14 @@
-import { WebhookEventStatus, TransactionStatus } from '@prisma/client';
+import { WebhookEventStatus, Transaction, TransactionStatus } from '@prisma/client';
 import { prisma } from '../../../shared/database/prisma.js';
 import { logger } from '../../../shared/utils/logger.js';
 import { WebhookPayload, ProcessedWebhook } from '../provider.types.js';
 import { AdapterFactory } from '../adapters/adapter.factory.js';
+import { transactionStateService } from '../../transaction-state/transaction-state.service.js';
+import { TransactionStateError } from '../../transaction-state/transaction-state.types.js';
+import { disputeService } from '../../dispute/dispute.service.js';
+import { ledgerService } from '../../ledger/ledger.service.js';
+import { paymentSplitService } from '../../payment/payment-split.service.js';
+import { subscriptionService } from '../../subscription/subscription.service.js';
 
 export abstract class BaseWebhookHandler {
   protected abstract providerCode: string;
@@ -57,7 +63,7 @@ export abstract class BaseWebhookHandler {
       });
 
       const processed = await adapter.parseWebhook(payload);
-      await this.processWebhook(processed);
+      await this.processWebhook(processed, provider.id);
 
       // Mark as processed
       await prisma.webhookEvent.update({
@@ -96,7 +102,7 @@ export abstract class BaseWebhookHandler {
     }
   }
 
-  protected async processWebhook(processed: ProcessedWebhook): Promise<void> {
+  protected async processWebhook(processed: ProcessedWebhook, providerId: string): Promise<void> {
     if (!processed.providerTransactionId) {
       logger.debug('Webhook has no transaction ID, skipping', {
         eventType: processed.eventType,
@@ -116,6 +122,11 @@ export abstract class BaseWebhookHandler {
       return;
     }
 
+    if (processed.dispute) {
+      await disputeService.recordProviderDispute(providerId, transaction, processed.dispute);
+      return;
+    }
+
     // Map webhook status to transaction status
     const statusMap: Record<string, TransactionStatus> = {
       captured: TransactionStatus.COMPLETED,
@@ -128,24 +139,46 @@ export abstract class BaseWebhookHandler {
     const newStatus = processed.status ? statusMap[processed.status] : undefined;
 
     if (newStatus && newStatus !== transaction.status) {
-      await prisma.transaction.update({
-        where: { id: transaction.id },
-        data: {
-          status: newStatus,
-          ...(newStatus === TransactionStatus.COMPLETED ? { capturedAt: new Date() } : {}),
-          ...(newStatus === TransactionStatus.REFUNDED ? { refundedAt: new Date() } : {}),
-          ...(newStatus === TransactionStatus.CANCELLED ? { cancelledAt: new Date() } : {}),
-        },
-      });
+      // Nothing was captured or booked yet when the provider settles later, as bank debits do
+      const settles = newStatus === TransactionStatus.COMPLETED && transaction.capturedAmount === 0n;
 
-      await prisma.transactionStatusHistory.create({
-        data: {
+      try {
+        await transactionStateService.transition({
           transactionId: transaction.id,
-          fromStatus: transaction.status,
-          toStatus: newStatus,
+          from: transaction.status,
+          to: newStatus,
           reason: `Webhook: ${processed.eventType}`,
-        },
-      });
+          data: {
+            ...(newStatus === TransactionStatus.COMPLETED ? { capturedAt: new Date() } : {}),
+            ...(settles ? { capturedAmount: processed.amount ?? transaction.convertedAmount ?? transaction.amount } : {}),
+            ...(newStatus === TransactionStatus.FAILED && processed.failureReason
+              ? { failureReason: processed.failureReason }
+              : {}),
+            ...(newStatus === TransactionStatus.REFUNDED ? { refundedAt: new Date() } : {}),
+            ...(newStatus === TransactionStatus.CANCELLED ? { cancelledAt: new Date() } : {}),
+          },
+        });
+      } catch (error) {
+        // Providers deliver events out of order; a stale event must not roll a transaction back
+        if (error instanceof TransactionStateError && error.code === 'INVALID_TRANSITION') {
+          logger.warn('Ignoring webhook status change not allowed from current status', {
+            transactionId: transaction.id,
+            fromStatus: transaction.status,
+            toStatus: newStatus,
+            eventType: processed.eventType,
+          });
+          return;
+        }
+        throw error;
+      }
+
+      if (settles) {
+        await this.recordSettlement(transaction, processed);
+      }
+
+      if (newStatus === TransactionStatus.COMPLETED || newStatus === TransactionStatus.FAILED) {
+        await this.settleInvoice(transaction, newStatus, processed.failureReason);
+      }
 
       logger.info('Transaction status updated via webhook', {
         transactionId: transaction.id,
@@ -156,6 +189,54 @@ export abstract class BaseWebhookHandler {
     }
   }
 
+  /**
+   * Book a payment the provider settled after the fact. Like a synchronous
+   * capture, a posting failure is logged for reconciliation and does not fail
+   * the webhook.
+   */
+  private async recordSettlement(transaction: Transaction, processed: ProcessedWebhook): Promise<void> {
+    try {
+      await ledgerService.recordPayment(
+        transaction.id,
+        processed.amount ?? transaction.convertedAmount ?? transaction.amount,
+        processed.currency ?? transaction.convertedCurrency ?? transaction.currency,
+        transaction.merchantId
+      );
+      await paymentSplitService.settleTransfers(transaction.id);
+    } catch (error) {
+      logger.error('Failed to record ledger entries for settled payment', {
+        transactionId: transaction.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Pay or fail the subscription invoice a bank debit was collecting. Like
+   * the ledger, a failure here is logged and does not fail the webhook.
+   */
+  private async settleInvoice(
+    transaction: Transaction,
+    status: TransactionStatus,
+    failureReason?: string
+  ): Promise<void> {
+    const invoiceId = (transaction.metadata as Record<string, unknown> | null)?.invoiceId;
+
+    if (typeof invoiceId !== 'string') {
+      return;
+    }
+
+    try {
+      await subscriptionService.settleInvoicePayment(invoiceId, transaction.id, status, failureReason);
+    } catch (error) {
+      logger.error('Failed to settle invoice for webhook payment', {
+        transactionId: transaction.id,
+        invoiceId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   protected abstract parseRawPayload(
     rawPayload: string,
     headers: Record<string, string>
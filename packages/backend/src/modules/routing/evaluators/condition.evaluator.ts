@@ -105,6 +105,8 @@ export class ConditionEvaluator {
         return context.paymentMethodType;
       case 'cardBrand':
         return context.cardBrand;
+      case 'cardLast4':
+        return context.cardLast4;
       case 'country':
         return context.country;
       case 'region':
@@ -6,6 +6,7 @@ import {
   DEFAULT_SCORING_WEIGHTS,
 } from '../routing.types.js';
 import { providerService } from '../../provider/provider.service.js';
+import { circuitBreakerService } from '../../provider/circuit-breaker.service.js';
 import { logger } from '../../../shared/utils/logger.js';
 
 export class ProviderScoreEvaluator {
@@ -37,7 +38,7 @@ export class ProviderScoreEvaluator {
     context: RoutingContext
   ): Promise<ProviderScore> {
     // Check basic eligibility first
-    const eligibility = this.checkEligibility(provider, context);
+    const eligibility = await this.checkEligibility(provider, context);
 
     if (!eligibility.eligible) {
       return {
@@ -106,10 +107,10 @@ export class ProviderScoreEvaluator {
     };
   }
 
-  private checkEligibility(
+  private async checkEligibility(
     provider: RoutingProviderInfo,
     context: RoutingContext
-  ): { eligible: boolean; reason?: string } {
+  ): Promise<{ eligible: boolean; reason?: string }> {
     // Check if provider is active
     if (!provider.isActive) {
       return { eligible: false, reason: 'Provider is inactive' };
@@ -133,6 +134,21 @@ export class ProviderScoreEvaluator {
       };
     }
 
+    // Check circuit breaker, routing as usual if its state cannot be read
+    const circuitOpen = await circuitBreakerService
+      .isOpen(provider.id, context.merchantId)
+      .catch((error: Error) => {
+        logger.warn('Failed to read circuit breaker state', {
+          providerId: provider.id,
+          error: error.message,
+        });
+        return false;
+      });
+
+    if (circuitOpen) {
+      return { eligible: false, reason: 'Circuit breaker is open' };
+    }
+
     return { eligible: true };
   }
 
@@ -24,6 +24,7 @@ export class RoutingController {
         currency: req.body.currency as Currency,
         paymentMethodType: req.body.paymentMethodType as PaymentMethodType,
         cardBrand: req.body.cardBrand,
+        cardLast4: req.body.cardLast4,
         country: req.body.country,
         region: req.body.region,
         customerId: req.body.customerId,
@@ -41,6 +42,7 @@ export class RoutingController {
           matchedRuleId: decision.matchedRuleId,
           score: decision.score,
           reason: decision.reason,
+          providerScores: decision.providerScores,
           evaluatedAt: decision.evaluatedAt.toISOString(),
         },
       });
@@ -37,6 +37,7 @@ export const routingPreviewBodySchema = z.object({
   currency: currencyEnum,
   paymentMethodType: paymentMethodTypeEnum.default('CARD'),
   cardBrand: z.string().optional(),
+  cardLast4: z.string().regex(/^\d{4}$/).optional(),
   country: z.string().optional(),
   region: z.string().optional(),
   customerId: z.string().uuid().optional(),
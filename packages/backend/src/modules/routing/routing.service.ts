@@ -71,6 +71,7 @@ export class RoutingService {
           matchedRuleId: matchedRule.id,
           score: 100, // Rule-based selection
           reason: `Matched routing rule: ${matchedRule.name}`,
+          providerScores: scores,
           evaluatedAt: new Date(),
         };
       }
@@ -93,6 +94,7 @@ export class RoutingService {
       fallbackProviderIds: fallbacks.map((s) => s.providerId),
       score: selected.totalScore,
       reason: 'Selected by scoring algorithm',
+      providerScores: scores,
       evaluatedAt: new Date(),
     };
   }
@@ -131,6 +133,7 @@ export class RoutingService {
       fallbackProviderIds: fallbacks.map((s) => s.providerId),
       score: selected.totalScore,
       reason: `Fallback after ${failedProviderIds.length} failures`,
+      providerScores: scores,
       evaluatedAt: new Date(),
     };
   }
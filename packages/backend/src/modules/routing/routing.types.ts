@@ -10,6 +10,7 @@ export interface RoutingContext {
   currency: Currency;
   paymentMethodType: PaymentMethodType;
   cardBrand?: string;
+  cardLast4?: string;
   country?: string;
   region?: string;
   customerId?: string;
@@ -27,6 +28,8 @@ export interface RoutingDecision {
   matchedRuleId?: string;
   score: number;
   reason: string;
+  /** How every candidate provider scored, including ineligible ones */
+  providerScores: ProviderScore[];
   evaluatedAt: Date;
 }
 
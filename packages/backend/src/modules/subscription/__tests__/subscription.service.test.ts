@@ -0,0 +1,433 @@
+import { SubscriptionService, addBillingInterval } from '../subscription.service';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    customer: { findUnique: jest.fn() },
+    plan: { findUnique: jest.fn() },
+    subscription: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    invoice: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('../../../shared/cache/cache.service', () => ({
+  cacheService: {
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+
+jest.mock('../../payment/payment.service', () => ({
+  paymentService: { createPayment: jest.fn(), cancelPayment: jest.fn() },
+}));
+
+jest.mock('../../payment-method/payment-method.service', () => ({
+  paymentMethodService: { getChargeableMethod: jest.fn() },
+}));
+
+jest.mock('../../merchant-webhook/merchant-webhook.service', () => ({
+  merchantWebhookService: { publish: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: {
+    env: {
+      SUBSCRIPTION_BILLING_INTERVAL_MS: 300000,
+      SUBSCRIPTION_BILLING_BATCH_SIZE: 100,
+      SUBSCRIPTION_RETRY_SCHEDULE_HOURS: [24, 72],
+    },
+  },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { cacheService } from '../../../shared/cache/cache.service';
+import { paymentService } from '../../payment/payment.service';
+import { paymentMethodService } from '../../payment-method/payment-method.service';
+import { merchantWebhookService } from '../../merchant-webhook/merchant-webhook.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const basePlan = {
+  id: 'plan-basic',
+  productId: 'prod-1',
+  name: 'Basic',
+  amount: 3000n,
+  currency: 'USD',
+  interval: 'MONTH',
+  intervalCount: 1,
+  trialDays: 0,
+  isActive: true,
+  metadata: {},
+  product: { id: 'prod-1', merchantId: 'm-1', isActive: true },
+};
+
+const proPlan = { ...basePlan, id: 'plan-pro', name: 'Pro', amount: 6000n };
+
+const baseSubscription = {
+  id: 'sub-1',
+  merchantId: 'm-1',
+  customerId: 'cus-1',
+  planId: 'plan-basic',
+  paymentMethodId: 'pm-1',
+  status: 'ACTIVE',
+  currentPeriodStart: new Date('2026-01-01T00:00:00Z'),
+  currentPeriodEnd: new Date('2026-01-31T00:00:00Z'),
+  trialEnd: null,
+  cancelAtPeriodEnd: false,
+  pendingLineItems: [],
+  metadata: {},
+  cancelledAt: null,
+  endedAt: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+const baseInvoice = {
+  id: 'inv-1',
+  subscriptionId: 'sub-1',
+  merchantId: 'm-1',
+  customerId: 'cus-1',
+  transactionId: null,
+  status: 'OPEN',
+  amount: 3000n,
+  amountPaid: 0n,
+  currency: 'USD',
+  periodStart: baseSubscription.currentPeriodStart,
+  periodEnd: baseSubscription.currentPeriodEnd,
+  lineItems: [],
+  attemptCount: 0,
+  nextAttemptAt: null,
+  failureReason: null,
+  paidAt: null,
+  voidedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  subscription: { ...baseSubscription, merchant: { settings: {} } },
+};
+
+describe('addBillingInterval', () => {
+  it('should end monthly periods on the last day of shorter months', () => {
+    expect(addBillingInterval(new Date('2026-01-31T10:00:00Z'), 'MONTH', 1)).toEqual(
+      new Date('2026-02-28T10:00:00Z')
+    );
+    expect(addBillingInterval(new Date('2024-02-29T00:00:00Z'), 'YEAR', 1)).toEqual(
+      new Date('2025-02-28T00:00:00Z')
+    );
+    expect(addBillingInterval(new Date('2026-03-01T00:00:00Z'), 'WEEK', 2)).toEqual(
+      new Date('2026-03-15T00:00:00Z')
+    );
+  });
+});
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SubscriptionService as any).instance = null;
+    service = SubscriptionService.getInstance();
+
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.plan.findUnique as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve([basePlan, proPlan].find((plan) => plan.id === where.id) ?? null)
+    );
+    (prisma.customer.findUnique as jest.Mock).mockResolvedValue({ id: 'cus-1', merchantId: 'm-1', isActive: true });
+    (paymentMethodService.getChargeableMethod as jest.Mock).mockResolvedValue({ id: 'pm-1' });
+    (prisma.subscription.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseSubscription, ...data, trialEnd: data.trialEnd ?? null })
+    );
+    (prisma.subscription.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseSubscription, ...data })
+    );
+    (prisma.invoice.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseInvoice, ...data })
+    );
+    (prisma.invoice.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...baseInvoice, ...data })
+    );
+    (prisma.invoice.findUnique as jest.Mock).mockResolvedValue(baseInvoice);
+    (prisma.invoice.count as jest.Mock).mockResolvedValue(0);
+  });
+
+  describe('createSubscription', () => {
+    const request = { merchantId: 'm-1', customerId: 'cus-1', planId: 'plan-basic' };
+
+    it('should start a trial without charging', async () => {
+      const result = await service.createSubscription({ ...request, trialDays: 14 });
+
+      expect(result.status).toBe('TRIALING');
+      expect(result.currentPeriodEnd.getTime() - result.currentPeriodStart.getTime()).toBe(14 * DAY_MS);
+      expect(prisma.invoice.create).not.toHaveBeenCalled();
+      expect(paymentService.createPayment).not.toHaveBeenCalled();
+    });
+
+    it('should invoice and charge the first period with the saved method', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED' });
+
+      await service.createSubscription(request);
+
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 3000n, status: 'OPEN', subscriptionId: 'sub-1' }),
+      });
+      expect(paymentService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          customerId: 'cus-1',
+          amount: 3000n,
+          paymentMethodId: 'pm-1',
+          idempotencyKey: 'invoice_inv-1_1',
+        })
+      );
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'PAID', amountPaid: 3000n, transactionId: 'txn-1' }),
+      });
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'invoice.paid', expect.anything());
+    });
+
+    it('should reject plans belonging to another merchant', async () => {
+      await expect(
+        service.createSubscription({ ...request, merchantId: 'm-2' })
+      ).rejects.toMatchObject({ code: 'PLAN_NOT_FOUND' });
+      expect(prisma.subscription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePlan', () => {
+    it('should credit unused time and charge the new plan on the next invoice', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-16T00:00:00Z'));
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...baseSubscription, plan: basePlan });
+
+      try {
+        const result = await service.changePlan('sub-1', { planId: 'plan-pro' });
+
+        // Half of the 30-day period remains
+        expect(result.planId).toBe('plan-pro');
+        expect(result.pendingLineItems.map((item) => item.amount)).toEqual([-1500n, 3000n]);
+        expect(paymentService.createPayment).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject plans in another currency', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...baseSubscription, plan: basePlan });
+      (prisma.plan.findUnique as jest.Mock).mockResolvedValue({ ...proPlan, currency: 'EUR' });
+
+      await expect(
+        service.changePlan('sub-1', { planId: 'plan-pro' })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      expect(prisma.subscription.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('should keep the subscription running until the period ends by default', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(baseSubscription);
+
+      const result = await service.cancelSubscription('sub-1');
+
+      expect(result.status).toBe('ACTIVE');
+      expect(result.cancelAtPeriodEnd).toBe(true);
+      expect(prisma.invoice.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should end the subscription and void open invoices when cancelling now', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...baseSubscription, status: 'PAST_DUE' });
+
+      const result = await service.cancelSubscription('sub-1', { atPeriodEnd: false });
+
+      expect(result.status).toBe('CANCELLED');
+      expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+        where: { subscriptionId: 'sub-1', status: 'OPEN' },
+        data: expect.objectContaining({ status: 'VOID', nextAttemptAt: null }),
+      });
+    });
+  });
+
+  describe('chargeInvoice', () => {
+    it('should schedule a retry and mark the subscription past due', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({
+        id: 'txn-1', status: 'FAILED', failureReason: 'card_declined',
+      });
+      const before = Date.now();
+
+      const paid = await service.chargeInvoice('inv-1');
+
+      expect(paid).toBe(false);
+      const { data } = (prisma.invoice.update as jest.Mock).mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'OPEN', attemptCount: 1, failureReason: 'card_declined' });
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: { in: ['TRIALING', 'ACTIVE', 'PAST_DUE'] } },
+        data: { status: 'PAST_DUE' },
+      });
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'invoice.payment_failed', expect.anything());
+    });
+
+    it('should follow the merchant retry schedule and give up when it runs out', async () => {
+      (prisma.invoice.findUnique as jest.Mock).mockResolvedValue({
+        ...baseInvoice,
+        attemptCount: 1,
+        subscription: { ...baseInvoice.subscription, merchant: { settings: { subscriptionRetryScheduleHours: [12] } } },
+      });
+      (paymentService.createPayment as jest.Mock).mockRejectedValue(new Error('All providers failed'));
+
+      await service.chargeInvoice('inv-1');
+
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'UNCOLLECTIBLE', attemptCount: 2, nextAttemptAt: null }),
+      });
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'UNPAID' } })
+      );
+    });
+
+    it('should cancel payments that need authentication the customer cannot give', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'REQUIRES_ACTION' });
+      (paymentService.cancelPayment as jest.Mock).mockResolvedValue({});
+
+      const paid = await service.chargeInvoice('inv-1');
+
+      expect(paid).toBe(false);
+      expect(paymentService.cancelPayment).toHaveBeenCalledWith('txn-1', 'authentication_required');
+    });
+
+    it('should leave the invoice open without a retry while a bank debit settles', async () => {
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({
+        id: 'txn-1', status: 'PROCESSING', providerTransactionId: 'ach_123',
+      });
+
+      const paid = await service.chargeInvoice('inv-1');
+
+      expect(paid).toBe(false);
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: { attemptCount: 1, transactionId: 'txn-1', nextAttemptAt: null, failureReason: null },
+      });
+      expect(prisma.subscription.updateMany).not.toHaveBeenCalled();
+      expect(merchantWebhookService.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleInvoicePayment', () => {
+    const pendingInvoice = { ...baseInvoice, attemptCount: 1, transactionId: 'txn-1' };
+
+    beforeEach(() => {
+      (prisma.invoice.findUnique as jest.Mock).mockResolvedValue(pendingInvoice);
+    });
+
+    it('should pay the invoice once its bank debit settles', async () => {
+      await service.settleInvoicePayment('inv-1', 'txn-1', 'COMPLETED');
+
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'PAID', amountPaid: 3000n, attemptCount: 1, transactionId: 'txn-1' }),
+      });
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sub-1', status: 'PAST_DUE' },
+        data: { status: 'ACTIVE' },
+      });
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'invoice.paid', expect.anything());
+    });
+
+    it('should schedule a retry when the bank debit is returned', async () => {
+      await service.settleInvoicePayment('inv-1', 'txn-1', 'FAILED', 'R01: Insufficient funds');
+
+      expect(prisma.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({ status: 'OPEN', attemptCount: 1, failureReason: 'R01: Insufficient funds' }),
+      });
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'PAST_DUE' } })
+      );
+      expect(merchantWebhookService.publish).toHaveBeenCalledWith('m-1', 'invoice.payment_failed', expect.anything());
+    });
+
+    it('should ignore payments that are not collecting the invoice', async () => {
+      await service.settleInvoicePayment('inv-1', 'txn-other', 'COMPLETED');
+
+      expect(prisma.invoice.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runBilling', () => {
+    beforeEach(() => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue('lock-token');
+      (prisma.invoice.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should renew due subscriptions and carry proration into the invoice', async () => {
+      const due = {
+        ...baseSubscription,
+        pendingLineItems: [{ description: 'Remaining time on Pro', amount: '500' }],
+      };
+      (prisma.subscription.findMany as jest.Mock).mockResolvedValue([{ id: 'sub-1' }]);
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({ ...due, plan: basePlan });
+      (prisma.subscription.update as jest.Mock).mockImplementation(({ data }) =>
+        Promise.resolve({ ...due, ...data })
+      );
+      (paymentService.createPayment as jest.Mock).mockResolvedValue({ id: 'txn-1', status: 'COMPLETED' });
+
+      const result = await service.runBilling();
+
+      expect(result).toEqual({ renewed: 1, ended: 0, paid: 1, failed: 0 });
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          currentPeriodStart: baseSubscription.currentPeriodEnd,
+          currentPeriodEnd: new Date('2026-02-28T00:00:00Z'),
+        },
+      });
+      expect(prisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 3500n }),
+      });
+      expect(cacheService.releaseLock).toHaveBeenCalledWith('subscription-billing', 'lock-token');
+    });
+
+    it('should end subscriptions set to cancel at period end', async () => {
+      (prisma.subscription.findMany as jest.Mock).mockResolvedValue([{ id: 'sub-1' }]);
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+        ...baseSubscription,
+        cancelAtPeriodEnd: true,
+        plan: basePlan,
+      });
+
+      const result = await service.runBilling();
+
+      expect(result).toEqual({ renewed: 0, ended: 1, paid: 0, failed: 0 });
+      expect(prisma.subscription.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: expect.objectContaining({ status: 'CANCELLED', endedAt: baseSubscription.currentPeriodEnd }),
+      });
+      expect(prisma.invoice.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip the run when another instance holds the lock', async () => {
+      (cacheService.acquireLock as jest.Mock).mockResolvedValue(null);
+
+      const result = await service.runBilling();
+
+      expect(result).toEqual({ renewed: 0, ended: 0, paid: 0, failed: 0 });
+      expect(prisma.subscription.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
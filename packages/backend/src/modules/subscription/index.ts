@@ -0,0 +1,6 @@
+export * from './subscription.types.js';
+export * from './subscription.schemas.js';
+export { subscriptionService, SubscriptionService, addBillingInterval } from './subscription.service.js';
+export { subscriptionController, SubscriptionController } from './subscription.controller.js';
+export { subscriptionRoutes } from './subscription.routes.js';
+export { productRoutes } from './product.routes.js';
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { subscriptionController } from './subscription.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createProductBodySchema,
+  listProductsQuerySchema,
+  createPlanBodySchema,
+  productIdParamSchema,
+} from './subscription.schemas.js';
+
+const router = Router();
+
+/**
+ * POST /api/v1/products
+ * Create a product to sell plans for
+ */
+router.post(
+  '/',
+  validateRequest({ body: createProductBodySchema }),
+  subscriptionController.createProduct.bind(subscriptionController)
+);
+
+/**
+ * GET /api/v1/products
+ * List a merchant's products with their plans
+ */
+router.get(
+  '/',
+  validateRequest({ query: listProductsQuerySchema }),
+  subscriptionController.listProducts.bind(subscriptionController)
+);
+
+/**
+ * GET /api/v1/products/:id
+ * Get a product with its plans
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: productIdParamSchema }),
+  subscriptionController.getProduct.bind(subscriptionController)
+);
+
+/**
+ * POST /api/v1/products/:id/plans
+ * Add a pricing plan to a product
+ */
+router.post(
+  '/:id/plans',
+  validateRequest({ params: productIdParamSchema, body: createPlanBodySchema }),
+  subscriptionController.createPlan.bind(subscriptionController)
+);
+
+export { router as productRoutes };
@@ -0,0 +1,324 @@
+import { Request, Response, NextFunction } from 'express';
+import { BillingInterval, Currency, SubscriptionStatus } from '@prisma/client';
+import { subscriptionService } from './subscription.service.js';
+import {
+  CreateProductBody,
+  ListProductsQuery,
+  CreatePlanBody,
+  CreateSubscriptionBody,
+  ChangePlanBody,
+  CancelSubscriptionBody,
+  ListSubscriptionsQuery,
+  ProductIdParam,
+  SubscriptionIdParam,
+} from './subscription.schemas.js';
+import {
+  InvoiceLineItem,
+  InvoiceResponse,
+  PlanResponse,
+  ProductResponse,
+  SubscriptionResponse,
+} from './subscription.types.js';
+import { AppError } from '../../shared/errors/app-error.js';
+
+export class SubscriptionController {
+  async createProduct(
+    req: Request<unknown, unknown, CreateProductBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const product = await subscriptionService.createProduct({
+        merchantId: req.body.merchantId,
+        name: req.body.name,
+        description: req.body.description,
+        metadata: req.body.metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.formatProduct(product),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listProducts(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListProductsQuery;
+      const products = await subscriptionService.listProducts(query.merchantId, query.isActive);
+
+      res.json({
+        success: true,
+        data: products.map((product) => this.formatProduct(product)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getProduct(
+    req: Request<ProductIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const product = await subscriptionService.getProduct(req.params.id);
+
+      if (!product) {
+        throw AppError.notFound(`Product with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatProduct(product),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createPlan(
+    req: Request<ProductIdParam, unknown, CreatePlanBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const plan = await subscriptionService.createPlan(req.params.id, {
+        name: req.body.name,
+        amount: req.body.amount,
+        currency: req.body.currency as Currency,
+        interval: req.body.interval as BillingInterval,
+        intervalCount: req.body.intervalCount,
+        trialDays: req.body.trialDays,
+        metadata: req.body.metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.formatPlan(plan),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createSubscription(
+    req: Request<unknown, unknown, CreateSubscriptionBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const subscription = await subscriptionService.createSubscription({
+        merchantId: req.body.merchantId,
+        customerId: req.body.customerId,
+        planId: req.body.planId,
+        paymentMethodId: req.body.paymentMethodId,
+        trialDays: req.body.trialDays,
+        metadata: req.body.metadata,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: this.formatSubscription(subscription),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listSubscriptions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as unknown as ListSubscriptionsQuery;
+
+      const result = await subscriptionService.listSubscriptions({
+        merchantId: query.merchantId,
+        customerId: query.customerId,
+        status: query.status as SubscriptionStatus | undefined,
+        page: query.page,
+        limit: query.limit,
+      });
+
+      res.json({
+        success: true,
+        data: result.subscriptions.map((s) => this.formatSubscription(s)),
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSubscription(
+    req: Request<SubscriptionIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const subscription = await subscriptionService.getSubscription(req.params.id);
+
+      if (!subscription) {
+        throw AppError.notFound(`Subscription with ID ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatSubscription(subscription),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changePlan(
+    req: Request<SubscriptionIdParam, unknown, ChangePlanBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const subscription = await subscriptionService.changePlan(req.params.id, {
+        planId: req.body.planId,
+        prorate: req.body.prorate,
+      });
+
+      res.json({
+        success: true,
+        data: this.formatSubscription(subscription),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelSubscription(
+    req: Request<SubscriptionIdParam, unknown, CancelSubscriptionBody>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const subscription = await subscriptionService.cancelSubscription(req.params.id, {
+        atPeriodEnd: req.body.atPeriodEnd,
+      });
+
+      res.json({
+        success: true,
+        data: this.formatSubscription(subscription),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listInvoices(
+    req: Request<SubscriptionIdParam>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const invoices = await subscriptionService.listInvoices(req.params.id);
+
+      res.json({
+        success: true,
+        data: invoices.map((invoice) => this.formatInvoice(invoice)),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private formatProduct(product: ProductResponse) {
+    return {
+      id: product.id,
+      merchantId: product.merchantId,
+      name: product.name,
+      description: product.description,
+      isActive: product.isActive,
+      metadata: product.metadata,
+      plans: product.plans.map((plan) => this.formatPlan(plan)),
+      createdAt: product.createdAt.toISOString(),
+      updatedAt: product.updatedAt.toISOString(),
+    };
+  }
+
+  private formatPlan(plan: PlanResponse) {
+    return {
+      id: plan.id,
+      productId: plan.productId,
+      name: plan.name,
+      amount: plan.amount.toString(),
+      currency: plan.currency,
+      interval: plan.interval,
+      intervalCount: plan.intervalCount,
+      trialDays: plan.trialDays,
+      isActive: plan.isActive,
+      metadata: plan.metadata,
+      createdAt: plan.createdAt.toISOString(),
+      updatedAt: plan.updatedAt.toISOString(),
+    };
+  }
+
+  private formatSubscription(subscription: SubscriptionResponse) {
+    return {
+      id: subscription.id,
+      merchantId: subscription.merchantId,
+      customerId: subscription.customerId,
+      planId: subscription.planId,
+      paymentMethodId: subscription.paymentMethodId,
+      status: subscription.status,
+      currentPeriodStart: subscription.currentPeriodStart.toISOString(),
+      currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+      trialEnd: subscription.trialEnd?.toISOString(),
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      pendingLineItems: subscription.pendingLineItems.map((item) => this.formatLineItem(item)),
+      metadata: subscription.metadata,
+      cancelledAt: subscription.cancelledAt?.toISOString(),
+      endedAt: subscription.endedAt?.toISOString(),
+      createdAt: subscription.createdAt.toISOString(),
+      updatedAt: subscription.updatedAt.toISOString(),
+    };
+  }
+
+  private formatInvoice(invoice: InvoiceResponse) {
+    return {
+      id: invoice.id,
+      subscriptionId: invoice.subscriptionId,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      transactionId: invoice.transactionId,
+      status: invoice.status,
+      amount: invoice.amount.toString(),
+      amountPaid: invoice.amountPaid.toString(),
+      currency: invoice.currency,
+      periodStart: invoice.periodStart.toISOString(),
+      periodEnd: invoice.periodEnd.toISOString(),
+      lineItems: invoice.lineItems.map((item) => this.formatLineItem(item)),
+      attemptCount: invoice.attemptCount,
+      nextAttemptAt: invoice.nextAttemptAt?.toISOString(),
+      failureReason: invoice.failureReason,
+      paidAt: invoice.paidAt?.toISOString(),
+      voidedAt: invoice.voidedAt?.toISOString(),
+      createdAt: invoice.createdAt.toISOString(),
+      updatedAt: invoice.updatedAt.toISOString(),
+    };
+  }
+
+  private formatLineItem(item: InvoiceLineItem) {
+    return {
+      description: item.description,
+      amount: item.amount.toString(),
+      periodStart: item.periodStart?.toISOString(),
+      periodEnd: item.periodEnd?.toISOString(),
+    };
+  }
+}
+
+export const subscriptionController = new SubscriptionController();
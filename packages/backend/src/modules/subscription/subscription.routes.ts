@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { subscriptionController } from './subscription.controller.js';
+import { validateRequest } from '../../shared/middleware/validate-request.js';
+import {
+  createSubscriptionBodySchema,
+  changePlanBodySchema,
+  cancelSubscriptionBodySchema,
+  listSubscriptionsQuerySchema,
+  subscriptionIdParamSchema,
+} from './subscription.schemas.js';
+
+const router = Router();
+
+/**
+ * POST /api/v1/subscriptions
+ * Subscribe a customer to a plan
+ */
+router.post(
+  '/',
+  validateRequest({ body: createSubscriptionBodySchema }),
+  subscriptionController.createSubscription.bind(subscriptionController)
+);
+
+/**
+ * GET /api/v1/subscriptions
+ * List subscriptions with filters
+ */
+router.get(
+  '/',
+  validateRequest({ query: listSubscriptionsQuerySchema }),
+  subscriptionController.listSubscriptions.bind(subscriptionController)
+);
+
+/**
+ * GET /api/v1/subscriptions/:id
+ * Get a subscription by ID
+ */
+router.get(
+  '/:id',
+  validateRequest({ params: subscriptionIdParamSchema }),
+  subscriptionController.getSubscription.bind(subscriptionController)
+);
+
+/**
+ * POST /api/v1/subscriptions/:id/change-plan
+ * Switch to another plan, prorating the current period
+ */
+router.post(
+  '/:id/change-plan',
+  validateRequest({ params: subscriptionIdParamSchema, body: changePlanBodySchema }),
+  subscriptionController.changePlan.bind(subscriptionController)
+);
+
+/**
+ * POST /api/v1/subscriptions/:id/cancel
+ * Cancel now or at the end of the current period
+ */
+router.post(
+  '/:id/cancel',
+  validateRequest({ params: subscriptionIdParamSchema, body: cancelSubscriptionBodySchema }),
+  subscriptionController.cancelSubscription.bind(subscriptionController)
+);
+
+/**
+ * GET /api/v1/subscriptions/:id/invoices
+ * List a subscription's invoices
+ */
+router.get(
+  '/:id/invoices',
+  validateRequest({ params: subscriptionIdParamSchema }),
+  subscriptionController.listInvoices.bind(subscriptionController)
+);
+
+export { router as subscriptionRoutes };
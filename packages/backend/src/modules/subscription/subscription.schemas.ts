@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+const currencyEnum = z.enum([
+  'USD', 'EUR', 'GBP', 'SGD', 'JPY', 'AUD', 'CAD', 'CHF', 'CNY', 'HKD',
+]);
+
+const billingIntervalEnum = z.enum(['DAY', 'WEEK', 'MONTH', 'YEAR']);
+
+const subscriptionStatusEnum = z.enum([
+  'TRIALING', 'ACTIVE', 'PAST_DUE', 'UNPAID', 'CANCELLED',
+]);
+
+export const createProductBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  name: z.string().min(1).max(200),
+  description: z.string().max(500).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const listProductsQuerySchema = z.object({
+  merchantId: z.string().uuid(),
+  isActive: z.preprocess((val) => val === 'true' || val === true, z.boolean()).optional(),
+});
+
+export const createPlanBodySchema = z.object({
+  name: z.string().max(200).optional(),
+  amount: z.coerce.bigint().positive('Amount must be positive'),
+  currency: currencyEnum,
+  interval: billingIntervalEnum,
+  intervalCount: z.number().int().positive().max(365).default(1),
+  trialDays: z.number().int().min(0).max(730).default(0),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const createSubscriptionBodySchema = z.object({
+  merchantId: z.string().uuid(),
+  customerId: z.string().uuid(),
+  planId: z.string().uuid(),
+  paymentMethodId: z.string().uuid().optional(),
+  trialDays: z.number().int().min(0).max(730).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const changePlanBodySchema = z.object({
+  planId: z.string().uuid(),
+  prorate: z.boolean().default(true),
+});
+
+export const cancelSubscriptionBodySchema = z.object({
+  atPeriodEnd: z.boolean().default(true),
+});
+
+export const listSubscriptionsQuerySchema = z.object({
+  merchantId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  status: subscriptionStatusEnum.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const productIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const subscriptionIdParamSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export type CreateProductBody = z.infer<typeof createProductBodySchema>;
+export type ListProductsQuery = z.infer<typeof listProductsQuerySchema>;
+export type CreatePlanBody = z.infer<typeof createPlanBodySchema>;
+export type CreateSubscriptionBody = z.infer<typeof createSubscriptionBodySchema>;
+export type ChangePlanBody = z.infer<typeof changePlanBodySchema>;
+export type CancelSubscriptionBody = z.infer<typeof cancelSubscriptionBodySchema>;
+export type ListSubscriptionsQuery = z.infer<typeof listSubscriptionsQuerySchema>;
+export type ProductIdParam = z.infer<typeof productIdParamSchema>;
+export type SubscriptionIdParam = z.infer<typeof subscriptionIdParamSchema>;
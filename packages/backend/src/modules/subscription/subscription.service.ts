@@ -0,0 +1,1016 @@
+import {
+  BillingInterval,
+  Invoice,
+  InvoiceStatus,
+  Plan,
+  Prisma,
+  Product,
+  Subscription,
+  SubscriptionStatus,
+  TransactionStatus,
+} from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { cacheService } from '../../shared/cache/cache.service.js';
+import { logger } from '../../shared/utils/logger.js';
+import { config } from '../../config/index.js';
+import { paymentService } from '../payment/payment.service.js';
+import { PaymentResponse } from '../payment/payment.types.js';
+import { paymentMethodService } from '../payment-method/payment-method.service.js';
+import { merchantWebhookService } from '../merchant-webhook/merchant-webhook.service.js';
+import { MerchantWebhookEventType } from '../merchant-webhook/merchant-webhook.types.js';
+import {
+  BillingRunResult,
+  CancelSubscriptionRequest,
+  ChangePlanRequest,
+  CreatePlanRequest,
+  CreateProductRequest,
+  CreateSubscriptionRequest,
+  InvoiceLineItem,
+  InvoiceResponse,
+  ListSubscriptionsFilter,
+  PlanResponse,
+  ProductResponse,
+  SubscriptionError,
+  SubscriptionListResponse,
+  SubscriptionResponse,
+} from './subscription.types.js';
+
+const BILLING_LOCK_KEY = 'subscription-billing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Subscriptions that still bill at the end of each period
+const RENEWABLE_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.PAST_DUE,
+];
+
+// An invoice with the merchant settings its dunning schedule comes from
+type BillableInvoice = Prisma.InvoiceGetPayload<{
+  include: { subscription: { include: { merchant: { select: { settings: true } } } } };
+}>;
+
+// Line items are stored as JSON, so amounts and dates are kept as strings
+interface StoredLineItem {
+  description: string;
+  amount: string;
+  periodStart?: string;
+  periodEnd?: string;
+}
+
+/**
+ * Advance a date by a number of billing intervals. Monthly and yearly periods
+ * that start on a day the target month doesn't have end on its last day.
+ */
+export function addBillingInterval(date: Date, interval: BillingInterval, count: number): Date {
+  const next = new Date(date);
+
+  switch (interval) {
+    case BillingInterval.DAY:
+      next.setUTCDate(next.getUTCDate() + count);
+      break;
+    case BillingInterval.WEEK:
+      next.setUTCDate(next.getUTCDate() + count * 7);
+      break;
+    case BillingInterval.MONTH:
+    case BillingInterval.YEAR: {
+      const months = interval === BillingInterval.YEAR ? count * 12 : count;
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + months);
+      const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+
+  return next;
+}
+
+export class SubscriptionService {
+  private static instance: SubscriptionService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  static getInstance(): SubscriptionService {
+    if (!SubscriptionService.instance) {
+      SubscriptionService.instance = new SubscriptionService();
+    }
+    return SubscriptionService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const intervalMs = config.env.SUBSCRIPTION_BILLING_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      void this.runBilling().catch((error: Error) => {
+        logger.error('Subscription billing run failed', { error: error.message });
+      });
+    }, intervalMs);
+
+    logger.info('Subscription billing started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ── Products & plans ──
+
+  async createProduct(request: CreateProductRequest): Promise<ProductResponse> {
+    const merchant = await prisma.merchant.findUnique({
+      where: { id: request.merchantId },
+    });
+
+    if (!merchant || !merchant.isActive) {
+      throw SubscriptionError.merchantNotFound(request.merchantId);
+    }
+
+    const product = await prisma.product.create({
+      data: {
+        merchantId: request.merchantId,
+        name: request.name,
+        description: request.description,
+        metadata: (request.metadata ?? {}) as object,
+      },
+      include: { plans: true },
+    });
+
+    logger.info('Product created', { productId: product.id, merchantId: request.merchantId });
+
+    return this.toProductResponse(product);
+  }
+
+  async getProduct(id: string): Promise<ProductResponse | null> {
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: { plans: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    return product ? this.toProductResponse(product) : null;
+  }
+
+  async listProducts(merchantId: string, isActive?: boolean): Promise<ProductResponse[]> {
+    const products = await prisma.product.findMany({
+      where: { merchantId, ...(isActive !== undefined ? { isActive } : {}) },
+      include: { plans: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return products.map((product) => this.toProductResponse(product));
+  }
+
+  async createPlan(productId: string, request: CreatePlanRequest): Promise<PlanResponse> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) {
+      throw SubscriptionError.productNotFound(productId);
+    }
+
+    const plan = await prisma.plan.create({
+      data: {
+        productId,
+        name: request.name,
+        amount: request.amount,
+        currency: request.currency,
+        interval: request.interval,
+        intervalCount: request.intervalCount ?? 1,
+        trialDays: request.trialDays ?? 0,
+        metadata: (request.metadata ?? {}) as object,
+      },
+    });
+
+    logger.info('Plan created', {
+      planId: plan.id,
+      productId,
+      amount: plan.amount.toString(),
+      interval: plan.interval,
+    });
+
+    return this.toPlanResponse(plan);
+  }
+
+  // ── Subscriptions ──
+
+  /**
+   * Subscribe a customer to a plan. Without a trial the first period is
+   * invoiced and charged straight away; a failed first charge enters dunning
+   * like any other invoice.
+   */
+  async createSubscription(request: CreateSubscriptionRequest): Promise<SubscriptionResponse> {
+    const plan = await this.getActivePlan(request.planId, request.merchantId);
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: request.customerId },
+    });
+
+    if (!customer || !customer.isActive || customer.merchantId !== request.merchantId) {
+      throw SubscriptionError.customerNotFound(request.customerId);
+    }
+
+    const paymentMethod = await paymentMethodService.getChargeableMethod(
+      request.customerId,
+      request.paymentMethodId
+    );
+
+    const now = new Date();
+    const trialDays = request.trialDays ?? plan.trialDays;
+    const trialEnd = trialDays > 0 ? new Date(now.getTime() + trialDays * DAY_MS) : undefined;
+
+    const { subscription, invoice } = await prisma.$transaction(async (tx) => {
+      const subscription = await tx.subscription.create({
+        data: {
+          merchantId: request.merchantId,
+          customerId: request.customerId,
+          planId: plan.id,
+          paymentMethodId: paymentMethod.id,
+          status: trialEnd ? SubscriptionStatus.TRIALING : SubscriptionStatus.ACTIVE,
+          currentPeriodStart: now,
+          currentPeriodEnd: trialEnd ?? addBillingInterval(now, plan.interval, plan.intervalCount),
+          trialEnd,
+          metadata: (request.metadata ?? {}) as object,
+        },
+      });
+
+      const invoice = trialEnd ? null : await this.createInvoice(tx, subscription, plan);
+
+      return { subscription, invoice };
+    });
+
+    logger.info('Subscription created', {
+      subscriptionId: subscription.id,
+      planId: plan.id,
+      customerId: request.customerId,
+      status: subscription.status,
+    });
+
+    if (invoice?.status === InvoiceStatus.OPEN) {
+      await this.chargeInvoice(invoice.id);
+    }
+
+    const current = await prisma.subscription.findUnique({
+      where: { id: subscription.id },
+    });
+
+    return this.toSubscriptionResponse(current ?? subscription);
+  }
+
+  async getSubscription(id: string): Promise<SubscriptionResponse | null> {
+    const subscription = await prisma.subscription.findUnique({
+      where: { id },
+    });
+
+    return subscription ? this.toSubscriptionResponse(subscription) : null;
+  }
+
+  async listSubscriptions(filter: ListSubscriptionsFilter): Promise<SubscriptionListResponse> {
+    const page = filter.page ?? 1;
+    const limit = filter.limit ?? 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.SubscriptionWhereInput = {};
+    if (filter.merchantId) where.merchantId = filter.merchantId;
+    if (filter.customerId) where.customerId = filter.customerId;
+    if (filter.status) where.status = filter.status;
+
+    const [subscriptions, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.subscription.count({ where }),
+    ]);
+
+    return {
+      subscriptions: subscriptions.map((s) => this.toSubscriptionResponse(s)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async listInvoices(subscriptionId: string): Promise<InvoiceResponse[]> {
+    const invoices = await prisma.invoice.findMany({
+      where: { subscriptionId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invoices.map((invoice) => this.toInvoiceResponse(invoice));
+  }
+
+  /**
+   * Move a subscription to another plan of the same merchant. The billing
+   * period is kept; with proration the unused time on the old plan is credited
+   * and the rest of the period on the new plan is charged on the next invoice.
+   */
+  async changePlan(id: string, request: ChangePlanRequest): Promise<SubscriptionResponse> {
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM subscriptions WHERE id = ${id} FOR UPDATE`;
+
+      const subscription = await tx.subscription.findUnique({
+        where: { id },
+        include: { plan: true },
+      });
+
+      if (!subscription) {
+        throw SubscriptionError.notFound(id);
+      }
+
+      if (!RENEWABLE_STATUSES.includes(subscription.status)) {
+        throw SubscriptionError.invalidStatus(id, subscription.status, 'change the plan of');
+      }
+
+      const plan = await this.getActivePlan(request.planId, subscription.merchantId, tx);
+
+      if (plan.id === subscription.planId) {
+        throw SubscriptionError.invalidRequest(`Subscription is already on plan ${plan.id}`, id);
+      }
+      if (plan.currency !== subscription.plan.currency) {
+        throw SubscriptionError.invalidRequest('The new plan must be billed in the same currency', id);
+      }
+      if (plan.interval !== subscription.plan.interval || plan.intervalCount !== subscription.plan.intervalCount) {
+        throw SubscriptionError.invalidRequest('The new plan must bill on the same interval', id);
+      }
+
+      const pendingLineItems = this.parseLineItems(subscription.pendingLineItems);
+
+      // Trials are free, so there is nothing to prorate until the first paid period
+      if (request.prorate !== false && subscription.status !== SubscriptionStatus.TRIALING) {
+        pendingLineItems.push(...this.prorate(subscription, subscription.plan, plan, new Date()));
+      }
+
+      return tx.subscription.update({
+        where: { id },
+        data: {
+          planId: plan.id,
+          pendingLineItems: this.serializeLineItems(pendingLineItems),
+        },
+      });
+    });
+
+    logger.info('Subscription plan changed', {
+      subscriptionId: id,
+      planId: request.planId,
+      prorate: request.prorate !== false,
+    });
+
+    return this.toSubscriptionResponse(updated);
+  }
+
+  /**
+   * Cancel a subscription, by default once the current period ends. Cancelling
+   * immediately voids any invoices still being retried.
+   */
+  async cancelSubscription(id: string, request: CancelSubscriptionRequest = {}): Promise<SubscriptionResponse> {
+    const cancelled = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM subscriptions WHERE id = ${id} FOR UPDATE`;
+
+      const subscription = await tx.subscription.findUnique({
+        where: { id },
+      });
+
+      if (!subscription) {
+        throw SubscriptionError.notFound(id);
+      }
+
+      if (subscription.status === SubscriptionStatus.CANCELLED) {
+        throw SubscriptionError.invalidStatus(id, subscription.status, 'cancel');
+      }
+
+      const now = new Date();
+
+      // Unpaid subscriptions no longer renew, so there is no period end to wait for
+      if (request.atPeriodEnd !== false && subscription.status !== SubscriptionStatus.UNPAID) {
+        return tx.subscription.update({
+          where: { id },
+          data: { cancelAtPeriodEnd: true, cancelledAt: now },
+        });
+      }
+
+      await this.voidOpenInvoices(tx, id, now);
+
+      return tx.subscription.update({
+        where: { id },
+        data: {
+          status: SubscriptionStatus.CANCELLED,
+          cancelledAt: now,
+          endedAt: now,
+        },
+      });
+    });
+
+    logger.info('Subscription cancelled', {
+      subscriptionId: id,
+      atPeriodEnd: cancelled.status !== SubscriptionStatus.CANCELLED,
+    });
+
+    return this.toSubscriptionResponse(cancelled);
+  }
+
+  // ── Billing ──
+
+  /**
+   * Renew subscriptions whose period has ended and retry invoices that are due
+   * under the dunning schedule. Only one instance bills at a time.
+   */
+  async runBilling(): Promise<BillingRunResult> {
+    const result: BillingRunResult = { renewed: 0, ended: 0, paid: 0, failed: 0 };
+
+    const lockToken = await cacheService.acquireLock(
+      BILLING_LOCK_KEY,
+      config.env.SUBSCRIPTION_BILLING_INTERVAL_MS
+    );
+
+    if (!lockToken) {
+      logger.debug('Subscription billing already running on another instance');
+      return result;
+    }
+
+    try {
+      const now = new Date();
+
+      const due = await prisma.subscription.findMany({
+        where: {
+          status: { in: RENEWABLE_STATUSES },
+          currentPeriodEnd: { lte: now },
+        },
+        select: { id: true },
+        orderBy: { currentPeriodEnd: 'asc' },
+        take: config.env.SUBSCRIPTION_BILLING_BATCH_SIZE,
+      });
+
+      for (const { id } of due) {
+        try {
+          const renewal = await this.advancePeriod(id, now);
+
+          if (renewal.outcome === 'ended') {
+            result.ended++;
+          } else if (renewal.outcome === 'renewed') {
+            result.renewed++;
+            if (renewal.invoice?.status === InvoiceStatus.OPEN) {
+              if (await this.chargeInvoice(renewal.invoice.id)) {
+                result.paid++;
+              } else {
+                result.failed++;
+              }
+            }
+          }
+        } catch (error) {
+          logger.warn('Failed to renew subscription', {
+            subscriptionId: id,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      const retries = await prisma.invoice.findMany({
+        where: {
+          status: InvoiceStatus.OPEN,
+          nextAttemptAt: { lte: now },
+        },
+        select: { id: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: config.env.SUBSCRIPTION_BILLING_BATCH_SIZE,
+      });
+
+      for (const { id } of retries) {
+        try {
+          if (await this.chargeInvoice(id)) {
+            result.paid++;
+          } else {
+            result.failed++;
+          }
+        } catch (error) {
+          logger.warn('Failed to retry invoice', {
+            invoiceId: id,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      if (result.renewed || result.ended || result.paid || result.failed) {
+        logger.info('Subscription billing completed', { ...result });
+      }
+
+      return result;
+    } finally {
+      await cacheService.releaseLock(BILLING_LOCK_KEY, lockToken);
+    }
+  }
+
+  /**
+   * Attempt to collect an open invoice with the subscription's payment method.
+   * Failures are retried on the merchant's dunning schedule; once it runs out
+   * the invoice is marked uncollectible and the subscription unpaid. A bank
+   * debit the provider accepted stays open until its webhook settles it.
+   * Returns whether the invoice was paid.
+   */
+  async chargeInvoice(invoiceId: string): Promise<boolean> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        subscription: { include: { merchant: { select: { settings: true } } } },
+      },
+    });
+
+    if (!invoice || invoice.status !== InvoiceStatus.OPEN) {
+      return false;
+    }
+
+    const attempt = invoice.attemptCount + 1;
+    let payment: PaymentResponse | undefined;
+    let failureReason: string | undefined;
+
+    try {
+      payment = await paymentService.createPayment({
+        merchantId: invoice.merchantId,
+        customerId: invoice.customerId,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        paymentMethodId: invoice.subscription.paymentMethodId,
+        description: `Invoice ${invoice.id}`,
+        metadata: { invoiceId: invoice.id, subscriptionId: invoice.subscriptionId },
+        idempotencyKey: `invoice_${invoice.id}_${attempt}`,
+      });
+
+      if (payment.status !== TransactionStatus.COMPLETED) {
+        failureReason = payment.failureReason ?? `Payment ended in status ${payment.status}`;
+      }
+    } catch (error) {
+      failureReason = (error as Error).message;
+    }
+
+    // Bank debits take days to settle; no retry is scheduled while one is in flight
+    if (payment?.status === TransactionStatus.PROCESSING && payment.providerTransactionId) {
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          attemptCount: attempt,
+          transactionId: payment.id,
+          nextAttemptAt: null,
+          failureReason: null,
+        },
+      });
+
+      logger.info('Invoice payment awaiting settlement', {
+        invoiceId: invoice.id,
+        subscriptionId: invoice.subscriptionId,
+        transactionId: payment.id,
+      });
+      return false;
+    }
+
+    // Renewals run without the customer present, so a 3-D Secure challenge can't be completed
+    if (payment?.status === TransactionStatus.REQUIRES_ACTION) {
+      await paymentService.cancelPayment(payment.id, 'authentication_required').catch((error: Error) => {
+        logger.warn('Failed to cancel invoice payment awaiting authentication', {
+          invoiceId: invoice.id,
+          transactionId: payment?.id,
+          error: error.message,
+        });
+      });
+    }
+
+    if (failureReason === undefined && payment) {
+      await this.markInvoicePaid(invoice, attempt, payment.id);
+      return true;
+    }
+
+    await this.markInvoicePaymentFailed(invoice, attempt, failureReason ?? 'Payment failed', payment?.id);
+    return false;
+  }
+
+  /**
+   * Pay or fail an invoice whose bank debit was awaiting settlement, once the
+   * provider reports the payment completed or failed. Payments that aren't
+   * collecting an open invoice are ignored.
+   */
+  async settleInvoicePayment(
+    invoiceId: string,
+    transactionId: string,
+    status: TransactionStatus,
+    failureReason?: string
+  ): Promise<void> {
+    if (status !== TransactionStatus.COMPLETED && status !== TransactionStatus.FAILED) {
+      return;
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        subscription: { include: { merchant: { select: { settings: true } } } },
+      },
+    });
+
+    if (!invoice || invoice.status !== InvoiceStatus.OPEN || invoice.transactionId !== transactionId) {
+      return;
+    }
+
+    if (status === TransactionStatus.COMPLETED) {
+      await this.markInvoicePaid(invoice, invoice.attemptCount, transactionId);
+    } else {
+      await this.markInvoicePaymentFailed(
+        invoice,
+        invoice.attemptCount,
+        failureReason ?? 'Bank debit failed',
+        transactionId
+      );
+    }
+  }
+
+  private async markInvoicePaid(invoice: BillableInvoice, attempt: number, transactionId: string): Promise<void> {
+    const paid = await prisma.$transaction(async (tx) => {
+      const paid = await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: InvoiceStatus.PAID,
+          amountPaid: invoice.amount,
+          attemptCount: attempt,
+          transactionId,
+          nextAttemptAt: null,
+          failureReason: null,
+          paidAt: new Date(),
+        },
+      });
+
+      const stillOpen = await tx.invoice.count({
+        where: { subscriptionId: invoice.subscriptionId, status: InvoiceStatus.OPEN },
+      });
+
+      if (stillOpen === 0) {
+        await tx.subscription.updateMany({
+          where: { id: invoice.subscriptionId, status: SubscriptionStatus.PAST_DUE },
+          data: { status: SubscriptionStatus.ACTIVE },
+        });
+      }
+
+      return paid;
+    });
+
+    logger.info('Invoice paid', {
+      invoiceId: invoice.id,
+      subscriptionId: invoice.subscriptionId,
+      transactionId,
+    });
+
+    await this.publishInvoiceEvent('invoice.paid', paid);
+  }
+
+  private async markInvoicePaymentFailed(
+    invoice: BillableInvoice,
+    attempt: number,
+    failureReason: string,
+    transactionId?: string
+  ): Promise<void> {
+    const schedule = this.getRetryScheduleHours(invoice.subscription.merchant.settings);
+    const retryInHours = schedule[attempt - 1];
+
+    const failed = await prisma.$transaction(async (tx) => {
+      const failed = await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          status: retryInHours !== undefined ? InvoiceStatus.OPEN : InvoiceStatus.UNCOLLECTIBLE,
+          attemptCount: attempt,
+          transactionId: transactionId ?? invoice.transactionId,
+          failureReason,
+          nextAttemptAt: retryInHours !== undefined ? new Date(Date.now() + retryInHours * HOUR_MS) : null,
+        },
+      });
+
+      await tx.subscription.updateMany({
+        where: { id: invoice.subscriptionId, status: { in: RENEWABLE_STATUSES } },
+        data: {
+          status: retryInHours !== undefined ? SubscriptionStatus.PAST_DUE : SubscriptionStatus.UNPAID,
+        },
+      });
+
+      return failed;
+    });
+
+    logger.warn('Invoice payment failed', {
+      invoiceId: invoice.id,
+      subscriptionId: invoice.subscriptionId,
+      attempt,
+      failureReason,
+      nextAttemptAt: failed.nextAttemptAt?.toISOString(),
+    });
+
+    await this.publishInvoiceEvent('invoice.payment_failed', failed);
+  }
+
+  /**
+   * Close out a subscription's current period: end it if it was set to cancel,
+   * otherwise start the next period and invoice it.
+   */
+  private async advancePeriod(
+    id: string,
+    now: Date
+  ): Promise<{ outcome: 'renewed' | 'ended' | 'skipped'; invoice?: Invoice }> {
+    return prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM subscriptions WHERE id = ${id} FOR UPDATE`;
+
+      const subscription = await tx.subscription.findUnique({
+        where: { id },
+        include: { plan: true },
+      });
+
+      // Another instance or an API call may have moved it on since it was listed
+      if (
+        !subscription ||
+        !RENEWABLE_STATUSES.includes(subscription.status) ||
+        subscription.currentPeriodEnd > now
+      ) {
+        return { outcome: 'skipped' as const };
+      }
+
+      if (subscription.cancelAtPeriodEnd) {
+        await this.voidOpenInvoices(tx, id, now);
+        await tx.subscription.update({
+          where: { id },
+          data: {
+            status: SubscriptionStatus.CANCELLED,
+            cancelledAt: subscription.cancelledAt ?? now,
+            endedAt: subscription.currentPeriodEnd,
+          },
+        });
+        return { outcome: 'ended' as const };
+      }
+
+      const periodStart = subscription.currentPeriodEnd;
+      const periodEnd = addBillingInterval(
+        periodStart,
+        subscription.plan.interval,
+        subscription.plan.intervalCount
+      );
+
+      const renewed = await tx.subscription.update({
+        where: { id },
+        data: {
+          currentPeriodStart: periodStart,
+          currentPeriodEnd: periodEnd,
+          ...(subscription.status === SubscriptionStatus.TRIALING
+            ? { status: SubscriptionStatus.ACTIVE }
+            : {}),
+        },
+      });
+
+      const invoice = await this.createInvoice(tx, renewed, subscription.plan);
+      return { outcome: 'renewed' as const, invoice };
+    });
+  }
+
+  /**
+   * Invoice the subscription's current period along with any pending proration.
+   * A credit larger than the invoice is carried forward to the next one.
+   */
+  private async createInvoice(
+    tx: Prisma.TransactionClient,
+    subscription: Subscription,
+    plan: Plan
+  ): Promise<Invoice> {
+    const lineItems: InvoiceLineItem[] = [
+      {
+        description: plan.name ?? 'Subscription',
+        amount: plan.amount,
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+      },
+      ...this.parseLineItems(subscription.pendingLineItems),
+    ];
+
+    let amount = lineItems.reduce((sum, item) => sum + item.amount, 0n);
+    const carriedForward: InvoiceLineItem[] = [];
+
+    if (amount < 0n) {
+      lineItems.push({ description: 'Credit carried forward to the next invoice', amount: -amount });
+      carriedForward.push({ description: 'Credit from the previous invoice', amount });
+      amount = 0n;
+    }
+
+    const invoice = await tx.invoice.create({
+      data: {
+        subscriptionId: subscription.id,
+        merchantId: subscription.merchantId,
+        customerId: subscription.customerId,
+        status: amount === 0n ? InvoiceStatus.PAID : InvoiceStatus.OPEN,
+        amount,
+        currency: plan.currency,
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+        lineItems: this.serializeLineItems(lineItems),
+        paidAt: amount === 0n ? new Date() : null,
+      },
+    });
+
+    await tx.subscription.update({
+      where: { id: subscription.id },
+      data: { pendingLineItems: this.serializeLineItems(carriedForward) },
+    });
+
+    logger.info('Invoice created', {
+      invoiceId: invoice.id,
+      subscriptionId: subscription.id,
+      amount: amount.toString(),
+    });
+
+    return invoice;
+  }
+
+  /**
+   * Credit the unused share of the old plan and charge the same share of the
+   * new one, measured from now to the end of the current period.
+   */
+  private prorate(subscription: Subscription, fromPlan: Plan, toPlan: Plan, now: Date): InvoiceLineItem[] {
+    const periodEnd = subscription.currentPeriodEnd;
+    const total = BigInt(periodEnd.getTime() - subscription.currentPeriodStart.getTime());
+    const remaining = BigInt(Math.max(0, periodEnd.getTime() - now.getTime()));
+
+    if (total <= 0n || remaining === 0n) {
+      return [];
+    }
+
+    return [
+      {
+        description: `Unused time on ${fromPlan.name ?? fromPlan.id}`,
+        amount: -((fromPlan.amount * remaining) / total),
+        periodStart: now,
+        periodEnd,
+      },
+      {
+        description: `Remaining time on ${toPlan.name ?? toPlan.id}`,
+        amount: (toPlan.amount * remaining) / total,
+        periodStart: now,
+        periodEnd,
+      },
+    ];
+  }
+
+  private async voidOpenInvoices(tx: Prisma.TransactionClient, subscriptionId: string, now: Date): Promise<void> {
+    await tx.invoice.updateMany({
+      where: { subscriptionId, status: InvoiceStatus.OPEN },
+      data: { status: InvoiceStatus.VOID, voidedAt: now, nextAttemptAt: null },
+    });
+  }
+
+  private async getActivePlan(
+    planId: string,
+    merchantId: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<Plan> {
+    const plan = await tx.plan.findUnique({
+      where: { id: planId },
+      include: { product: true },
+    });
+
+    if (!plan || !plan.isActive || !plan.product.isActive || plan.product.merchantId !== merchantId) {
+      throw SubscriptionError.planNotFound(planId);
+    }
+
+    return plan;
+  }
+
+  private getRetryScheduleHours(merchantSettings: unknown): number[] {
+    const configured = (merchantSettings as Record<string, unknown> | null)?.subscriptionRetryScheduleHours;
+    return Array.isArray(configured) && configured.every((hours) => typeof hours === 'number' && hours > 0)
+      ? (configured as number[])
+      : config.env.SUBSCRIPTION_RETRY_SCHEDULE_HOURS;
+  }
+
+  /**
+   * Never throws: a webhook failure must not undo the billing outcome.
+   */
+  private async publishInvoiceEvent(type: MerchantWebhookEventType, invoice: Invoice): Promise<void> {
+    try {
+      await merchantWebhookService.publish(invoice.merchantId, type, {
+        id: invoice.id,
+        subscriptionId: invoice.subscriptionId,
+        customerId: invoice.customerId,
+        transactionId: invoice.transactionId,
+        status: invoice.status,
+        amount: invoice.amount.toString(),
+        currency: invoice.currency,
+        attemptCount: invoice.attemptCount,
+        nextAttemptAt: invoice.nextAttemptAt?.toISOString() ?? null,
+        failureReason: invoice.failureReason,
+      });
+    } catch (error) {
+      logger.error('Failed to publish invoice webhook event', {
+        invoiceId: invoice.id,
+        type,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private serializeLineItems(items: InvoiceLineItem[]): Prisma.InputJsonValue {
+    return items.map((item): StoredLineItem => ({
+      description: item.description,
+      amount: item.amount.toString(),
+      ...(item.periodStart ? { periodStart: item.periodStart.toISOString() } : {}),
+      ...(item.periodEnd ? { periodEnd: item.periodEnd.toISOString() } : {}),
+    })) as unknown as Prisma.InputJsonValue;
+  }
+
+  private parseLineItems(value: Prisma.JsonValue): InvoiceLineItem[] {
+    return ((value ?? []) as unknown as StoredLineItem[]).map((item) => ({
+      description: item.description,
+      amount: BigInt(item.amount),
+      periodStart: item.periodStart ? new Date(item.periodStart) : undefined,
+      periodEnd: item.periodEnd ? new Date(item.periodEnd) : undefined,
+    }));
+  }
+
+  private toPlanResponse(plan: Plan): PlanResponse {
+    return {
+      id: plan.id,
+      productId: plan.productId,
+      name: plan.name,
+      amount: plan.amount,
+      currency: plan.currency,
+      interval: plan.interval,
+      intervalCount: plan.intervalCount,
+      trialDays: plan.trialDays,
+      isActive: plan.isActive,
+      metadata: plan.metadata as Record<string, unknown>,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt,
+    };
+  }
+
+  private toProductResponse(product: Product & { plans: Plan[] }): ProductResponse {
+    return {
+      id: product.id,
+      merchantId: product.merchantId,
+      name: product.name,
+      description: product.description,
+      isActive: product.isActive,
+      metadata: product.metadata as Record<string, unknown>,
+      plans: product.plans.map((plan) => this.toPlanResponse(plan)),
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt,
+    };
+  }
+
+  private toSubscriptionResponse(subscription: Subscription): SubscriptionResponse {
+    return {
+      id: subscription.id,
+      merchantId: subscription.merchantId,
+      customerId: subscription.customerId,
+      planId: subscription.planId,
+      paymentMethodId: subscription.paymentMethodId,
+      status: subscription.status,
+      currentPeriodStart: subscription.currentPeriodStart,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      trialEnd: subscription.trialEnd ?? undefined,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      pendingLineItems: this.parseLineItems(subscription.pendingLineItems),
+      metadata: subscription.metadata as Record<string, unknown>,
+      cancelledAt: subscription.cancelledAt ?? undefined,
+      endedAt: subscription.endedAt ?? undefined,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+
+  private toInvoiceResponse(invoice: Invoice): InvoiceResponse {
+    return {
+      id: invoice.id,
+      subscriptionId: invoice.subscriptionId,
+      merchantId: invoice.merchantId,
+      customerId: invoice.customerId,
+      transactionId: invoice.transactionId ?? undefined,
+      status: invoice.status,
+      amount: invoice.amount,
+      amountPaid: invoice.amountPaid,
+      currency: invoice.currency,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      lineItems: this.parseLineItems(invoice.lineItems),
+      attemptCount: invoice.attemptCount,
+      nextAttemptAt: invoice.nextAttemptAt ?? undefined,
+      failureReason: invoice.failureReason ?? undefined,
+      paidAt: invoice.paidAt ?? undefined,
+      voidedAt: invoice.voidedAt ?? undefined,
+      createdAt: invoice.createdAt,
+      updatedAt: invoice.updatedAt,
+    };
+  }
+}
+
+export const subscriptionService = SubscriptionService.getInstance();
@@ -0,0 +1,193 @@
+import { BillingInterval, Currency, InvoiceStatus, SubscriptionStatus } from '@prisma/client';
+
+export interface CreateProductRequest {
+  merchantId: string;
+  name: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreatePlanRequest {
+  name?: string;
+  amount: bigint;
+  currency: Currency;
+  interval: BillingInterval;
+  intervalCount?: number;
+  trialDays?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PlanResponse {
+  id: string;
+  productId: string;
+  name: string | null;
+  amount: bigint;
+  currency: Currency;
+  interval: BillingInterval;
+  intervalCount: number;
+  trialDays: number;
+  isActive: boolean;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductResponse {
+  id: string;
+  merchantId: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  metadata: Record<string, unknown>;
+  plans: PlanResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSubscriptionRequest {
+  merchantId: string;
+  customerId: string;
+  planId: string;
+  /** Saved method to bill; defaults to the customer's default method */
+  paymentMethodId?: string;
+  /** Overrides the plan's trial length */
+  trialDays?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChangePlanRequest {
+  planId: string;
+  /** Credit unused time on the old plan and charge the new plan for the rest of the period */
+  prorate?: boolean;
+}
+
+export interface CancelSubscriptionRequest {
+  /** Keep the subscription running until the current period ends */
+  atPeriodEnd?: boolean;
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  amount: bigint;
+  periodStart?: Date;
+  periodEnd?: Date;
+}
+
+export interface SubscriptionResponse {
+  id: string;
+  merchantId: string;
+  customerId: string;
+  planId: string;
+  paymentMethodId: string;
+  status: SubscriptionStatus;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  trialEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  /** Proration adjustments waiting for the next invoice */
+  pendingLineItems: InvoiceLineItem[];
+  metadata: Record<string, unknown>;
+  cancelledAt?: Date;
+  endedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InvoiceResponse {
+  id: string;
+  subscriptionId: string;
+  merchantId: string;
+  customerId: string;
+  transactionId?: string;
+  status: InvoiceStatus;
+  amount: bigint;
+  amountPaid: bigint;
+  currency: Currency;
+  periodStart: Date;
+  periodEnd: Date;
+  lineItems: InvoiceLineItem[];
+  attemptCount: number;
+  nextAttemptAt?: Date;
+  failureReason?: string;
+  paidAt?: Date;
+  voidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ListSubscriptionsFilter {
+  merchantId?: string;
+  customerId?: string;
+  status?: SubscriptionStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface SubscriptionListResponse {
+  subscriptions: SubscriptionResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface BillingRunResult {
+  renewed: number;
+  ended: number;
+  paid: number;
+  failed: number;
+}
+
+export class SubscriptionError extends Error {
+  public readonly code: string;
+  public readonly subscriptionId?: string;
+
+  constructor(message: string, code: string, subscriptionId?: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+    this.code = code;
+    this.subscriptionId = subscriptionId;
+  }
+
+  static invalidRequest(message: string, subscriptionId?: string): SubscriptionError {
+    return new SubscriptionError(message, 'INVALID_REQUEST', subscriptionId);
+  }
+
+  static notFound(subscriptionId: string): SubscriptionError {
+    return new SubscriptionError(
+      `Subscription ${subscriptionId} not found`,
+      'NOT_FOUND',
+      subscriptionId
+    );
+  }
+
+  static merchantNotFound(merchantId: string): SubscriptionError {
+    return new SubscriptionError(`Merchant ${merchantId} not found`, 'MERCHANT_NOT_FOUND');
+  }
+
+  static productNotFound(productId: string): SubscriptionError {
+    return new SubscriptionError(`Product ${productId} not found`, 'PRODUCT_NOT_FOUND');
+  }
+
+  static planNotFound(planId: string): SubscriptionError {
+    return new SubscriptionError(`Plan ${planId} not found or inactive`, 'PLAN_NOT_FOUND');
+  }
+
+  static customerNotFound(customerId: string): SubscriptionError {
+    return new SubscriptionError(`Customer ${customerId} not found`, 'CUSTOMER_NOT_FOUND');
+  }
+
+  static invalidStatus(
+    subscriptionId: string,
+    currentStatus: SubscriptionStatus,
+    action: string
+  ): SubscriptionError {
+    return new SubscriptionError(
+      `Cannot ${action} subscription ${subscriptionId} in status ${currentStatus}`,
+      'INVALID_STATUS',
+      subscriptionId
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { Prisma } from '@prisma/client';
+import { TransactionStateService } from '../transaction-state.service';
+import { TransactionStateError } from '../transaction-state.types';
+
+jest.mock('../../../shared/database/prisma', () => ({
+  prisma: {
+    transaction: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    transactionStatusHistory: { create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../merchant-webhook/merchant-webhook.service', () => ({
+  merchantWebhookService: { publishTransactionStatus: jest.fn() },
+}));
+
+jest.mock('../../../shared/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { prisma } from '../../../shared/database/prisma';
+import { merchantWebhookService } from '../../merchant-webhook/merchant-webhook.service';
+
+const payment = { id: 'txn-1', type: 'PAYMENT', status: 'PENDING' };
+
+describe('TransactionStateService', () => {
+  let service: TransactionStateService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (TransactionStateService as any).instance = null;
+    service = TransactionStateService.getInstance();
+
+    (prisma.$transaction as jest.Mock).mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(payment);
+    (prisma.transaction.update as jest.Mock).mockImplementation(({ where, data }) =>
+      Promise.resolve({ ...payment, id: where.id, ...data })
+    );
+  });
+
+  describe('canTransition', () => {
+    it('should follow the table for each transaction type', () => {
+      expect(service.canTransition('PAYMENT', 'PENDING', 'COMPLETED')).toBe(true);
+      expect(service.canTransition('PAYMENT', 'COMPLETED', 'PARTIALLY_REFUNDED')).toBe(true);
+      expect(service.canTransition('PAYMENT', 'REFUNDED', 'COMPLETED')).toBe(false);
+      expect(service.canTransition('PAYMENT', 'FAILED', 'COMPLETED')).toBe(false);
+      expect(service.canTransition('PAYMENT', 'REQUIRES_ACTION', 'COMPLETED')).toBe(true);
+      expect(service.canTransition('REFUND', 'PENDING', 'REFUNDED')).toBe(false);
+      expect(service.canTransition('TRANSFER', 'COMPLETED', 'REFUNDED')).toBe(true);
+    });
+
+    it('should always allow staying in the same status', () => {
+      expect(service.canTransition('PAYMENT', 'CANCELLED', 'CANCELLED')).toBe(true);
+    });
+  });
+
+  describe('transition', () => {
+    it('should update the status and write history in one transaction', async () => {
+      const result = await service.transition({
+        transactionId: 'txn-1',
+        to: 'COMPLETED',
+        reason: 'captured',
+        data: { capturedAmount: 10000n },
+      });
+
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(prisma.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'txn-1', status: 'PENDING' },
+        data: { capturedAmount: 10000n, status: 'COMPLETED' },
+      });
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ transactionId: 'txn-1', fromStatus: 'PENDING', toStatus: 'COMPLETED', reason: 'captured' }),
+      });
+      expect(merchantWebhookService.publishTransactionStatus).toHaveBeenCalledWith('txn-1', 'COMPLETED');
+      expect(result.status).toBe('COMPLETED');
+    });
+
+    it('should reject illegal transitions without writing', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...payment, status: 'REFUNDED' });
+
+      await expect(
+        service.transition({ transactionId: 'txn-1', to: 'COMPLETED' })
+      ).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+      expect(prisma.transactionStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject transactions not in the expected status', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue({ ...payment, status: 'PROCESSING' });
+
+      await expect(
+        service.transition({ transactionId: 'txn-1', from: 'PENDING', to: 'CANCELLED' })
+      ).rejects.toMatchObject({ code: 'UNEXPECTED_STATUS' });
+      expect(prisma.transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should only update columns when the status does not change', async () => {
+      await service.transition({ transactionId: 'txn-1', to: 'PENDING', data: { description: 'updated' } });
+
+      expect(prisma.transaction.update).toHaveBeenCalled();
+      expect(prisma.transactionStatusHistory.create).not.toHaveBeenCalled();
+      expect(merchantWebhookService.publishTransactionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should report a concurrent status change', async () => {
+      (prisma.transaction.update as jest.Mock).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Record not found', { code: 'P2025', clientVersion: 'test' })
+      );
+
+      await expect(
+        service.transition({ transactionId: 'txn-1', to: 'FAILED' })
+      ).rejects.toMatchObject({ code: 'CONCURRENT_MODIFICATION' });
+      expect(prisma.transactionStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('should join the caller transaction and leave publishing to the caller', async () => {
+      await service.transition({ transactionId: 'txn-1', to: 'FAILED' }, prisma as unknown as Prisma.TransactionClient);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalled();
+      expect(merchantWebhookService.publishTransactionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the transaction does not exist', async () => {
+      (prisma.transaction.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        service.transition({ transactionId: 'missing', to: 'FAILED' })
+      ).rejects.toThrow(TransactionStateError);
+    });
+  });
+
+  describe('recordCreated', () => {
+    it('should write the opening history entry', async () => {
+      await service.recordCreated({ id: 'txn-1', type: 'PAYMENT', status: 'PENDING' });
+
+      expect(prisma.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: { transactionId: 'txn-1', fromStatus: null, toStatus: 'PENDING' },
+      });
+    });
+
+    it('should reject transactions created in a non-initial status', async () => {
+      await expect(
+        service.recordCreated({ id: 'txn-1', type: 'PAYMENT', status: 'COMPLETED' })
+      ).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+      expect(prisma.transactionStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,6 @@
+export * from './transaction-state.types.js';
+export {
+  transactionStateService,
+  TransactionStateService,
+  TRANSACTION_TRANSITIONS,
+} from './transaction-state.service.js';
@@ -0,0 +1,199 @@
+import { Prisma, Transaction, TransactionStatus, TransactionType } from '@prisma/client';
+import { prisma } from '../../shared/database/prisma.js';
+import { logger } from '../../shared/utils/logger.js';
+import { merchantWebhookService } from '../merchant-webhook/merchant-webhook.service.js';
+import { TransactionStateError, TransitionRequest, TransitionTable } from './transaction-state.types.js';
+
+const {
+  PENDING,
+  PROCESSING,
+  REQUIRES_ACTION,
+  PARTIALLY_CAPTURED,
+  COMPLETED,
+  FAILED,
+  PARTIALLY_REFUNDED,
+  REFUNDED,
+  CANCELLED,
+} = TransactionStatus;
+
+// Legal status changes per transaction type. Staying in the same status is always
+// allowed and only updates the other columns.
+export const TRANSACTION_TRANSITIONS: TransitionTable = {
+  [TransactionType.PAYMENT]: {
+    initial: [PENDING],
+    transitions: {
+      // PENDING doubles as "authorized, awaiting capture"
+      [PENDING]: [PROCESSING, PARTIALLY_CAPTURED, COMPLETED, FAILED, CANCELLED],
+      [PROCESSING]: [PENDING, REQUIRES_ACTION, COMPLETED, FAILED],
+      // Waiting on a 3-D Secure challenge
+      [REQUIRES_ACTION]: [PENDING, COMPLETED, FAILED, CANCELLED],
+      [PARTIALLY_CAPTURED]: [COMPLETED],
+      [COMPLETED]: [PARTIALLY_REFUNDED, REFUNDED],
+      [PARTIALLY_REFUNDED]: [REFUNDED],
+    },
+  },
+  [TransactionType.REFUND]: {
+    initial: [PENDING],
+    transitions: {
+      [PENDING]: [PROCESSING, COMPLETED, FAILED],
+      [PROCESSING]: [COMPLETED, FAILED],
+    },
+  },
+  [TransactionType.PAYOUT]: {
+    initial: [PENDING],
+    transitions: {
+      [PENDING]: [PROCESSING, COMPLETED, FAILED],
+      [PROCESSING]: [COMPLETED, FAILED],
+    },
+  },
+  [TransactionType.TRANSFER]: {
+    initial: [COMPLETED],
+    transitions: {
+      [COMPLETED]: [PARTIALLY_REFUNDED, REFUNDED],
+      [PARTIALLY_REFUNDED]: [REFUNDED],
+    },
+  },
+};
+
+export class TransactionStateService {
+  private static instance: TransactionStateService | null = null;
+
+  private constructor() {}
+
+  static getInstance(): TransactionStateService {
+    if (!TransactionStateService.instance) {
+      TransactionStateService.instance = new TransactionStateService();
+    }
+    return TransactionStateService.instance;
+  }
+
+  canTransition(
+    type: TransactionType,
+    fromStatus: TransactionStatus,
+    toStatus: TransactionStatus
+  ): boolean {
+    if (fromStatus === toStatus) {
+      return true;
+    }
+    return TRANSACTION_TRANSITIONS[type].transitions[fromStatus]?.includes(toStatus) ?? false;
+  }
+
+  /**
+   * Write the opening history entry for a newly created transaction.
+   * Pass the caller's transaction client to record it atomically with the insert.
+   */
+  async recordCreated(
+    transaction: Pick<Transaction, 'id' | 'type' | 'status'>,
+    tx?: Prisma.TransactionClient
+  ): Promise<void> {
+    if (!TRANSACTION_TRANSITIONS[transaction.type].initial.includes(transaction.status)) {
+      throw TransactionStateError.invalidTransition(
+        transaction.id,
+        transaction.type,
+        null,
+        transaction.status
+      );
+    }
+
+    await (tx ?? prisma).transactionStatusHistory.create({
+      data: {
+        transactionId: transaction.id,
+        fromStatus: null,
+        toStatus: transaction.status,
+      },
+    });
+
+    if (!tx) {
+      await merchantWebhookService.publishTransactionStatus(transaction.id, transaction.status);
+    }
+  }
+
+  /**
+   * Move a transaction to a new status, writing the status, any extra columns and
+   * the history entry in one database transaction.
+   *
+   * When given a transaction client the change joins the caller's transaction and
+   * the caller is responsible for publishing merchant events after it commits.
+   */
+  async transition(
+    request: TransitionRequest,
+    tx?: Prisma.TransactionClient
+  ): Promise<Transaction> {
+    if (tx) {
+      const { transaction } = await this.applyTransition(tx, request);
+      return transaction;
+    }
+
+    const { transaction, previousStatus } = await prisma.$transaction((client) =>
+      this.applyTransition(client, request)
+    );
+
+    if (transaction.status !== previousStatus) {
+      await merchantWebhookService.publishTransactionStatus(transaction.id, transaction.status);
+    }
+
+    return transaction;
+  }
+
+  private async applyTransition(
+    tx: Prisma.TransactionClient,
+    request: TransitionRequest
+  ): Promise<{ transaction: Transaction; previousStatus: TransactionStatus }> {
+    const current = await tx.transaction.findUnique({
+      where: { id: request.transactionId },
+      select: { id: true, type: true, status: true },
+    });
+
+    if (!current) {
+      throw TransactionStateError.notFound(request.transactionId);
+    }
+
+    if (request.from !== undefined) {
+      const expected = Array.isArray(request.from) ? request.from : [request.from];
+      if (!expected.includes(current.status)) {
+        throw TransactionStateError.unexpectedStatus(current.id, current.status, expected);
+      }
+    }
+
+    if (!this.canTransition(current.type, current.status, request.to)) {
+      throw TransactionStateError.invalidTransition(current.id, current.type, current.status, request.to);
+    }
+
+    let transaction: Transaction;
+    try {
+      // Guarding on the status we read turns a concurrent change into a miss rather than a lost update
+      transaction = await tx.transaction.update({
+        where: { id: current.id, status: current.status },
+        data: { ...request.data, status: request.to },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw TransactionStateError.concurrentModification(current.id);
+      }
+      throw error;
+    }
+
+    if (current.status !== request.to) {
+      await tx.transactionStatusHistory.create({
+        data: {
+          transactionId: current.id,
+          fromStatus: current.status,
+          toStatus: request.to,
+          reason: request.reason,
+          metadata: (request.metadata ?? {}) as object,
+        },
+      });
+
+      logger.debug('Transaction status changed', {
+        transactionId: current.id,
+        type: current.type,
+        fromStatus: current.status,
+        toStatus: request.to,
+      });
+    }
+
+    return { transaction, previousStatus: current.status };
+  }
+}
+
+export const transactionStateService = TransactionStateService.getInstance();
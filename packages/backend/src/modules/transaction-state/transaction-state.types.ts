@@ -0,0 +1,73 @@
+import { Prisma, TransactionStatus, TransactionType } from '@prisma/client';
+
+export interface TransitionRequest {
+  transactionId: string;
+  to: TransactionStatus;
+  // Statuses the caller expects the transaction to be in; anything else is rejected
+  from?: TransactionStatus | TransactionStatus[];
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  // Additional columns to write in the same update as the status
+  data?: Omit<Prisma.TransactionUncheckedUpdateInput, 'status'>;
+}
+
+export type TransitionTable = Record<
+  TransactionType,
+  {
+    initial: TransactionStatus[];
+    transitions: Partial<Record<TransactionStatus, TransactionStatus[]>>;
+  }
+>;
+
+export class TransactionStateError extends Error {
+  public readonly code: string;
+  public readonly transactionId?: string;
+
+  constructor(message: string, code: string, transactionId?: string) {
+    super(message);
+    this.name = 'TransactionStateError';
+    this.code = code;
+    this.transactionId = transactionId;
+  }
+
+  static notFound(transactionId: string): TransactionStateError {
+    return new TransactionStateError(
+      `Transaction ${transactionId} not found`,
+      'NOT_FOUND',
+      transactionId
+    );
+  }
+
+  static invalidTransition(
+    transactionId: string,
+    type: TransactionType,
+    fromStatus: TransactionStatus | null,
+    toStatus: TransactionStatus
+  ): TransactionStateError {
+    return new TransactionStateError(
+      `${type} transaction ${transactionId} cannot move from ${fromStatus ?? 'creation'} to ${toStatus}`,
+      'INVALID_TRANSITION',
+      transactionId
+    );
+  }
+
+  static unexpectedStatus(
+    transactionId: string,
+    currentStatus: TransactionStatus,
+    expected: TransactionStatus[]
+  ): TransactionStateError {
+    return new TransactionStateError(
+      `Transaction ${transactionId} is ${currentStatus}, expected ${expected.join(' or ')}`,
+      'UNEXPECTED_STATUS',
+      transactionId
+    );
+  }
+
+  static concurrentModification(transactionId: string): TransactionStateError {
+    return new TransactionStateError(
+      `Transaction ${transactionId} was modified concurrently`,
+      'CONCURRENT_MODIFICATION',
+      transactionId
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import request from 'supertest';
 import { createApp } from '../../app';
 import * as database from '../../shared/database';
+import { paymentQueueService } from '../../modules/payment/payment-queue.service';
+import { paymentWorkerService } from '../../modules/payment/payment-worker.service';
 
 // Mock database functions
 jest.mock('../../shared/database', () => ({
@@ -8,6 +10,14 @@ jest.mock('../../shared/database', () => ({
   checkRedisHealth: jest.fn(),
 }));
 
+jest.mock('../../modules/payment/payment-queue.service', () => ({
+  paymentQueueService: { getDepth: jest.fn() },
+}));
+
+jest.mock('../../modules/payment/payment-worker.service', () => ({
+  paymentWorkerService: { getHealth: jest.fn() },
+}));
+
 // Mock config
 jest.mock('../../config', () => ({
   config: {
@@ -32,6 +42,13 @@ jest.mock('../../config', () => ({
 describe('Health Routes', () => {
   const app = createApp();
 
+  beforeEach(() => {
+    (paymentQueueService.getDepth as jest.Mock).mockResolvedValue({ ready: 3, inFlight: 1, deadLettered: 0 });
+    (paymentWorkerService.getHealth as jest.Mock).mockReturnValue({
+      running: true, workers: 4, busy: 1, stalled: 0, processed: 10, failed: 0,
+    });
+  });
+
   describe('GET /api/v1/health', () => {
     it('should return healthy status', async () => {
       const response = await request(app).get('/api/v1/health');
@@ -55,6 +72,24 @@ describe('Health Routes', () => {
       expect(response.body).toHaveProperty('status', 'ready');
       expect(response.body.checks.database.status).toBe('up');
       expect(response.body.checks.redis.status).toBe('up');
+      expect(response.body.checks.paymentQueue).toMatchObject({
+        status: 'up',
+        depth: { ready: 3, inFlight: 1, deadLettered: 0 },
+        workers: { workers: 4, busy: 1 },
+      });
+    });
+
+    it('should return not_ready when every payment worker is stalled', async () => {
+      (database.checkDatabaseHealth as jest.Mock).mockResolvedValue(true);
+      (database.checkRedisHealth as jest.Mock).mockResolvedValue(true);
+      (paymentWorkerService.getHealth as jest.Mock).mockReturnValue({
+        running: true, workers: 4, busy: 4, stalled: 4, processed: 10, failed: 0,
+      });
+
+      const response = await request(app).get('/api/v1/health/ready');
+
+      expect(response.status).toBe(503);
+      expect(response.body.checks.paymentQueue.status).toBe('down');
     });
 
     it('should return not_ready when database is down', async () => {
@@ -1,5 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { checkDatabaseHealth, checkRedisHealth } from '../shared/database/index.js';
+import { paymentQueueService } from '../modules/payment/payment-queue.service.js';
+import { paymentWorkerService } from '../modules/payment/payment-worker.service.js';
+import { PaymentQueueDepth, PaymentWorkerHealth } from '../modules/payment/payment.types.js';
 
 const router = Router();
 
@@ -22,6 +25,11 @@ interface ReadinessResponse {
       status: 'up' | 'down';
       latency?: number;
     };
+    paymentQueue: {
+      status: 'up' | 'down';
+      depth?: PaymentQueueDepth;
+      workers: PaymentWorkerHealth;
+    };
   };
 }
 
@@ -37,7 +45,7 @@ router.get('/', (_req: Request, res: Response) => {
   res.status(200).json(response);
 });
 
-// GET /api/v1/health/ready - Readiness check (DB + Redis)
+// GET /api/v1/health/ready - Readiness check (DB, Redis and the async payment queue)
 router.get('/ready', async (_req: Request, res: Response) => {
   const dbStart = Date.now();
   const dbHealthy = await checkDatabaseHealth();
@@ -47,7 +55,12 @@ router.get('/ready', async (_req: Request, res: Response) => {
   const redisHealthy = await checkRedisHealth();
   const redisLatency = Date.now() - redisStart;
 
-  const isReady = dbHealthy && redisHealthy;
+  const queueDepth = await paymentQueueService.getDepth().catch(() => undefined);
+  const workers = paymentWorkerService.getHealth();
+  // Down when the queue can't be read or every running worker is stuck
+  const queueHealthy = queueDepth !== undefined && !(workers.workers > 0 && workers.stalled === workers.workers);
+
+  const isReady = dbHealthy && redisHealthy && queueHealthy;
 
   const response: ReadinessResponse = {
     status: isReady ? 'ready' : 'not_ready',
@@ -61,6 +74,11 @@ router.get('/ready', async (_req: Request, res: Response) => {
         status: redisHealthy ? 'up' : 'down',
         latency: redisHealthy ? redisLatency : undefined,
       },
+      paymentQueue: {
+        status: queueHealthy ? 'up' : 'down',
+        depth: queueDepth,
+        workers,
+      },
     },
   };
 
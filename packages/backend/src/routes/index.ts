@@ -10,7 +10,14 @@ import { merchantRoutes } from '../modules/merchant/index.js';
 import { authRoutes } from '../modules/auth/index.js';
 import { analyticsRoutes } from '../modules/analytics/index.js';
 import { fraudRoutes } from '../modules/fraud/index.js';
+import { disputeRoutes } from '../modules/dispute/index.js';
 import { reconciliationRoutes } from '../modules/reconciliation/index.js';
+import { merchantWebhookRoutes } from '../modules/merchant-webhook/index.js';
+import { payoutRoutes } from '../modules/payout/index.js';
+import { productRoutes, subscriptionRoutes } from '../modules/subscription/index.js';
+import { paymentLinkRoutes } from '../modules/payment-link/index.js';
+import { paymentBatchRoutes } from '../modules/payment-batch/index.js';
+import { paymentExportRoutes } from '../modules/payment-export/index.js';
 
 const router = Router();
 
@@ -22,6 +29,10 @@ router.use('/health', healthRoutes);
 
 // Core payment routes
 router.use('/payments', paymentRoutes);
+router.use('/payouts', payoutRoutes);
+router.use('/payment-links', paymentLinkRoutes);
+router.use('/payment-batches', paymentBatchRoutes);
+router.use('/payment-exports', paymentExportRoutes);
 router.use('/providers', providerRoutes);
 router.use('/fx', fxRoutes);
 router.use('/routing', routingRoutes);
@@ -33,12 +44,18 @@ router.use('/ledger', ledgerRoutes);
 // Payment method routes
 router.use('/payment-methods', paymentMethodRoutes);
 
+// Recurring billing routes
+router.use('/products', productRoutes);
+router.use('/subscriptions', subscriptionRoutes);
+
 // Merchant & customer routes
 router.use('/merchants', merchantRoutes);
+router.use('/webhook-endpoints', merchantWebhookRoutes);
 
-// Analytics, fraud & reconciliation routes
+// Analytics, fraud, disputes & reconciliation routes
 router.use('/analytics', analyticsRoutes);
 router.use('/fraud', fraudRoutes);
+router.use('/disputes', disputeRoutes);
 router.use('/reconciliation', reconciliationRoutes);
 
 export default router;
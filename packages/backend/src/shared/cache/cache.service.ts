@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { getRedisClient } from '../database/redis.js';
 import { logger } from '../utils/logger.js';
 
@@ -56,6 +57,20 @@ export class CacheService {
     }
   }
 
+  /**
+   * Set a value only if the key does not exist yet. Returns null when Redis is unavailable.
+   */
+  async setIfNotExists<T>(key: string, value: T, ttlSeconds: number): Promise<boolean | null> {
+    try {
+      const client = getRedisClient();
+      const result = await client.set(this.getKey(key), JSON.stringify(value), 'EX', ttlSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Cache setIfNotExists error', { key, ttlSeconds, error: (error as Error).message });
+      return null;
+    }
+  }
+
   async delete(key: string): Promise<boolean> {
     try {
       const client = getRedisClient();
@@ -142,6 +157,38 @@ export class CacheService {
     }
   }
 
+  /**
+   * Acquire a distributed lock. Returns a token to release it with, or null if held elsewhere.
+   */
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    try {
+      const client = getRedisClient();
+      const token = crypto.randomUUID();
+      const result = await client.set(this.getKey(`lock:${key}`), token, 'PX', ttlMs, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logger.error('Cache acquireLock error', { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      const client = getRedisClient();
+      // Only delete the lock if it is still ours
+      const result = await client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        this.getKey(`lock:${key}`),
+        token
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error('Cache releaseLock error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
   async deletePattern(pattern: string): Promise<number> {
     try {
       const client = getRedisClient();
@@ -0,0 +1,159 @@
+import express, { Express } from 'express';
+import request from 'supertest';
+import { idempotencyMiddleware } from '../idempotency';
+import { errorHandler } from '../error-handler';
+
+const store = new Map<string, unknown>();
+
+jest.mock('../../cache/cache.service', () => ({
+  cacheService: {
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    setIfNotExists: jest.fn((key: string, value: unknown) => {
+      if (store.has(key)) return Promise.resolve(false);
+      store.set(key, value);
+      return Promise.resolve(true);
+    }),
+    setWithTTL: jest.fn((key: string, value: unknown) => {
+      store.set(key, value);
+      return Promise.resolve(true);
+    }),
+    delete: jest.fn((key: string) => {
+      store.delete(key);
+      return Promise.resolve(true);
+    }),
+    setExpiry: jest.fn(() => Promise.resolve(true)),
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../config', () => ({
+  config: { env: { NODE_ENV: 'test', IDEMPOTENCY_KEY_TTL_SECONDS: 86400 } },
+}));
+
+import { cacheService } from '../../cache/cache.service';
+
+describe('idempotencyMiddleware', () => {
+  let app: Express;
+  let handled: number;
+  let releaseSlowRequest: () => void;
+
+  beforeEach(() => {
+    store.clear();
+    jest.clearAllMocks();
+    handled = 0;
+
+    app = express();
+    app.use(express.json());
+    app.use(idempotencyMiddleware);
+    app.post('/payments', (req, res) => {
+      handled++;
+      res.status(201).json({ success: true, data: { id: `txn-${handled}`, amount: req.body.amount } });
+    });
+    app.post('/slow', (_req, res) => {
+      handled++;
+      releaseSlowRequest = () => res.status(201).json({ success: true });
+    });
+    app.post('/broken', (_req, res) => {
+      handled++;
+      res.status(500).json({ success: false });
+    });
+    app.use(errorHandler);
+  });
+
+  it('should pass through requests without a key', async () => {
+    await request(app).post('/payments').send({ amount: 100 });
+    await request(app).post('/payments').send({ amount: 100 });
+
+    expect(handled).toBe(2);
+    expect(cacheService.setIfNotExists).not.toHaveBeenCalled();
+  });
+
+  it('should replay the stored response for an identical retry', async () => {
+    const first = await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ amount: 100 });
+    const retry = await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ amount: 100 });
+
+    expect(handled).toBe(1);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('should treat bodies with reordered keys as identical', async () => {
+    await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ amount: 100, currency: 'USD' });
+    const retry = await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ currency: 'USD', amount: 100 });
+
+    expect(handled).toBe(1);
+    expect(retry.status).toBe(201);
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ amount: 100 });
+    const retry = await request(app).post('/payments').set('Idempotency-Key', 'key-1').send({ amount: 200 });
+
+    expect(handled).toBe(1);
+    expect(retry.status).toBe(422);
+    expect(retry.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('should return 409 while the original request is in flight', async () => {
+    const server = app.listen(0);
+
+    try {
+      const original = request(server).post('/slow').set('Idempotency-Key', 'key-2').send({}).then((r) => r);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const retry = await request(server).post('/slow').set('Idempotency-Key', 'key-2').send({});
+      expect(retry.status).toBe(409);
+      expect(retry.body.error.code).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+
+      releaseSlowRequest();
+      expect((await original).status).toBe(201);
+      expect(handled).toBe(1);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should keep the key locked for as long as the original request runs', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const server = app.listen(0);
+
+    try {
+      const original = request(server).post('/slow').set('Idempotency-Key', 'key-4').send({}).then((r) => r);
+      while (handled === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      await jest.advanceTimersByTimeAsync(90000);
+      expect(cacheService.setExpiry).toHaveBeenCalledTimes(4);
+      expect(cacheService.setExpiry).toHaveBeenCalledWith(expect.stringContaining(':key-4'), 60);
+
+      releaseSlowRequest();
+      expect((await original).status).toBe(201);
+
+      (cacheService.setExpiry as jest.Mock).mockClear();
+      await jest.advanceTimersByTimeAsync(90000);
+      expect(cacheService.setExpiry).not.toHaveBeenCalled();
+    } finally {
+      server.close();
+      jest.useRealTimers();
+    }
+  });
+
+  it('should release the key after a server error so the client can retry', async () => {
+    await request(app).post('/broken').set('Idempotency-Key', 'key-3').send({});
+    await request(app).post('/broken').set('Idempotency-Key', 'key-3').send({});
+
+    expect(handled).toBe(2);
+  });
+
+  it('should reject an over-long key', async () => {
+    const response = await request(app).post('/payments').set('Idempotency-Key', 'k'.repeat(256)).send({});
+
+    expect(response.status).toBe(400);
+    expect(handled).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { config } from '../../config/index.js';
+import { cacheService } from '../cache/cache.service.js';
+import { AppError } from '../errors/app-error.js';
+import { logger } from '../utils/logger.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+const IDEMPOTENT_METHODS = ['POST', 'PATCH'];
+const MAX_KEY_LENGTH = 255;
+
+// How long a key stays locked if the instance handling it dies mid-request
+const IN_FLIGHT_TTL_SECONDS = 60;
+// The lock is extended while the request runs, so slow requests keep it
+const IN_FLIGHT_REFRESH_MS = (IN_FLIGHT_TTL_SECONDS * 1000) / 3;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: 'in_progress' | 'completed';
+  statusCode?: number;
+  body?: unknown;
+}
+
+/**
+ * Replays the stored response for retried POST/PATCH requests carrying the same
+ * Idempotency-Key. A key reused with a different request is rejected with 422,
+ * and a retry that arrives while the original is still running gets 409.
+ */
+export const idempotencyMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  handleIdempotency(req, res, next).catch(next);
+};
+
+async function handleIdempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const idempotencyKey = req.header(IDEMPOTENCY_KEY_HEADER);
+
+  if (!IDEMPOTENT_METHODS.includes(req.method) || idempotencyKey === undefined) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length === 0 || idempotencyKey.length > MAX_KEY_LENGTH) {
+    next(AppError.badRequest(
+      `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      'INVALID_IDEMPOTENCY_KEY'
+    ));
+    return;
+  }
+
+  const cacheKey = `idempotency:${getScope(req)}:${idempotencyKey}`;
+  const fingerprint = getFingerprint(req);
+
+  const acquired = await cacheService.setIfNotExists<IdempotencyRecord>(
+    cacheKey,
+    { fingerprint, state: 'in_progress' },
+    IN_FLIGHT_TTL_SECONDS
+  );
+
+  if (acquired === null) {
+    // Redis is unavailable: process the request without idempotency protection
+    logger.warn('Idempotency store unavailable, skipping', { requestId: req.requestId });
+    next();
+    return;
+  }
+
+  if (!acquired) {
+    const existing = await cacheService.get<IdempotencyRecord>(cacheKey);
+    handleExistingRecord(existing, fingerprint, res, next);
+    return;
+  }
+
+  captureResponse(res, cacheKey, fingerprint);
+  next();
+}
+
+function handleExistingRecord(
+  record: IdempotencyRecord | null,
+  fingerprint: string,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!record) {
+    // The original attempt just finished with a server error and released the key
+    next(AppError.conflict(
+      'A request with this Idempotency-Key was just processed, retry shortly',
+      'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+    ));
+    return;
+  }
+
+  if (record.fingerprint !== fingerprint) {
+    next(AppError.unprocessableEntity(
+      'Idempotency-Key was already used with a different request',
+      'IDEMPOTENCY_KEY_REUSED'
+    ));
+    return;
+  }
+
+  if (record.state === 'in_progress') {
+    next(AppError.conflict(
+      'A request with this Idempotency-Key is still being processed',
+      'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+    ));
+    return;
+  }
+
+  res.setHeader('Idempotent-Replayed', 'true');
+  res.status(record.statusCode ?? 200).json(record.body);
+}
+
+function captureResponse(res: Response, cacheKey: string, fingerprint: string): void {
+  const originalJson = res.json.bind(res);
+  let responseBody: unknown;
+
+  const heartbeat = setInterval(() => {
+    void cacheService.setExpiry(cacheKey, IN_FLIGHT_TTL_SECONDS);
+  }, IN_FLIGHT_REFRESH_MS);
+  heartbeat.unref();
+
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  res.on('finish', () => {
+    clearInterval(heartbeat);
+
+    // Server errors are not stored so the client can safely retry with the same key
+    if (res.statusCode >= 500) {
+      void cacheService.delete(cacheKey);
+      return;
+    }
+
+    void cacheService.setWithTTL<IdempotencyRecord>(
+      cacheKey,
+      { fingerprint, state: 'completed', statusCode: res.statusCode, body: responseBody },
+      config.env.IDEMPOTENCY_KEY_TTL_SECONDS
+    );
+  });
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+
+    if (!res.writableFinished) {
+      void cacheService.delete(cacheKey);
+    }
+  });
+}
+
+/**
+ * Keys are namespaced by the caller's credentials so clients cannot collide.
+ */
+function getScope(req: Request): string {
+  const credentials = req.header('authorization');
+  return credentials
+    ? crypto.createHash('sha256').update(credentials).digest('hex').slice(0, 16)
+    : 'public';
+}
+
+function getFingerprint(req: Request): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalize(req.body)}`)
+    .digest('hex');
+}
+
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
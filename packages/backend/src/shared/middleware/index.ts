@@ -3,3 +3,4 @@ export { requestIdMiddleware } from './request-id.js';
 export { rateLimiter } from './rate-limiter.js';
 export { validateRequest } from './validate-request.js';
 export { notFoundHandler } from './not-found.js';
+export { idempotencyMiddleware } from './idempotency.js';
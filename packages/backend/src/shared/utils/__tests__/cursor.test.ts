@@ -0,0 +1,39 @@
+import { decodeCursor, encodeCursor, keysetWhere, toCursorPage } from '../cursor';
+import { AppError } from '../../errors/app-error';
+
+describe('keyset cursors', () => {
+  const rows = [
+    { id: 'c', createdAt: new Date('2024-03-03T00:00:00.000Z') },
+    { id: 'b', createdAt: new Date('2024-03-02T00:00:00.000Z') },
+    { id: 'a', createdAt: new Date('2024-03-02T00:00:00.000Z') },
+  ];
+
+  it('should round-trip through an opaque cursor', () => {
+    const cursor = encodeCursor(rows[1]!);
+
+    expect(cursor).not.toContain('2024');
+    expect(decodeCursor(cursor)).toEqual({ id: 'b', createdAt: rows[1]!.createdAt });
+  });
+
+  it('should reject cursors it did not issue', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(AppError);
+    expect(() => decodeCursor(Buffer.from('["soon","a"]').toString('base64url'))).toThrow(AppError);
+  });
+
+  it('should continue after the cursor row, breaking timestamp ties by id', () => {
+    expect(keysetWhere({ id: 'b', createdAt: rows[1]!.createdAt })).toEqual({
+      OR: [
+        { createdAt: { lt: rows[1]!.createdAt } },
+        { createdAt: rows[1]!.createdAt, id: { lt: 'b' } },
+      ],
+    });
+  });
+
+  it('should only return a next cursor when the extra row was fetched', () => {
+    const page = toCursorPage(rows, 2);
+
+    expect(page.items).toHaveLength(2);
+    expect(page.pagination).toEqual({ limit: 2, hasMore: true, nextCursor: encodeCursor(rows[1]!) });
+    expect(toCursorPage(rows, 3).pagination).toEqual({ limit: 3, hasMore: false, nextCursor: null });
+  });
+});
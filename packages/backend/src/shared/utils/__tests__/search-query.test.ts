@@ -0,0 +1,66 @@
+import { compileSearchQuery, parseSearchQuery, SearchSchema } from '../search-query';
+import { AppError } from '../../errors/app-error';
+
+const schema: SearchSchema = {
+  fields: {
+    status: { type: 'enum', values: ['PENDING', 'COMPLETED', 'FAILED'] },
+    amount: { type: 'bigint' },
+    provider: { type: 'string', field: 'provider.code' },
+    description: { type: 'text' },
+    createdAt: { type: 'date' },
+  },
+  jsonField: 'metadata',
+  textFields: ['description'],
+  aliases: { orderId: 'metadata.orderId' },
+};
+
+describe('parseSearchQuery', () => {
+  it('should split terms and keep quoted values together', () => {
+    expect(parseSearchQuery('status:FAILED  -provider:stripe description:"late fee" amount>=5000 refund')).toEqual([
+      { key: 'status', operator: ':', value: 'FAILED', negated: false },
+      { key: 'provider', operator: ':', value: 'stripe', negated: true },
+      { key: 'description', operator: ':', value: 'late fee', negated: false },
+      { key: 'amount', operator: '>=', value: '5000', negated: false },
+      { operator: ':', value: 'refund', negated: false },
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseSearchQuery('description:"late fee')).toThrow(AppError);
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('should compile fields, relations and metadata keys into Prisma filters', () => {
+    expect(compileSearchQuery('status:failed amount>5000 provider:stripe metadata.orderId:123', schema)).toEqual([
+      { status: 'FAILED' },
+      { amount: { gt: 5000n } },
+      { provider: { code: 'stripe' } },
+      {
+        OR: [
+          { metadata: { path: ['orderId'], equals: '123' } },
+          { metadata: { path: ['orderId'], equals: 123 } },
+        ],
+      },
+    ]);
+  });
+
+  it('should support enum lists, negation, aliases, day ranges and free text', () => {
+    expect(compileSearchQuery('status:PENDING,FAILED -orderId:abc createdAt:2024-03-01 late', schema)).toEqual([
+      { status: { in: ['PENDING', 'FAILED'] } },
+      { NOT: { metadata: { path: ['orderId'], equals: 'abc' } } },
+      { createdAt: { gte: new Date('2024-03-01T00:00:00.000Z'), lt: new Date('2024-03-02T00:00:00.000Z') } },
+      { OR: [{ description: { contains: 'late', mode: 'insensitive' } }] },
+    ]);
+  });
+
+  it.each([
+    ['unknown fields', 'merchant:abc'],
+    ['values outside an enum', 'status:LOST'],
+    ['non-integer amounts', 'amount>12.50'],
+    ['comparisons on text', 'description>abc'],
+    ['invalid dates', 'createdAt>yesterday'],
+  ])('should reject %s', (_, query) => {
+    expect(() => compileSearchQuery(query, schema)).toThrow(AppError);
+  });
+});
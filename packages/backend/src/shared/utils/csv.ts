@@ -0,0 +1,99 @@
+/**
+ * Parse RFC 4180 CSV into one record per data row, keyed by the header row.
+ * Empty cells are left out so optional columns read as missing.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = splitRows(text.replace(/^\uFEFF/, ''));
+  const [header, ...body] = rows;
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+
+  return body
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''))
+    .map((cells) => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        const value = cells[index]?.trim();
+        if (column && value) {
+          record[column] = value;
+        }
+      });
+      return record;
+    });
+}
+
+/**
+ * Render rows as CSV, quoting any value that contains a delimiter, quote or newline.
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, unknown>>): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ];
+  return lines.join('\n');
+}
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape a value for a CSV file meant to be opened in a spreadsheet. Text that
+ * starts like a formula gets a leading quote so it is shown rather than run.
+ */
+export function escapeSpreadsheetCsvValue(value: unknown): string {
+  return escapeCsvValue(typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+}
+
+function splitRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,83 @@
+import { AppError } from '../errors/app-error.js';
+
+/** Position of the last row on a page, newest-first by (createdAt, id) */
+export interface KeysetCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface CursorPagination {
+  limit: number;
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/** Ordering that keyset pages rely on; id breaks ties between equal timestamps */
+export const KEYSET_ORDER_BY: Array<{ createdAt: 'desc' } | { id: 'desc' }> = [
+  { createdAt: 'desc' },
+  { id: 'desc' },
+];
+
+export function encodeCursor(row: KeysetCursor): string {
+  return Buffer.from(JSON.stringify([row.createdAt.toISOString(), row.id])).toString('base64url');
+}
+
+/**
+ * Read a cursor from encodeCursor. Cursors are opaque to clients, so anything
+ * that does not decode is rejected as a bad request.
+ */
+export function decodeCursor(cursor: string): KeysetCursor {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (Array.isArray(decoded) && decoded.length === 2) {
+      const [createdAt, id] = decoded as unknown[];
+      const date = typeof createdAt === 'string' ? new Date(createdAt) : null;
+
+      if (date && !Number.isNaN(date.getTime()) && typeof id === 'string' && id) {
+        return { createdAt: date, id };
+      }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw AppError.badRequest('Invalid pagination cursor', 'INVALID_CURSOR');
+}
+
+/**
+ * Filter for the rows after the cursor in KEYSET_ORDER_BY order.
+ */
+export function keysetWhere(cursor: KeysetCursor): {
+  OR: Array<{ createdAt: Date | { lt: Date }; id?: { lt: string } }>;
+} {
+  return {
+    OR: [
+      { createdAt: { lt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Trim a page fetched with `take: limit + 1` and work out the next cursor
+ * from the extra row's presence.
+ */
+export function toCursorPage<T extends KeysetCursor>(
+  rows: T[],
+  limit: number
+): { items: T[]; pagination: CursorPagination } {
+  const items = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    pagination: {
+      limit,
+      nextCursor: hasMore && last ? encodeCursor(last) : null,
+      hasMore,
+    },
+  };
+}
@@ -1 +1,7 @@
 export { logger } from './logger.js';
+export { parseCsv, toCsv, escapeCsvValue, escapeSpreadsheetCsvValue } from './csv.js';
+export { formatMinorUnits } from './money.js';
+export { encodeCursor, decodeCursor, keysetWhere, toCursorPage, KEYSET_ORDER_BY } from './cursor.js';
+export type { KeysetCursor, CursorPagination } from './cursor.js';
+export { parseSearchQuery, compileSearchQuery } from './search-query.js';
+export type { SearchTerm, SearchOperator, SearchField, SearchSchema } from './search-query.js';
@@ -0,0 +1,32 @@
+import { Currency } from '@prisma/client';
+
+// Digits after the decimal point in each currency's major unit
+const CURRENCY_DECIMALS: Record<Currency, number> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  SGD: 2,
+  JPY: 0,
+  AUD: 2,
+  CAD: 2,
+  CHF: 2,
+  CNY: 2,
+  HKD: 2,
+};
+
+/**
+ * Render an amount in minor units as an exact decimal string in major units,
+ * e.g. 123456n USD as "1234.56". Works on the bigint directly, so large
+ * amounts never lose precision through a float.
+ */
+export function formatMinorUnits(amount: bigint, currency: Currency): string {
+  const decimals = CURRENCY_DECIMALS[currency];
+  if (decimals === 0) {
+    return amount.toString();
+  }
+
+  const sign = amount < 0n ? '-' : '';
+  const digits = (amount < 0n ? -amount : amount).toString().padStart(decimals + 1, '0');
+
+  return `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
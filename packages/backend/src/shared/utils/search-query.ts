@@ -0,0 +1,228 @@
+import { AppError } from '../errors/app-error.js';
+
+export type SearchOperator = ':' | '>' | '>=' | '<' | '<=';
+
+/** One term of a search such as `status:FAILED`, `-provider:stripe` or `amount>=5000` */
+export interface SearchTerm {
+  /** Undefined for a bare word, which matches the schema's text fields */
+  key?: string;
+  operator: SearchOperator;
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * string: exact match
+ * text: case-insensitive substring match
+ * enum: one of `values`, or several separated by commas
+ * bigint / number: exact match or comparison
+ * date: comparison, or `:` for a whole UTC day when given as YYYY-MM-DD
+ */
+export interface SearchField {
+  type: 'string' | 'text' | 'enum' | 'bigint' | 'number' | 'date';
+  /** Prisma field to filter when it differs from the key; dotted paths reach into relations */
+  field?: string;
+  values?: readonly string[];
+}
+
+export interface SearchSchema {
+  fields: Record<string, SearchField>;
+  /** JSON column searched with dotted keys, e.g. metadata.orderId:123 */
+  jsonField?: string;
+  /** Fields a bare word is matched against */
+  textFields?: string[];
+  /** Shorter keys for fields or JSON paths, e.g. riskScore for metadata.riskScore */
+  aliases?: Record<string, string>;
+}
+
+type Where = Record<string, unknown>;
+
+const TERM_PATTERN = /^(-?)([A-Za-z_][\w.]*)(>=|<=|:|>|<)(.+)$/s;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const COMPARISONS: Record<Exclude<SearchOperator, ':'>, string> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+/**
+ * Split a search string into terms. Values containing spaces are quoted:
+ * `description:"late fee"`.
+ */
+export function parseSearchQuery(input: string): SearchTerm[] {
+  return tokenize(input).map((token) => {
+    const match = TERM_PATTERN.exec(token);
+
+    if (!match) {
+      const negated = token.startsWith('-') && token.length > 1;
+      return { operator: ':', value: unquote(negated ? token.slice(1) : token), negated };
+    }
+
+    const [, negation, key, operator, value] = match as unknown as [string, string, string, SearchOperator, string];
+    return { key, operator, value: unquote(value), negated: negation === '-' };
+  });
+}
+
+/**
+ * Compile a search string into Prisma where clauses for the given schema, to
+ * be combined with AND. Unknown keys and malformed values are bad requests.
+ */
+export function compileSearchQuery<TWhere>(input: string, schema: SearchSchema): TWhere[] {
+  return parseSearchQuery(input).map((term) => {
+    const where = compileTerm(term, schema);
+    return (term.negated ? { NOT: where } : where) as TWhere;
+  });
+}
+
+function compileTerm(term: SearchTerm, schema: SearchSchema): Where {
+  if (term.key === undefined) {
+    if (!schema.textFields?.length) {
+      throw invalid(`Use key:value terms; free text is not searchable here`);
+    }
+    return {
+      OR: schema.textFields.map((field) => nest(field, { contains: term.value, mode: 'insensitive' })),
+    };
+  }
+
+  const key = schema.aliases?.[term.key] ?? term.key;
+  const field = schema.fields[key];
+
+  if (field) {
+    return nest(field.field ?? key, compileCondition(term, field));
+  }
+
+  const [root, ...path] = key.split('.');
+  if (schema.jsonField && root === schema.jsonField && path.length > 0) {
+    return compileJsonTerm(schema.jsonField, path, term);
+  }
+
+  throw invalid(`Unknown search field "${term.key}"`);
+}
+
+function compileCondition(term: SearchTerm, field: SearchField): unknown {
+  const { key, operator, value } = term;
+
+  switch (field.type) {
+    case 'string':
+      requireEquality(term);
+      return value;
+
+    case 'text':
+      requireEquality(term);
+      return { contains: value, mode: 'insensitive' };
+
+    case 'enum': {
+      requireEquality(term);
+      const values = value.split(',').map((v) => v.trim().toUpperCase());
+      const unknown = values.find((v) => !field.values?.includes(v));
+      if (unknown !== undefined) {
+        throw invalid(`"${unknown}" is not a valid ${key}; expected one of ${field.values?.join(', ')}`);
+      }
+      return values.length === 1 ? values[0] : { in: values };
+    }
+
+    case 'bigint':
+    case 'number': {
+      const parsed = field.type === 'bigint' ? parseBigInt(value) : Number(value);
+      if (parsed === null || (typeof parsed === 'number' && !Number.isFinite(parsed))) {
+        throw invalid(`"${value}" is not a valid ${key}`);
+      }
+      return operator === ':' ? parsed : { [COMPARISONS[operator]]: parsed };
+    }
+
+    case 'date': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw invalid(`"${value}" is not a valid date for ${key}`);
+      }
+      if (operator !== ':') {
+        return { [COMPARISONS[operator]]: date };
+      }
+      return DATE_ONLY_PATTERN.test(value)
+        ? { gte: date, lt: new Date(date.getTime() + 24 * 60 * 60 * 1000) }
+        : date;
+    }
+  }
+}
+
+/**
+ * JSON values may have been stored as strings or numbers, so a numeric value
+ * matches either.
+ */
+function compileJsonTerm(column: string, path: string[], term: SearchTerm): Where {
+  const numeric = term.value.trim() !== '' && Number.isFinite(Number(term.value)) ? Number(term.value) : null;
+
+  if (term.operator !== ':') {
+    if (numeric === null) {
+      throw invalid(`"${term.value}" is not a number; ${term.key} can only be compared with numbers`);
+    }
+    return { [column]: { path, [COMPARISONS[term.operator]]: numeric } };
+  }
+
+  if (numeric === null) {
+    return { [column]: { path, equals: term.value } };
+  }
+
+  return {
+    OR: [
+      { [column]: { path, equals: term.value } },
+      { [column]: { path, equals: numeric } },
+    ],
+  };
+}
+
+function nest(field: string, condition: unknown): Where {
+  return field
+    .split('.')
+    .reduceRight<unknown>((inner, segment) => ({ [segment]: inner }), condition) as Where;
+}
+
+function requireEquality(term: SearchTerm): void {
+  if (term.operator !== ':') {
+    throw invalid(`${term.key} does not support "${term.operator}"; use ${term.key}:value`);
+  }
+}
+
+function parseBigInt(value: string): bigint | null {
+  return /^-?\d+$/.test(value) ? BigInt(value) : null;
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let token = '';
+  let quoted = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      quoted = !quoted;
+      token += char;
+    } else if (!quoted && /\s/.test(char)) {
+      if (token) {
+        tokens.push(token);
+      }
+      token = '';
+    } else {
+      token += char;
+    }
+  }
+
+  if (quoted) {
+    throw invalid('Unterminated quote in search query');
+  }
+  if (token) {
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+function invalid(message: string): AppError {
+  return AppError.badRequest(message, 'INVALID_SEARCH_QUERY');
+}
@@ -9,6 +9,8 @@ export interface PaymentListParams {
   currency?: string;
   fromDate?: string;
   toDate?: string;
+  q?: string;
+  // Page numbers return a total count; the API paginates by cursor without one
   page?: number;
   limit?: number;
 }
@@ -42,12 +44,16 @@ export const paymentsApi = {
   getById: (id: string) =>
     apiClient.get<ApiResponse<Transaction>>(`/payments/${id}`),
 
-  capture: (id: string, amount?: number) =>
-    apiClient.post<ApiResponse<Transaction>>(`/payments/${id}/capture`, { amount }),
+  capture: (id: string, amount?: number, final?: boolean) =>
+    apiClient.post<ApiResponse<Transaction>>(`/payments/${id}/capture`, { amount, final }),
 
   cancel: (id: string, reason?: string) =>
     apiClient.post<ApiResponse<Transaction>>(`/payments/${id}/cancel`, { reason }),
 
   refund: (id: string, amount?: number, reason?: string) =>
     apiClient.post<ApiResponse<Transaction>>(`/payments/${id}/refund`, { amount, reason }),
+
+  // Streamed by the server as a file download, so this is navigated to rather than fetched
+  exportUrl: (params?: Omit<PaymentListParams, 'page' | 'limit'> & { format?: 'csv' | 'ndjson'; amountFormat?: 'minor' | 'decimal' }) =>
+    apiClient.getUri({ url: '/payment-exports/stream', params }),
 };
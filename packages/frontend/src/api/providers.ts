@@ -16,6 +16,13 @@ export interface ProviderHealthResponse {
     avgLatency: number;
     totalTransactions: number;
     lastChecked: string;
+    circuitBreaker?: {
+      state: 'closed' | 'open' | 'half_open';
+      requests: number;
+      failures: number;
+      openedAt?: string;
+      retryAt?: string;
+    };
   };
 }
 
@@ -19,7 +19,10 @@ const STATUS_COLORS: Record<string, string> = {
   COMPLETED: '#10b981',
   PENDING: '#f59e0b',
   PROCESSING: '#3b82f6',
+  REQUIRES_ACTION: '#f97316',
+  PARTIALLY_CAPTURED: '#0ea5e9',
   FAILED: '#ef4444',
+  PARTIALLY_REFUNDED: '#a78bfa',
   REFUNDED: '#8b5cf6',
   CANCELLED: '#6b7280',
 };
@@ -29,7 +32,10 @@ function getStatusBadgeType(status: TransactionStatus) {
     COMPLETED: 'success',
     PENDING: 'pending',
     PROCESSING: 'info',
+    REQUIRES_ACTION: 'warning',
+    PARTIALLY_CAPTURED: 'info',
     FAILED: 'error',
+    PARTIALLY_REFUNDED: 'warning',
     REFUNDED: 'warning',
     CANCELLED: 'pending',
   };
@@ -48,7 +54,7 @@ function formatCurrency(amount: number, currency = 'USD') {
 export default function Dashboard() {
   const { data: health, isLoading: healthLoading } = useHealth();
   const { data: readiness, isLoading: readinessLoading } = useReadiness();
-  const { data: paymentsData, isLoading: paymentsLoading } = usePayments({ limit: 10 });
+  const { data: paymentsData, isLoading: paymentsLoading } = usePayments({ page: 1, limit: 10 });
   const { data: providers, isLoading: _providersLoading } = useProviders();
 
   const transactions = paymentsData?.data ?? [];
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { usePayments } from '../hooks';
+import { paymentsApi } from '../api';
 import { Card, StatusBadge, Button } from '../components/ui';
 import type { TransactionStatus, Currency } from '../types';
 
 const STATUS_OPTIONS: TransactionStatus[] = [
-  'PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'REFUNDED', 'CANCELLED',
+  'PENDING', 'PROCESSING', 'REQUIRES_ACTION', 'PARTIALLY_CAPTURED', 'COMPLETED', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED', 'CANCELLED',
 ];
 
 const CURRENCY_OPTIONS: Currency[] = [
@@ -16,7 +17,10 @@ function getStatusBadgeType(status: TransactionStatus) {
     COMPLETED: 'success',
     PENDING: 'pending',
     PROCESSING: 'info',
+    REQUIRES_ACTION: 'warning',
+    PARTIALLY_CAPTURED: 'info',
     FAILED: 'error',
+    PARTIALLY_REFUNDED: 'warning',
     REFUNDED: 'warning',
     CANCELLED: 'pending',
   };
@@ -93,6 +97,19 @@ export default function Transactions() {
           >
             Clear Filters
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              window.location.href = paymentsApi.exportUrl({
+                status: statusFilter || undefined,
+                currency: currencyFilter || undefined,
+                amountFormat: 'decimal',
+              });
+            }}
+          >
+            Export CSV
+          </Button>
         </div>
       </Card>
 
@@ -5,8 +5,11 @@ export type Currency = 'USD' | 'EUR' | 'GBP' | 'SGD' | 'JPY' | 'AUD' | 'CAD' | '
 export type TransactionStatus =
   | 'PENDING'
   | 'PROCESSING'
+  | 'REQUIRES_ACTION'
+  | 'PARTIALLY_CAPTURED'
   | 'COMPLETED'
   | 'FAILED'
+  | 'PARTIALLY_REFUNDED'
   | 'REFUNDED'
   | 'CANCELLED';
 
@@ -48,6 +51,11 @@ export interface Transaction {
   currency: Currency;
   convertedAmount?: number;
   convertedCurrency?: Currency;
+  authorizedAmount?: number;
+  capturedAmount?: number;
+  capturableAmount?: number;
+  refundedAmount?: number;
+  refundableAmount?: number;
   description?: string;
   createdAt: string;
   updatedAt: string;